@@ -1,5 +1,6 @@
 import React from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
+import { Loader } from 'lucide-react';
 import Layout from './components/Layout';
 import Dashboard from './pages/Dashboard';
 import Players from './pages/Players';
@@ -9,9 +10,29 @@ import Calendar from './pages/Calendar';
 import MatchSheets from './pages/MatchSheets';
 import MatchSheetCreate from './pages/MatchSheetCreate';
 import Templates from './pages/Templates';
+import Backup from './pages/Backup';
+import Users from './pages/Users';
+import Login from './pages/Login';
 import { AppProvider } from './context/AppContext';
+import { AuthProvider, useAuth } from './context/AuthContext';
+
+// Les données du club ne sont chargées qu'une fois l'utilisateur connecté
+function AuthenticatedApp() {
+  const { user, loading } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-gray-500">
+        <Loader size={24} className="animate-spin mr-2" />
+        Chargement...
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Login />;
+  }
 
-function App() {
   return (
     <AppProvider>
       <Router>
@@ -23,6 +44,8 @@ function App() {
             <Route path="tournaments" element={<Tournaments />} />
             <Route path="calendar" element={<Calendar />} />
             <Route path="templates" element={<Templates />} />
+            <Route path="backup" element={<Backup />} />
+            <Route path="users" element={<Users />} />
             <Route path="match-sheets">
               <Route index element={<MatchSheets />} />
               <Route path="create" element={<MatchSheetCreate />} />
@@ -35,4 +58,12 @@ function App() {
   );
 }
 
+function App() {
+  return (
+    <AuthProvider>
+      <AuthenticatedApp />
+    </AuthProvider>
+  );
+}
+
 export default App;
\ No newline at end of file
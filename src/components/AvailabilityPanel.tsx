@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { Tournament, PlayerAvailability, AvailabilityStatus } from '../types';
+import { X, Check, HelpCircle, Loader, UserCheck, UserX } from 'lucide-react';
+
+interface AvailabilityPanelProps {
+  tournament: Tournament;
+  onClose: () => void;
+}
+
+const statusOptions: { value: AvailabilityStatus; label: string; icon: React.ElementType; activeClass: string }[] = [
+  { value: 'available', label: 'Présent', icon: Check, activeClass: 'bg-green-600 text-white border-green-600' },
+  { value: 'unavailable', label: 'Absent', icon: X, activeClass: 'bg-red-600 text-white border-red-600' },
+  { value: 'unknown', label: 'Inconnu', icon: HelpCircle, activeClass: 'bg-gray-500 text-white border-gray-500' },
+];
+
+const AvailabilityPanel: React.FC<AvailabilityPanelProps> = ({ tournament, onClose }) => {
+  const { players, ageCategories, getTournamentAvailabilities, setPlayerAvailability, canEditCategory } = useAppContext();
+  const [availabilities, setAvailabilities] = useState<Record<string, PlayerAvailability>>({});
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [savingPlayerId, setSavingPlayerId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadAvailabilities = async () => {
+      setLoading(true);
+      const data = await getTournamentAvailabilities(tournament.id);
+      const byPlayer: Record<string, PlayerAvailability> = {};
+      const commentsByPlayer: Record<string, string> = {};
+      data.forEach(availability => {
+        byPlayer[availability.playerId] = availability;
+        commentsByPlayer[availability.playerId] = availability.comment || '';
+      });
+      setAvailabilities(byPlayer);
+      setComments(commentsByPlayer);
+      setLoading(false);
+    };
+
+    loadAvailabilities();
+  }, [tournament.id]);
+
+  const getStatus = (playerId: string): AvailabilityStatus =>
+    availabilities[playerId]?.status || 'unknown';
+
+  const saveAvailability = async (playerId: string, status: AvailabilityStatus, comment: string) => {
+    try {
+      setSavingPlayerId(playerId);
+      const saved = await setPlayerAvailability(tournament.id, playerId, status, comment);
+      if (saved) {
+        setAvailabilities(prev => ({ ...prev, [playerId]: saved }));
+      }
+    } catch (error) {
+      console.error('Error saving availability:', error);
+      alert("Erreur lors de l'enregistrement de la disponibilité.");
+    } finally {
+      setSavingPlayerId(null);
+    }
+  };
+
+  const handleCommentBlur = (playerId: string) => {
+    const comment = comments[playerId] || '';
+    if (comment !== (availabilities[playerId]?.comment || '')) {
+      saveAvailability(playerId, getStatus(playerId), comment);
+    }
+  };
+
+  // Catégories du tournoi, dans l'ordre M6, M8, M10...
+  const tournamentCategories = ageCategories
+    .filter(category => tournament.ageCategoryIds.includes(category.id))
+    .sort((a, b) => {
+      const getAgeNumber = (name: string) => {
+        const match = name.match(/M(\d+)/);
+        return match ? parseInt(match[1], 10) : 0;
+      };
+      return getAgeNumber(a.name) - getAgeNumber(b.name);
+    });
+
+  const tournamentPlayers = players.filter(player => tournament.ageCategoryIds.includes(player.ageCategoryId));
+  const availableCount = tournamentPlayers.filter(p => getStatus(p.id) === 'available').length;
+  const unavailableCount = tournamentPlayers.filter(p => getStatus(p.id) === 'unavailable').length;
+  const unknownCount = tournamentPlayers.length - availableCount - unavailableCount;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl mx-auto overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="flex justify-between items-center p-4 border-b flex-shrink-0">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Disponibilités des joueurs</h3>
+            <p className="text-sm text-gray-500">
+              {tournament.location} - {new Date(tournament.date).toLocaleDateString('fr-FR')}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-4 grid grid-cols-3 gap-4 border-b flex-shrink-0">
+          <div className="bg-green-50 p-3 rounded-lg">
+            <div className="flex items-center text-green-700 mb-1">
+              <UserCheck size={16} className="mr-1" />
+              <span className="text-sm font-medium">Présents</span>
+            </div>
+            <p className="text-2xl font-bold text-green-900">{availableCount}</p>
+          </div>
+          <div className="bg-red-50 p-3 rounded-lg">
+            <div className="flex items-center text-red-700 mb-1">
+              <UserX size={16} className="mr-1" />
+              <span className="text-sm font-medium">Absents</span>
+            </div>
+            <p className="text-2xl font-bold text-red-900">{unavailableCount}</p>
+          </div>
+          <div className="bg-gray-50 p-3 rounded-lg">
+            <div className="flex items-center text-gray-700 mb-1">
+              <HelpCircle size={16} className="mr-1" />
+              <span className="text-sm font-medium">Sans réponse</span>
+            </div>
+            <p className="text-2xl font-bold text-gray-900">{unknownCount}</p>
+          </div>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-grow">
+          {loading ? (
+            <div className="flex items-center justify-center py-8 text-gray-500">
+              <Loader size={20} className="animate-spin mr-2" />
+              Chargement des disponibilités...
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {tournamentCategories.map(category => {
+                const categoryPlayers = tournamentPlayers
+                  .filter(player => player.ageCategoryId === category.id)
+                  .sort((a, b) => a.lastName.localeCompare(b.lastName, 'fr-FR'));
+
+                return (
+                  <div key={category.id}>
+                    <h4 className="text-sm font-semibold text-gray-700 mb-2">
+                      {category.name} <span className="font-normal text-gray-500">({categoryPlayers.length} joueurs)</span>
+                    </h4>
+                    {categoryPlayers.length === 0 ? (
+                      <p className="text-sm text-gray-500">Aucun joueur dans cette catégorie.</p>
+                    ) : (
+                      <div className="border rounded-lg divide-y divide-gray-200">
+                        {categoryPlayers.map(player => {
+                          const status = getStatus(player.id);
+                          return (
+                            <div key={player.id} className="p-3 flex flex-col sm:flex-row sm:items-center gap-2">
+                              <div className="sm:w-1/3 text-sm font-medium text-gray-900 flex items-center">
+                                {player.lastName} {player.firstName}
+                                {savingPlayerId === player.id && (
+                                  <Loader size={12} className="ml-2 animate-spin text-gray-400" />
+                                )}
+                              </div>
+                              <div className="flex space-x-1">
+                                {statusOptions.map(option => (
+                                  <button
+                                    key={option.value}
+                                    type="button"
+                                    onClick={() => saveAvailability(player.id, option.value, comments[player.id] || '')}
+                                    disabled={savingPlayerId === player.id || !canEditCategory(player.ageCategoryId)}
+                                    className={`px-2 py-1 text-xs border rounded-md flex items-center ${
+                                      status === option.value
+                                        ? option.activeClass
+                                        : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+                                    }`}
+                                  >
+                                    <option.icon size={12} className="mr-1" />
+                                    {option.label}
+                                  </button>
+                                ))}
+                              </div>
+                              <input
+                                type="text"
+                                value={comments[player.id] || ''}
+                                onChange={(e) => setComments(prev => ({ ...prev, [player.id]: e.target.value }))}
+                                onBlur={() => handleCommentBlur(player.id)}
+                                disabled={!canEditCategory(player.ageCategoryId)}
+                                placeholder="Commentaire"
+                                className="flex-grow border border-gray-300 rounded-md py-1 px-2 text-sm"
+                              />
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 bg-gray-50 border-t flex justify-end flex-shrink-0">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Fermer
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AvailabilityPanel;
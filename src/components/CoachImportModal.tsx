@@ -0,0 +1,284 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { CoachImportRow } from '../types';
+import { buildCoachImportPreview, parseCoachBackup } from '../services/CoachImportService';
+import { X, Upload, Loader, CheckCircle, AlertTriangle, ArrowLeft } from 'lucide-react';
+
+interface CoachImportModalProps {
+  onClose: () => void;
+}
+
+type ImportStep = 'upload' | 'preview' | 'summary';
+
+interface ImportSummary {
+  created: number;
+  updated: number;
+  unchanged: number;
+  failed: { rowNumber: number; name: string; message: string }[];
+}
+
+const actionLabels: Record<CoachImportRow['action'], { label: string; className: string }> = {
+  create: { label: 'Création', className: 'bg-green-100 text-green-800' },
+  update: { label: 'Mise à jour', className: 'bg-blue-100 text-blue-800' },
+  unchanged: { label: 'Inchangé', className: 'bg-gray-100 text-gray-700' },
+  error: { label: 'Erreur', className: 'bg-red-100 text-red-800' },
+};
+
+const CoachImportModal: React.FC<CoachImportModalProps> = ({ onClose }) => {
+  const { coaches, ageCategories, addCoach, updateCoach } = useAppContext();
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  // Aperçu figé à la lecture du fichier, l'import modifiant la liste des entraîneurs
+  const [previewRows, setPreviewRows] = useState<CoachImportRow[]>([]);
+  const rowsToApply = previewRows.filter(row => row.action === 'create' || row.action === 'update');
+
+  const countByAction = (action: CoachImportRow['action']) =>
+    previewRows.filter(row => row.action === action).length;
+
+  const getCategoryNames = (categoryIds: string[]) =>
+    categoryIds
+      .map(id => ageCategories.find(category => category.id === id)?.name)
+      .filter(Boolean)
+      .join(', ') || '-';
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setIsProcessing(true);
+      setFileError(null);
+      const backupCoaches = parseCoachBackup(await file.text());
+      if (backupCoaches.length === 0) {
+        throw new Error('Le fichier ne contient aucun entraîneur');
+      }
+      setFileName(file.name);
+      setPreviewRows(buildCoachImportPreview(backupCoaches, coaches, ageCategories));
+      setStep('preview');
+    } catch (error) {
+      console.error('Error reading coach import file:', error);
+      setFileError(error instanceof Error ? error.message : 'Impossible de lire le fichier.');
+    } finally {
+      setIsProcessing(false);
+      e.target.value = '';
+    }
+  };
+
+  const handleImport = async () => {
+    const result: ImportSummary = {
+      created: 0,
+      updated: 0,
+      unchanged: countByAction('unchanged'),
+      failed: previewRows
+        .filter(row => row.action === 'error')
+        .map(row => ({
+          rowNumber: row.rowNumber,
+          name: `${row.coach.lastName} ${row.coach.firstName}`.trim(),
+          message: row.errors.join(', '),
+        })),
+    };
+
+    setIsProcessing(true);
+    setProgress(0);
+
+    // Les entraîneurs sont appliqués un à un : une erreur n'interrompt pas le reste de l'import
+    for (const row of rowsToApply) {
+      try {
+        if (row.action === 'create') {
+          await addCoach(row.coach);
+          result.created++;
+        } else {
+          await updateCoach(row.coach.id, row.coach);
+          result.updated++;
+        }
+      } catch (error) {
+        console.error(`Error importing coach ${row.rowNumber}:`, error);
+        result.failed.push({
+          rowNumber: row.rowNumber,
+          name: `${row.coach.lastName} ${row.coach.firstName}`,
+          message: error instanceof Error ? error.message : 'Erreur lors de l\'enregistrement',
+        });
+      }
+      setProgress(prev => prev + 1);
+    }
+
+    result.failed.sort((a, b) => a.rowNumber - b.rowNumber);
+    setSummary(result);
+    setIsProcessing(false);
+    setStep('summary');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl mx-auto overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="flex justify-between items-center p-6 border-b flex-shrink-0">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Importer des entraîneurs</h3>
+            {fileName && <p className="text-sm text-gray-500">{fileName}</p>}
+          </div>
+          <button onClick={onClose} disabled={isProcessing} className="text-gray-400 hover:text-gray-500">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-grow">
+          {step === 'upload' && (
+            <div>
+              <p className="text-sm text-gray-600 mb-4">
+                Sélectionnez une sauvegarde JSON exportée depuis cette page. Les entraîneurs sont rapprochés par
+                numéro de licence, ou à défaut par nom et prénom : les entraîneurs existants sont mis à jour, les
+                autres créés. Les catégories sont retrouvées par leur nom.
+              </p>
+              {fileError && (
+                <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+                  {fileError}
+                </div>
+              )}
+              <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg p-8 cursor-pointer hover:border-blue-500">
+                {isProcessing ? (
+                  <Loader size={32} className="animate-spin text-gray-400 mb-2" />
+                ) : (
+                  <Upload size={32} className="text-gray-400 mb-2" />
+                )}
+                <span className="text-sm font-medium text-gray-700">Choisir un fichier .json</span>
+                <input
+                  type="file"
+                  accept=".json"
+                  onChange={handleFileChange}
+                  disabled={isProcessing}
+                  className="sr-only"
+                />
+              </label>
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div>
+              <div className="mb-4 grid grid-cols-2 sm:grid-cols-4 gap-4">
+                {(['create', 'update', 'unchanged', 'error'] as CoachImportRow['action'][]).map(action => (
+                  <div key={action} className={`p-3 rounded-lg ${actionLabels[action].className}`}>
+                    <span className="text-sm font-medium">{actionLabels[action].label}</span>
+                    <p className="text-2xl font-bold">{countByAction(action)}</p>
+                  </div>
+                ))}
+              </div>
+              <div className="border rounded-lg overflow-hidden">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">N°</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Entraîneur</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Licence</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Catégories</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Action</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {previewRows.map(row => (
+                      <tr key={row.rowNumber}>
+                        <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                        <td className="px-3 py-2 text-gray-900">
+                          {row.coach.lastName} {row.coach.firstName}
+                        </td>
+                        <td className="px-3 py-2 text-gray-500">{row.coach.licenseNumber || '-'}</td>
+                        <td className="px-3 py-2 text-gray-500">{getCategoryNames(row.coach.ageCategoryIds)}</td>
+                        <td className="px-3 py-2">
+                          <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${actionLabels[row.action].className}`}>
+                            {actionLabels[row.action].label}
+                          </span>
+                          {row.action === 'update' && (
+                            <p className="text-xs text-gray-500 mt-1">{row.changedFields.join(', ')}</p>
+                          )}
+                          {row.action === 'error' && (
+                            <p className="text-xs text-red-600 mt-1">{row.errors.join(', ')}</p>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {step === 'summary' && summary && (
+            <div className="space-y-4">
+              <div className="flex items-center text-green-700">
+                <CheckCircle size={20} className="mr-2" />
+                <span className="font-medium">Import terminé</span>
+              </div>
+              <ul className="text-sm text-gray-700 space-y-1">
+                <li>{summary.created} entraîneur(s) créé(s)</li>
+                <li>{summary.updated} entraîneur(s) mis à jour</li>
+                <li>{summary.unchanged} entraîneur(s) inchangé(s)</li>
+                <li>{summary.failed.length} entraîneur(s) ignoré(s)</li>
+              </ul>
+              {summary.failed.length > 0 && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+                  <div className="flex items-center text-yellow-800 font-medium text-sm mb-2">
+                    <AlertTriangle size={16} className="mr-2" />
+                    Entraîneurs non importés
+                  </div>
+                  <ul className="list-disc pl-5 text-sm text-yellow-700">
+                    {summary.failed.map(failure => (
+                      <li key={failure.rowNumber}>
+                        N° {failure.rowNumber} {failure.name && `(${failure.name})`} : {failure.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 bg-gray-50 border-t flex justify-end space-x-3 flex-shrink-0">
+          {step === 'preview' && (
+            <button
+              type="button"
+              onClick={() => setStep('upload')}
+              disabled={isProcessing}
+              className="mr-auto px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 inline-flex items-center"
+            >
+              <ArrowLeft size={16} className="mr-1" />
+              Retour
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isProcessing}
+            className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            {step === 'summary' ? 'Fermer' : 'Annuler'}
+          </button>
+          {step === 'preview' && (
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={isProcessing || rowsToApply.length === 0}
+              className={`px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white ${
+                isProcessing || rowsToApply.length === 0 ? 'bg-blue-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+              } inline-flex items-center`}
+            >
+              {isProcessing ? (
+                <>
+                  <Loader size={16} className="animate-spin mr-2" />
+                  Import {progress}/{rowsToApply.length}...
+                </>
+              ) : (
+                `Importer ${rowsToApply.length} entraîneur(s)`
+              )}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CoachImportModal;
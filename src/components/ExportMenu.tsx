@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { RosterExportFormat } from '../services/RosterExportService';
+
+interface ExportMenuProps {
+  count: number;
+  onExport: (format: RosterExportFormat) => void;
+}
+
+const exportFormats: { format: RosterExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV (Excel, tableur)' },
+  { format: 'xlsx', label: 'Classeur Excel (.xlsx)' },
+  { format: 'json', label: 'Sauvegarde JSON' },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ count, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={count === 0}
+        className="bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 px-4 py-2 rounded-md flex items-center disabled:opacity-50"
+      >
+        <Download size={18} className="mr-1" />
+        <span>Exporter</span>
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-56 bg-white rounded-md shadow-lg border border-gray-200 z-20">
+          <p className="px-4 py-2 text-xs text-gray-500 border-b">
+            {count} ligne(s) selon les filtres actuels
+          </p>
+          {exportFormats.map(({ format, label }) => (
+            <button
+              key={format}
+              onClick={() => {
+                setIsOpen(false);
+                onExport(format);
+              }}
+              className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -1,11 +1,53 @@
-import React from 'react';
-import { Menu, User } from 'lucide-react';
+import React, { useState } from 'react';
+import { Menu, User, LogOut, Wifi, WifiOff, RefreshCw, AlertTriangle, HardDrive } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useAppContext } from '../context/AppContext';
+import { USER_ROLE_LABELS } from '../services/AuthService';
+import { QueuedMutation, SyncStatus } from '../types';
+import PdfCachePanel from './PdfCachePanel';
+
+const syncStatusStyles: Record<SyncStatus, { label: string; className: string; icon: typeof Wifi }> = {
+  online: { label: 'En ligne', className: 'bg-green-50 text-green-700 border-green-200', icon: Wifi },
+  offline: { label: 'Hors ligne', className: 'bg-gray-100 text-gray-700 border-gray-300', icon: WifiOff },
+  syncing: { label: 'Synchronisation...', className: 'bg-blue-50 text-blue-700 border-blue-200', icon: RefreshCw },
+  error: { label: 'Serveur injoignable', className: 'bg-red-50 text-red-700 border-red-200', icon: AlertTriangle },
+};
 
 interface HeaderProps {
   openSidebar: () => void;
 }
 
 const Header: React.FC<HeaderProps> = ({ openSidebar }) => {
+  const { user, signOut } = useAuth();
+  const { syncState, syncNow, resolveSyncConflict } = useAppContext();
+  const [isSyncPanelOpen, setIsSyncPanelOpen] = useState(false);
+  const [resolvingId, setResolvingId] = useState<number | null>(null);
+  const [isCachePanelOpen, setIsCachePanelOpen] = useState(false);
+
+  const syncStyle = syncStatusStyles[syncState.status];
+  const hasConflicts = syncState.conflicts.length > 0;
+
+  const handleResolve = async (mutation: QueuedMutation, keepLocal: boolean) => {
+    try {
+      setResolvingId(mutation.id ?? null);
+      await resolveSyncConflict(mutation, keepLocal);
+    } catch (error) {
+      console.error('Error resolving sync conflict:', error);
+      alert('Erreur lors de la résolution du conflit.');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (error) {
+      console.error('Error signing out:', error);
+      alert('Erreur lors de la déconnexion.');
+    }
+  };
+
   return (
     <header className="bg-white border-b border-gray-200 sticky top-0 z-10">
       <div className="px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between">
@@ -23,15 +65,110 @@ const Header: React.FC<HeaderProps> = ({ openSidebar }) => {
         </div>
         
         <div className="flex items-center">
-          <div className="flex items-center ml-4">
-            <button 
-              className="inline-flex items-center justify-center p-2 rounded-full bg-gray-100 text-gray-600 hover:bg-gray-200 focus:outline-none"
+          <div className="relative">
+            <button
+              type="button"
+              onClick={() => setIsSyncPanelOpen(open => !open)}
+              className={`inline-flex items-center px-3 py-1.5 border rounded-full text-xs font-medium ${
+                hasConflicts ? 'bg-yellow-50 text-yellow-800 border-yellow-200' : syncStyle.className
+              }`}
             >
+              <syncStyle.icon size={14} className={`mr-1.5 ${syncState.status === 'syncing' ? 'animate-spin' : ''}`} />
+              {syncStyle.label}
+              {syncState.pendingCount > 0 && (
+                <span className="ml-1.5">· {syncState.pendingCount} en attente</span>
+              )}
+            </button>
+
+            {isSyncPanelOpen && (
+              <div className="absolute right-0 mt-2 w-80 bg-white border border-gray-200 rounded-lg shadow-lg p-4 z-20">
+                <p className="text-sm text-gray-700">
+                  {syncState.pendingCount === 0
+                    ? 'Toutes les modifications sont enregistrées sur le serveur.'
+                    : `${syncState.pendingCount} modification(s) en attente de synchronisation.`}
+                </p>
+                {syncState.lastSyncAt && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Dernière synchronisation : {syncState.lastSyncAt.toLocaleTimeString('fr-FR')}
+                  </p>
+                )}
+
+                {hasConflicts && (
+                  <div className="mt-3">
+                    <p className="text-xs font-medium text-yellow-800 mb-2">
+                      Modifiées sur le serveur pendant que vous étiez hors ligne :
+                    </p>
+                    <ul className="space-y-2 max-h-60 overflow-y-auto">
+                      {syncState.conflicts.map(mutation => (
+                        <li key={mutation.id} className="border border-yellow-200 rounded-md p-2 text-xs">
+                          <p className="text-gray-800">{mutation.label}</p>
+                          <p className="text-gray-500">{mutation.createdAt.toLocaleString('fr-FR')}</p>
+                          <div className="mt-2 flex space-x-2">
+                            <button
+                              onClick={() => handleResolve(mutation, false)}
+                              disabled={resolvingId !== null || syncState.status === 'offline'}
+                              className="px-2 py-1 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                            >
+                              Garder le serveur
+                            </button>
+                            <button
+                              onClick={() => handleResolve(mutation, true)}
+                              disabled={resolvingId !== null || syncState.status === 'offline'}
+                              className="px-2 py-1 bg-yellow-600 text-white rounded-md hover:bg-yellow-700 disabled:opacity-50"
+                            >
+                              Appliquer ma version
+                            </button>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                <button
+                  onClick={() => syncNow()}
+                  disabled={syncState.status === 'offline' || syncState.status === 'syncing'}
+                  className="mt-3 w-full inline-flex items-center justify-center px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <RefreshCw size={14} className="mr-1.5" />
+                  Synchroniser maintenant
+                </button>
+                <button
+                  onClick={() => {
+                    setIsSyncPanelOpen(false);
+                    setIsCachePanelOpen(true);
+                  }}
+                  className="mt-2 w-full inline-flex items-center justify-center px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900"
+                >
+                  <HardDrive size={14} className="mr-1.5" />
+                  Cache PDF local
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center ml-4">
+            {user && (
+              <div className="hidden sm:block text-right mr-3">
+                <p className="text-sm font-medium text-gray-900">{user.email}</p>
+                <p className="text-xs text-gray-500">{USER_ROLE_LABELS[user.role]}</p>
+              </div>
+            )}
+            <span className="inline-flex items-center justify-center p-2 rounded-full bg-gray-100 text-gray-600">
               <User size={18} />
+            </span>
+            <button
+              onClick={handleSignOut}
+              title="Se déconnecter"
+              className="ml-2 inline-flex items-center justify-center p-2 rounded-full text-gray-600 hover:bg-gray-100 focus:outline-none"
+            >
+              <LogOut size={18} />
             </button>
           </div>
         </div>
       </div>
+
+      {isCachePanelOpen && <PdfCachePanel onClose={() => setIsCachePanelOpen(false)} />}
     </header>
   );
 };
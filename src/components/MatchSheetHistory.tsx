@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { MatchSheet, MatchSheetRevision } from '../types';
+import { X, Loader, History, RotateCcw, UserPlus, UserMinus, FileText } from 'lucide-react';
+import {
+  MATCH_SHEET_REVISION_LABELS,
+  diffMatchSheetRevisions,
+  isMatchSheetEditable
+} from '../services/MatchSheetService';
+
+interface MatchSheetHistoryProps {
+  matchSheet: MatchSheet;
+  onClose: () => void;
+}
+
+const MatchSheetHistory: React.FC<MatchSheetHistoryProps> = ({ matchSheet, onClose }) => {
+  const { players, coaches, templates, getMatchSheetRevisions, updateMatchSheet, canEditCategory } = useAppContext();
+  const [revisions, setRevisions] = useState<MatchSheetRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const loadRevisions = async () => {
+    setLoading(true);
+    const data = await getMatchSheetRevisions(matchSheet.id);
+    setRevisions(data);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadRevisions();
+  }, [matchSheet.id]);
+
+  const getPlayerName = (id: string) => {
+    const player = players.find(p => p.id === id);
+    return player ? `${player.lastName} ${player.firstName}` : 'Joueur supprimé';
+  };
+
+  const getCoachName = (id: string) => {
+    const coach = coaches.find(c => c.id === id);
+    return coach ? `${coach.lastName} ${coach.firstName}` : 'Entraîneur supprimé';
+  };
+
+  const getTemplateName = (id: string) =>
+    templates.find(t => t.id === id)?.name || 'Modèle supprimé';
+
+  const canEditSheet = canEditCategory(matchSheet.ageCategoryId);
+  const canRestore = canEditSheet && isMatchSheetEditable(matchSheet.status);
+
+  const handleRestore = async (revision: MatchSheetRevision) => {
+    if (!window.confirm(`Restaurer la version du ${revision.createdAt.toLocaleString('fr-FR')} ? La composition actuelle restera disponible dans l'historique.`)) {
+      return;
+    }
+
+    setRestoringId(revision.id);
+    try {
+      await updateMatchSheet(matchSheet.id, {
+        ...matchSheet,
+        templateId: revision.templateId,
+        referentCoachId: revision.referentCoachId,
+        playerIds: revision.playerIds,
+        coachIds: revision.coachIds,
+        pdfUrl: revision.pdfUrl
+      }, 'restored');
+      await loadRevisions();
+    } catch (error) {
+      console.error('Error restoring match sheet revision:', error);
+      alert('Erreur lors de la restauration de cette version.');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  // Du plus récent au plus ancien, chaque révision étant comparée à la précédente
+  const timeline = revisions
+    .map((revision, index) => ({
+      revision,
+      number: index + 1,
+      diff: diffMatchSheetRevisions(index > 0 ? revisions[index - 1] : undefined, revision)
+    }))
+    .reverse();
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-auto overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="flex justify-between items-center p-4 border-b flex-shrink-0">
+          <div className="flex items-center">
+            <History size={20} className="text-blue-600 mr-2" />
+            <h3 className="text-lg font-medium text-gray-900">Historique de la feuille de match</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X size={24} />
+          </button>
+        </div>
+
+        {!canRestore && (
+          <div className="px-4 py-2 bg-yellow-50 border-b border-yellow-200 text-sm text-yellow-800 flex-shrink-0">
+            {canEditSheet
+              ? 'Seules les feuilles en brouillon peuvent être restaurées à une version précédente.'
+              : 'Vous ne pouvez pas modifier les feuilles de match de cette catégorie.'}
+          </div>
+        )}
+
+        <div className="p-4 overflow-y-auto flex-grow">
+          {loading ? (
+            <div className="flex items-center justify-center py-8 text-gray-500">
+              <Loader size={20} className="animate-spin mr-2" />
+              Chargement de l'historique...
+            </div>
+          ) : timeline.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">
+              Aucune version enregistrée pour cette feuille de match.
+            </p>
+          ) : (
+            <ol className="relative border-l border-gray-200 ml-2">
+              {timeline.map(({ revision, number, diff }, index) => (
+                <li key={revision.id} className="mb-6 ml-4">
+                  <div className={`absolute w-3 h-3 rounded-full -left-1.5 border border-white ${index === 0 ? 'bg-blue-600' : 'bg-gray-300'}`} />
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        Version {number} · {MATCH_SHEET_REVISION_LABELS[revision.changeType] || revision.changeType}
+                        {index === 0 && (
+                          <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
+                            Actuelle
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {revision.createdAt.toLocaleString('fr-FR')} · {revision.playerIds.length} joueurs, {revision.coachIds.length} entraîneurs
+                      </p>
+                    </div>
+                    {index > 0 && (
+                      <button
+                        onClick={() => handleRestore(revision)}
+                        disabled={!canRestore || restoringId !== null}
+                        className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded-md flex items-center hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {restoringId === revision.id ? (
+                          <Loader size={12} className="mr-1 animate-spin" />
+                        ) : (
+                          <RotateCcw size={12} className="mr-1" />
+                        )}
+                        Restaurer
+                      </button>
+                    )}
+                  </div>
+
+                  <ul className="mt-2 space-y-1 text-sm">
+                    {diff.addedPlayerIds.map(id => (
+                      <li key={`player-added-${id}`} className="flex items-center text-green-700">
+                        <UserPlus size={14} className="mr-1.5" />
+                        {getPlayerName(id)}
+                      </li>
+                    ))}
+                    {diff.removedPlayerIds.map(id => (
+                      <li key={`player-removed-${id}`} className="flex items-center text-red-700">
+                        <UserMinus size={14} className="mr-1.5" />
+                        {getPlayerName(id)}
+                      </li>
+                    ))}
+                    {diff.addedCoachIds.map(id => (
+                      <li key={`coach-added-${id}`} className="flex items-center text-green-700">
+                        <UserPlus size={14} className="mr-1.5" />
+                        {getCoachName(id)} (entraîneur)
+                      </li>
+                    ))}
+                    {diff.removedCoachIds.map(id => (
+                      <li key={`coach-removed-${id}`} className="flex items-center text-red-700">
+                        <UserMinus size={14} className="mr-1.5" />
+                        {getCoachName(id)} (entraîneur)
+                      </li>
+                    ))}
+                    {diff.referentChanged && (
+                      <li className="text-gray-700">
+                        Référent : {revision.referentCoachId ? getCoachName(revision.referentCoachId) : 'aucun'}
+                      </li>
+                    )}
+                    {diff.templateChanged && (
+                      <li className="text-gray-700">
+                        Modèle : {revision.templateId ? getTemplateName(revision.templateId) : 'aucun'}
+                      </li>
+                    )}
+                    {diff.pdfChanged && revision.pdfUrl && (
+                      <li className="flex items-center text-gray-700">
+                        <FileText size={14} className="mr-1.5" />
+                        Nouveau PDF : {revision.pdfUrl.split('/').pop()}
+                      </li>
+                    )}
+                    {number > 1 &&
+                      diff.addedPlayerIds.length === 0 &&
+                      diff.removedPlayerIds.length === 0 &&
+                      diff.addedCoachIds.length === 0 &&
+                      diff.removedCoachIds.length === 0 &&
+                      !diff.referentChanged &&
+                      !diff.templateChanged &&
+                      !diff.pdfChanged && (
+                        <li className="text-gray-500 italic">Aucun changement de composition</li>
+                      )}
+                  </ul>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        <div className="p-4 bg-gray-50 border-t flex justify-end flex-shrink-0">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Fermer
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MatchSheetHistory;
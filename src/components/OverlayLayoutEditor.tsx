@@ -0,0 +1,395 @@
+import React, { useEffect, useState } from 'react';
+import { PDFDocument } from 'pdf-lib';
+import { X, Plus, Trash2, Type, Info } from 'lucide-react';
+import { PdfOverlayBox, PdfOverlayColumn, PdfOverlayLayout, PdfOverlayTable } from '../types';
+import { getPdf } from '../services/PdfStorage';
+import { PDF_DATA_PATHS } from '../services/PdfGenerator';
+import { validateFormat } from '../services/ValueFormatter';
+
+interface OverlayLayoutEditorProps {
+  fileUrl: string;
+  layout?: PdfOverlayLayout;
+  onChange: (layout: PdfOverlayLayout | undefined) => void;
+  onClose: () => void;
+}
+
+interface PageSize {
+  width: number;
+  height: number;
+}
+
+const EMPTY_LAYOUT: PdfOverlayLayout = { zones: [], tableaux: [] };
+
+const NumberInput: React.FC<{ value: number; onChange: (value: number) => void; min?: number; title?: string }> = ({
+  value,
+  onChange,
+  min = 0,
+  title,
+}) => (
+  <input
+    type="number"
+    min={min}
+    step="any"
+    value={value}
+    title={title}
+    onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+    className="w-20 border border-gray-300 rounded-md py-1 px-2 text-sm"
+  />
+);
+
+const FormatInput: React.FC<{ value?: string; onChange: (value: string | undefined) => void }> = ({ value, onChange }) => {
+  const errors = validateFormat(value);
+  return (
+    <input
+      type="text"
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value || undefined)}
+      title={errors.length > 0 ? errors.join(' · ') : 'Mise en forme (ex: majuscules, date:JJ/MM/AAAA)'}
+      placeholder="—"
+      className={`w-32 border rounded-md py-1 px-2 text-xs font-mono ${errors.length > 0 ? 'border-red-400' : 'border-gray-300'}`}
+    />
+  );
+};
+
+const OverlayLayoutEditor: React.FC<OverlayLayoutEditorProps> = ({ fileUrl, layout, onChange, onClose }) => {
+  const [pageSizes, setPageSizes] = useState<PageSize[]>([]);
+  const [formFieldCount, setFormFieldCount] = useState<number | null>(null);
+  const current = layout ?? EMPTY_LAYOUT;
+
+  // Dimensions des pages pour aider à placer les zones
+  useEffect(() => {
+    const loadPageSizes = async () => {
+      try {
+        const fileName = fileUrl.split('/').pop();
+        const content = fileName ? await getPdf(fileName) : null;
+        if (!content) return;
+        const base64Data = content.includes('base64,') ? content.split(',')[1] : content;
+        const pdfDoc = await PDFDocument.load(Uint8Array.from(atob(base64Data), c => c.charCodeAt(0)));
+        setPageSizes(pdfDoc.getPages().map(page => page.getSize()));
+        setFormFieldCount(pdfDoc.getForm().getFields().length);
+      } catch (err) {
+        console.error('Erreur lors de la lecture des dimensions du modèle:', err);
+      }
+    };
+
+    loadPageSizes();
+  }, [fileUrl]);
+
+  const update = (changes: Partial<PdfOverlayLayout>) => {
+    const next = { ...current, ...changes };
+    onChange(next.zones.length === 0 && next.tableaux.length === 0 ? undefined : next);
+  };
+
+  const updateZone = (index: number, changes: Partial<PdfOverlayBox>) => {
+    update({ zones: current.zones.map((zone, i) => (i === index ? { ...zone, ...changes } : zone)) });
+  };
+
+  const addZone = () => {
+    const topOfPage = pageSizes[0]?.height ?? 842;
+    update({
+      zones: [...current.zones, { page: 1, x: 50, y: topOfPage - 50, largeur: 150, taille_police: 10, mapping: 'date_manifestation' }],
+    });
+  };
+
+  const updateTable = (index: number, changes: Partial<PdfOverlayTable>) => {
+    update({ tableaux: current.tableaux.map((table, i) => (i === index ? { ...table, ...changes } : table)) });
+  };
+
+  const updateColumn = (tableIndex: number, columnIndex: number, changes: Partial<PdfOverlayColumn>) => {
+    const table = current.tableaux[tableIndex];
+    updateTable(tableIndex, {
+      colonnes: table.colonnes.map((column, i) => (i === columnIndex ? { ...column, ...changes } : column)),
+    });
+  };
+
+  const addTable = () => {
+    const topOfPage = pageSizes[0]?.height ?? 842;
+    update({
+      tableaux: [
+        ...current.tableaux,
+        {
+          type: 'joueur',
+          page: 1,
+          y: topOfPage - 200,
+          hauteur_ligne: 18,
+          nombre_lignes: 12,
+          taille_police: 9,
+          colonnes: [
+            { mapping: 'joueur.nom', x: 50, largeur: 150 },
+            { mapping: 'joueur.prenom', x: 210, largeur: 150 },
+          ],
+        },
+      ],
+    });
+  };
+
+  const changeTableType = (index: number, type: PdfOverlayTable['type']) => {
+    // Les colonnes désignent les mêmes propriétés pour l'autre type de ligne
+    const table = current.tableaux[index];
+    updateTable(index, {
+      type,
+      colonnes: table.colonnes.map(column => ({ ...column, mapping: `${type}.${column.mapping.split('.').pop()}` })),
+    });
+  };
+
+  const globalPaths = PDF_DATA_PATHS.filter(path => path.type === 'global');
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl mx-auto overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="flex justify-between items-center p-4 border-b flex-shrink-0">
+          <h3 className="text-lg font-medium text-gray-900 flex items-center">
+            <Type size={20} className="mr-2 text-gray-500" />
+            Zones de texte (PDF sans formulaire)
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-grow space-y-6">
+          <div className="bg-blue-50 border border-blue-200 rounded-md p-3 text-sm text-blue-800 flex">
+            <Info size={18} className="mr-2 flex-shrink-0 mt-0.5" />
+            <div>
+              <p>
+                Le texte est dessiné aux coordonnées indiquées, en points depuis le coin inférieur gauche de la page.
+                Un texte trop long pour sa largeur est réduit puis tronqué.
+              </p>
+              {pageSizes.length > 0 && (
+                <p className="mt-1">
+                  {pageSizes.map((size, index) => `Page ${index + 1} : ${Math.round(size.width)} × ${Math.round(size.height)} pt`).join(' · ')}
+                </p>
+              )}
+              {formFieldCount !== null && formFieldCount > 0 && (
+                <p className="mt-1">
+                  Ce modèle contient aussi {formFieldCount} champ(s) de formulaire, remplis par les correspondances.
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <h4 className="text-sm font-medium text-gray-900">Zones</h4>
+              <button
+                type="button"
+                onClick={addZone}
+                className="text-sm px-3 py-1.5 border border-gray-300 rounded-md bg-white hover:bg-gray-50 flex items-center"
+              >
+                <Plus size={14} className="mr-1" />
+                Ajouter une zone
+              </button>
+            </div>
+            <div className="border rounded-lg overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {['Donnée', 'Format', 'Page', 'X', 'Y', 'Largeur', 'Police', ''].map(header => (
+                      <th key={header} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {header}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {current.zones.map((zone, index) => (
+                    <tr key={index}>
+                      <td className="px-3 py-2">
+                        <select
+                          value={zone.mapping}
+                          onChange={(e) => updateZone(index, { mapping: e.target.value })}
+                          className="border border-gray-300 rounded-md py-1 px-2 text-sm"
+                        >
+                          {globalPaths.map(path => (
+                            <option key={path.mapping} value={path.mapping}>{path.label}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-3 py-2">
+                        <FormatInput value={zone.format} onChange={(format) => updateZone(index, { format })} />
+                      </td>
+                      <td className="px-3 py-2">
+                        <NumberInput value={zone.page} min={1} onChange={(page) => updateZone(index, { page: Math.max(1, Math.round(page)) })} />
+                      </td>
+                      <td className="px-3 py-2"><NumberInput value={zone.x} onChange={(x) => updateZone(index, { x })} /></td>
+                      <td className="px-3 py-2"><NumberInput value={zone.y} onChange={(y) => updateZone(index, { y })} /></td>
+                      <td className="px-3 py-2"><NumberInput value={zone.largeur} onChange={(largeur) => updateZone(index, { largeur })} /></td>
+                      <td className="px-3 py-2">
+                        <NumberInput value={zone.taille_police} min={1} onChange={(taille_police) => updateZone(index, { taille_police })} />
+                      </td>
+                      <td className="px-3 py-2">
+                        <button
+                          type="button"
+                          onClick={() => update({ zones: current.zones.filter((_, i) => i !== index) })}
+                          className="text-red-600 hover:text-red-800"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                  {current.zones.length === 0 && (
+                    <tr>
+                      <td colSpan={8} className="px-3 py-4 text-sm text-center text-gray-500">
+                        Aucune zone définie.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <h4 className="text-sm font-medium text-gray-900">Tableaux de joueurs et d'éducateurs</h4>
+              <button
+                type="button"
+                onClick={addTable}
+                className="text-sm px-3 py-1.5 border border-gray-300 rounded-md bg-white hover:bg-gray-50 flex items-center"
+              >
+                <Plus size={14} className="mr-1" />
+                Ajouter un tableau
+              </button>
+            </div>
+
+            {current.tableaux.length === 0 && (
+              <p className="text-sm text-center text-gray-500 border rounded-lg p-4">Aucun tableau défini.</p>
+            )}
+
+            <div className="space-y-4">
+              {current.tableaux.map((table, tableIndex) => (
+                <div key={tableIndex} className="border rounded-lg p-3">
+                  <div className="flex flex-wrap items-end gap-3 mb-3">
+                    <label className="text-xs text-gray-600">
+                      Lignes
+                      <select
+                        value={table.type}
+                        onChange={(e) => changeTableType(tableIndex, e.target.value as PdfOverlayTable['type'])}
+                        className="block border border-gray-300 rounded-md py-1 px-2 text-sm"
+                      >
+                        <option value="joueur">Joueurs</option>
+                        <option value="educateur">Éducateurs</option>
+                      </select>
+                    </label>
+                    <label className="text-xs text-gray-600">
+                      Page
+                      <NumberInput value={table.page} min={1} onChange={(page) => updateTable(tableIndex, { page: Math.max(1, Math.round(page)) })} />
+                    </label>
+                    <label className="text-xs text-gray-600">
+                      Y première ligne
+                      <NumberInput value={table.y} onChange={(y) => updateTable(tableIndex, { y })} />
+                    </label>
+                    <label className="text-xs text-gray-600">
+                      Hauteur de ligne
+                      <NumberInput value={table.hauteur_ligne} min={1} onChange={(hauteur_ligne) => updateTable(tableIndex, { hauteur_ligne })} />
+                    </label>
+                    <label className="text-xs text-gray-600">
+                      Nombre de lignes
+                      <NumberInput
+                        value={table.nombre_lignes}
+                        min={1}
+                        onChange={(nombre_lignes) => updateTable(tableIndex, { nombre_lignes: Math.max(1, Math.round(nombre_lignes)) })}
+                      />
+                    </label>
+                    <label className="text-xs text-gray-600">
+                      Police
+                      <NumberInput value={table.taille_police} min={1} onChange={(taille_police) => updateTable(tableIndex, { taille_police })} />
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => update({ tableaux: current.tableaux.filter((_, i) => i !== tableIndex) })}
+                      className="ml-auto text-sm text-red-600 hover:text-red-800 flex items-center"
+                    >
+                      <Trash2 size={14} className="mr-1" />
+                      Supprimer le tableau
+                    </button>
+                  </div>
+
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        {['Colonne', 'Format', 'X', 'Largeur', ''].map(header => (
+                          <th key={header} className="px-3 py-1.5 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            {header}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {table.colonnes.map((column, columnIndex) => (
+                        <tr key={columnIndex}>
+                          <td className="px-3 py-1.5">
+                            <select
+                              value={column.mapping}
+                              onChange={(e) => updateColumn(tableIndex, columnIndex, { mapping: e.target.value })}
+                              className="border border-gray-300 rounded-md py-1 px-2 text-sm"
+                            >
+                              {PDF_DATA_PATHS.filter(path => path.type === table.type).map(path => (
+                                <option key={path.mapping} value={path.mapping}>{path.label}</option>
+                              ))}
+                            </select>
+                          </td>
+                          <td className="px-3 py-1.5">
+                            <FormatInput value={column.format} onChange={(format) => updateColumn(tableIndex, columnIndex, { format })} />
+                          </td>
+                          <td className="px-3 py-1.5">
+                            <NumberInput value={column.x} onChange={(x) => updateColumn(tableIndex, columnIndex, { x })} />
+                          </td>
+                          <td className="px-3 py-1.5">
+                            <NumberInput value={column.largeur} onChange={(largeur) => updateColumn(tableIndex, columnIndex, { largeur })} />
+                          </td>
+                          <td className="px-3 py-1.5">
+                            <button
+                              type="button"
+                              onClick={() => updateTable(tableIndex, { colonnes: table.colonnes.filter((_, i) => i !== columnIndex) })}
+                              className="text-red-600 hover:text-red-800"
+                            >
+                              <Trash2 size={16} />
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      const lastColumn = table.colonnes[table.colonnes.length - 1];
+                      updateTable(tableIndex, {
+                        colonnes: [
+                          ...table.colonnes,
+                          {
+                            mapping: `${table.type}.licence`,
+                            x: lastColumn ? lastColumn.x + lastColumn.largeur + 10 : 50,
+                            largeur: 100,
+                          },
+                        ],
+                      });
+                    }}
+                    className="mt-2 text-xs text-blue-600 hover:text-blue-800 flex items-center"
+                  >
+                    <Plus size={12} className="mr-1" />
+                    Ajouter une colonne
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 bg-gray-50 border-t flex justify-end flex-shrink-0">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+          >
+            Terminer
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OverlayLayoutEditor;
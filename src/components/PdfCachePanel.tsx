@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import { X, Trash2, Loader, HardDrive } from 'lucide-react';
+import {
+  CACHE_LIMIT_OPTIONS,
+  PdfCacheEntry,
+  PdfCacheStats,
+  clearPdfCache,
+  formatBytes,
+  getCacheStats,
+  listCachedPdfs,
+  removeCachedPdf,
+  setCacheLimit,
+} from '../services/PdfCache';
+
+interface PdfCachePanelProps {
+  onClose: () => void;
+}
+
+const PdfCachePanel: React.FC<PdfCachePanelProps> = ({ onClose }) => {
+  const [entries, setEntries] = useState<PdfCacheEntry[]>([]);
+  const [stats, setStats] = useState<PdfCacheStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCache = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [cacheEntries, cacheStats] = await Promise.all([listCachedPdfs(), getCacheStats()]);
+      setEntries(cacheEntries);
+      setStats(cacheStats);
+    } catch (err) {
+      console.error('Error loading PDF cache:', err);
+      setError('Impossible de lire le cache PDF de ce navigateur.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCache();
+  }, []);
+
+  const handleRemove = async (entry: PdfCacheEntry) => {
+    if (entry.pinned && !window.confirm(
+      'Ce fichier n\'a pas encore été envoyé sur le serveur : cette copie est peut-être la seule. Le retirer du cache ?'
+    )) {
+      return;
+    }
+    await removeCachedPdf(entry.path);
+    await loadCache();
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Vider le cache PDF ? Les fichiers seront de nouveau téléchargés depuis le serveur au besoin. Les fichiers pas encore envoyés sur le serveur sont conservés.')) {
+      return;
+    }
+    await clearPdfCache();
+    await loadCache();
+  };
+
+  const handleLimitChange = async (limit: number) => {
+    await setCacheLimit(limit);
+    await loadCache();
+  };
+
+  const usage = stats ? Math.min(100, Math.round((stats.totalSize / stats.limit) * 100)) : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-auto overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="flex justify-between items-center p-4 border-b flex-shrink-0">
+          <h3 className="text-lg font-medium text-gray-900 flex items-center">
+            <HardDrive size={20} className="mr-2 text-gray-500" />
+            Cache PDF local
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-4 border-b flex-shrink-0">
+          {stats && (
+            <>
+              <div className="flex justify-between text-sm text-gray-700 mb-1">
+                <span>
+                  {formatBytes(stats.totalSize)} utilisés sur {formatBytes(stats.limit)}
+                </span>
+                <span>
+                  {stats.fileCount} fichier(s), {stats.pathCount} chemin(s)
+                  {stats.pinnedCount > 0 && `, ${stats.pinnedCount} non envoyé(s)`}
+                </span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className={`h-2 rounded-full ${usage > 90 ? 'bg-red-500' : 'bg-blue-600'}`}
+                  style={{ width: `${usage}%` }}
+                />
+              </div>
+            </>
+          )}
+          <div className="mt-3 flex items-center justify-between">
+            <label className="text-sm text-gray-700 flex items-center">
+              Taille maximale
+              <select
+                value={stats?.limit}
+                onChange={(e) => handleLimitChange(parseInt(e.target.value, 10))}
+                className="ml-2 border border-gray-300 rounded-md py-1 px-2 text-sm"
+              >
+                {CACHE_LIMIT_OPTIONS.map(limit => (
+                  <option key={limit} value={limit}>{formatBytes(limit)}</option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={handleClear}
+              disabled={entries.length === 0}
+              className="px-3 py-1.5 border border-red-300 rounded-md text-sm text-red-700 hover:bg-red-50 disabled:opacity-50"
+            >
+              Vider le cache
+            </button>
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            Les fichiers les moins récemment utilisés sont supprimés automatiquement lorsque la taille maximale est atteinte,
+            sauf ceux qui n'ont pas encore été envoyés sur le serveur.
+          </p>
+        </div>
+
+        <div className="overflow-y-auto flex-grow">
+          {loading ? (
+            <div className="flex items-center justify-center py-8 text-gray-500">
+              <Loader size={20} className="animate-spin mr-2" />
+              Lecture du cache...
+            </div>
+          ) : error ? (
+            <p className="p-4 text-sm text-red-700">{error}</p>
+          ) : entries.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500 text-center">Aucun PDF en cache.</p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Fichier</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Taille</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Dernier accès</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {entries.map(entry => (
+                  <tr key={entry.path}>
+                    <td className="px-4 py-2 text-sm text-gray-900">
+                      <p className="truncate max-w-xs" title={entry.path}>{entry.path}</p>
+                      <p className="text-xs text-gray-400 font-mono">
+                        {entry.hash.substring(0, 12)}
+                        {entry.pinned && (
+                          <span className="ml-2 font-sans text-yellow-700" title="Copie locale conservée tant que l'envoi sur le serveur n'est pas confirmé">
+                            Non envoyé
+                          </span>
+                        )}
+                      </p>
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-600 text-right whitespace-nowrap">{formatBytes(entry.size)}</td>
+                    <td className="px-4 py-2 text-sm text-gray-600 whitespace-nowrap">
+                      {entry.lastAccessedAt.toLocaleString('fr-FR')}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        onClick={() => handleRemove(entry)}
+                        title="Retirer du cache"
+                        className="text-gray-400 hover:text-red-600"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PdfCachePanel;
@@ -0,0 +1,191 @@
+import React from 'react';
+import { X, Download, CheckCircle, AlertTriangle, ClipboardList } from 'lucide-react';
+import { PdfGenerationReport } from '../services/PdfGenerator';
+
+interface PdfReportModalProps {
+  report: PdfGenerationReport;
+  title?: string;
+  onClose: () => void;
+  closeLabel?: string;
+  onDownload?: () => void;
+}
+
+const ROW_TYPE_LABELS = {
+  joueur: 'joueur',
+  educateur: 'éducateur',
+};
+
+const PdfReportModal: React.FC<PdfReportModalProps> = ({
+  report,
+  title = 'Rapport de génération',
+  onClose,
+  closeLabel = 'Fermer',
+  onDownload,
+}) => {
+  const issueCount =
+    report.warnings.length + report.overflow.length + report.emptyRequired.length + report.missingFields.length +
+    report.unknownMappings.length + report.truncated.length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-auto overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="flex justify-between items-center p-4 border-b flex-shrink-0">
+          <h3 className="text-lg font-medium text-gray-900 flex items-center">
+            <ClipboardList size={20} className="mr-2 text-gray-500" />
+            {title}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-grow space-y-4">
+          {issueCount === 0 ? (
+            <div className="bg-green-50 border border-green-200 rounded-md p-3 text-sm text-green-800 flex items-center">
+              <CheckCircle size={18} className="mr-2 flex-shrink-0" />
+              {report.filled.length} champ(s) rempli(s), aucun problème détecté.
+            </div>
+          ) : (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800 flex items-center">
+              <AlertTriangle size={18} className="mr-2 flex-shrink-0" />
+              {report.filled.length} champ(s) rempli(s), {issueCount} point(s) à vérifier avant d'envoyer la feuille.
+            </div>
+          )}
+
+          {report.continuationPages > 0 && (
+            <p className="text-sm text-blue-800 bg-blue-50 border border-blue-200 rounded-md p-3">
+              L'effectif dépasse le nombre de lignes du modèle : {report.continuationPages} page(s) de suite
+              ajoutée(s) pour les joueurs.
+            </p>
+          )}
+
+          {report.warnings.length > 0 && (
+            <ul className="list-disc pl-5 text-sm text-yellow-800 space-y-1">
+              {report.warnings.map((warning, index) => (
+                <li key={index}>{warning}</li>
+              ))}
+            </ul>
+          )}
+
+          {report.overflow.map(overflow => (
+            <div key={overflow.type} className="border border-red-200 bg-red-50 rounded-md p-3 text-sm text-red-800">
+              <p className="font-medium">
+                Le modèle ne prévoit que {overflow.capacity} ligne(s) {ROW_TYPE_LABELS[overflow.type]} :
+                {' '}{overflow.names.length} {ROW_TYPE_LABELS[overflow.type]}(s) ne figurent pas sur la feuille
+              </p>
+              <p className="mt-1">{overflow.names.join(', ')}</p>
+              {overflow.type === 'joueur' && (
+                <p className="mt-1 text-xs">
+                  Indiquez le nombre de lignes joueur du modèle pour ajouter automatiquement des pages de suite.
+                </p>
+              )}
+            </div>
+          ))}
+
+          {report.emptyRequired.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-1">Données obligatoires manquantes</h4>
+              <ul className="text-sm text-red-700 space-y-0.5">
+                {report.emptyRequired.map((field, index) => (
+                  <li key={index}>
+                    <span className="font-mono">{field.champ_pdf}</span> ({field.mapping})
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {report.truncated.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-1">Textes tronqués</h4>
+              <p className="text-xs text-gray-500 mb-1">
+                Ces valeurs sont plus larges que leur champ : raccourcissez-les avec un format (ex: tronquer:20) ou agrandissez le champ.
+              </p>
+              <ul className="text-sm text-orange-700 space-y-0.5">
+                {report.truncated.map((field, index) => (
+                  <li key={index}>
+                    <span className="font-mono">{field.champ_pdf}</span> : {String(field.valeur)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {report.missingFields.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-1">Champs mappés absents du PDF</h4>
+              <p className="text-xs text-gray-500 mb-1">
+                Ces correspondances désignent des champs qui n'existent pas dans le modèle : vérifiez leur nom.
+              </p>
+              <ul className="text-sm text-gray-700 space-y-0.5">
+                {report.missingFields.map((field, index) => (
+                  <li key={index}>
+                    <span className="font-mono">{field.champ_pdf}</span> ({field.mapping})
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {report.unknownMappings.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-1">Correspondances inconnues</h4>
+              <p className="text-xs text-gray-500 mb-1">
+                Ces correspondances ne désignent aucune donnée connue : les champs restent vides. Choisissez une donnée dans la liste du modèle.
+              </p>
+              <ul className="text-sm text-gray-700 space-y-0.5">
+                {report.unknownMappings.map((field, index) => (
+                  <li key={index}>
+                    <span className="font-mono">{field.champ_pdf}</span> ({field.mapping})
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {report.filled.length > 0 && (
+            <details className="border rounded-md">
+              <summary className="px-3 py-2 text-sm font-medium text-gray-900 cursor-pointer">
+                Champs remplis ({report.filled.length})
+              </summary>
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <tbody className="divide-y divide-gray-100">
+                  {report.filled.map((field, index) => (
+                    <tr key={index}>
+                      <td className="px-3 py-1.5 font-mono text-gray-700">{field.champ_pdf}</td>
+                      <td className="px-3 py-1.5 text-gray-900">
+                        {typeof field.valeur === 'boolean' ? (field.valeur ? 'Oui' : 'Non') : field.valeur}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </details>
+          )}
+        </div>
+
+        <div className="p-4 bg-gray-50 border-t flex justify-end space-x-3 flex-shrink-0">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            {closeLabel}
+          </button>
+          {onDownload && (
+            <button
+              type="button"
+              onClick={onDownload}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 flex items-center"
+            >
+              <Download size={16} className="mr-1" />
+              Télécharger le PDF
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PdfReportModal;
@@ -0,0 +1,341 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { PlayerImportMapping, PlayerImportRow } from '../types';
+import {
+  PLAYER_IMPORT_FIELDS,
+  ParsedRosterFile,
+  buildImportPreview,
+  guessImportMapping,
+  parseRosterFile,
+} from '../services/PlayerImportService';
+import { X, Upload, Loader, CheckCircle, AlertTriangle, ArrowLeft } from 'lucide-react';
+
+interface PlayerImportModalProps {
+  onClose: () => void;
+}
+
+type ImportStep = 'upload' | 'mapping' | 'preview' | 'summary';
+
+interface ImportSummary {
+  created: number;
+  updated: number;
+  unchanged: number;
+  failed: { rowNumber: number; name: string; message: string }[];
+}
+
+const actionLabels: Record<PlayerImportRow['action'], { label: string; className: string }> = {
+  create: { label: 'Création', className: 'bg-green-100 text-green-800' },
+  update: { label: 'Mise à jour', className: 'bg-blue-100 text-blue-800' },
+  unchanged: { label: 'Inchangé', className: 'bg-gray-100 text-gray-700' },
+  error: { label: 'Erreur', className: 'bg-red-100 text-red-800' },
+};
+
+const PlayerImportModal: React.FC<PlayerImportModalProps> = ({ onClose }) => {
+  const { players, ageCategories, addPlayer, updatePlayer } = useAppContext();
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [parsedFile, setParsedFile] = useState<ParsedRosterFile | null>(null);
+  const [mapping, setMapping] = useState<PlayerImportMapping>({});
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  // Aperçu figé au passage à l'étape de prévisualisation, l'import modifiant la liste des joueurs
+  const [previewRows, setPreviewRows] = useState<PlayerImportRow[]>([]);
+  const rowsToApply = previewRows.filter(row => row.action === 'create' || row.action === 'update');
+
+  const countByAction = (action: PlayerImportRow['action']) =>
+    previewRows.filter(row => row.action === action).length;
+
+  const getCategoryName = (categoryId: string) =>
+    ageCategories.find(category => category.id === categoryId)?.name || '-';
+
+  const missingRequiredFields = PLAYER_IMPORT_FIELDS.filter(({ field, required }) => required && !mapping[field]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setIsProcessing(true);
+      setFileError(null);
+      const parsed = await parseRosterFile(file);
+      if (parsed.rows.length === 0) {
+        throw new Error('Le fichier ne contient aucune ligne de joueur');
+      }
+      setFileName(file.name);
+      setParsedFile(parsed);
+      setMapping(guessImportMapping(parsed.headers));
+      setStep('mapping');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      setFileError(error instanceof Error ? error.message : 'Impossible de lire le fichier.');
+    } finally {
+      setIsProcessing(false);
+      e.target.value = '';
+    }
+  };
+
+  const handleShowPreview = () => {
+    if (!parsedFile) return;
+    setPreviewRows(buildImportPreview(parsedFile.rows, mapping, players, ageCategories, parsedFile.rowNumbers));
+    setStep('preview');
+  };
+
+  const handleImport = async () => {
+    const result: ImportSummary = {
+      created: 0,
+      updated: 0,
+      unchanged: countByAction('unchanged'),
+      failed: previewRows
+        .filter(row => row.action === 'error')
+        .map(row => ({
+          rowNumber: row.rowNumber,
+          name: `${row.player.lastName} ${row.player.firstName}`.trim(),
+          message: row.errors.join(', '),
+        })),
+    };
+
+    setIsProcessing(true);
+    setProgress(0);
+
+    // Les lignes sont appliquées une à une : une erreur n'interrompt pas le reste de l'import
+    for (const row of rowsToApply) {
+      try {
+        if (row.action === 'create') {
+          await addPlayer(row.player);
+          result.created++;
+        } else {
+          await updatePlayer(row.player.id, row.player);
+          result.updated++;
+        }
+      } catch (error) {
+        console.error(`Error importing row ${row.rowNumber}:`, error);
+        result.failed.push({
+          rowNumber: row.rowNumber,
+          name: `${row.player.lastName} ${row.player.firstName}`,
+          message: error instanceof Error ? error.message : 'Erreur lors de l\'enregistrement',
+        });
+      }
+      setProgress(prev => prev + 1);
+    }
+
+    result.failed.sort((a, b) => a.rowNumber - b.rowNumber);
+    setSummary(result);
+    setIsProcessing(false);
+    setStep('summary');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl mx-auto overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="flex justify-between items-center p-6 border-b flex-shrink-0">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Importer des joueurs</h3>
+            {fileName && <p className="text-sm text-gray-500">{fileName}</p>}
+          </div>
+          <button onClick={onClose} disabled={isProcessing} className="text-gray-400 hover:text-gray-500">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-grow">
+          {step === 'upload' && (
+            <div>
+              <p className="text-sm text-gray-600 mb-4">
+                Sélectionnez l'export des licenciés du portail fédéral (CSV ou Excel) ou une sauvegarde JSON
+                exportée depuis cette page. Les joueurs sont
+                rapprochés par numéro de licence : les licences existantes sont mises à jour, les autres créées.
+              </p>
+              {fileError && (
+                <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+                  {fileError}
+                </div>
+              )}
+              <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg p-8 cursor-pointer hover:border-blue-500">
+                {isProcessing ? (
+                  <Loader size={32} className="animate-spin text-gray-400 mb-2" />
+                ) : (
+                  <Upload size={32} className="text-gray-400 mb-2" />
+                )}
+                <span className="text-sm font-medium text-gray-700">Choisir un fichier .csv, .xlsx, .xls ou .json</span>
+                <input
+                  type="file"
+                  accept=".csv,.txt,.xlsx,.xls,.json"
+                  onChange={handleFileChange}
+                  disabled={isProcessing}
+                  className="sr-only"
+                />
+              </label>
+            </div>
+          )}
+
+          {step === 'mapping' && parsedFile && (
+            <div>
+              <p className="text-sm text-gray-600 mb-4">
+                Associez les colonnes du fichier ({parsedFile.rows.length} lignes) aux informations des joueurs.
+                Sans colonne catégorie, la catégorie est déduite de l'année de naissance.
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {PLAYER_IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {label} {required && '*'}
+                    </label>
+                    <select
+                      value={mapping[field] || ''}
+                      onChange={(e) => setMapping(prev => ({ ...prev, [field]: e.target.value || undefined }))}
+                      className="w-full border border-gray-300 rounded-md py-2 px-3 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">Non importé</option>
+                      {parsedFile.headers.map(header => (
+                        <option key={header} value={header}>{header}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div>
+              <div className="mb-4 grid grid-cols-2 sm:grid-cols-4 gap-4">
+                {(['create', 'update', 'unchanged', 'error'] as PlayerImportRow['action'][]).map(action => (
+                  <div key={action} className={`p-3 rounded-lg ${actionLabels[action].className}`}>
+                    <span className="text-sm font-medium">{actionLabels[action].label}</span>
+                    <p className="text-2xl font-bold">{countByAction(action)}</p>
+                  </div>
+                ))}
+              </div>
+              <div className="border rounded-lg overflow-hidden">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Ligne</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Joueur</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Licence</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Catégorie</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Action</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {previewRows.map(row => (
+                      <tr key={row.rowNumber}>
+                        <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                        <td className="px-3 py-2 text-gray-900">
+                          {row.player.lastName} {row.player.firstName}
+                        </td>
+                        <td className="px-3 py-2 text-gray-500">{row.player.licenseNumber}</td>
+                        <td className="px-3 py-2 text-gray-500">{getCategoryName(row.player.ageCategoryId)}</td>
+                        <td className="px-3 py-2">
+                          <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${actionLabels[row.action].className}`}>
+                            {actionLabels[row.action].label}
+                          </span>
+                          {row.action === 'update' && (
+                            <p className="text-xs text-gray-500 mt-1">{row.changedFields.join(', ')}</p>
+                          )}
+                          {row.action === 'error' && (
+                            <p className="text-xs text-red-600 mt-1">{row.errors.join(', ')}</p>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {step === 'summary' && summary && (
+            <div className="space-y-4">
+              <div className="flex items-center text-green-700">
+                <CheckCircle size={20} className="mr-2" />
+                <span className="font-medium">Import terminé</span>
+              </div>
+              <ul className="text-sm text-gray-700 space-y-1">
+                <li>{summary.created} joueur(s) créé(s)</li>
+                <li>{summary.updated} joueur(s) mis à jour</li>
+                <li>{summary.unchanged} joueur(s) inchangé(s)</li>
+                <li>{summary.failed.length} ligne(s) ignorée(s)</li>
+              </ul>
+              {summary.failed.length > 0 && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+                  <div className="flex items-center text-yellow-800 font-medium text-sm mb-2">
+                    <AlertTriangle size={16} className="mr-2" />
+                    Lignes non importées
+                  </div>
+                  <ul className="list-disc pl-5 text-sm text-yellow-700">
+                    {summary.failed.map(failure => (
+                      <li key={failure.rowNumber}>
+                        Ligne {failure.rowNumber} {failure.name && `(${failure.name})`} : {failure.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 bg-gray-50 border-t flex justify-end space-x-3 flex-shrink-0">
+          {(step === 'mapping' || step === 'preview') && (
+            <button
+              type="button"
+              onClick={() => setStep(step === 'preview' ? 'mapping' : 'upload')}
+              disabled={isProcessing}
+              className="mr-auto px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 inline-flex items-center"
+            >
+              <ArrowLeft size={16} className="mr-1" />
+              Retour
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isProcessing}
+            className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            {step === 'summary' ? 'Fermer' : 'Annuler'}
+          </button>
+          {step === 'mapping' && (
+            <button
+              type="button"
+              onClick={handleShowPreview}
+              disabled={missingRequiredFields.length > 0}
+              title={missingRequiredFields.length > 0
+                ? `Colonnes obligatoires : ${missingRequiredFields.map(f => f.label).join(', ')}`
+                : undefined}
+              className={`px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white ${
+                missingRequiredFields.length > 0 ? 'bg-blue-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              Aperçu
+            </button>
+          )}
+          {step === 'preview' && (
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={isProcessing || rowsToApply.length === 0}
+              className={`px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white ${
+                isProcessing || rowsToApply.length === 0 ? 'bg-blue-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+              } inline-flex items-center`}
+            >
+              {isProcessing ? (
+                <>
+                  <Loader size={16} className="animate-spin mr-2" />
+                  Import {progress}/{rowsToApply.length}...
+                </>
+              ) : (
+                `Importer ${rowsToApply.length} joueur(s)`
+              )}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlayerImportModal;
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { X, RotateCcw, Loader } from 'lucide-react';
+import { useAppContext } from '../context/AppContext';
+import { CategoryRosterRules, RosterRuleKey, RosterRuleSeverity } from '../types';
+import { ROSTER_RULE_LABELS, getDefaultRosterRules } from '../services/RosterRulesService';
+
+interface RosterRulesModalProps {
+  rules: CategoryRosterRules;
+  ageCategoryId: string;
+  onClose: () => void;
+  onSaved: (rules: CategoryRosterRules) => void;
+}
+
+type LimitRuleKey = 'minPlayers' | 'maxPlayers' | 'minForwards' | 'minReferees';
+
+const limitRules: LimitRuleKey[] = ['minPlayers', 'maxPlayers', 'minForwards', 'minReferees'];
+
+const RosterRulesModal: React.FC<RosterRulesModalProps> = ({ rules, ageCategoryId, onClose, onSaved }) => {
+  const { saveRosterRules } = useAppContext();
+  const [draft, setDraft] = useState<CategoryRosterRules>(rules);
+  const [isSaving, setIsSaving] = useState(false);
+  const [diplomasInput, setDiplomasInput] = useState(rules.requiredDiplomas.join(', '));
+
+  const setLimit = (key: LimitRuleKey, value: string) => {
+    const parsed = parseInt(value, 10);
+    setDraft(prev => ({ ...prev, [key]: value === '' || isNaN(parsed) ? null : Math.max(0, parsed) }));
+  };
+
+  const setSeverity = (key: RosterRuleKey, severity: RosterRuleSeverity) => {
+    setDraft(prev => ({ ...prev, severities: { ...prev.severities, [key]: severity } }));
+  };
+
+  const handleReset = () => {
+    const defaults = getDefaultRosterRules(rules.categoryName);
+    setDraft(defaults);
+    setDiplomasInput('');
+  };
+
+  const handleSave = async () => {
+    const savedRules: CategoryRosterRules = {
+      ...draft,
+      requiredDiplomas: diplomasInput.split(',').map(diploma => diploma.trim()).filter(Boolean),
+    };
+    setIsSaving(true);
+    try {
+      await saveRosterRules(ageCategoryId, savedRules);
+      onSaved(savedRules);
+    } catch (error) {
+      alert('Erreur lors de l\'enregistrement des règles d\'effectif.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const severitySelect = (key: RosterRuleKey) => (
+    <select
+      value={draft.severities[key]}
+      onChange={(e) => setSeverity(key, e.target.value as RosterRuleSeverity)}
+      className="border border-gray-300 rounded-md py-1 px-2 text-sm"
+    >
+      <option value="error">Bloquant</option>
+      <option value="warning">Avertissement</option>
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg mx-auto overflow-hidden">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h3 className="text-lg font-medium text-gray-900">Règles d'effectif {rules.categoryName}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <p className="text-sm text-gray-500">
+            Laissez une limite vide pour désactiver la règle. Les règles bloquantes empêchent la génération de la feuille.
+          </p>
+
+          {limitRules.map(key => (
+            <div key={key} className="flex items-center gap-3">
+              <label className="flex-grow text-sm font-medium text-gray-700">{ROSTER_RULE_LABELS[key]}</label>
+              <input
+                type="number"
+                min="0"
+                value={draft[key] ?? ''}
+                onChange={(e) => setLimit(key, e.target.value)}
+                className="w-20 border border-gray-300 rounded-md py-1 px-2 text-sm"
+              />
+              {severitySelect(key)}
+            </div>
+          ))}
+
+          <div>
+            <div className="flex items-center gap-3 mb-1">
+              <label className="flex-grow text-sm font-medium text-gray-700">{ROSTER_RULE_LABELS.coachDiplomas}</label>
+              {severitySelect('coachDiplomas')}
+            </div>
+            <input
+              type="text"
+              value={diplomasInput}
+              onChange={(e) => setDiplomasInput(e.target.value)}
+              placeholder="Ex: BF école de rugby, DE JEPS (séparés par des virgules)"
+              className="w-full border border-gray-300 rounded-md py-2 px-3 text-sm"
+            />
+          </div>
+
+          <div className="flex items-center gap-3">
+            <label className="flex-grow flex items-center text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.checkBirthDates}
+                onChange={(e) => setDraft(prev => ({ ...prev, checkBirthDates: e.target.checked }))}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+              />
+              {ROSTER_RULE_LABELS.birthDates}
+            </label>
+            {severitySelect('birthDates')}
+          </div>
+        </div>
+
+        <div className="p-4 bg-gray-50 border-t flex justify-between">
+          <button
+            type="button"
+            onClick={handleReset}
+            className="px-3 py-2 text-sm text-gray-600 hover:text-gray-900 flex items-center"
+          >
+            <RotateCcw size={14} className="mr-1" />
+            Valeurs par défaut
+          </button>
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Annuler
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving}
+              className={`px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white flex items-center ${
+                isSaving ? 'bg-blue-300 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              {isSaving && <Loader size={16} className="mr-2 animate-spin" />}
+              Enregistrer
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RosterRulesModal;
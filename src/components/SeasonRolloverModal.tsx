@@ -0,0 +1,239 @@
+import React, { useMemo, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { Season, SeasonCategoryRange } from '../types';
+import { createSeason, computeSeasonChanges, hasSavedSeason, loadCurrentSeason, saveCurrentSeason } from '../services/SeasonService';
+import { X, ArrowRight, AlertTriangle, Loader, RefreshCw } from 'lucide-react';
+
+interface SeasonRolloverModalProps {
+  onClose: () => void;
+}
+
+// Date de début de la saison suivant la saison enregistrée
+// Sans saison enregistrée, la saison courante est calculée à la date du jour : c'est elle qu'il faut appliquer
+const getNextSeasonStartDate = (): string => {
+  const currentSeason = loadCurrentSeason();
+  if (!hasSavedSeason()) {
+    return currentSeason.startDate;
+  }
+  const startYear = parseInt(currentSeason.startDate.substring(0, 4), 10);
+  return `${startYear + 1}${currentSeason.startDate.substring(4)}`;
+};
+
+const SeasonRolloverModal: React.FC<SeasonRolloverModalProps> = ({ onClose }) => {
+  const { players, ageCategories, updatePlayer } = useAppContext();
+  const [season, setSeason] = useState<Season>(() => createSeason(getNextSeasonStartDate()));
+  const [isApplying, setIsApplying] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [applyError, setApplyError] = useState<string | null>(null);
+
+  const changes = useMemo(
+    () => computeSeasonChanges(players, season, ageCategories),
+    [players, season, ageCategories]
+  );
+  const moves = changes.filter(change => change.toCategoryId !== null);
+  const withoutCategory = changes.filter(change => change.toCategoryId === null);
+
+  const getCategoryName = (categoryId: string | null) =>
+    ageCategories.find(category => category.id === categoryId)?.name || '-';
+
+  const handleStartDateChange = (startDate: string) => {
+    if (startDate) {
+      setSeason(createSeason(startDate));
+    }
+  };
+
+  const handleRangeChange = (index: number, field: keyof Omit<SeasonCategoryRange, 'categoryName'>, value: string) => {
+    const year = parseInt(value, 10);
+    if (isNaN(year)) return;
+
+    setSeason(prev => ({
+      ...prev,
+      categoryRanges: prev.categoryRanges.map((range, i) =>
+        i === index ? { ...range, [field]: year } : range
+      ),
+    }));
+  };
+
+  const handleApply = async () => {
+    if (!window.confirm(`Appliquer la saison ${season.label} et changer la catégorie de ${moves.length} joueur(s) ?`)) {
+      return;
+    }
+
+    setIsApplying(true);
+    setApplyError(null);
+    setProgress(0);
+
+    // Les joueurs déjà mis à jour sont restaurés si une mise à jour échoue
+    const applied: typeof moves = [];
+    try {
+      for (const change of moves) {
+        await updatePlayer(change.player.id, { ...change.player, ageCategoryId: change.toCategoryId! });
+        applied.push(change);
+        setProgress(applied.length);
+      }
+
+      saveCurrentSeason(season);
+      onClose();
+    } catch (error) {
+      console.error('Error applying season rollover:', error);
+
+      const notReverted: string[] = [];
+      for (const change of applied) {
+        try {
+          await updatePlayer(change.player.id, change.player);
+        } catch (rollbackError) {
+          console.error('Error rolling back player category:', rollbackError);
+          notReverted.push(`${change.player.lastName} ${change.player.firstName} (${getCategoryName(change.toCategoryId)})`);
+        }
+      }
+
+      setApplyError(notReverted.length === 0
+        ? 'Le changement de saison a échoué. Aucune catégorie n\'a été modifiée.'
+        : `Le changement de saison a échoué et ${notReverted.length} joueur(s) n'ont pas pu être remis dans leur catégorie : ${notReverted.join(', ')}. Corrigez leur catégorie manuellement.`);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl mx-auto overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="flex justify-between items-center p-6 border-b flex-shrink-0">
+          <h3 className="text-lg font-medium text-gray-900">
+            Changement de saison {season.label}
+          </h3>
+          <button onClick={onClose} disabled={isApplying} className="text-gray-400 hover:text-gray-500">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-grow space-y-6">
+          {applyError && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+              {applyError}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Début de la saison
+            </label>
+            <input
+              type="date"
+              value={season.startDate}
+              onChange={(e) => handleStartDateChange(e.target.value)}
+              disabled={isApplying}
+              className="w-full sm:w-1/2 border border-gray-300 rounded-md py-2 px-3 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Années de naissance par catégorie</h4>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {season.categoryRanges.map((range, index) => (
+                <div key={range.categoryName} className="border rounded-lg p-2">
+                  <p className="text-sm font-semibold text-gray-900 mb-1">{range.categoryName}</p>
+                  <div className="flex items-center space-x-1">
+                    <input
+                      type="number"
+                      value={range.minBirthYear}
+                      onChange={(e) => handleRangeChange(index, 'minBirthYear', e.target.value)}
+                      disabled={isApplying}
+                      className="w-full border border-gray-300 rounded-md py-1 px-1 text-sm"
+                    />
+                    <span className="text-gray-400">-</span>
+                    <input
+                      type="number"
+                      value={range.maxBirthYear}
+                      onChange={(e) => handleRangeChange(index, 'maxBirthYear', e.target.value)}
+                      disabled={isApplying}
+                      className="w-full border border-gray-300 rounded-md py-1 px-1 text-sm"
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">
+              Changements de catégorie ({moves.length})
+            </h4>
+            {moves.length === 0 ? (
+              <p className="text-sm text-gray-500">Aucun joueur ne change de catégorie.</p>
+            ) : (
+              <div className="border rounded-lg divide-y divide-gray-200 max-h-64 overflow-y-auto">
+                {moves
+                  .sort((a, b) => a.player.lastName.localeCompare(b.player.lastName, 'fr-FR'))
+                  .map(change => (
+                    <div key={change.player.id} className="px-4 py-2 flex items-center justify-between text-sm">
+                      <span className="text-gray-900">
+                        {change.player.lastName} {change.player.firstName}
+                        <span className="ml-2 text-gray-500">
+                          ({new Date(change.player.dateOfBirth).toLocaleDateString('fr-FR')})
+                        </span>
+                      </span>
+                      <span className="flex items-center text-gray-600">
+                        {getCategoryName(change.fromCategoryId)}
+                        <ArrowRight size={14} className="mx-2" />
+                        <span className="font-medium text-blue-700">{getCategoryName(change.toCategoryId)}</span>
+                      </span>
+                    </div>
+                  ))}
+              </div>
+            )}
+          </div>
+
+          {withoutCategory.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+              <div className="flex items-center text-yellow-800 font-medium text-sm mb-2">
+                <AlertTriangle size={16} className="mr-2" />
+                Aucune catégorie ne correspond à ces joueurs, leur catégorie actuelle est conservée :
+              </div>
+              <ul className="list-disc pl-5 text-sm text-yellow-700">
+                {withoutCategory.map(change => (
+                  <li key={change.player.id}>
+                    {change.player.lastName} {change.player.firstName} ({new Date(change.player.dateOfBirth).getFullYear()})
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 bg-gray-50 border-t flex justify-end space-x-3 flex-shrink-0">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isApplying}
+            className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Annuler
+          </button>
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={isApplying}
+            className={`px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white ${
+              isApplying ? 'bg-blue-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+            } inline-flex items-center`}
+          >
+            {isApplying ? (
+              <>
+                <Loader size={16} className="animate-spin mr-2" />
+                Mise à jour {progress}/{moves.length}...
+              </>
+            ) : (
+              <>
+                <RefreshCw size={16} className="mr-2" />
+                Appliquer la nouvelle saison
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SeasonRolloverModal;
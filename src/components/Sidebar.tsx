@@ -1,6 +1,7 @@
 import React from 'react';
 import { NavLink } from 'react-router-dom';
-import { X, LayoutDashboard, Users, Award, CalendarDays, FileSpreadsheet, FileText, Calendar } from 'lucide-react';
+import { X, LayoutDashboard, Users, Award, CalendarDays, FileSpreadsheet, FileText, Calendar, Archive, UserCog } from 'lucide-react';
+import { useAppContext } from '../context/AppContext';
 
 interface SidebarProps {
   isOpen: boolean;
@@ -8,6 +9,8 @@ interface SidebarProps {
 }
 
 const Sidebar: React.FC<SidebarProps> = ({ isOpen, closeSidebar }) => {
+  const { isAdmin } = useAppContext();
+
   const navigation = [
     { name: 'Tableau de bord', href: '/', icon: LayoutDashboard },
     { name: 'Joueurs', href: '/players', icon: Users },
@@ -21,7 +24,9 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, closeSidebar }) => {
       icon: FileSpreadsheet,
       isPrimary: true, // Marquer cet élément comme primaire
     },
-  ];
+    { name: 'Sauvegarde', href: '/backup', icon: Archive, adminOnly: true },
+    { name: 'Utilisateurs', href: '/users', icon: UserCog, adminOnly: true },
+  ].filter(item => !item.adminOnly || isAdmin);
 
   return (
     <>
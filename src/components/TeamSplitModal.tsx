@@ -0,0 +1,348 @@
+import React, { useState } from 'react';
+import { X, Loader, Shuffle, ShieldCheck, Castle as Whistle } from 'lucide-react';
+import { useAppContext } from '../context/AppContext';
+import { AgeCategory, AvailabilityStatus, Coach, Player, Template, Tournament } from '../types';
+import { generateAndStorePdf } from '../services/PdfExportService';
+import { getDefaultTeamName, getPlayersOnOtherSheets, splitPlayersIntoTeams, validateMatchSheet } from '../services/MatchSheetService';
+import { loadRosterRules } from '../services/RosterRulesService';
+import { loadCurrentSeason } from '../services/SeasonService';
+
+interface TeamSplitModalProps {
+  tournament: Tournament;
+  category: AgeCategory;
+  template: Template;
+  categoryPlayers: Player[];
+  categoryCoaches: Coach[];
+  availabilities: Record<string, AvailabilityStatus>;
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+interface TeamDraft {
+  name: string;
+  playerIds: string[];
+  coachIds: string[];
+  referentCoachId: string;
+}
+
+const TeamSplitModal: React.FC<TeamSplitModalProps> = ({
+  tournament,
+  category,
+  template,
+  categoryPlayers,
+  categoryCoaches,
+  availabilities,
+  onClose,
+  onCreated
+}) => {
+  const { matchSheets, addMatchSheet } = useAppContext();
+  const [teamCount, setTeamCount] = useState(2);
+  const [confirmedOnly, setConfirmedOnly] = useState(
+    categoryPlayers.some(player => availabilities[player.id] === 'available')
+  );
+  const [teams, setTeams] = useState<TeamDraft[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [creationStatus, setCreationStatus] = useState('');
+  const [season] = useState(() => loadCurrentSeason());
+  const rosterRules = loadRosterRules(category);
+
+  // Les joueurs déjà inscrits sur une autre feuille du tournoi ne sont pas répartis
+  const playersOnOtherSheets = getPlayersOnOtherSheets(matchSheets, tournament.id);
+  const existingTeamCount = matchSheets.filter(sheet =>
+    sheet.tournamentId === tournament.id && sheet.ageCategoryId === category.id
+  ).length;
+
+  const playerPool = categoryPlayers.filter(player =>
+    !playersOnOtherSheets.has(player.id) &&
+    availabilities[player.id] !== 'unavailable' &&
+    (!confirmedOnly || availabilities[player.id] === 'available')
+  );
+
+  const handleSplit = () => {
+    const split = splitPlayersIntoTeams(playerPool, teamCount);
+    setTeams(split.map((teamPlayers, index) => ({
+      name: getDefaultTeamName(existingTeamCount + index),
+      playerIds: teamPlayers.map(player => player.id),
+      coachIds: [],
+      referentCoachId: ''
+    })));
+  };
+
+  const updateTeam = (index: number, changes: Partial<TeamDraft>) => {
+    setTeams(prev => prev.map((team, i) => i === index ? { ...team, ...changes } : team));
+  };
+
+  const movePlayer = (playerId: string, fromIndex: number, toIndex: number) => {
+    setTeams(prev => prev.map((team, i) => {
+      if (i === fromIndex) return { ...team, playerIds: team.playerIds.filter(id => id !== playerId) };
+      if (i === toIndex) return { ...team, playerIds: [...team.playerIds, playerId] };
+      return team;
+    }));
+  };
+
+  const toggleCoach = (index: number, coachId: string) => {
+    const team = teams[index];
+    const coachIds = team.coachIds.includes(coachId)
+      ? team.coachIds.filter(id => id !== coachId)
+      : [...team.coachIds, coachId];
+    updateTeam(index, {
+      coachIds,
+      referentCoachId: coachIds.includes(team.referentCoachId) ? team.referentCoachId : coachIds[0] || ''
+    });
+  };
+
+  // Mêmes contrôles que la création d'une feuille, règles d'effectif de la catégorie comprises
+  const validateTeam = (team: TeamDraft) => {
+    const validation = validateMatchSheet(
+      tournament,
+      template.id,
+      category.id,
+      categoryPlayers.filter(player => team.playerIds.includes(player.id)),
+      categoryCoaches.filter(coach => team.coachIds.includes(coach.id)),
+      team.referentCoachId,
+      rosterRules,
+      season
+    );
+    if (!team.name.trim()) validation.errors.unshift('Nom d\'équipe manquant');
+    return validation;
+  };
+
+  const teamValidations = teams.map(validateTeam);
+  const canCreate = teams.length > 0 && teamValidations.every(validation => validation.errors.length === 0);
+
+  const handleCreate = async () => {
+    if (!canCreate) return;
+
+    const warnings = teamValidations.flatMap((validation, index) =>
+      validation.warnings.map(warning => `${teams[index].name} : ${warning}`)
+    );
+    if (warnings.length > 0 &&
+        !window.confirm(`Avertissements :\n- ${warnings.join('\n- ')}\n\nCréer quand même les feuilles de match ?`)) {
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      for (const team of teams) {
+        setCreationStatus(`Génération de la feuille ${team.name}...`);
+        const teamPlayers = categoryPlayers.filter(player => team.playerIds.includes(player.id));
+        const teamCoaches = categoryCoaches.filter(coach => team.coachIds.includes(coach.id));
+
+        const { filename: pdfFilename } = await generateAndStorePdf(
+          template.id,
+          tournament.id,
+          teamPlayers,
+          teamCoaches,
+          team.referentCoachId,
+          template,
+          tournament,
+          category.name
+        );
+
+        await addMatchSheet({
+          id: '',
+          tournamentId: tournament.id,
+          templateId: template.id,
+          ageCategoryId: category.id,
+          referentCoachId: team.referentCoachId,
+          playerIds: team.playerIds,
+          coachIds: team.coachIds,
+          pdfUrl: `/generated_pdfs/${pdfFilename}`,
+          status: 'draft',
+          teamName: team.name.trim(),
+          createdAt: new Date()
+        });
+      }
+      onCreated();
+    } catch (error) {
+      console.error('Error creating team match sheets:', error);
+      alert('Erreur lors de la création des feuilles de match des équipes.');
+    } finally {
+      setIsCreating(false);
+      setCreationStatus('');
+    }
+  };
+
+  const getPlayer = (id: string) => categoryPlayers.find(player => player.id === id);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl mx-auto overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="flex justify-between items-center p-4 border-b flex-shrink-0">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Répartir en plusieurs équipes</h3>
+            <p className="text-sm text-gray-500">
+              {tournament.location} - {category.name} - {playerPool.length} joueurs à répartir
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-4 border-b flex flex-wrap items-center gap-4 flex-shrink-0">
+          <label className="text-sm text-gray-700 flex items-center">
+            Nombre d'équipes
+            <select
+              value={teamCount}
+              onChange={(e) => setTeamCount(parseInt(e.target.value, 10))}
+              className="ml-2 border border-gray-300 rounded-md py-1 px-2 text-sm"
+            >
+              {[2, 3, 4].map(count => (
+                <option key={count} value={count}>{count}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-700 flex items-center">
+            <input
+              type="checkbox"
+              checked={confirmedOnly}
+              onChange={(e) => setConfirmedOnly(e.target.checked)}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+            />
+            Uniquement les joueurs ayant confirmé leur présence
+          </label>
+          <button
+            type="button"
+            onClick={handleSplit}
+            disabled={playerPool.length === 0}
+            className="ml-auto bg-blue-600 hover:bg-blue-700 text-white px-3 py-1.5 rounded-md text-sm flex items-center disabled:opacity-50"
+          >
+            <Shuffle size={16} className="mr-1" />
+            Répartir
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-grow">
+          {playersOnOtherSheets.size > 0 && (
+            <p className="mb-4 text-sm text-gray-500">
+              {categoryPlayers.filter(player => playersOnOtherSheets.has(player.id)).length} joueur(s) de la catégorie
+              déjà inscrit(s) sur une autre feuille du tournoi ne sont pas répartis.
+            </p>
+          )}
+          {teams.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">
+              Choisissez le nombre d'équipes puis cliquez sur « Répartir ». Les avants et les jeunes arbitres
+              sont distribués équitablement entre les équipes.
+            </p>
+          ) : (
+            <div className={`grid grid-cols-1 gap-4 ${teams.length > 2 ? 'lg:grid-cols-3' : 'md:grid-cols-2'}`}>
+              {teams.map((team, teamIndex) => {
+                const teamPlayers = team.playerIds.map(getPlayer).filter((p): p is Player => Boolean(p));
+                const { errors, warnings } = teamValidations[teamIndex];
+                return (
+                  <div key={teamIndex} className="border border-gray-200 rounded-lg p-3">
+                    <input
+                      type="text"
+                      value={team.name}
+                      onChange={(e) => updateTeam(teamIndex, { name: e.target.value })}
+                      className="w-full border border-gray-300 rounded-md py-1 px-2 text-sm font-medium mb-2"
+                    />
+                    <div className="flex space-x-3 text-xs text-gray-600 mb-2">
+                      <span>{teamPlayers.length} joueurs</span>
+                      <span className="flex items-center">
+                        <ShieldCheck size={12} className="mr-0.5" />
+                        {teamPlayers.filter(p => p.canPlayForward).length} avants
+                      </span>
+                      <span className="flex items-center">
+                        <Whistle size={12} className="mr-0.5" />
+                        {teamPlayers.filter(p => p.canReferee).length} arbitres
+                      </span>
+                    </div>
+                    <ul className="border rounded divide-y divide-gray-100 max-h-56 overflow-y-auto mb-3">
+                      {teamPlayers.map(player => (
+                        <li key={player.id} className="px-2 py-1 flex items-center text-sm">
+                          <span className="flex-grow">
+                            {player.lastName} {player.firstName}
+                            {player.canPlayForward && <ShieldCheck size={12} className="inline ml-1 text-green-600" />}
+                            {player.canReferee && <Whistle size={12} className="inline ml-1 text-yellow-600" />}
+                          </span>
+                          <select
+                            value={teamIndex}
+                            onChange={(e) => movePlayer(player.id, teamIndex, parseInt(e.target.value, 10))}
+                            className="text-xs border border-gray-200 rounded py-0.5"
+                          >
+                            {teams.map((t, i) => (
+                              <option key={i} value={i}>{t.name || `Équipe ${i + 1}`}</option>
+                            ))}
+                          </select>
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="text-xs font-medium text-gray-700 mb-1">Entraîneurs</p>
+                    <div className="flex flex-wrap gap-1 mb-2">
+                      {categoryCoaches.map(coach => (
+                        <button
+                          key={coach.id}
+                          type="button"
+                          onClick={() => toggleCoach(teamIndex, coach.id)}
+                          className={`px-2 py-0.5 text-xs border rounded-full ${
+                            team.coachIds.includes(coach.id)
+                              ? 'bg-blue-600 text-white border-blue-600'
+                              : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+                          }`}
+                        >
+                          {coach.lastName} {coach.firstName}
+                        </button>
+                      ))}
+                    </div>
+                    <select
+                      value={team.referentCoachId}
+                      onChange={(e) => updateTeam(teamIndex, { referentCoachId: e.target.value })}
+                      className="w-full border border-gray-300 rounded-md py-1 px-2 text-sm"
+                    >
+                      <option value="">Entraîneur référent</option>
+                      {categoryCoaches
+                        .filter(coach => team.coachIds.includes(coach.id))
+                        .map(coach => (
+                          <option key={coach.id} value={coach.id}>
+                            {coach.lastName} {coach.firstName}
+                          </option>
+                        ))}
+                    </select>
+                    {errors.length > 0 && (
+                      <p className="mt-2 text-xs text-red-600">{errors.join(' · ')}</p>
+                    )}
+                    {warnings.length > 0 && (
+                      <p className="mt-2 text-xs text-yellow-700">{warnings.join(' · ')}</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 bg-gray-50 border-t flex justify-end space-x-3 flex-shrink-0">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isCreating}
+            className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Annuler
+          </button>
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={!canCreate || isCreating}
+            className={`px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white inline-flex items-center ${
+              !canCreate || isCreating ? 'bg-blue-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            {isCreating ? (
+              <>
+                <Loader size={16} className="animate-spin mr-2" />
+                {creationStatus}
+              </>
+            ) : (
+              `Créer ${teams.length || ''} feuilles`
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TeamSplitModal;
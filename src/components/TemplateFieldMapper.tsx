@@ -0,0 +1,553 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { X, Loader, ChevronLeft, ChevronRight, Eye, EyeOff, MousePointerClick, AlertCircle } from 'lucide-react';
+import { PdfFieldMapping } from '../types';
+import { getPdf } from '../services/PdfStorage';
+import { loadPdfDocument, renderPdfPage, RenderedPdfPage } from '../services/PdfPageRenderer';
+import {
+  PDF_DATA_PATHS,
+  buildPdfData,
+  getRowFieldNames,
+  getRowProperty,
+  resolveFieldValues,
+} from '../services/PdfGenerator';
+import { sampleCoaches, samplePlayers, samplePreviewTournament } from '../data/sampleData';
+
+interface TemplateFieldMapperProps {
+  fileUrl: string;
+  fieldMappings: PdfFieldMapping[];
+  onChange: (mappings: PdfFieldMapping[]) => void;
+  onClose: () => void;
+}
+
+// Correspondance d'un champ du PDF : mapping concerné et numéro de ligne pour les joueurs et éducateurs
+interface FieldAssignment {
+  mappingIndex: number;
+  row?: number;
+  explicit: boolean;
+}
+
+type RowType = 'joueur' | 'educateur';
+
+const PAGE_SCALE = 1.25;
+// Nombre de lignes examinées pour retrouver un champ généré par un modèle {i} sans limite
+const MAX_LOOKUP_ROWS = 100;
+
+const ROW_TYPE_LABELS: Record<RowType, string> = {
+  joueur: 'Joueur',
+  educateur: 'Éducateur',
+};
+
+/**
+ * Donnée de l'application correspondant à un mapping
+ */
+const findDataPath = (mapping: PdfFieldMapping) =>
+  PDF_DATA_PATHS.find(path =>
+    path.type === mapping.type &&
+    (path.type === 'global'
+      ? path.mapping === mapping.mapping
+      : getRowProperty(path.mapping) === getRowProperty(mapping.mapping))
+  );
+
+/**
+ * Associe chaque nom de champ du PDF au mapping qui le remplit
+ */
+const buildAssignments = (mappings: PdfFieldMapping[]): Map<string, FieldAssignment> => {
+  const assignments = new Map<string, FieldAssignment>();
+
+  mappings.forEach((mapping, mappingIndex) => {
+    if (mapping.type === 'global') {
+      if (!assignments.has(mapping.champ_pdf)) {
+        assignments.set(mapping.champ_pdf, { mappingIndex, explicit: true });
+      }
+      return;
+    }
+    if (mapping.type !== 'joueur' && mapping.type !== 'educateur') return;
+
+    getRowFieldNames(mapping, mapping.ligne?.nombre_lignes ?? MAX_LOOKUP_ROWS).forEach((fieldName, row) => {
+      if (!assignments.has(fieldName)) {
+        const explicit = mapping.ligne?.champs_par_ligne?.[row]?.trim() === fieldName;
+        assignments.set(fieldName, { mappingIndex, row: row + 1, explicit });
+      }
+    });
+  });
+
+  return assignments;
+};
+
+/**
+ * Déduit un modèle {i} d'un nom de champ se terminant par le numéro de ligne (ex: Nom_3 -> Nom_{i})
+ */
+const inferRowPattern = (fieldName: string, row: number): string | null => {
+  const match = fieldName.match(/^(.*?)(\d+)(\D*)$/);
+  if (!match || parseInt(match[2], 10) !== row) return null;
+  return `${match[1]}{i}${match[3]}`;
+};
+
+/**
+ * Retire un champ du mapping qui le remplit
+ * Un champ généré par un modèle {i} ne peut pas être retiré seul : le mapping entier est supprimé
+ */
+const unassignField = (mappings: PdfFieldMapping[], fieldName: string): PdfFieldMapping[] => {
+  const assignment = buildAssignments(mappings).get(fieldName);
+  if (!assignment) return mappings;
+
+  const mapping = mappings[assignment.mappingIndex];
+  const champsParLigne = mapping.ligne?.champs_par_ligne;
+  if (assignment.row === undefined || !assignment.explicit || !champsParLigne) {
+    return mappings.filter((_, index) => index !== assignment.mappingIndex);
+  }
+
+  const remaining = [...champsParLigne];
+  remaining[assignment.row - 1] = '';
+  while (remaining.length > 0 && !remaining[remaining.length - 1].trim()) {
+    remaining.pop();
+  }
+
+  // Sans modèle {i} ni nom explicite, le mapping ne remplit plus aucun champ
+  if (remaining.length === 0 && !mapping.champ_pdf.includes('{i}')) {
+    return mappings.filter((_, index) => index !== assignment.mappingIndex);
+  }
+
+  return mappings.map((current, index) =>
+    index === assignment.mappingIndex
+      ? {
+          ...current,
+          ligne: {
+            index_depart: 1,
+            ...current.ligne,
+            champs_par_ligne: remaining.length > 0 ? remaining : undefined,
+            nombre_lignes: current.champ_pdf.includes('{i}') ? current.ligne?.nombre_lignes : remaining.length,
+          },
+        }
+      : current
+  );
+};
+
+/**
+ * Associe un champ du PDF à une donnée
+ * Pour les joueurs et éducateurs, le champ est ajouté au mapping existant de la même donnée
+ */
+const assignField = (
+  mappings: PdfFieldMapping[],
+  fieldName: string,
+  type: PdfFieldMapping['type'],
+  dataPath: string,
+  row: number
+): PdfFieldMapping[] => {
+  const updated = unassignField(mappings, fieldName);
+
+  if (type === 'global' || type === 'autre') {
+    return [...updated, { champ_pdf: fieldName, type, mapping: dataPath }];
+  }
+
+  const property = getRowProperty(dataPath);
+  const existingIndex = updated.findIndex(
+    mapping => mapping.type === type && getRowProperty(mapping.mapping) === property
+  );
+
+  if (existingIndex === -1) {
+    const pattern = inferRowPattern(fieldName, row);
+    const champsParLigne = pattern ? undefined : [...Array(row - 1).fill(''), fieldName];
+    return [
+      ...updated,
+      {
+        champ_pdf: pattern ?? fieldName,
+        type,
+        mapping: dataPath,
+        ligne: {
+          index_depart: 1,
+          nombre_lignes: pattern ? undefined : row,
+          champs_par_ligne: champsParLigne,
+        },
+      },
+    ];
+  }
+
+  const existing = updated[existingIndex];
+  // Le modèle produit déjà ce nom pour cette ligne : rien à ajouter
+  if (getRowFieldNames(existing, row)[row - 1] === fieldName) {
+    return updated;
+  }
+
+  const champsParLigne = [...(existing.ligne?.champs_par_ligne ?? [])];
+  while (champsParLigne.length < row) {
+    champsParLigne.push('');
+  }
+  champsParLigne[row - 1] = fieldName;
+
+  const currentRowCount = existing.ligne?.nombre_lignes;
+  return updated.map((mapping, index) =>
+    index === existingIndex
+      ? {
+          ...mapping,
+          ligne: {
+            index_depart: 1,
+            ...mapping.ligne,
+            champs_par_ligne: champsParLigne,
+            nombre_lignes: currentRowCount !== undefined ? Math.max(currentRowCount, row) : undefined,
+          },
+        }
+      : mapping
+  );
+};
+
+const TemplateFieldMapper: React.FC<TemplateFieldMapperProps> = ({ fileUrl, fieldMappings, onChange, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pdfDocument, setPdfDocument] = useState<PDFDocumentProxy | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [renderedPage, setRenderedPage] = useState<RenderedPdfPage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showPreview, setShowPreview] = useState(true);
+  const [selectedField, setSelectedField] = useState<string | null>(null);
+  const [selectedPath, setSelectedPath] = useState('');
+  const [selectedRow, setSelectedRow] = useState(1);
+
+  // Chargement du modèle
+  useEffect(() => {
+    let cancelled = false;
+    let loadedDocument: PDFDocumentProxy | null = null;
+
+    const loadTemplate = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const fileName = fileUrl.split('/').pop();
+        const content = fileName ? await getPdf(fileName) : null;
+        if (!content) {
+          throw new Error('Fichier PDF non trouvé');
+        }
+        loadedDocument = await loadPdfDocument(content);
+        if (!cancelled) {
+          setPdfDocument(loadedDocument);
+          setPageNumber(1);
+        }
+      } catch (err) {
+        console.error('Erreur lors du chargement du modèle:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Impossible de charger le modèle');
+          setLoading(false);
+        }
+      }
+    };
+
+    loadTemplate();
+
+    return () => {
+      cancelled = true;
+      loadedDocument?.destroy();
+    };
+  }, [fileUrl]);
+
+  // Rendu de la page affichée
+  useEffect(() => {
+    if (!pdfDocument || !canvasRef.current) return;
+    let cancelled = false;
+
+    setLoading(true);
+    renderPdfPage(pdfDocument, pageNumber, canvasRef.current, PAGE_SCALE)
+      .then(page => {
+        if (!cancelled) setRenderedPage(page);
+      })
+      .catch(err => {
+        console.error('Erreur lors du rendu de la page:', err);
+        if (!cancelled) setError('Impossible d\'afficher cette page du modèle');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdfDocument, pageNumber]);
+
+  const assignments = useMemo(() => buildAssignments(fieldMappings), [fieldMappings]);
+
+  // Aperçu avec les joueurs et éducateurs fictifs
+  const previewValues = useMemo(() => {
+    const sampleData = buildPdfData(samplePlayers, sampleCoaches, sampleCoaches[0]?.id || '', samplePreviewTournament);
+    const values = new Map<string, string | boolean>();
+    resolveFieldValues(sampleData, fieldMappings).forEach(field => values.set(field.champ_pdf, field.valeur));
+    return values;
+  }, [fieldMappings]);
+
+  const describeAssignment = (assignment: FieldAssignment) => {
+    const mapping = fieldMappings[assignment.mappingIndex];
+    const dataPath = findDataPath(mapping);
+    const label = dataPath?.label ?? mapping.mapping;
+    if (assignment.row === undefined) return label;
+    return `${ROW_TYPE_LABELS[mapping.type as RowType]} ${assignment.row} : ${label}`;
+  };
+
+  const selectField = (fieldName: string) => {
+    setSelectedField(fieldName);
+    const assignment = assignments.get(fieldName);
+    if (assignment) {
+      const dataPath = findDataPath(fieldMappings[assignment.mappingIndex]);
+      setSelectedPath(dataPath ? `${dataPath.type}|${dataPath.mapping}` : '');
+      setSelectedRow(assignment.row ?? 1);
+    } else {
+      // Un numéro final dans le nom du champ correspond souvent à la ligne
+      const trailingNumber = fieldName.match(/(\d+)\D*$/);
+      setSelectedRow(trailingNumber ? Math.max(1, parseInt(trailingNumber[1], 10)) : 1);
+    }
+  };
+
+  const handleAssign = () => {
+    if (!selectedField || !selectedPath) return;
+    const [type, dataPath] = selectedPath.split('|') as [PdfFieldMapping['type'], string];
+    onChange(assignField(fieldMappings, selectedField, type, dataPath, selectedRow));
+  };
+
+  const handleUnassign = () => {
+    if (!selectedField) return;
+    const assignment = assignments.get(selectedField);
+    if (assignment && assignment.row !== undefined && !assignment.explicit) {
+      const pattern = fieldMappings[assignment.mappingIndex].champ_pdf;
+      if (!window.confirm(`Ce champ est rempli par le modèle « ${pattern} ». Supprimer ce modèle pour toutes les lignes ?`)) {
+        return;
+      }
+    }
+    onChange(unassignField(fieldMappings, selectedField));
+  };
+
+  const selectedAssignment = selectedField ? assignments.get(selectedField) : undefined;
+  const selectedType = selectedPath.split('|')[0];
+  const pageCount = pdfDocument?.numPages ?? 0;
+  const pageWidgets = renderedPage?.widgets ?? [];
+  const assignedOnPage = pageWidgets.filter(widget => assignments.has(widget.fieldName)).length;
+
+  const formatPreview = (value: string | boolean) => (typeof value === 'boolean' ? (value ? '✓' : '') : value);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-7xl mx-auto overflow-hidden flex flex-col h-[90vh]">
+        <div className="flex justify-between items-center p-4 border-b flex-shrink-0">
+          <h3 className="text-lg font-medium text-gray-900 flex items-center">
+            <MousePointerClick size={20} className="mr-2 text-gray-500" />
+            Éditeur visuel des correspondances
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex flex-grow overflow-hidden">
+          <div className="flex-grow flex flex-col overflow-hidden border-r">
+            <div className="flex items-center justify-between px-4 py-2 border-b bg-gray-50 text-sm flex-shrink-0">
+              <div className="flex items-center space-x-2">
+                <button
+                  type="button"
+                  onClick={() => setPageNumber(page => Math.max(1, page - 1))}
+                  disabled={pageNumber <= 1}
+                  className="p-1 rounded hover:bg-gray-200 disabled:opacity-40"
+                >
+                  <ChevronLeft size={18} />
+                </button>
+                <span className="text-gray-700">
+                  Page {pageNumber} / {pageCount || '-'}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setPageNumber(page => Math.min(pageCount, page + 1))}
+                  disabled={pageNumber >= pageCount}
+                  className="p-1 rounded hover:bg-gray-200 disabled:opacity-40"
+                >
+                  <ChevronRight size={18} />
+                </button>
+                <span className="text-gray-500 ml-2">
+                  {assignedOnPage} / {pageWidgets.length} champ(s) associé(s) sur cette page
+                </span>
+              </div>
+              <button
+                type="button"
+                onClick={() => setShowPreview(!showPreview)}
+                className="flex items-center text-gray-700 hover:text-gray-900"
+              >
+                {showPreview ? <EyeOff size={16} className="mr-1" /> : <Eye size={16} className="mr-1" />}
+                {showPreview ? 'Masquer l\'aperçu' : 'Aperçu avec données fictives'}
+              </button>
+            </div>
+
+            <div className="flex-grow overflow-auto bg-gray-100 p-4">
+              {error ? (
+                <div className="flex flex-col items-center justify-center h-full text-red-600">
+                  <AlertCircle size={32} className="mb-2" />
+                  {error}
+                </div>
+              ) : (
+                <div className="relative mx-auto shadow bg-white" style={{ width: renderedPage?.width, height: renderedPage?.height }}>
+                  <canvas ref={canvasRef} className="absolute inset-0" />
+                  {!loading && pageWidgets.map((widget, index) => {
+                    const assigned = assignments.has(widget.fieldName);
+                    const selected = selectedField === widget.fieldName;
+                    const preview = previewValues.get(widget.fieldName);
+                    return (
+                      <button
+                        key={`${widget.fieldName}-${index}`}
+                        type="button"
+                        onClick={() => selectField(widget.fieldName)}
+                        title={widget.fieldName}
+                        className={`absolute border text-left overflow-hidden whitespace-nowrap px-0.5 ${
+                          selected
+                            ? 'border-blue-600 bg-blue-200 bg-opacity-50 ring-2 ring-blue-400'
+                            : assigned
+                              ? 'border-green-600 bg-green-100 bg-opacity-40 hover:bg-opacity-70'
+                              : 'border-amber-500 bg-amber-100 bg-opacity-40 hover:bg-opacity-70'
+                        }`}
+                        style={{
+                          left: widget.left,
+                          top: widget.top,
+                          width: widget.width,
+                          height: widget.height,
+                          fontSize: Math.max(7, Math.min(12, widget.height * 0.7)),
+                          lineHeight: `${widget.height}px`,
+                        }}
+                      >
+                        {showPreview && preview !== undefined && (
+                          <span className="text-blue-900">{formatPreview(preview)}</span>
+                        )}
+                      </button>
+                    );
+                  })}
+                  {loading && (
+                    <div className="absolute inset-0 flex items-center justify-center text-gray-500 min-h-[200px]">
+                      <Loader size={20} className="animate-spin mr-2" />
+                      Chargement du modèle...
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="w-80 flex-shrink-0 flex flex-col overflow-hidden">
+            <div className="p-4 border-b">
+              {selectedField ? (
+                <div className="space-y-3">
+                  <div>
+                    <p className="text-xs text-gray-500 uppercase tracking-wider">Champ sélectionné</p>
+                    <p className="font-mono text-sm text-gray-900 break-all">{selectedField}</p>
+                    <p className={`text-sm mt-1 ${selectedAssignment ? 'text-green-700' : 'text-amber-700'}`}>
+                      {selectedAssignment ? describeAssignment(selectedAssignment) : 'Non associé'}
+                    </p>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Donnée</label>
+                    <select
+                      value={selectedPath}
+                      onChange={(e) => setSelectedPath(e.target.value)}
+                      className="w-full border border-gray-300 rounded-md py-1.5 px-2 text-sm"
+                    >
+                      <option value="">Choisir une donnée...</option>
+                      <optgroup label="Manifestation">
+                        {PDF_DATA_PATHS.filter(path => path.type === 'global').map(path => (
+                          <option key={path.mapping} value={`${path.type}|${path.mapping}`}>{path.label}</option>
+                        ))}
+                      </optgroup>
+                      {(Object.keys(ROW_TYPE_LABELS) as RowType[]).map(rowType => (
+                        <optgroup key={rowType} label={`${ROW_TYPE_LABELS[rowType]} (ligne N)`}>
+                          {PDF_DATA_PATHS.filter(path => path.type === rowType).map(path => (
+                            <option key={path.mapping} value={`${path.type}|${path.mapping}`}>{path.label}</option>
+                          ))}
+                        </optgroup>
+                      ))}
+                    </select>
+                  </div>
+
+                  {(selectedType === 'joueur' || selectedType === 'educateur') && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Numéro de ligne</label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={selectedRow}
+                        onChange={(e) => setSelectedRow(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                        className="w-24 border border-gray-300 rounded-md py-1 px-2 text-sm"
+                      />
+                    </div>
+                  )}
+
+                  <div className="flex space-x-2">
+                    <button
+                      type="button"
+                      onClick={handleAssign}
+                      disabled={!selectedPath}
+                      className="px-3 py-1.5 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300"
+                    >
+                      Associer
+                    </button>
+                    {selectedAssignment && (
+                      <button
+                        type="button"
+                        onClick={handleUnassign}
+                        className="px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+                      >
+                        Retirer
+                      </button>
+                    )}
+                  </div>
+
+                  {previewValues.has(selectedField) && (
+                    <p className="text-xs text-gray-500">
+                      Aperçu : <span className="text-gray-900">{formatPreview(previewValues.get(selectedField)!) || '(case décochée)'}</span>
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  Cliquez sur un champ du modèle pour l'associer à une donnée de l'application.
+                </p>
+              )}
+            </div>
+
+            <div className="flex-grow overflow-y-auto">
+              <p className="px-4 pt-3 pb-1 text-xs font-medium text-gray-500 uppercase tracking-wider">Champs de la page</p>
+              {!loading && renderedPage && pageWidgets.length === 0 && (
+                <p className="px-4 py-2 text-sm text-gray-500">
+                  Aucun champ de formulaire sur cette page. Pour un PDF scanné ou aplati, définissez des zones de texte.
+                </p>
+              )}
+              <ul className="divide-y divide-gray-100">
+                {pageWidgets.map((widget, index) => {
+                  const assignment = assignments.get(widget.fieldName);
+                  return (
+                    <li key={`${widget.fieldName}-${index}`}>
+                      <button
+                        type="button"
+                        onClick={() => selectField(widget.fieldName)}
+                        className={`w-full text-left px-4 py-2 text-sm hover:bg-gray-50 ${
+                          selectedField === widget.fieldName ? 'bg-blue-50' : ''
+                        }`}
+                      >
+                        <span className="font-mono text-gray-900 break-all">{widget.fieldName}</span>
+                        <span className={`block text-xs ${assignment ? 'text-green-700' : 'text-amber-700'}`}>
+                          {assignment ? describeAssignment(assignment) : 'Non associé'}
+                        </span>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 bg-gray-50 border-t flex justify-end flex-shrink-0">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+          >
+            Terminer
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateFieldMapper;
@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { X, FlaskConical, Loader, CheckCircle } from 'lucide-react';
+import { Template } from '../types';
+import PdfViewer from './PdfViewer';
+import {
+  getDefaultSyntheticRosterOptions,
+  runTemplateTestFill,
+  SyntheticRosterOptions,
+  TemplateTestResult,
+} from '../services/TemplateTestService';
+
+interface TemplateTestFillModalProps {
+  template: Template;
+  onClose: () => void;
+}
+
+const FLAG_OPTIONS: { key: 'longNames' | 'accents' | 'allFlags'; label: string }[] = [
+  { key: 'longNames', label: 'Noms et prénoms longs' },
+  { key: 'accents', label: 'Accents et apostrophes' },
+  { key: 'allFlags', label: 'Toutes les cases cochées (avant, arbitre)' },
+];
+
+const toPdfDataUri = (pdfBytes: Uint8Array) =>
+  `data:application/pdf;base64,${btoa(Array.from(pdfBytes).map(byte => String.fromCharCode(byte)).join(''))}`;
+
+const TemplateTestFillModal: React.FC<TemplateTestFillModalProps> = ({ template, onClose }) => {
+  const [options, setOptions] = useState<SyntheticRosterOptions>(() => getDefaultSyntheticRosterOptions(template));
+  const [result, setResult] = useState<TemplateTestResult | null>(null);
+  const [pdfUrl, setPdfUrl] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCountChange = (key: 'playerCount' | 'coachCount', value: string) => {
+    const count = parseInt(value, 10);
+    setOptions(prev => ({ ...prev, [key]: isNaN(count) ? 0 : Math.min(Math.max(count, 0), 60) }));
+  };
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setError(null);
+    try {
+      const testResult = await runTemplateTestFill(template, options);
+      setResult(testResult);
+      setPdfUrl(toPdfDataUri(testResult.pdfBytes));
+    } catch (err) {
+      console.error('Error running template test fill:', err);
+      setError(err instanceof Error ? err.message : 'Erreur lors du test de remplissage.');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const report = result?.report;
+  const otherIssues = report
+    ? [
+      ...report.warnings,
+      ...report.overflow.map(overflow => `${overflow.names.length} ligne(s) ${overflow.type} au-delà des ${overflow.capacity} prévues`),
+      ...report.missingFields.map(field => `Champ mappé absent du PDF : ${field.champ_pdf}`),
+      ...report.unknownMappings.map(field => `Correspondance inconnue : ${field.champ_pdf} (${field.mapping})`),
+    ]
+    : [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-6xl mx-auto overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="flex justify-between items-center p-4 border-b flex-shrink-0">
+          <h3 className="text-lg font-medium text-gray-900 flex items-center">
+            <FlaskConical size={20} className="mr-2 text-gray-500" />
+            Test de remplissage : {template.name}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-grow overflow-hidden grid grid-cols-1 lg:grid-cols-3">
+          <div className="p-4 border-r overflow-y-auto space-y-4">
+            <p className="text-sm text-gray-600">
+              Le modèle est rempli avec un effectif fictif, sans rien enregistrer. Les champs tronqués sont encadrés
+              en orange, les champs mappés restés vides en rouge.
+            </p>
+
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block text-sm font-medium text-gray-700">
+                Joueurs
+                <input
+                  type="number"
+                  min={0}
+                  max={60}
+                  value={options.playerCount}
+                  onChange={(e) => handleCountChange('playerCount', e.target.value)}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-1.5 px-2 text-sm"
+                />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Éducateurs
+                <input
+                  type="number"
+                  min={0}
+                  max={60}
+                  value={options.coachCount}
+                  onChange={(e) => handleCountChange('coachCount', e.target.value)}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-1.5 px-2 text-sm"
+                />
+              </label>
+            </div>
+
+            <div className="space-y-2">
+              {FLAG_OPTIONS.map(option => (
+                <label key={option.key} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={options[option.key]}
+                    onChange={(e) => setOptions(prev => ({ ...prev, [option.key]: e.target.checked }))}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+
+            <button
+              type="button"
+              onClick={handleRun}
+              disabled={isRunning}
+              className={`w-full px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white flex items-center justify-center ${
+                isRunning ? 'bg-blue-300 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              {isRunning ? <Loader size={16} className="mr-2 animate-spin" /> : <FlaskConical size={16} className="mr-2" />}
+              {result ? 'Relancer le test' : 'Lancer le test'}
+            </button>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">{error}</div>
+            )}
+
+            {result && report && (
+              <div className="space-y-3">
+                {report.truncated.length + result.emptyFields.length + otherIssues.length === 0 && (
+                  <div className="bg-green-50 border border-green-200 rounded-md p-3 text-sm text-green-800 flex items-center">
+                    <CheckCircle size={18} className="mr-2 flex-shrink-0" />
+                    {report.filled.length} champ(s) rempli(s), aucun texte tronqué.
+                  </div>
+                )}
+
+                {report.truncated.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-medium text-orange-700 mb-1">Textes tronqués ({report.truncated.length})</h4>
+                    <ul className="text-sm text-gray-700 space-y-0.5">
+                      {report.truncated.map((field, index) => (
+                        <li key={index}>
+                          <span className="font-mono">{field.champ_pdf}</span> : {String(field.valeur)}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {result.emptyFields.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-medium text-red-700 mb-1">Champs restés vides ({result.emptyFields.length})</h4>
+                    <ul className="text-sm text-gray-700 space-y-0.5">
+                      {result.emptyFields.map((field, index) => (
+                        <li key={index}>
+                          <span className="font-mono">{field.champ_pdf}</span> ({field.mapping})
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {otherIssues.length > 0 && (
+                  <ul className="list-disc pl-5 text-sm text-yellow-800 space-y-1">
+                    {otherIssues.map((issue, index) => (
+                      <li key={index}>{issue}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="lg:col-span-2 p-4 overflow-auto bg-gray-50">
+            {pdfUrl ? (
+              <PdfViewer url={pdfUrl} height="70vh" />
+            ) : (
+              <div className="h-full min-h-[300px] flex items-center justify-center text-sm text-gray-500">
+                Lancez le test pour afficher le modèle rempli.
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateTestFillModal;
@@ -0,0 +1,274 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, UploadCloud, Loader, Download, History, AlertTriangle, CheckCircle } from 'lucide-react';
+import { useAppContext } from '../context/AppContext';
+import { Template, TemplateVersion } from '../types';
+import { getPdf, storePdf, createPdfBlobUrl } from '../services/PdfStorage';
+import { extractFormFieldsInfo } from '../services/MatchSheetService';
+import { compareTemplateFields, getCarriedOverMappings, TemplateFieldComparison } from '../services/TemplateVersionService';
+
+interface TemplateVersionModalProps {
+  template: Template;
+  onClose: () => void;
+  onPublished: () => void;
+}
+
+interface PendingVersion {
+  fileName: string;
+  content: string;
+  previousFieldNames: string[];
+  comparison: TemplateFieldComparison;
+}
+
+const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const getFieldNames = async (content: string) => (await extractFormFieldsInfo(content)).fields.map(field => field.name);
+
+const FieldList: React.FC<{ title: string; names: string[]; className: string }> = ({ title, names, className }) =>
+  names.length > 0 ? (
+    <div>
+      <h4 className="text-sm font-medium text-gray-900 mb-1">{title} ({names.length})</h4>
+      <p className={`text-sm font-mono break-words ${className}`}>{names.join(', ')}</p>
+    </div>
+  ) : null;
+
+const TemplateVersionModal: React.FC<TemplateVersionModalProps> = ({ template, onClose, onPublished }) => {
+  const { publishTemplateVersion, getTemplateVersions } = useAppContext();
+  const [versions, setVersions] = useState<TemplateVersion[]>([]);
+  const [pending, setPending] = useState<PendingVersion | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const currentVersion = template.version ?? 1;
+  const mappings = template.fieldMappings || [];
+
+  useEffect(() => {
+    getTemplateVersions(template.id).then(setVersions);
+  }, [template.id]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (file.type !== 'application/pdf') {
+      alert('Veuillez sélectionner un fichier PDF.');
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      return;
+    }
+
+    setIsComparing(true);
+    setError(null);
+    setPending(null);
+    try {
+      const currentContent = await getPdf(template.fileUrl.split('/').pop() || '');
+      if (!currentContent) {
+        throw new Error('Le fichier de la version courante est introuvable.');
+      }
+      const content = await readFileAsDataUrl(file);
+      const [previousFieldNames, nextFieldNames] = await Promise.all([getFieldNames(currentContent), getFieldNames(content)]);
+
+      setPending({
+        fileName: `${Date.now()}_${file.name}`,
+        content,
+        previousFieldNames,
+        comparison: compareTemplateFields(mappings, previousFieldNames, nextFieldNames),
+      });
+    } catch (err) {
+      console.error('Error comparing template versions:', err);
+      setError(err instanceof Error ? err.message : 'Erreur lors de la comparaison des versions.');
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const handlePublish = async () => {
+    if (!pending) return;
+
+    const { comparison } = pending;
+    if (comparison.droppedMappings.length > 0 && !window.confirm(
+      `${comparison.droppedMappings.length} correspondance(s) ne seront pas reprises. Publier la version ${currentVersion + 1} ?`
+    )) {
+      return;
+    }
+
+    setIsPublishing(true);
+    setError(null);
+    try {
+      const stored = await storePdf(pending.fileName, pending.content);
+      if (!stored) {
+        throw new Error('Erreur lors du stockage du PDF.');
+      }
+      await publishTemplateVersion(template.id, {
+        fileUrl: `/templates/${pending.fileName}`,
+        fieldMappings: getCarriedOverMappings(mappings, comparison),
+        previousFieldNames: pending.previousFieldNames,
+      });
+      onPublished();
+    } catch (err) {
+      console.error('Error publishing template version:', err);
+      setError(err instanceof Error ? err.message : 'Erreur lors de la publication de la version.');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const handleDownloadVersion = async (version: TemplateVersion) => {
+    const fileName = version.fileUrl.split('/').pop();
+    const content = fileName ? await getPdf(fileName) : null;
+    if (!content || !fileName) {
+      alert('Le fichier de cette version est introuvable.');
+      return;
+    }
+    const blobUrl = createPdfBlobUrl(content);
+    const a = document.createElement('a');
+    a.href = blobUrl;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(blobUrl);
+  };
+
+  const comparison = pending?.comparison;
+  const hasFormFields = !!pending && (pending.previousFieldNames.length > 0 || pending.comparison.addedFields.length > 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-auto overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="flex justify-between items-center p-4 border-b flex-shrink-0">
+          <h3 className="text-lg font-medium text-gray-900">
+            {template.name} : version {currentVersion}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-grow space-y-4">
+          <div>
+            <p className="text-sm text-gray-600 mb-2">
+              Remplacez le fichier du modèle par la nouvelle édition de la feuille. Les correspondances des champs
+              qui existent toujours sont reprises ; les feuilles déjà créées restent générées avec la version {currentVersion}.
+            </p>
+            <label className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+              {isComparing ? <Loader size={16} className="mr-2 animate-spin" /> : <UploadCloud size={16} className="mr-2" />}
+              Choisir le nouveau PDF
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/pdf"
+                className="hidden"
+                onChange={handleFileChange}
+                disabled={isComparing || isPublishing}
+              />
+            </label>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">{error}</div>
+          )}
+
+          {pending && comparison && (
+            <div className="space-y-3">
+              {!hasFormFields ? (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800 flex items-center">
+                  <AlertTriangle size={18} className="mr-2 flex-shrink-0" />
+                  Aucun champ de formulaire dans les deux versions : les zones de texte sont reprises telles quelles,
+                  vérifiez leur position après la publication.
+                </div>
+              ) : comparison.droppedMappings.length + comparison.partialMappings.length === 0 ? (
+                <div className="bg-green-50 border border-green-200 rounded-md p-3 text-sm text-green-800 flex items-center">
+                  <CheckCircle size={18} className="mr-2 flex-shrink-0" />
+                  Les {comparison.keptMappings.length} correspondance(s) sont reprises.
+                </div>
+              ) : (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800 flex items-center">
+                  <AlertTriangle size={18} className="mr-2 flex-shrink-0" />
+                  {comparison.keptMappings.length + comparison.partialMappings.length} correspondance(s) reprises,
+                  {' '}{comparison.droppedMappings.length} abandonnée(s) : vérifiez les champs ci-dessous.
+                </div>
+              )}
+
+              <FieldList
+                title="Correspondances abandonnées"
+                names={comparison.droppedMappings.map(mapping => `${mapping.champ_pdf} (${mapping.mapping})`)}
+                className="text-red-700"
+              />
+              <FieldList
+                title="Lignes incomplètes dans la nouvelle version"
+                names={comparison.partialMappings.map(mapping => `${mapping.champ_pdf} (${mapping.mapping})`)}
+                className="text-yellow-800"
+              />
+              <FieldList title="Champs supprimés" names={comparison.removedFields} className="text-gray-700" />
+              <FieldList title="Champs ajoutés" names={comparison.addedFields} className="text-blue-700" />
+              {comparison.unmappedFields.length > 0 && (
+                <p className="text-xs text-gray-500">
+                  {comparison.unmappedFields.length} champ(s) de la nouvelle version sans correspondance : complétez les
+                  mappings du modèle après la publication si nécessaire.
+                </p>
+              )}
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-2 flex items-center">
+              <History size={16} className="mr-1 text-gray-500" />
+              Versions précédentes
+            </h4>
+            {versions.length > 0 ? (
+              <ul className="divide-y divide-gray-100 border rounded-md">
+                {versions.map(version => (
+                  <li key={version.id} className="px-3 py-2 flex justify-between items-center text-sm">
+                    <span className="text-gray-700">
+                      Version {version.version} — remplacée le {version.createdAt.toLocaleDateString('fr-FR')}
+                      {' '}({version.fieldMappings?.length || 0} champs configurés)
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => handleDownloadVersion(version)}
+                      className="text-gray-400 hover:text-blue-600"
+                      title="Télécharger le fichier de cette version"
+                    >
+                      <Download size={16} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">Aucune version précédente.</p>
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 bg-gray-50 border-t flex justify-end space-x-3 flex-shrink-0">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Fermer
+          </button>
+          <button
+            type="button"
+            onClick={handlePublish}
+            disabled={!pending || isPublishing}
+            className={`px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white flex items-center ${
+              !pending || isPublishing ? 'bg-blue-300 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            {isPublishing && <Loader size={16} className="mr-2 animate-spin" />}
+            Publier la version {currentVersion + 1}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateVersionModal;
@@ -0,0 +1,231 @@
+import React, { useMemo, useState } from 'react';
+import { X, Layers, Loader, CheckCircle, AlertTriangle, XCircle, Circle, Download, FileArchive, BookOpen } from 'lucide-react';
+import { useAppContext } from '../context/AppContext';
+import { Tournament } from '../types';
+import PdfReportModal from './PdfReportModal';
+import { PdfGenerationReport } from '../services/PdfGenerator';
+import { downloadBlob } from '../services/RosterExportService';
+import { generateTournamentPack, getTournamentPackFileName } from '../services/PdfExportService';
+import {
+  BatchGenerationResult,
+  BatchSheetProgress,
+  generateTournamentBatch,
+  getBatchBaseName,
+  getBatchSheetJobs,
+} from '../services/BatchGenerationService';
+
+interface TournamentBatchModalProps {
+  tournament: Tournament;
+  onClose: () => void;
+}
+
+const getIssueCount = (report: PdfGenerationReport) =>
+  report.warnings.length + report.overflow.length + report.emptyRequired.length + report.missingFields.length +
+  report.unknownMappings.length + report.truncated.length;
+
+const TournamentBatchModal: React.FC<TournamentBatchModalProps> = ({ tournament, onClose }) => {
+  const { matchSheets, ageCategories, players, coaches, getTemplateForMatchSheet } = useAppContext();
+  const [progress, setProgress] = useState<Record<string, BatchSheetProgress>>({});
+  const [result, setResult] = useState<BatchGenerationResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [reportSheet, setReportSheet] = useState<{ label: string; report: PdfGenerationReport } | null>(null);
+
+  const jobs = useMemo(
+    () => getBatchSheetJobs(tournament, matchSheets, ageCategories),
+    [tournament, matchSheets, ageCategories]
+  );
+  const missingCategories = tournament.ageCategoryIds
+    .filter(id => !jobs.some(job => job.matchSheet.ageCategoryId === id))
+    .map(id => ageCategories.find(category => category.id === id)?.name)
+    .filter((name): name is string => !!name);
+  const doneCount = Object.values(progress).filter(p => p.status === 'done' || p.status === 'error').length;
+  const baseName = getBatchBaseName(tournament);
+
+  const handleGenerate = async () => {
+    setIsRunning(true);
+    setResult(null);
+    setProgress(Object.fromEntries(jobs.map(job => [job.matchSheet.id, { status: 'pending' }])));
+    try {
+      const batchResult = await generateTournamentBatch(
+        jobs,
+        { tournament, players, coaches, getTemplate: getTemplateForMatchSheet },
+        (matchSheetId, sheetProgress) => setProgress(prev => ({ ...prev, [matchSheetId]: sheetProgress }))
+      );
+      setResult(batchResult);
+    } catch (error) {
+      console.error('Error generating tournament match sheets:', error);
+      alert('Erreur lors de la génération groupée des feuilles de match.');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleGeneratePack = async () => {
+    setIsRunning(true);
+    setResult(null);
+    setProgress(Object.fromEntries(jobs.map(job => [job.matchSheet.id, { status: 'pending' }])));
+    try {
+      const pack = await generateTournamentPack(
+        jobs,
+        { tournament, players, coaches, getTemplate: getTemplateForMatchSheet },
+        ageCategories,
+        (matchSheetId, sheetProgress) => setProgress(prev => ({ ...prev, [matchSheetId]: sheetProgress }))
+      );
+      downloadBlob(new Blob([pack.pdfBytes], { type: 'application/pdf' }), getTournamentPackFileName(tournament));
+      if (pack.failedSheets.length > 0) {
+        alert(`Dossier téléchargé sans ${pack.failedSheets.length} feuille(s) en erreur :\n- ${
+          pack.failedSheets.map(sheet => `${sheet.label} : ${sheet.error}`).join('\n- ')
+        }`);
+      }
+    } catch (error) {
+      console.error('Error generating tournament pack:', error);
+      alert('Erreur lors de la génération du dossier tournoi.');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const renderStatus = (sheetProgress: BatchSheetProgress | undefined) => {
+    switch (sheetProgress?.status) {
+      case 'running':
+        return <Loader size={18} className="text-blue-600 animate-spin" />;
+      case 'done':
+        return sheetProgress.report && getIssueCount(sheetProgress.report) > 0
+          ? <AlertTriangle size={18} className="text-yellow-600" />
+          : <CheckCircle size={18} className="text-green-600" />;
+      case 'error':
+        return <XCircle size={18} className="text-red-600" />;
+      default:
+        return <Circle size={18} className="text-gray-300" />;
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-auto overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="flex justify-between items-center p-4 border-b flex-shrink-0">
+          <h3 className="text-lg font-medium text-gray-900 flex items-center">
+            <Layers size={20} className="mr-2 text-gray-500" />
+            Feuilles de match : {tournament.location}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500" disabled={isRunning}>
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-grow space-y-4">
+          <p className="text-sm text-gray-600">
+            Toutes les feuilles du tournoi sont générées en une fois : un PDF unique à imprimer et une archive ZIP
+            avec un fichier par catégorie et par équipe. Le dossier tournoi, à transmettre aux organisateurs, ajoute
+            une page de garde avec les éducateurs référents et un récapitulatif des licences.
+          </p>
+
+          {missingCategories.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800 flex items-center">
+              <AlertTriangle size={18} className="mr-2 flex-shrink-0" />
+              Aucune feuille de match pour : {missingCategories.join(', ')}
+            </div>
+          )}
+
+          {jobs.length > 0 ? (
+            <ul className="divide-y divide-gray-100 border rounded-md">
+              {jobs.map(job => {
+                const sheetProgress = progress[job.matchSheet.id];
+                const report = sheetProgress?.report;
+                return (
+                  <li key={job.matchSheet.id} className="px-3 py-2 flex items-center text-sm">
+                    <span className="mr-3 flex-shrink-0">{renderStatus(sheetProgress)}</span>
+                    <div className="flex-grow min-w-0">
+                      <p className="font-medium text-gray-900">{job.label}</p>
+                      <p className="text-xs text-gray-500">{job.matchSheet.playerIds.length} joueur(s)</p>
+                      {sheetProgress?.error && (
+                        <p className="text-xs text-red-700">{sheetProgress.error}</p>
+                      )}
+                    </div>
+                    {report && (
+                      <button
+                        type="button"
+                        onClick={() => setReportSheet({ label: job.label, report })}
+                        className="text-xs text-blue-600 hover:text-blue-800 flex-shrink-0"
+                      >
+                        {getIssueCount(report) > 0 ? `${getIssueCount(report)} point(s) à vérifier` : 'Voir le rapport'}
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500">Aucune feuille de match n'a été créée pour ce tournoi.</p>
+          )}
+
+          {result && (
+            <div className={`rounded-md p-3 text-sm border ${
+              result.failedCount > 0 ? 'bg-yellow-50 border-yellow-200 text-yellow-800' : 'bg-green-50 border-green-200 text-green-800'
+            }`}>
+              {result.generatedCount} feuille(s) générée(s)
+              {result.failedCount > 0 && `, ${result.failedCount} en erreur (absentes du PDF et de l'archive)`}.
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 bg-gray-50 border-t flex flex-wrap justify-end gap-3 flex-shrink-0">
+          {result?.mergedPdf && (
+            <button
+              type="button"
+              onClick={() => downloadBlob(new Blob([result.mergedPdf as Uint8Array], { type: 'application/pdf' }), `${baseName}.pdf`)}
+              className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 flex items-center"
+            >
+              <Download size={16} className="mr-2" />
+              PDF unique
+            </button>
+          )}
+          {result?.zip && (
+            <button
+              type="button"
+              onClick={() => downloadBlob(result.zip as Blob, `${baseName}.zip`)}
+              className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 flex items-center"
+            >
+              <FileArchive size={16} className="mr-2" />
+              Archive ZIP
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={handleGeneratePack}
+            disabled={isRunning || jobs.length === 0}
+            className={`px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium flex items-center ${
+              isRunning || jobs.length === 0 ? 'text-gray-400 bg-gray-100 cursor-not-allowed' : 'text-gray-700 bg-white hover:bg-gray-50'
+            }`}
+          >
+            <BookOpen size={16} className="mr-2" />
+            Dossier tournoi
+          </button>
+          <button
+            type="button"
+            onClick={handleGenerate}
+            disabled={isRunning || jobs.length === 0}
+            className={`px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white flex items-center ${
+              isRunning || jobs.length === 0 ? 'bg-blue-300 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            {isRunning ? <Loader size={16} className="mr-2 animate-spin" /> : <Layers size={16} className="mr-2" />}
+            {isRunning
+              ? `Génération ${doneCount}/${jobs.length}...`
+              : result ? 'Relancer la génération' : `Générer ${jobs.length} feuille(s)`}
+          </button>
+        </div>
+      </div>
+
+      {reportSheet && (
+        <PdfReportModal
+          report={reportSheet.report}
+          title={`Rapport : ${reportSheet.label}`}
+          onClose={() => setReportSheet(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default TournamentBatchModal;
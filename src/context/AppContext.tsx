@@ -1,6 +1,18 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { Player, Coach, Tournament, MatchSheet, AgeCategory, Template, PdfFieldMapping } from '../types';
+import { Player, Coach, Tournament, MatchSheet, AgeCategory, Template, TemplateVersion, PdfFieldMapping, PdfOverlayLayout, PlayerAvailability, AvailabilityStatus, MatchSheetStatus, MatchSheetRevision, MatchSheetRevisionChange, AppUser, SyncState, SyncStatus, SyncTable, QueuedMutation, CategoryRosterRules } from '../types';
 import * as supabaseService from '../services/supabase';
+import * as offlineStore from '../services/OfflineStore';
+import { SYNC_METHODS, SyncMethod, executeMutation, queueMutation, replayQueue, resolveConflict, isOnline, isNetworkError } from '../services/SyncService';
+import { canTransitionMatchSheet, isMatchSheetEditable } from '../services/MatchSheetService';
+import { getEditableCategoryIds } from '../services/AuthService';
+import { useAuth } from './AuthContext';
+
+// Nouveau fichier d'un modèle et correspondances reprises de la version courante
+export interface PublishedTemplateFile {
+  fileUrl: string;
+  fieldMappings: PdfFieldMapping[];
+  previousFieldNames: string[]; // Champs du fichier remplacé, conservés avec lui
+}
 
 interface AppContextType {
   players: Player[];
@@ -12,6 +24,11 @@ interface AppContextType {
   loading: boolean;
   error: string | null;
   
+  // Droits de l'utilisateur connecté
+  currentUser: AppUser | null;
+  isAdmin: boolean;
+  canEditCategory: (categoryId: string) => boolean;
+  
   addPlayer: (player: Player) => Promise<void>;
   updatePlayer: (id: string, player: Player) => Promise<void>;
   deletePlayer: (id: string) => Promise<void>;
@@ -23,17 +40,30 @@ interface AppContextType {
   addTournament: (tournament: Tournament) => Promise<void>;
   updateTournament: (id: string, tournament: Tournament) => Promise<void>;
   deleteTournament: (id: string) => Promise<void>;
+  getTournamentAvailabilities: (tournamentId: string) => Promise<PlayerAvailability[]>;
+  setPlayerAvailability: (tournamentId: string, playerId: string, status: AvailabilityStatus, comment?: string) => Promise<PlayerAvailability | null>;
+  saveRosterRules: (ageCategoryId: string, rules: CategoryRosterRules | null) => Promise<void>;
   
   addMatchSheet: (matchSheet: MatchSheet) => Promise<void>;
-  updateMatchSheet: (id: string, matchSheet: MatchSheet) => Promise<void>;
+  updateMatchSheet: (id: string, matchSheet: MatchSheet, changeType?: MatchSheetRevisionChange) => Promise<void>;
   deleteMatchSheet: (id: string) => Promise<void>;
   getMatchSheetById: (id: string) => Promise<MatchSheet | null>;
+  updateMatchSheetStatus: (id: string, status: MatchSheetStatus, pdfUrl?: string) => Promise<void>;
+  getMatchSheetRevisions: (matchSheetId: string) => Promise<MatchSheetRevision[]>;
   
   addTemplate: (template: Template) => Promise<void>;
   updateTemplate: (id: string, template: Template) => Promise<void>;
   deleteTemplate: (id: string) => Promise<void>;
+  publishTemplateVersion: (id: string, nextVersion: PublishedTemplateFile) => Promise<void>;
+  getTemplateVersions: (id: string) => Promise<TemplateVersion[]>;
+  getTemplateForMatchSheet: (matchSheet: Pick<MatchSheet, 'templateId' | 'templateVersion'>) => Promise<Template | undefined>;
   
   refreshData: () => Promise<void>;
+
+  // Synchronisation des modifications faites hors ligne
+  syncState: SyncState;
+  syncNow: () => Promise<void>;
+  resolveSyncConflict: (mutation: QueuedMutation, keepLocal: boolean) => Promise<void>;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
@@ -42,7 +72,8 @@ const AppContext = createContext<AppContextType | undefined>(undefined);
 const mapAgeCategoryFromSupabase = (category: any): AgeCategory => ({
   id: category.id,
   name: category.name,
-  description: category.description || ''
+  description: category.description || '',
+  rosterRules: category.roster_rules || undefined,
 });
 
 const mapPlayerFromSupabase = (player: any): Player => ({
@@ -62,6 +93,7 @@ const mapCoachFromSupabase = (coach: any): Coach => ({
   lastName: coach.last_name,
   licenseNumber: coach.license_number || '',
   diploma: coach.diploma || '',
+  phone: coach.phone || undefined,
   ageCategoryIds: coach.coach_categories?.map((cc: any) => cc.age_category_id) || [],
 });
 
@@ -72,6 +104,14 @@ const mapTournamentFromSupabase = (tournament: any): Tournament => ({
   ageCategoryIds: tournament.tournament_categories?.map((tc: any) => tc.age_category_id) || [],
 });
 
+const mapAvailabilityFromSupabase = (availability: any): PlayerAvailability => ({
+  id: availability.id,
+  tournamentId: availability.tournament_id,
+  playerId: availability.player_id,
+  status: availability.status as AvailabilityStatus,
+  comment: availability.comment || '',
+});
+
 const mapTemplateFromSupabase = (template: any): Template => ({
   id: template.id,
   name: template.name,
@@ -79,6 +119,20 @@ const mapTemplateFromSupabase = (template: any): Template => ({
   fileUrl: template.file_url,
   ageCategoryIds: template.template_categories?.map((tc: any) => tc.age_category_id) || [],
   fieldMappings: template.field_mappings as PdfFieldMapping[] || [],
+  overlayLayout: template.overlay_layout as PdfOverlayLayout || undefined,
+  version: template.version ?? 1,
+  fileHash: template.file_hash || undefined,
+});
+
+const mapTemplateVersionFromSupabase = (templateVersion: any): TemplateVersion => ({
+  id: templateVersion.id,
+  templateId: templateVersion.template_id,
+  version: templateVersion.version,
+  fileUrl: templateVersion.file_url,
+  fieldMappings: templateVersion.field_mappings as PdfFieldMapping[] || [],
+  overlayLayout: templateVersion.overlay_layout as PdfOverlayLayout || undefined,
+  fieldNames: templateVersion.field_names || [],
+  createdAt: new Date(templateVersion.created_at),
 });
 
 const mapMatchSheetFromSupabase = (matchSheet: any): MatchSheet => ({
@@ -90,9 +144,24 @@ const mapMatchSheetFromSupabase = (matchSheet: any): MatchSheet => ({
   playerIds: matchSheet.match_sheet_players?.map((msp: any) => msp.player_id) || [],
   coachIds: matchSheet.match_sheet_coaches?.map((msc: any) => msc.coach_id) || [],
   pdfUrl: matchSheet.pdf_url, // Ajout du champ pdfUrl
+  status: (matchSheet.status as MatchSheetStatus) || 'draft',
+  teamName: matchSheet.team_name || undefined,
+  templateVersion: matchSheet.template_version ?? undefined,
   createdAt: new Date(matchSheet.created_at),
 });
 
+const mapMatchSheetRevisionFromSupabase = (revision: any): MatchSheetRevision => ({
+  id: revision.id,
+  matchSheetId: revision.match_sheet_id,
+  changeType: revision.change_type as MatchSheetRevisionChange,
+  templateId: revision.template_id || '',
+  referentCoachId: revision.referent_coach_id || '',
+  playerIds: revision.player_ids || [],
+  coachIds: revision.coach_ids || [],
+  pdfUrl: revision.pdf_url || undefined,
+  createdAt: new Date(revision.created_at),
+});
+
 export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [players, setPlayers] = useState<Player[]>([]);
   const [coaches, setCoaches] = useState<Coach[]>([]);
@@ -102,11 +171,131 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const [templates, setTemplates] = useState<Template[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const [syncState, setSyncState] = useState<SyncState>({
+    status: isOnline() ? 'online' : 'offline',
+    pendingCount: 0,
+    conflicts: [],
+  });
+  const { user: currentUser } = useAuth();
+
+  // Un administrateur modifie tout, un entraîneur uniquement ses catégories, la lecture seule rien
+  const editableCategoryIds = getEditableCategoryIds(currentUser, coaches);
+  const isAdmin = currentUser?.role === 'admin';
+  const canEditCategory = (categoryId: string) =>
+    editableCategoryIds === 'all' || editableCategoryIds.includes(categoryId);
+
+  const assertCanEditCategories = (...categoryIds: string[]) => {
+    if (!categoryIds.every(canEditCategory)) {
+      throw new Error('Vous ne pouvez modifier que les joueurs et les feuilles de match de vos catégories.');
+    }
+  };
+
+  const assertIsAdmin = () => {
+    if (!isAdmin) {
+      throw new Error('Cette action est réservée aux administrateurs du club.');
+    }
+  };
+
+  const refreshSyncState = async (status?: SyncStatus, lastSyncAt?: Date) => {
+    try {
+      const queued = await offlineStore.getQueuedMutations();
+      setSyncState(prev => ({
+        status: status || (isOnline() ? 'online' : 'offline'),
+        pendingCount: queued.length,
+        conflicts: queued.filter(mutation => mutation.conflict),
+        lastSyncAt: lastSyncAt || prev.lastSyncAt,
+      }));
+    } catch (err) {
+      console.error('Error reading sync queue:', err);
+    }
+  };
+
+  // En ligne la modification est envoyée à Supabase, hors ligne (ou si la requête échoue faute de réseau)
+  // elle est mise en file d'attente et la fonction renvoie null : l'appelant met alors à jour l'état local lui-même
+  const runMutation = async <M extends SyncMethod>(
+    table: SyncTable,
+    recordId: string,
+    method: M,
+    args: Parameters<typeof SYNC_METHODS[M]>,
+    label: string
+  ) => {
+    let unreachable = false;
+    if (isOnline()) {
+      try {
+        return await executeMutation(table, method, args);
+      } catch (err) {
+        if (!isNetworkError(err)) throw err;
+        // Connecté mais serveur injoignable : la file sera rejouée par « Synchroniser maintenant » ou au prochain chargement
+        console.warn(`Supabase injoignable, modification mise en file d'attente : ${label}`, err);
+        unreachable = true;
+      }
+    }
+    await queueMutation(table, recordId, method, args, label);
+    await refreshSyncState(unreachable ? 'error' : undefined);
+    return null;
+  };
+
+  const describeMatchSheet = (matchSheet: Pick<MatchSheet, 'tournamentId' | 'teamName'>) => {
+    const tournament = tournaments.find(t => t.id === matchSheet.tournamentId);
+    return [tournament?.location || 'tournoi inconnu', matchSheet.teamName].filter(Boolean).join(' - ');
+  };
+
+  // Rejoue les modifications faites hors ligne ; renvoie false si le serveur reste injoignable
+  const syncPendingMutations = async (): Promise<boolean> => {
+    try {
+      const queued = await offlineStore.getQueuedMutations();
+      if (queued.every(mutation => mutation.conflict)) {
+        await refreshSyncState();
+        return true;
+      }
+
+      setSyncState(prev => ({ ...prev, status: 'syncing' }));
+      const result = await replayQueue();
+      await refreshSyncState(result.failed ? 'error' : undefined, result.failed ? undefined : new Date());
+      return !result.failed;
+    } catch (err) {
+      console.error('Error replaying offline changes:', err);
+      await refreshSyncState('error');
+      return false;
+    }
+  };
+
+  const loadOfflineSnapshot = async (): Promise<boolean> => {
+    try {
+      const snapshot = await offlineStore.loadSnapshot();
+      if (!snapshot) {
+        return false;
+      }
+      setAgeCategories(snapshot.ageCategories);
+      setPlayers(snapshot.players);
+      setCoaches(snapshot.coaches);
+      setTournaments(snapshot.tournaments);
+      setTemplates(snapshot.templates);
+      setMatchSheets(snapshot.matchSheets);
+      console.log(`Loaded offline copy: ${snapshot.players.length} players, ${snapshot.matchSheets.length} match sheets`);
+      return true;
+    } catch (err) {
+      console.error('Error loading offline copy:', err);
+      return false;
+    }
+  };
 
   const fetchData = async () => {
     try {
       setLoading(true);
       setError(null);
+
+      if (!isOnline()) {
+        console.log("-- OFFLINE: LOADING LOCAL COPY --");
+        if (!await loadOfflineSnapshot()) {
+          setError('Aucune copie locale des données n\'est disponible hors ligne.');
+        }
+        await refreshSyncState('offline');
+        return;
+      }
+
+      // Les modifications faites hors ligne sont envoyées avant de recharger les données du serveur
+      await syncPendingMutations();
       
       console.log("-- FETCHING APPLICATION DATA --");
       
@@ -150,11 +339,25 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       console.log(`Retrieved ${matchSheetsData.length} match sheets from Supabase`);
       setMatchSheets(matchSheetsData.map(mapMatchSheetFromSupabase));
       
+      // Versions serveur utilisées pour détecter les conflits lors du rejeu hors ligne
+      await Promise.all([
+        offlineStore.saveVersions('players', playersData),
+        offlineStore.saveVersions('coaches', coachesData),
+        offlineStore.saveVersions('tournaments', tournamentsData),
+        offlineStore.saveVersions('templates', templatesData),
+        offlineStore.saveVersions('match_sheets', matchSheetsData),
+      ]).catch(err => console.error('Error saving record versions:', err));
+      
       console.log("Data fetching complete.");
       
     } catch (err) {
       console.error('Error fetching data:', err);
-      setError(err instanceof Error ? err.message : 'Une erreur est survenue lors du chargement des données.');
+      // Serveur injoignable : la dernière copie locale reste consultable
+      if (await loadOfflineSnapshot()) {
+        await refreshSyncState('error');
+      } else {
+        setError(err instanceof Error ? err.message : 'Une erreur est survenue lors du chargement des données.');
+      }
     } finally {
       setLoading(false);
     }
@@ -165,10 +368,37 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     fetchData();
   }, []);
 
+  // À la reconnexion, la file d'attente est rejouée puis les données rechargées
+  useEffect(() => {
+    const handleOnline = () => {
+      fetchData();
+    };
+    const handleOffline = () => {
+      setSyncState(prev => ({ ...prev, status: 'offline' }));
+    };
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // Copie locale tenue à jour pour la consultation hors ligne
+  useEffect(() => {
+    if (loading) return;
+    offlineStore
+      .saveSnapshot({ ageCategories, players, coaches, tournaments, templates, matchSheets })
+      .catch(err => console.error('Error saving offline copy:', err));
+  }, [loading, ageCategories, players, coaches, tournaments, templates, matchSheets]);
+
   const addPlayer = async (player: Player) => {
     try {
       setError(null);
-      const newPlayer = await supabaseService.addPlayer({
+      assertCanEditCategories(player.ageCategoryId);
+      const id = crypto.randomUUID();
+      const newPlayer = await runMutation('players', id, 'addPlayer', [{
+        id,
         first_name: player.firstName,
         last_name: player.lastName,
         date_of_birth: player.dateOfBirth,
@@ -176,11 +406,10 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         can_play_forward: player.canPlayForward,
         can_referee: player.canReferee,
         age_category_id: player.ageCategoryId,
-      });
+      }], `Ajout du joueur ${player.lastName} ${player.firstName}`);
       
-      if (newPlayer) {
-        setPlayers(prev => [...prev, mapPlayerFromSupabase(newPlayer)]);
-      }
+      // Hors ligne, le joueur est ajouté localement en attendant la synchronisation
+      setPlayers(prev => [...prev, newPlayer ? mapPlayerFromSupabase(newPlayer) : { ...player, id }]);
     } catch (err) {
       console.error('Error adding player:', err);
       setError(err instanceof Error ? err.message : 'Une erreur est survenue lors de l\'ajout du joueur.');
@@ -191,7 +420,9 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const updatePlayer = async (id: string, player: Player) => {
     try {
       setError(null);
-      const updatedPlayer = await supabaseService.updatePlayer(id, {
+      const currentPlayer = players.find(p => p.id === id);
+      assertCanEditCategories(player.ageCategoryId, currentPlayer?.ageCategoryId || '');
+      const updatedPlayer = await runMutation('players', id, 'updatePlayer', [id, {
         first_name: player.firstName,
         last_name: player.lastName,
         date_of_birth: player.dateOfBirth,
@@ -199,11 +430,11 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         can_play_forward: player.canPlayForward,
         can_referee: player.canReferee,
         age_category_id: player.ageCategoryId,
-      });
+      }], `Modification du joueur ${player.lastName} ${player.firstName}`);
       
-      if (updatedPlayer) {
-        setPlayers(prev => prev.map(p => p.id === id ? mapPlayerFromSupabase(updatedPlayer) : p));
-      }
+      setPlayers(prev => prev.map(p =>
+        p.id === id ? (updatedPlayer ? mapPlayerFromSupabase(updatedPlayer) : { ...player, id }) : p
+      ));
     } catch (err) {
       console.error('Error updating player:', err);
       setError(err instanceof Error ? err.message : 'Une erreur est survenue lors de la mise à jour du joueur.');
@@ -214,7 +445,10 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const deletePlayer = async (id: string) => {
     try {
       setError(null);
-      await supabaseService.deletePlayer(id);
+      const currentPlayer = players.find(p => p.id === id);
+      assertCanEditCategories(currentPlayer?.ageCategoryId || '');
+      await runMutation('players', id, 'deletePlayer', [id],
+        `Suppression du joueur ${currentPlayer ? `${currentPlayer.lastName} ${currentPlayer.firstName}` : id}`);
       setPlayers(prev => prev.filter(player => player.id !== id));
     } catch (err) {
       console.error('Error deleting player:', err);
@@ -226,23 +460,25 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const addCoach = async (coach: Coach) => {
     try {
       setError(null);
-      const newCoach = await supabaseService.addCoach(
+      assertIsAdmin();
+      const id = crypto.randomUUID();
+      const newCoach = await runMutation('coaches', id, 'addCoach', [
         {
+          id,
           first_name: coach.firstName,
           last_name: coach.lastName,
           license_number: coach.licenseNumber,
           diploma: coach.diploma,
+          phone: coach.phone,
         },
         coach.ageCategoryIds
-      );
+      ], `Ajout de l'entraîneur ${coach.lastName} ${coach.firstName}`);
       
-      if (newCoach) {
-        const mappedCoach: Coach = {
-          ...mapCoachFromSupabase(newCoach),
-          ageCategoryIds: coach.ageCategoryIds
-        };
-        setCoaches(prev => [...prev, mappedCoach]);
-      }
+      const mappedCoach: Coach = {
+        ...(newCoach ? mapCoachFromSupabase(newCoach) : { ...coach, id }),
+        ageCategoryIds: coach.ageCategoryIds
+      };
+      setCoaches(prev => [...prev, mappedCoach]);
     } catch (err) {
       console.error('Error adding coach:', err);
       setError(err instanceof Error ? err.message : 'Une erreur est survenue lors de l\'ajout de l\'entraîneur.');
@@ -253,24 +489,24 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const updateCoach = async (id: string, coach: Coach) => {
     try {
       setError(null);
-      const updatedCoach = await supabaseService.updateCoach(
+      assertIsAdmin();
+      const updatedCoach = await runMutation('coaches', id, 'updateCoach', [
         id,
         {
           first_name: coach.firstName,
           last_name: coach.lastName,
           license_number: coach.licenseNumber,
           diploma: coach.diploma,
+          phone: coach.phone,
         },
         coach.ageCategoryIds
-      );
+      ], `Modification de l'entraîneur ${coach.lastName} ${coach.firstName}`);
       
-      if (updatedCoach) {
-        const mappedCoach: Coach = {
-          ...mapCoachFromSupabase(updatedCoach),
-          ageCategoryIds: coach.ageCategoryIds
-        };
-        setCoaches(prev => prev.map(c => c.id === id ? mappedCoach : c));
-      }
+      const mappedCoach: Coach = {
+        ...(updatedCoach ? mapCoachFromSupabase(updatedCoach) : { ...coach, id }),
+        ageCategoryIds: coach.ageCategoryIds
+      };
+      setCoaches(prev => prev.map(c => c.id === id ? mappedCoach : c));
     } catch (err) {
       console.error('Error updating coach:', err);
       setError(err instanceof Error ? err.message : 'Une erreur est survenue lors de la mise à jour de l\'entraîneur.');
@@ -281,7 +517,10 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const deleteCoach = async (id: string) => {
     try {
       setError(null);
-      await supabaseService.deleteCoach(id);
+      assertIsAdmin();
+      const currentCoach = coaches.find(c => c.id === id);
+      await runMutation('coaches', id, 'deleteCoach', [id],
+        `Suppression de l'entraîneur ${currentCoach ? `${currentCoach.lastName} ${currentCoach.firstName}` : id}`);
       setCoaches(prev => prev.filter(coach => coach.id !== id));
     } catch (err) {
       console.error('Error deleting coach:', err);
@@ -293,21 +532,22 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const addTournament = async (tournament: Tournament) => {
     try {
       setError(null);
-      const newTournament = await supabaseService.addTournament(
+      assertIsAdmin();
+      const id = crypto.randomUUID();
+      const newTournament = await runMutation('tournaments', id, 'addTournament', [
         {
+          id,
           date: tournament.date,
           location: tournament.location,
         },
         tournament.ageCategoryIds
-      );
+      ], `Ajout du tournoi ${tournament.location}`);
       
-      if (newTournament) {
-        const mappedTournament: Tournament = {
-          ...mapTournamentFromSupabase(newTournament),
-          ageCategoryIds: tournament.ageCategoryIds
-        };
-        setTournaments(prev => [...prev, mappedTournament]);
-      }
+      const mappedTournament: Tournament = {
+        ...(newTournament ? mapTournamentFromSupabase(newTournament) : { ...tournament, id }),
+        ageCategoryIds: tournament.ageCategoryIds
+      };
+      setTournaments(prev => [...prev, mappedTournament]);
     } catch (err) {
       console.error('Error adding tournament:', err);
       setError(err instanceof Error ? err.message : 'Une erreur est survenue lors de l\'ajout du tournoi.');
@@ -318,22 +558,21 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const updateTournament = async (id: string, tournament: Tournament) => {
     try {
       setError(null);
-      const updatedTournament = await supabaseService.updateTournament(
+      assertIsAdmin();
+      const updatedTournament = await runMutation('tournaments', id, 'updateTournament', [
         id,
         {
           date: tournament.date,
           location: tournament.location,
         },
         tournament.ageCategoryIds
-      );
+      ], `Modification du tournoi ${tournament.location}`);
       
-      if (updatedTournament) {
-        const mappedTournament: Tournament = {
-          ...mapTournamentFromSupabase(updatedTournament),
-          ageCategoryIds: tournament.ageCategoryIds
-        };
-        setTournaments(prev => prev.map(t => t.id === id ? mappedTournament : t));
-      }
+      const mappedTournament: Tournament = {
+        ...(updatedTournament ? mapTournamentFromSupabase(updatedTournament) : { ...tournament, id }),
+        ageCategoryIds: tournament.ageCategoryIds
+      };
+      setTournaments(prev => prev.map(t => t.id === id ? mappedTournament : t));
     } catch (err) {
       console.error('Error updating tournament:', err);
       setError(err instanceof Error ? err.message : 'Une erreur est survenue lors de la mise à jour du tournoi.');
@@ -344,7 +583,10 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const deleteTournament = async (id: string) => {
     try {
       setError(null);
-      await supabaseService.deleteTournament(id);
+      assertIsAdmin();
+      const currentTournament = tournaments.find(t => t.id === id);
+      await runMutation('tournaments', id, 'deleteTournament', [id],
+        `Suppression du tournoi ${currentTournament?.location || id}`);
       setTournaments(prev => prev.filter(tournament => tournament.id !== id));
     } catch (err) {
       console.error('Error deleting tournament:', err);
@@ -353,27 +595,83 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  const getTournamentAvailabilities = async (tournamentId: string): Promise<PlayerAvailability[]> => {
+    try {
+      const availabilitiesData = await supabaseService.getTournamentAvailabilities(tournamentId);
+      return availabilitiesData.map(mapAvailabilityFromSupabase);
+    } catch (err) {
+      console.error('Error fetching tournament availabilities:', err);
+      setError(err instanceof Error ? err.message : 'Une erreur est survenue lors du chargement des disponibilités.');
+      return [];
+    }
+  };
+
+  const setPlayerAvailability = async (
+    tournamentId: string,
+    playerId: string,
+    status: AvailabilityStatus,
+    comment?: string
+  ): Promise<PlayerAvailability | null> => {
+    try {
+      setError(null);
+      const player = players.find(p => p.id === playerId);
+      assertCanEditCategories(player?.ageCategoryId || '');
+      const savedAvailability = await supabaseService.setPlayerAvailability({
+        tournament_id: tournamentId,
+        player_id: playerId,
+        status,
+        comment: comment || null,
+      });
+      
+      return savedAvailability ? mapAvailabilityFromSupabase(savedAvailability) : null;
+    } catch (err) {
+      console.error('Error setting player availability:', err);
+      setError(err instanceof Error ? err.message : 'Une erreur est survenue lors de l\'enregistrement de la disponibilité.');
+      throw err;
+    }
+  };
+
+  // Règles d'effectif partagées par tout le club (null rétablit les règles par défaut)
+  const saveRosterRules = async (ageCategoryId: string, rules: CategoryRosterRules | null) => {
+    try {
+      setError(null);
+      assertIsAdmin();
+      const updatedCategory = await supabaseService.updateAgeCategoryRosterRules(ageCategoryId, rules);
+      setAgeCategories(prev => prev.map(category =>
+        category.id === ageCategoryId ? mapAgeCategoryFromSupabase(updatedCategory) : category
+      ));
+    } catch (err) {
+      console.error('Error saving roster rules:', err);
+      setError(err instanceof Error ? err.message : 'Une erreur est survenue lors de l\'enregistrement des règles d\'effectif.');
+      throw err;
+    }
+  };
+
   const addTemplate = async (template: Template) => {
     try {
       setError(null);
-      const newTemplate = await supabaseService.addTemplate(
+      assertIsAdmin();
+      const id = crypto.randomUUID();
+      const newTemplate = await runMutation('templates', id, 'addTemplate', [
         {
+          id,
           name: template.name,
           description: template.description,
           file_url: template.fileUrl,
           field_mappings: template.fieldMappings,
+          overlay_layout: template.overlayLayout ?? null,
+          file_hash: template.fileHash,
         },
         template.ageCategoryIds
-      );
+      ], `Ajout du modèle ${template.name}`);
       
-      if (newTemplate) {
-        const mappedTemplate: Template = {
-          ...mapTemplateFromSupabase(newTemplate),
-          ageCategoryIds: template.ageCategoryIds,
-          fieldMappings: template.fieldMappings
-        };
-        setTemplates(prev => [...prev, mappedTemplate]);
-      }
+      const mappedTemplate: Template = {
+        ...(newTemplate ? mapTemplateFromSupabase(newTemplate) : { ...template, id }),
+        ageCategoryIds: template.ageCategoryIds,
+        fieldMappings: template.fieldMappings,
+        overlayLayout: template.overlayLayout
+      };
+      setTemplates(prev => [...prev, mappedTemplate]);
     } catch (err) {
       console.error('Error adding template:', err);
       setError(err instanceof Error ? err.message : 'Une erreur est survenue lors de l\'ajout du modèle.');
@@ -384,25 +682,27 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const updateTemplate = async (id: string, template: Template) => {
     try {
       setError(null);
-      const updatedTemplate = await supabaseService.updateTemplate(
+      assertIsAdmin();
+      const updatedTemplate = await runMutation('templates', id, 'updateTemplate', [
         id,
         {
           name: template.name,
           description: template.description,
           file_url: template.fileUrl,
           field_mappings: template.fieldMappings,
+          overlay_layout: template.overlayLayout ?? null,
+          version: template.version,
         },
         template.ageCategoryIds
-      );
+      ], `Modification du modèle ${template.name}`);
       
-      if (updatedTemplate) {
-        const mappedTemplate: Template = {
-          ...mapTemplateFromSupabase(updatedTemplate),
-          ageCategoryIds: template.ageCategoryIds,
-          fieldMappings: template.fieldMappings
-        };
-        setTemplates(prev => prev.map(t => t.id === id ? mappedTemplate : t));
-      }
+      const mappedTemplate: Template = {
+        ...(updatedTemplate ? mapTemplateFromSupabase(updatedTemplate) : { ...template, id }),
+        ageCategoryIds: template.ageCategoryIds,
+        fieldMappings: template.fieldMappings,
+        overlayLayout: template.overlayLayout
+      };
+      setTemplates(prev => prev.map(t => t.id === id ? mappedTemplate : t));
     } catch (err) {
       console.error('Error updating template:', err);
       setError(err instanceof Error ? err.message : 'Une erreur est survenue lors de la mise à jour du modèle.');
@@ -413,7 +713,10 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const deleteTemplate = async (id: string) => {
     try {
       setError(null);
-      await supabaseService.deleteTemplate(id);
+      assertIsAdmin();
+      const currentTemplate = templates.find(t => t.id === id);
+      await runMutation('templates', id, 'deleteTemplate', [id],
+        `Suppression du modèle ${currentTemplate?.name || id}`);
       setTemplates(prev => prev.filter(template => template.id !== id));
     } catch (err) {
       console.error('Error deleting template:', err);
@@ -422,30 +725,134 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  // Archive la version courante puis remplace le fichier ; les feuilles existantes gardent l'ancienne version
+  const publishTemplateVersion = async (id: string, nextVersion: PublishedTemplateFile) => {
+    try {
+      setError(null);
+      assertIsAdmin();
+      const currentTemplate = templates.find(t => t.id === id);
+      if (!currentTemplate) {
+        throw new Error('Modèle introuvable.');
+      }
+      const currentVersion = currentTemplate.version ?? 1;
+
+      // L'archivage ignore une version déjà archivée : si la mise à jour du modèle échoue,
+      // la publication peut être relancée sans erreur de doublon
+      await runMutation('templates', id, 'addTemplateVersion', [{
+        template_id: id,
+        version: currentVersion,
+        file_url: currentTemplate.fileUrl,
+        field_mappings: currentTemplate.fieldMappings,
+        overlay_layout: currentTemplate.overlayLayout ?? null,
+        field_names: nextVersion.previousFieldNames,
+      }], `Archivage de la version ${currentVersion} du modèle ${currentTemplate.name}`);
+
+      await updateTemplate(id, {
+        ...currentTemplate,
+        fileUrl: nextVersion.fileUrl,
+        fieldMappings: nextVersion.fieldMappings,
+        version: currentVersion + 1,
+      });
+    } catch (err) {
+      console.error('Error publishing template version:', err);
+      setError(err instanceof Error ? err.message : 'Une erreur est survenue lors de la publication de la nouvelle version du modèle.');
+      throw err;
+    }
+  };
+
+  const getTemplateVersions = async (id: string): Promise<TemplateVersion[]> => {
+    try {
+      const versionsData = await supabaseService.getTemplateVersions(id);
+      return versionsData.map(mapTemplateVersionFromSupabase);
+    } catch (err) {
+      console.error('Error fetching template versions:', err);
+      setError(err instanceof Error ? err.message : 'Une erreur est survenue lors du chargement des versions du modèle.');
+      return [];
+    }
+  };
+
+  // Modèle tel qu'il était à la création de la feuille : fichier et correspondances de la version archivée
+  const getTemplateForMatchSheet = async (
+    matchSheet: Pick<MatchSheet, 'templateId' | 'templateVersion'>
+  ): Promise<Template | undefined> => {
+    const template = templates.find(t => t.id === matchSheet.templateId);
+    if (!template || !matchSheet.templateVersion || matchSheet.templateVersion === (template.version ?? 1)) {
+      return template;
+    }
+
+    try {
+      const archived = await supabaseService.getTemplateVersion(template.id, matchSheet.templateVersion);
+      if (!archived) {
+        console.warn(`Version ${matchSheet.templateVersion} du modèle ${template.name} introuvable, utilisation de la version courante`);
+        return template;
+      }
+      const templateVersion = mapTemplateVersionFromSupabase(archived);
+      return {
+        ...template,
+        fileUrl: templateVersion.fileUrl,
+        fieldMappings: templateVersion.fieldMappings,
+        overlayLayout: templateVersion.overlayLayout,
+        version: templateVersion.version,
+      };
+    } catch (err) {
+      console.error('Error fetching archived template version:', err);
+      return template;
+    }
+  };
+
+  // Ajoute un instantané à l'historique de la feuille ; un échec n'annule pas l'enregistrement déjà effectué
+  const recordMatchSheetRevision = async (
+    matchSheetId: string,
+    matchSheet: Pick<MatchSheet, 'templateId' | 'referentCoachId' | 'playerIds' | 'coachIds' | 'pdfUrl'>,
+    changeType: MatchSheetRevisionChange
+  ) => {
+    try {
+      await runMutation('match_sheets', matchSheetId, 'addMatchSheetRevision', [{
+        match_sheet_id: matchSheetId,
+        change_type: changeType,
+        template_id: matchSheet.templateId || null,
+        referent_coach_id: matchSheet.referentCoachId || null,
+        player_ids: matchSheet.playerIds,
+        coach_ids: matchSheet.coachIds,
+        pdf_url: matchSheet.pdfUrl || null,
+      }], 'Historique de la feuille de match');
+    } catch (err) {
+      console.error('Error recording match sheet revision:', err);
+    }
+  };
+
   const addMatchSheet = async (matchSheet: MatchSheet) => {
     try {
       setError(null);
-      const newMatchSheet = await supabaseService.addMatchSheet(
+      assertCanEditCategories(matchSheet.ageCategoryId);
+      const id = crypto.randomUUID();
+      // La feuille retient la version du modèle pour être régénérée à l'identique
+      const templateVersion = templates.find(t => t.id === matchSheet.templateId)?.version;
+      const newMatchSheet = await runMutation('match_sheets', id, 'addMatchSheet', [
         {
+          id,
           tournament_id: matchSheet.tournamentId,
           template_id: matchSheet.templateId,
           age_category_id: matchSheet.ageCategoryId,
           referent_coach_id: matchSheet.referentCoachId,
           pdf_url: matchSheet.pdfUrl, // Ajout du champ pdfUrl
+          team_name: matchSheet.teamName || null,
+          template_version: templateVersion ?? null,
         },
         matchSheet.playerIds,
         matchSheet.coachIds
-      );
+      ], `Création de la feuille de match ${describeMatchSheet(matchSheet)}`);
       
-      if (newMatchSheet) {
-        const mappedMatchSheet: MatchSheet = {
-          ...mapMatchSheetFromSupabase(newMatchSheet),
-          playerIds: matchSheet.playerIds,
-          coachIds: matchSheet.coachIds,
-          pdfUrl: matchSheet.pdfUrl, // Conserver le pdfUrl
-        };
-        setMatchSheets(prev => [...prev, mappedMatchSheet]);
-      }
+      const mappedMatchSheet: MatchSheet = {
+        ...(newMatchSheet
+          ? mapMatchSheetFromSupabase(newMatchSheet)
+          : { ...matchSheet, id, templateVersion, status: 'draft' as MatchSheetStatus, createdAt: new Date() }),
+        playerIds: matchSheet.playerIds,
+        coachIds: matchSheet.coachIds,
+        pdfUrl: matchSheet.pdfUrl, // Conserver le pdfUrl
+      };
+      setMatchSheets(prev => [...prev, mappedMatchSheet]);
+      await recordMatchSheetRevision(mappedMatchSheet.id, matchSheet, 'created');
     } catch (err) {
       console.error('Error adding match sheet:', err);
       setError(err instanceof Error ? err.message : 'Une erreur est survenue lors de l\'ajout de la feuille de match.');
@@ -453,10 +860,19 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
-  const updateMatchSheet = async (id: string, matchSheet: MatchSheet) => {
+  const updateMatchSheet = async (id: string, matchSheet: MatchSheet, changeType: MatchSheetRevisionChange = 'updated') => {
     try {
       setError(null);
-      const updatedMatchSheet = await supabaseService.updateMatchSheet(
+      const currentSheet = matchSheets.find(ms => ms.id === id);
+      assertCanEditCategories(matchSheet.ageCategoryId, currentSheet?.ageCategoryId || '');
+      if (currentSheet && !isMatchSheetEditable(currentSheet.status)) {
+        throw new Error('Seules les feuilles de match en brouillon peuvent être modifiées.');
+      }
+      // Un changement de modèle passe à sa version courante
+      const templateVersion = currentSheet?.templateId === matchSheet.templateId
+        ? currentSheet.templateVersion
+        : templates.find(t => t.id === matchSheet.templateId)?.version;
+      const updatedMatchSheet = await runMutation('match_sheets', id, 'updateMatchSheet', [
         id,
         {
           tournament_id: matchSheet.tournamentId,
@@ -464,20 +880,23 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           age_category_id: matchSheet.ageCategoryId,
           referent_coach_id: matchSheet.referentCoachId,
           pdf_url: matchSheet.pdfUrl, // Ajout du champ pdfUrl
+          team_name: matchSheet.teamName || null,
+          template_version: templateVersion ?? null,
         },
         matchSheet.playerIds,
         matchSheet.coachIds
-      );
+      ], `Modification de la feuille de match ${describeMatchSheet(matchSheet)}`);
       
-      if (updatedMatchSheet) {
-        const mappedMatchSheet: MatchSheet = {
-          ...mapMatchSheetFromSupabase(updatedMatchSheet),
-          playerIds: matchSheet.playerIds,
-          coachIds: matchSheet.coachIds,
-          pdfUrl: matchSheet.pdfUrl, // Conserver le pdfUrl
-        };
-        setMatchSheets(prev => prev.map(ms => ms.id === id ? mappedMatchSheet : ms));
-      }
+      const mappedMatchSheet: MatchSheet = {
+        ...(updatedMatchSheet
+          ? mapMatchSheetFromSupabase(updatedMatchSheet)
+          : { ...(currentSheet || matchSheet), ...matchSheet, id, templateVersion }),
+        playerIds: matchSheet.playerIds,
+        coachIds: matchSheet.coachIds,
+        pdfUrl: matchSheet.pdfUrl, // Conserver le pdfUrl
+      };
+      setMatchSheets(prev => prev.map(ms => ms.id === id ? mappedMatchSheet : ms));
+      await recordMatchSheetRevision(id, matchSheet, changeType);
     } catch (err) {
       console.error('Error updating match sheet:', err);
       setError(err instanceof Error ? err.message : 'Une erreur est survenue lors de la mise à jour de la feuille de match.');
@@ -488,7 +907,10 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const deleteMatchSheet = async (id: string) => {
     try {
       setError(null);
-      await supabaseService.deleteMatchSheet(id);
+      const currentSheet = matchSheets.find(ms => ms.id === id);
+      assertCanEditCategories(currentSheet?.ageCategoryId || '');
+      await runMutation('match_sheets', id, 'deleteMatchSheet', [id],
+        `Suppression de la feuille de match ${currentSheet ? describeMatchSheet(currentSheet) : id}`);
       setMatchSheets(prev => prev.filter(matchSheet => matchSheet.id !== id));
     } catch (err) {
       console.error('Error deleting match sheet:', err);
@@ -497,6 +919,41 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
   
+  const updateMatchSheetStatus = async (id: string, status: MatchSheetStatus, pdfUrl?: string) => {
+    try {
+      setError(null);
+      const currentSheet = matchSheets.find(ms => ms.id === id);
+      assertCanEditCategories(currentSheet?.ageCategoryId || '');
+      if (currentSheet && !canTransitionMatchSheet(currentSheet.status, status)) {
+        throw new Error('Ce changement de statut n\'est pas autorisé.');
+      }
+      await runMutation('match_sheets', id, 'updateMatchSheetStatus', [id, status, pdfUrl],
+        `Changement de statut de la feuille de match ${currentSheet ? describeMatchSheet(currentSheet) : id}`);
+      setMatchSheets(prev => prev.map(ms =>
+        ms.id === id ? { ...ms, status, pdfUrl: pdfUrl || ms.pdfUrl } : ms
+      ));
+      // La validation fige la composition et le PDF régénéré
+      if (status === 'validated' && currentSheet) {
+        await recordMatchSheetRevision(id, { ...currentSheet, pdfUrl: pdfUrl || currentSheet.pdfUrl }, 'validated');
+      }
+    } catch (err) {
+      console.error('Error updating match sheet status:', err);
+      setError(err instanceof Error ? err.message : 'Une erreur est survenue lors du changement de statut de la feuille de match.');
+      throw err;
+    }
+  };
+
+  const getMatchSheetRevisions = async (matchSheetId: string): Promise<MatchSheetRevision[]> => {
+    try {
+      const revisionsData = await supabaseService.getMatchSheetRevisions(matchSheetId);
+      return revisionsData.map(mapMatchSheetRevisionFromSupabase);
+    } catch (err) {
+      console.error('Error fetching match sheet revisions:', err);
+      setError(err instanceof Error ? err.message : 'Une erreur est survenue lors du chargement de l\'historique de la feuille de match.');
+      return [];
+    }
+  };
+
   const getMatchSheetById = async (id: string): Promise<MatchSheet | null> => {
     try {
       const matchSheet = matchSheets.find(ms => ms.id === id);
@@ -522,6 +979,28 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     await fetchData();
   };
 
+  const syncNow = async () => {
+    if (!isOnline()) {
+      await refreshSyncState('offline');
+      return;
+    }
+    await fetchData();
+  };
+
+  const resolveSyncConflict = async (mutation: QueuedMutation, keepLocal: boolean) => {
+    try {
+      setError(null);
+      await resolveConflict(mutation, keepLocal);
+      await refreshSyncState();
+      // Les données du serveur remplacent la version locale abandonnée
+      await fetchData();
+    } catch (err) {
+      console.error('Error resolving sync conflict:', err);
+      setError(err instanceof Error ? err.message : 'Une erreur est survenue lors de la résolution du conflit de synchronisation.');
+      throw err;
+    }
+  };
+
   return (
     <AppContext.Provider
       value={{
@@ -533,6 +1012,9 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         templates,
         loading,
         error,
+        currentUser,
+        isAdmin,
+        canEditCategory,
         addPlayer,
         updatePlayer,
         deletePlayer,
@@ -542,14 +1024,25 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         addTournament,
         updateTournament,
         deleteTournament,
+        getTournamentAvailabilities,
+        setPlayerAvailability,
+        saveRosterRules,
         addMatchSheet,
         updateMatchSheet,
         deleteMatchSheet,
         getMatchSheetById,
+        updateMatchSheetStatus,
+        getMatchSheetRevisions,
         addTemplate,
         updateTemplate,
         deleteTemplate,
+        publishTemplateVersion,
+        getTemplateVersions,
+        getTemplateForMatchSheet,
         refreshData,
+        syncState,
+        syncNow,
+        resolveSyncConflict,
       }}
     >
       {children}
@@ -0,0 +1,57 @@
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { AppUser } from '../types';
+import * as authService from '../services/AuthService';
+
+interface AuthContextType {
+  user: AppUser | null;
+  loading: boolean;
+  signIn: (email: string) => Promise<void>;
+  signOut: () => Promise<void>;
+  refreshUser: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [user, setUser] = useState<AppUser | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  const refreshUser = async () => {
+    try {
+      setUser(await authService.getCurrentUser());
+    } catch (err) {
+      console.error('Error loading current user:', err);
+      setUser(null);
+    }
+  };
+
+  useEffect(() => {
+    refreshUser().finally(() => setLoading(false));
+    // Le retour du lien magique et la déconnexion sont signalés par l'abonnement
+    const unsubscribe = authService.onAuthChange(setUser);
+    return unsubscribe;
+  }, []);
+
+  const signIn = async (email: string) => {
+    await authService.sendMagicLink(email);
+  };
+
+  const signOut = async () => {
+    await authService.signOut();
+    setUser(null);
+  };
+
+  return (
+    <AuthContext.Provider value={{ user, loading, signIn, signOut, refreshUser }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
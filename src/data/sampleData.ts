@@ -271,5 +271,13 @@ export const sampleCoaches: Coach[] = [
 // Suppression des tournois factices
 export const sampleTournaments: Tournament[] = [];
 
+// Tournoi fictif utilisé uniquement pour l'aperçu des modèles PDF
+export const samplePreviewTournament: Tournament = {
+  id: 'preview',
+  date: '2025-03-15',
+  location: 'Nantua',
+  ageCategoryIds: ['5'],
+};
+
 // Suppression des modèles factices
 export const sampleTemplates: Template[] = [];
\ No newline at end of file
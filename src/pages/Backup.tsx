@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { Archive, Download, Upload, Loader, CheckCircle, AlertTriangle, ShieldAlert } from 'lucide-react';
+import { createClubBackup, restoreClubBackup, RestoreSummary } from '../services/BackupService';
+import { downloadBlob } from '../services/RosterExportService';
+
+const Backup: React.FC = () => {
+  const { players, coaches, tournaments, templates, matchSheets, ageCategories, refreshData, isAdmin } = useAppContext();
+  const [isWorking, setIsWorking] = useState(false);
+  const [status, setStatus] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [restoreSummary, setRestoreSummary] = useState<RestoreSummary | null>(null);
+
+  // La restauration recrée toutes les données : elle n'est possible que dans un projet vide
+  const isProjectEmpty =
+    players.length === 0 &&
+    coaches.length === 0 &&
+    tournaments.length === 0 &&
+    templates.length === 0 &&
+    matchSheets.length === 0;
+
+  const handleBackup = async () => {
+    try {
+      setIsWorking(true);
+      setError(null);
+      setRestoreSummary(null);
+      const archive = await createClubBackup(
+        { ageCategories, players, coaches, tournaments, templates, matchSheets },
+        setStatus
+      );
+      downloadBlob(archive, `sauvegarde_club_${new Date().toISOString().substring(0, 10)}.zip`);
+    } catch (err) {
+      console.error('Error creating backup:', err);
+      setError('Erreur lors de la création de la sauvegarde.');
+    } finally {
+      setIsWorking(false);
+      setStatus('');
+    }
+  };
+
+  const handleRestore = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!window.confirm('Restaurer cette sauvegarde ? Toutes les données de l\'archive seront recréées.')) {
+      return;
+    }
+
+    try {
+      setIsWorking(true);
+      setError(null);
+      setRestoreSummary(null);
+      const summary = await restoreClubBackup(file, ageCategories, setStatus);
+      setStatus('Rechargement des données...');
+      await refreshData();
+      setRestoreSummary(summary);
+    } catch (err) {
+      console.error('Error restoring backup:', err);
+      setError(err instanceof Error ? err.message : 'Erreur lors de la restauration de la sauvegarde.');
+    } finally {
+      setIsWorking(false);
+      setStatus('');
+    }
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-center text-sm text-yellow-800">
+        <ShieldAlert size={18} className="mr-2" />
+        La sauvegarde et la restauration sont réservées aux administrateurs du club.
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Sauvegarde</h1>
+        <p className="text-gray-600 mt-1">
+          Sauvegardez l'ensemble des données du club ou restaurez-les dans un nouveau projet
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {isWorking && (
+        <div className="mb-6 bg-blue-50 border border-blue-200 rounded-lg p-4 flex items-center text-sm text-blue-800">
+          <Loader size={16} className="animate-spin mr-2" />
+          {status || 'Traitement en cours...'}
+        </div>
+      )}
+
+      {restoreSummary && (
+        <div className="mb-6 bg-green-50 border border-green-200 rounded-lg p-4">
+          <div className="flex items-center text-green-800 font-medium mb-2">
+            <CheckCircle size={18} className="mr-2" />
+            Restauration terminée
+          </div>
+          <ul className="text-sm text-green-700 space-y-1">
+            <li>{restoreSummary.players} joueurs, {restoreSummary.coaches} entraîneurs</li>
+            <li>
+              {restoreSummary.tournaments} tournois, {restoreSummary.templates} modèles
+              ({restoreSummary.templateVersions} versions archivées)
+            </li>
+            <li>
+              {restoreSummary.matchSheets} feuilles de match ({restoreSummary.matchSheetRevisions} versions dans
+              l'historique), {restoreSummary.availabilities} disponibilités
+            </li>
+            <li>{restoreSummary.localEntries} copies locales</li>
+          </ul>
+          {restoreSummary.warnings.length > 0 && (
+            <ul className="mt-3 list-disc pl-5 text-sm text-yellow-700">
+              {restoreSummary.warnings.map((warning, index) => (
+                <li key={index}>{warning}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <div className="flex items-center mb-4">
+            <Archive size={24} className="text-blue-600 mr-2" />
+            <h2 className="text-lg font-semibold text-gray-900">Créer une sauvegarde</h2>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            Archive ZIP contenant les joueurs, entraîneurs, tournois, modèles (avec leurs PDF),
+            feuilles de match et les copies locales des PDF.
+          </p>
+          <ul className="text-sm text-gray-500 mb-6 space-y-1">
+            <li>{players.length} joueurs</li>
+            <li>{coaches.length} entraîneurs</li>
+            <li>{tournaments.length} tournois</li>
+            <li>{templates.length} modèles</li>
+            <li>{matchSheets.length} feuilles de match</li>
+          </ul>
+          <button
+            onClick={handleBackup}
+            disabled={isWorking}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md flex items-center disabled:opacity-50"
+          >
+            <Download size={18} className="mr-1" />
+            <span>Télécharger la sauvegarde</span>
+          </button>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <div className="flex items-center mb-4">
+            <Upload size={24} className="text-green-600 mr-2" />
+            <h2 className="text-lg font-semibold text-gray-900">Restaurer une sauvegarde</h2>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            Recrée toutes les données de l'archive avec de nouveaux identifiants. Les catégories d'âge
+            sont rapprochées par leur nom.
+          </p>
+          {!isProjectEmpty && (
+            <div className="mb-4 bg-yellow-50 border border-yellow-200 rounded-lg p-3 flex items-start">
+              <AlertTriangle size={16} className="text-yellow-600 mr-2 mt-0.5 flex-shrink-0" />
+              <p className="text-sm text-yellow-800">
+                La restauration n'est possible que dans un projet vide, afin d'éviter les doublons.
+              </p>
+            </div>
+          )}
+          <label
+            className={`inline-flex items-center px-4 py-2 rounded-md text-white ${
+              isWorking || !isProjectEmpty
+                ? 'bg-green-400 cursor-not-allowed'
+                : 'bg-green-600 hover:bg-green-700 cursor-pointer'
+            }`}
+          >
+            <Upload size={18} className="mr-1" />
+            <span>Choisir une archive .zip</span>
+            <input
+              type="file"
+              accept=".zip"
+              onChange={handleRestore}
+              disabled={isWorking || !isProjectEmpty}
+              className="sr-only"
+            />
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Backup;
@@ -1,12 +1,16 @@
 import React, { useState } from 'react';
 import { useAppContext } from '../context/AppContext';
-import { Plus, Search, Edit, Trash2, Award, X, Tag } from 'lucide-react';
+import { Plus, Search, Edit, Trash2, Award, X, Tag, Upload } from 'lucide-react';
+import ExportMenu from '../components/ExportMenu';
+import CoachImportModal from '../components/CoachImportModal';
+import { exportCoaches } from '../services/RosterExportService';
 
 interface CoachFormData {
   firstName: string;
   lastName: string;
   licenseNumber: string;
   diploma: string;
+  phone: string;
   ageCategoryIds: string[];
 }
 
@@ -15,15 +19,18 @@ const initialFormData: CoachFormData = {
   lastName: '',
   licenseNumber: '',
   diploma: '',
+  phone: '',
   ageCategoryIds: [],
 };
 
 const Coaches: React.FC = () => {
-  const { coaches, ageCategories, addCoach, updateCoach, deleteCoach } = useAppContext();
+  const { coaches, ageCategories, addCoach, updateCoach, deleteCoach, isAdmin } = useAppContext();
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [formData, setFormData] = useState<CoachFormData>(initialFormData);
   const [editingCoachId, setEditingCoachId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const [selectedCategory, setSelectedCategory] = useState<string>('');
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
@@ -105,11 +112,16 @@ const Coaches: React.FC = () => {
     return ageA - ageB;
   });
 
-  const filteredCoaches = sortedCoaches.filter((coach) =>
-    coach.firstName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    coach.lastName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    coach.licenseNumber.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const filteredCoaches = sortedCoaches.filter((coach) => {
+    const matchesSearch =
+      coach.firstName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      coach.lastName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      coach.licenseNumber.toLowerCase().includes(searchTerm.toLowerCase());
+
+    const matchesCategory = selectedCategory ? coach.ageCategoryIds.includes(selectedCategory) : true;
+
+    return matchesSearch && matchesCategory;
+  });
 
   const getCategoryNames = (categoryIds: string[]) => {
     return categoryIds
@@ -141,20 +153,37 @@ const Coaches: React.FC = () => {
             Gérez la liste des entraîneurs et leur qualification
           </p>
         </div>
-        <button
-          onClick={() => {
-            resetForm();
-            setIsModalOpen(true);
-          }}
-          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md flex items-center"
-        >
-          <Plus size={18} className="mr-1" />
-          <span>Nouvel entraîneur</span>
-        </button>
+        <div className="flex space-x-2">
+          <ExportMenu
+            count={filteredCoaches.length}
+            onExport={(format) => exportCoaches(filteredCoaches, ageCategories, format)}
+          />
+          {isAdmin && (
+            <button
+              onClick={() => setIsImportModalOpen(true)}
+              className="bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 px-4 py-2 rounded-md flex items-center"
+            >
+              <Upload size={18} className="mr-1" />
+              <span>Importer</span>
+            </button>
+          )}
+          {isAdmin && (
+            <button
+              onClick={() => {
+                resetForm();
+                setIsModalOpen(true);
+              }}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md flex items-center"
+            >
+              <Plus size={18} className="mr-1" />
+              <span>Nouvel entraîneur</span>
+            </button>
+          )}
+        </div>
       </div>
 
-      <div className="mb-6">
-        <div className="relative">
+      <div className="mb-6 flex flex-col sm:flex-row gap-4">
+        <div className="relative flex-grow">
           <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
             <Search size={18} className="text-gray-400" />
           </div>
@@ -166,6 +195,20 @@ const Coaches: React.FC = () => {
             onChange={(e) => setSearchTerm(e.target.value)}
           />
         </div>
+        <div className="sm:w-1/4">
+          <select
+            className="w-full border border-gray-300 rounded-lg py-2 px-4 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            value={selectedCategory}
+            onChange={(e) => setSelectedCategory(e.target.value)}
+          >
+            <option value="">Toutes catégories</option>
+            {sortedCategories.map((category) => (
+              <option key={category.id} value={category.id}>
+                {category.name}
+              </option>
+            ))}
+          </select>
+        </div>
       </div>
 
       {filteredCoaches.length > 0 ? (
@@ -224,18 +267,22 @@ const Coaches: React.FC = () => {
                     {getCategoryNames(coach.ageCategoryIds)}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                    <button
-                      onClick={() => handleEdit(coach)}
-                      className="text-indigo-600 hover:text-indigo-900 mr-3"
-                    >
-                      <Edit size={18} />
-                    </button>
-                    <button
-                      onClick={() => handleDelete(coach.id)}
-                      className="text-red-600 hover:text-red-900"
-                    >
-                      <Trash2 size={18} />
-                    </button>
+                    {isAdmin && (
+                      <>
+                        <button
+                          onClick={() => handleEdit({ ...coach, phone: coach.phone || '' })}
+                          className="text-indigo-600 hover:text-indigo-900 mr-3"
+                        >
+                          <Edit size={18} />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(coach.id)}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          <Trash2 size={18} />
+                        </button>
+                      </>
+                    )}
                   </td>
                 </tr>
               ))}
@@ -247,11 +294,11 @@ const Coaches: React.FC = () => {
           <Award size={64} className="mx-auto text-gray-300 mb-4" />
           <h3 className="text-lg font-medium text-gray-900 mb-2">Aucun entraîneur trouvé</h3>
           <p className="text-gray-500 mb-6">
-            {searchTerm
+            {searchTerm || selectedCategory
               ? "Aucun entraîneur ne correspond aux critères de recherche."
               : "Commencez par ajouter votre premier entraîneur."}
           </p>
-          {!searchTerm && (
+          {!searchTerm && !selectedCategory && isAdmin && (
             <button
               onClick={() => {
                 resetForm();
@@ -327,6 +374,20 @@ const Coaches: React.FC = () => {
                   />
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Téléphone
+                  </label>
+                  <input
+                    type="tel"
+                    name="phone"
+                    value={formData.phone}
+                    onChange={handleInputChange}
+                    placeholder="06 12 34 56 78"
+                    className="w-full border border-gray-300 rounded-md py-2 px-3 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     Diplôme
@@ -401,6 +462,10 @@ const Coaches: React.FC = () => {
           </div>
         </div>
       )}
+
+      {isImportModalOpen && (
+        <CoachImportModal onClose={() => setIsImportModalOpen(false)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Mail, Loader, CheckCircle } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { AUTH_MODE } from '../services/AuthService';
+
+const Login: React.FC = () => {
+  const { signIn } = useAuth();
+  const [email, setEmail] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [linkSent, setLinkSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    try {
+      setIsSending(true);
+      await signIn(email);
+      setLinkSent(true);
+    } catch (err) {
+      console.error('Error sending magic link:', err);
+      setError('Impossible d\'envoyer le lien de connexion. Vérifiez l\'adresse email et réessayez.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-sm w-full max-w-md p-8">
+        <div className="text-center mb-6">
+          <h1 className="text-2xl font-bold text-blue-900">Nantua Rugby</h1>
+          <p className="text-gray-600 mt-1">Connectez-vous pour gérer les feuilles de match</p>
+        </div>
+
+        {linkSent && AUTH_MODE === 'supabase' ? (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-sm text-green-800 flex items-start">
+            <CheckCircle size={18} className="mr-2 mt-0.5 flex-shrink-0" />
+            <p>
+              Un lien de connexion a été envoyé à <strong>{email}</strong>.
+              Ouvrez-le depuis cet appareil pour accéder à l'application.
+            </p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+                {error}
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Adresse email
+              </label>
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                placeholder="prenom.nom@exemple.fr"
+                className="w-full border border-gray-300 rounded-md py-2 px-3 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isSending}
+              className="w-full bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md flex items-center justify-center disabled:opacity-50"
+            >
+              {isSending ? (
+                <Loader size={18} className="animate-spin mr-2" />
+              ) : (
+                <Mail size={18} className="mr-2" />
+              )}
+              {AUTH_MODE === 'local' ? 'Se connecter' : 'Recevoir un lien de connexion'}
+            </button>
+            {AUTH_MODE === 'local' && (
+              <p className="text-xs text-gray-500 text-center">
+                Mode local : la connexion est immédiate, sans envoi d'email.
+              </p>
+            )}
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Login;
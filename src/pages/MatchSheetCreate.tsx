@@ -1,27 +1,44 @@
 import React, { useState, useEffect } from 'react';
 import { useAppContext } from '../context/AppContext';
 import { useSearchParams, useNavigate, useLocation } from 'react-router-dom';
-import { ArrowLeft, FileText, Users, Award, UserCheck, ShieldCheck, Castle as Whistle, GraduationCap, Loader } from 'lucide-react';
-import { generateAndStorePdf } from '../services/PdfExportService';
-import { validateMatchSheet } from '../services/MatchSheetService';
+import { ArrowLeft, FileText, Users, Award, UserCheck, ShieldCheck, Castle as Whistle, GraduationCap, Loader, AlertTriangle, CheckCircle, Settings, Shuffle } from 'lucide-react';
+import { downloadGeneratedPdf, generateAndStorePdf } from '../services/PdfExportService';
+import { PdfGenerationResult } from '../services/PdfGenerator';
+import { validateMatchSheet, isMatchSheetEditable, getPlayersOnOtherSheets, MATCH_SHEET_STATUS_LABELS } from '../services/MatchSheetService';
+import { checkRosterRules, loadRosterRules } from '../services/RosterRulesService';
+import { loadCurrentSeason } from '../services/SeasonService';
+import RosterRulesModal from '../components/RosterRulesModal';
+import TeamSplitModal from '../components/TeamSplitModal';
+import PdfReportModal from '../components/PdfReportModal';
+import { AvailabilityStatus, CategoryRosterRules, MatchSheetStatus, Tournament } from '../types';
 
 const MatchSheetCreate: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
   const [searchParams] = useSearchParams();
-  const { tournaments, templates, players, coaches, ageCategories, addMatchSheet, updateMatchSheet, getMatchSheetById } = useAppContext();
+  const { tournaments, templates, players, coaches, ageCategories, matchSheets, addMatchSheet, updateMatchSheet, getMatchSheetById, getTemplateForMatchSheet, getTournamentAvailabilities, canEditCategory, isAdmin } = useAppContext();
   const [selectedTournament, setSelectedTournament] = useState<string>(searchParams.get('tournamentId') || '');
   const [selectedTemplate, setSelectedTemplate] = useState<string>('');
   const [selectedCategory, setSelectedCategory] = useState<string>('');
   const [selectedPlayers, setSelectedPlayers] = useState<string[]>([]);
   const [selectedCoaches, setSelectedCoaches] = useState<string[]>([]);
   const [referentCoach, setReferentCoach] = useState<string>('');
+  const [teamName, setTeamName] = useState<string>('');
+  const [showSplitModal, setShowSplitModal] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [generationStatus, setGenerationStatus] = useState<string>('');
   const [editMode, setEditMode] = useState<boolean>(false);
   const [editId, setEditId] = useState<string | null>(null);
   const [existingPdfUrl, setExistingPdfUrl] = useState<string | null>(null);
+  const [sheetStatus, setSheetStatus] = useState<MatchSheetStatus>('draft');
   const [formErrors, setFormErrors] = useState<string[]>([]);
+  const [availabilities, setAvailabilities] = useState<Record<string, AvailabilityStatus>>({});
+  const [preselectedFor, setPreselectedFor] = useState<string>('');
+  const [rosterRules, setRosterRules] = useState<CategoryRosterRules | null>(null);
+  const [showRulesModal, setShowRulesModal] = useState(false);
+  const [season] = useState(() => loadCurrentSeason());
+  // PDF généré à la création, dont le rapport est affiché avant de revenir à la liste
+  const [generatedPdf, setGeneratedPdf] = useState<{ result: PdfGenerationResult; tournament: Tournament } | null>(null);
 
   // Tri des catégories d'âge dans l'ordre spécifique (M6, M8, M10, etc.)
   const sortedCategories = [...ageCategories].sort((a, b) => {
@@ -64,7 +81,9 @@ const MatchSheetCreate: React.FC = () => {
       setSelectedPlayers(matchSheet.playerIds || []);
       setSelectedCoaches(matchSheet.coachIds || []);
       setReferentCoach(matchSheet.referentCoachId || '');
+      setTeamName(matchSheet.teamName || '');
       setExistingPdfUrl(matchSheet.pdfUrl || null);
+      setSheetStatus(matchSheet.status);
     } else {
       console.error("Feuille de match non trouvée:", id);
       alert("Feuille de match introuvable");
@@ -91,20 +110,114 @@ const MatchSheetCreate: React.FC = () => {
     )
     .sort((a, b) => a.lastName.localeCompare(b.lastName, 'fr-FR'));
 
+  // Joueurs déjà inscrits sur une autre feuille (autre équipe) du même tournoi
+  const playersOnOtherSheets = selectedTournament
+    ? getPlayersOnOtherSheets(matchSheets, selectedTournament, editId)
+    : new Map();
+
   // Set initial category based on tournament if available
   useEffect(() => {
     if (selectedTournament) {
       const tournament = tournaments.find(t => t.id === selectedTournament);
-      if (tournament && tournament.ageCategoryIds.length > 0 && !selectedCategory) {
-        setSelectedCategory(tournament.ageCategoryIds[0]);
+      // Première catégorie du tournoi que l'utilisateur peut modifier
+      const editableCategoryId = tournament?.ageCategoryIds.find(id => canEditCategory(id));
+      if (editableCategoryId && !selectedCategory) {
+        setSelectedCategory(editableCategoryId);
       }
     }
   }, [selectedTournament, tournaments, selectedCategory]);
 
+  // Charger les règles d'effectif de la catégorie sélectionnée
+  useEffect(() => {
+    const category = ageCategories.find(c => c.id === selectedCategory);
+    setRosterRules(category ? loadRosterRules(category) : null);
+  }, [selectedCategory, ageCategories]);
+
+  // Load player availabilities for the selected tournament
+  useEffect(() => {
+    if (!selectedTournament) {
+      setAvailabilities({});
+      return;
+    }
+
+    // Ignore a response that arrives after the tournament has changed
+    let cancelled = false;
+
+    const loadAvailabilities = async () => {
+      const data = await getTournamentAvailabilities(selectedTournament);
+      if (cancelled) return;
+      const byPlayer: Record<string, AvailabilityStatus> = {};
+      data.forEach(availability => {
+        byPlayer[availability.playerId] = availability.status;
+      });
+      setAvailabilities(byPlayer);
+    };
+
+    loadAvailabilities();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedTournament]);
+
+  // Pré-sélectionner les joueurs ayant confirmé leur présence (création uniquement)
+  useEffect(() => {
+    const preselectionKey = `${selectedTournament}-${selectedCategory}`;
+    if (editMode || !selectedTournament || !selectedCategory || preselectedFor === preselectionKey) {
+      return;
+    }
+
+    const availablePlayerIds = players
+      .filter(player =>
+        player.ageCategoryId === selectedCategory &&
+        availabilities[player.id] === 'available' &&
+        !playersOnOtherSheets.has(player.id)
+      )
+      .map(player => player.id);
+
+    if (availablePlayerIds.length > 0) {
+      if (selectedPlayers.length === 0) {
+        setSelectedPlayers(availablePlayerIds);
+      }
+      setPreselectedFor(preselectionKey);
+    }
+  }, [availabilities, selectedTournament, selectedCategory, editMode, players]);
+
+  // Une feuille validée, envoyée ou archivée n'est plus modifiable
+  const isReadOnly = editMode && !isMatchSheetEditable(sheetStatus);
+  const isCategoryForbidden = !!selectedCategory && !canEditCategory(selectedCategory);
+
+  // Selected players who answered they cannot come
+  const unavailableSelectedPlayers = players.filter(player =>
+    selectedPlayers.includes(player.id) && availabilities[player.id] === 'unavailable'
+  );
+
+  // Vérification en direct de la composition par rapport aux règles de la catégorie
+  const rosterViolations = rosterRules && selectedPlayers.length > 0
+    ? checkRosterRules(
+        rosterRules,
+        availablePlayers.filter(p => selectedPlayers.includes(p.id)),
+        availableCoaches.filter(c => selectedCoaches.includes(c.id)),
+        season
+      )
+    : [];
+  const rosterErrors = rosterViolations.filter(violation => violation.severity === 'error');
+  const rosterWarnings = rosterViolations.filter(violation => violation.severity === 'warning');
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     setFormErrors([]);
+
+    if (isReadOnly) {
+      setFormErrors([`Cette feuille de match est ${MATCH_SHEET_STATUS_LABELS[sheetStatus].label.toLowerCase()} : seuls les brouillons sont modifiables.`]);
+      return;
+    }
+
+    if (isCategoryForbidden) {
+      setFormErrors(['Vous ne pouvez créer ou modifier que les feuilles de match de vos catégories.']);
+      return;
+    }
     
     // Get selected tournament object
     const tournament = tournaments.find(t => t.id === selectedTournament);
@@ -116,13 +229,30 @@ const MatchSheetCreate: React.FC = () => {
       selectedCategory,
       availablePlayers.filter(p => selectedPlayers.includes(p.id)),
       availableCoaches.filter(c => selectedCoaches.includes(c.id)),
-      referentCoach
+      referentCoach,
+      rosterRules || undefined,
+      season
+    );
+    
+    const playersAlreadyOnSheet = players.filter(player =>
+      selectedPlayers.includes(player.id) && playersOnOtherSheets.has(player.id)
     );
+    playersAlreadyOnSheet.forEach(player => {
+      const otherSheet = playersOnOtherSheets.get(player.id);
+      validation.errors.push(
+        `${player.lastName} ${player.firstName} est déjà inscrit sur la feuille ${otherSheet?.teamName || 'd\'une autre équipe'} de ce tournoi`
+      );
+    });
     
-    if (!validation.isValid) {
+    if (validation.errors.length > 0) {
       setFormErrors(validation.errors);
       return;
     }
+
+    if (validation.warnings.length > 0 &&
+        !window.confirm(`Avertissements :\n- ${validation.warnings.join('\n- ')}\n\nGénérer quand même la feuille de match ?`)) {
+      return;
+    }
     
     try {
       setIsSubmitting(true);
@@ -130,7 +260,12 @@ const MatchSheetCreate: React.FC = () => {
       
       // Récupérer les objets complets
       const tournament = tournaments.find(t => t.id === selectedTournament);
-      const template = templates.find(t => t.id === selectedTemplate);
+      // Une feuille existante reste générée avec la version du modèle utilisée à sa création
+      const editedSheet = editMode ? matchSheets.find(ms => ms.id === editId) : undefined;
+      const template = await getTemplateForMatchSheet({
+        templateId: selectedTemplate,
+        templateVersion: editedSheet?.templateId === selectedTemplate ? editedSheet.templateVersion : undefined,
+      });
       const selectedPlayerObjects = players.filter(p => selectedPlayers.includes(p.id));
       const selectedCoachObjects = coaches.filter(c => selectedCoaches.includes(c.id));
       
@@ -139,6 +274,7 @@ const MatchSheetCreate: React.FC = () => {
       }
 
       let pdfUrl = existingPdfUrl;
+      let generated: PdfGenerationResult | null = null;
       
       console.log("Début du processus de génération/mise à jour de la feuille de match");
       console.log("Mode édition:", editMode);
@@ -153,17 +289,19 @@ const MatchSheetCreate: React.FC = () => {
         setGenerationStatus('Génération du PDF...');
         console.log("Génération d'un nouveau PDF...");
         
-        const pdfFilename = await generateAndStorePdf(
+        const { filename: pdfFilename, pdfBytes, report } = await generateAndStorePdf(
           selectedTemplate,
           selectedTournament,
           selectedPlayerObjects,
           selectedCoachObjects,
           referentCoach,
           template,
-          tournament
+          tournament,
+          ageCategories.find(category => category.id === selectedCategory)?.name
         );
         
         pdfUrl = `/generated_pdfs/${pdfFilename}`;
+        generated = { pdfBytes, report };
         console.log("Nouveau PDF généré:", pdfUrl);
       } else {
         console.log("Conservation du PDF existant:", pdfUrl);
@@ -178,7 +316,8 @@ const MatchSheetCreate: React.FC = () => {
         referentCoachId: referentCoach,
         playerIds: selectedPlayers,
         coachIds: selectedCoaches,
-        pdfUrl: pdfUrl || undefined
+        pdfUrl: pdfUrl || undefined,
+        teamName: teamName.trim() || undefined
       };
       
       console.log("Données de la feuille de match à sauvegarder:", matchSheetData);
@@ -191,6 +330,12 @@ const MatchSheetCreate: React.FC = () => {
         setGenerationStatus('Feuille de match créée avec succès!');
       }
       
+      // Le rapport de génération est affiché avant de revenir à la liste
+      if (generated) {
+        setGeneratedPdf({ result: generated, tournament });
+        return;
+      }
+
       // Navigate back to match sheets list
       navigate('/match-sheets');
     } catch (error) {
@@ -201,6 +346,11 @@ const MatchSheetCreate: React.FC = () => {
     }
   };
 
+  // Sélection utilisée par l'assistant de répartition en plusieurs équipes
+  const splitTournament = tournaments.find(t => t.id === selectedTournament);
+  const splitCategory = ageCategories.find(c => c.id === selectedCategory);
+  const splitTemplate = templates.find(t => t.id === selectedTemplate);
+
   return (
     <div>
       <div className="mb-6 flex items-center">
@@ -222,6 +372,25 @@ const MatchSheetCreate: React.FC = () => {
         </div>
       </div>
 
+      {isReadOnly && (
+        <div className="mb-6 bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-start">
+          <AlertTriangle size={18} className="text-yellow-600 mr-2 mt-0.5 flex-shrink-0" />
+          <p className="text-sm text-yellow-800">
+            Cette feuille de match est au statut « {MATCH_SHEET_STATUS_LABELS[sheetStatus].label} » et ne peut plus être modifiée.
+            Une feuille validée mais pas encore envoyée peut repasser en brouillon depuis la liste des feuilles de match.
+          </p>
+        </div>
+      )}
+
+      {isCategoryForbidden && (
+        <div className="mb-6 bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-start">
+          <AlertTriangle size={18} className="text-yellow-600 mr-2 mt-0.5 flex-shrink-0" />
+          <p className="text-sm text-yellow-800">
+            Cette catégorie ne fait pas partie de celles que votre rôle permet de modifier.
+          </p>
+        </div>
+      )}
+
       {formErrors.length > 0 && (
         <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4">
           <h3 className="text-red-800 font-medium mb-2">Veuillez corriger les erreurs suivantes :</h3>
@@ -268,15 +437,45 @@ const MatchSheetCreate: React.FC = () => {
                 className="w-full border border-gray-300 rounded-md py-2 px-3 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               >
                 <option value="">Sélectionner une catégorie</option>
-                {sortedCategories.map((category) => (
-                  <option key={category.id} value={category.id}>
-                    {category.name} - {category.description}
-                  </option>
-                ))}
+                {sortedCategories
+                  .filter(category => canEditCategory(category.id) || category.id === selectedCategory)
+                  .map((category) => (
+                    <option key={category.id} value={category.id}>
+                      {category.name} - {category.description}
+                    </option>
+                  ))}
               </select>
             </div>
           </div>
 
+          {/* Équipe */}
+          <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+            <div className="flex-grow">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Nom de l'équipe
+              </label>
+              <input
+                type="text"
+                value={teamName}
+                onChange={(e) => setTeamName(e.target.value)}
+                placeholder="Ex: Nantua 2 (si le club engage plusieurs équipes)"
+                className="w-full border border-gray-300 rounded-md py-2 px-3 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            {!editMode && (
+              <button
+                type="button"
+                onClick={() => setShowSplitModal(true)}
+                disabled={!selectedTournament || !selectedCategory || !selectedTemplate}
+                title={!selectedTemplate ? 'Sélectionnez d\'abord un tournoi, une catégorie et un modèle' : undefined}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Shuffle size={16} className="mr-1" />
+                Répartir en plusieurs équipes
+              </button>
+            )}
+          </div>
+
           {/* Modèle */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -357,16 +556,31 @@ const MatchSheetCreate: React.FC = () => {
                 </p>
               </div>
             </div>
+            {unavailableSelectedPlayers.length > 0 && (
+              <div className="mb-4 bg-yellow-50 border border-yellow-200 rounded-lg p-3 flex items-start">
+                <AlertTriangle size={16} className="text-yellow-600 mr-2 mt-0.5 flex-shrink-0" />
+                <p className="text-sm text-yellow-800">
+                  Joueurs sélectionnés mais déclarés absents : {unavailableSelectedPlayers
+                    .map(player => `${player.lastName} ${player.firstName}`)
+                    .join(', ')}
+                </p>
+              </div>
+            )}
             <div className="border border-gray-200 rounded-lg p-4 max-h-72 overflow-y-auto">
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
                 {availablePlayers.map((player) => (
                   <label
                     key={player.id}
-                    className="flex items-center p-2 border rounded hover:bg-gray-50"
+                    className={`flex items-center p-2 border rounded ${
+                      playersOnOtherSheets.has(player.id) && !selectedPlayers.includes(player.id)
+                        ? 'opacity-50 cursor-not-allowed'
+                        : 'hover:bg-gray-50'
+                    }`}
                   >
                     <input
                       type="checkbox"
                       checked={selectedPlayers.includes(player.id)}
+                      disabled={playersOnOtherSheets.has(player.id) && !selectedPlayers.includes(player.id)}
                       onChange={(e) => {
                         if (e.target.checked) {
                           setSelectedPlayers([...selectedPlayers, player.id]);
@@ -380,6 +594,20 @@ const MatchSheetCreate: React.FC = () => {
                     <span className="ml-2 text-sm">
                       {player.lastName} {player.firstName}
                     </span>
+                    {playersOnOtherSheets.has(player.id) ? (
+                      <span className="ml-auto px-1.5 py-0.5 text-xs rounded bg-gray-100 text-gray-700">
+                        {playersOnOtherSheets.get(player.id)?.teamName || 'Autre feuille'}
+                      </span>
+                    ) : availabilities[player.id] === 'available' && (
+                      <span className="ml-auto px-1.5 py-0.5 text-xs rounded bg-green-100 text-green-800">
+                        Présent
+                      </span>
+                    )}
+                    {!playersOnOtherSheets.has(player.id) && availabilities[player.id] === 'unavailable' && (
+                      <span className="ml-auto px-1.5 py-0.5 text-xs rounded bg-red-100 text-red-800">
+                        Absent
+                      </span>
+                    )}
                   </label>
                 ))}
               </div>
@@ -464,6 +692,50 @@ const MatchSheetCreate: React.FC = () => {
             </select>
           </div>
 
+          {/* Règles d'effectif */}
+          {rosterRules && (
+            <div className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-medium text-gray-700">
+                  Règles d'effectif {rosterRules.categoryName}
+                </h3>
+                {isAdmin && (
+                  <button
+                    type="button"
+                    onClick={() => setShowRulesModal(true)}
+                    className="text-sm text-blue-600 hover:text-blue-800 flex items-center"
+                  >
+                    <Settings size={14} className="mr-1" />
+                    Configurer
+                  </button>
+                )}
+              </div>
+              {selectedPlayers.length === 0 ? (
+                <p className="text-sm text-gray-500">Sélectionnez des joueurs pour vérifier la composition.</p>
+              ) : rosterViolations.length === 0 ? (
+                <p className="text-sm text-green-700 flex items-center">
+                  <CheckCircle size={16} className="mr-1.5" />
+                  Composition conforme aux règles de la catégorie
+                </p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {rosterErrors.map(violation => (
+                    <li key={violation.rule} className="flex items-start text-red-700">
+                      <AlertTriangle size={14} className="mr-1.5 mt-0.5 flex-shrink-0" />
+                      {violation.message}
+                    </li>
+                  ))}
+                  {rosterWarnings.map(violation => (
+                    <li key={violation.rule} className="flex items-start text-yellow-700">
+                      <AlertTriangle size={14} className="mr-1.5 mt-0.5 flex-shrink-0" />
+                      {violation.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
           {/* Actions */}
           <div className="flex justify-end space-x-3 pt-6 border-t">
             <p className="text-sm text-gray-500 mr-auto">* Champs obligatoires</p>
@@ -477,9 +749,9 @@ const MatchSheetCreate: React.FC = () => {
             </button>
             <button
               type="submit"
-              disabled={isSubmitting}
+              disabled={isSubmitting || isReadOnly || isCategoryForbidden}
               className={`px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white ${
-                isSubmitting ? 'bg-blue-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+                isSubmitting || isReadOnly || isCategoryForbidden ? 'bg-blue-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
               } inline-flex items-center`}
             >
               {isSubmitting ? (
@@ -494,6 +766,41 @@ const MatchSheetCreate: React.FC = () => {
           </div>
         </form>
       </div>
+
+      {showSplitModal && splitTournament && splitCategory && splitTemplate && (
+        <TeamSplitModal
+          tournament={splitTournament}
+          category={splitCategory}
+          template={splitTemplate}
+          categoryPlayers={availablePlayers}
+          categoryCoaches={availableCoaches}
+          availabilities={availabilities}
+          onClose={() => setShowSplitModal(false)}
+          onCreated={() => navigate('/match-sheets')}
+        />
+      )}
+
+      {generatedPdf && (
+        <PdfReportModal
+          report={generatedPdf.result.report}
+          title={editMode ? 'Feuille de match mise à jour' : 'Feuille de match créée'}
+          closeLabel="Retour aux feuilles"
+          onClose={() => navigate('/match-sheets')}
+          onDownload={() => downloadGeneratedPdf(generatedPdf.result.pdfBytes, generatedPdf.tournament)}
+        />
+      )}
+
+      {showRulesModal && rosterRules && (
+        <RosterRulesModal
+          rules={rosterRules}
+          ageCategoryId={selectedCategory}
+          onClose={() => setShowRulesModal(false)}
+          onSaved={(rules) => {
+            setRosterRules(rules);
+            setShowRulesModal(false);
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -2,14 +2,29 @@ import React, { useState, useEffect } from 'react';
 import { useAppContext } from '../context/AppContext';
 import { useSearchParams, Link } from 'react-router-dom';
 import { 
-  Plus, Search, FileText, Check, ArrowLeft, Download, ChevronDown, ChevronUp, X, User, Award, Loader, Edit
+  Plus, Search, FileText, Check, ArrowLeft, Download, ChevronDown, ChevronUp, X, User, Award, Loader, Edit,
+  Send, Archive, RotateCcw, History, ClipboardList
 } from 'lucide-react';
 import PdfViewer from '../components/PdfViewer';
+import MatchSheetHistory from '../components/MatchSheetHistory';
 import { getPdf, createPdfBlobUrl } from '../services/PdfStorage';
-import { generateAndDownloadMatchSheet } from '../services/PdfExportService';
+import PdfReportModal from '../components/PdfReportModal';
+import { downloadGeneratedPdf, generateAndDownloadMatchSheet, generateAndStorePdf } from '../services/PdfExportService';
+import { PdfGenerationReport } from '../services/PdfGenerator';
+import { MATCH_SHEET_STATUS_LABELS, getNextMatchSheetStatuses, isMatchSheetEditable } from '../services/MatchSheetService';
+import { MatchSheet, MatchSheetStatus, Tournament } from '../types';
+
+// Bouton d'action associé à chaque statut cible
+const statusActions: Record<MatchSheetStatus, { label: string, icon: React.ElementType, className: string }> = {
+  draft: { label: 'Repasser en brouillon', icon: RotateCcw, className: 'bg-gray-100 text-gray-700 hover:bg-gray-200' },
+  validated: { label: 'Valider', icon: Check, className: 'bg-green-600 text-white hover:bg-green-700' },
+  sent: { label: 'Marquer envoyée', icon: Send, className: 'bg-blue-600 text-white hover:bg-blue-700' },
+  archived: { label: 'Archiver', icon: Archive, className: 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200' },
+};
 
 const MatchSheets: React.FC = () => {
-  const { matchSheets, tournaments, templates, players, coaches, deleteMatchSheet } = useAppContext();
+  const { matchSheets, tournaments, templates, players, coaches, ageCategories, deleteMatchSheet, updateMatchSheetStatus, canEditCategory, getTemplateForMatchSheet } = useAppContext();
+  const canEditAnyCategory = ageCategories.some(category => canEditCategory(category.id));
   const [searchParams] = useSearchParams();
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedTournamentId, setSelectedTournamentId] = useState<string>('');
@@ -18,6 +33,20 @@ const MatchSheets: React.FC = () => {
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState<string | null>(null);
+  const [selectedStatus, setSelectedStatus] = useState<MatchSheetStatus | ''>('');
+  const [isChangingStatus, setIsChangingStatus] = useState<string | null>(null);
+  const [historySheetId, setHistorySheetId] = useState<string | null>(null);
+  const [previewReport, setPreviewReport] = useState<PdfGenerationReport | null>(null);
+  // Rapport affiché après une génération, avec le PDF à télécharger le cas échéant
+  const [reportModal, setReportModal] = useState<{
+    report: PdfGenerationReport;
+    title: string;
+    download?: { pdfBytes: Uint8Array; tournament: Tournament };
+  } | null>(null);
+
+  // Catégorie écrite sur la feuille générée
+  const getCategoryName = (ageCategoryId: string) =>
+    ageCategories.find(category => category.id === ageCategoryId)?.name;
 
   useEffect(() => {
     // Check for tournament filter in URL params
@@ -30,6 +59,7 @@ const MatchSheets: React.FC = () => {
   const handlePreviewMatchSheet = async (matchSheet: any) => {
     try {
       setIsGenerating(matchSheet.id);
+      setPreviewReport(null);
 
       // Si la feuille de match a déjà un PDF généré, l'utiliser
       if (matchSheet.pdfUrl) {
@@ -64,8 +94,8 @@ const MatchSheets: React.FC = () => {
         }
       }
 
-      // Si pas de PDF ou erreur, générer à la volée
-      const template = templates.find(t => t.id === matchSheet.templateId);
+      // Si pas de PDF ou erreur, générer à la volée, avec la version du modèle de la feuille
+      const template = await getTemplateForMatchSheet(matchSheet);
       const tournament = tournaments.find(t => t.id === matchSheet.tournamentId);
       
       if (!template || !template.fileUrl) {
@@ -78,7 +108,7 @@ const MatchSheets: React.FC = () => {
       const selectedCoaches = coaches.filter(c => matchSheet.coachIds.includes(c.id));
       
       // Generate the preview PDF
-      const pdfBytes = await generateAndDownloadMatchSheet(
+      const { pdfBytes, report } = await generateAndDownloadMatchSheet(
         matchSheet.templateId,
         matchSheet.tournamentId,
         selectedPlayers,
@@ -86,7 +116,8 @@ const MatchSheets: React.FC = () => {
         matchSheet.referentCoachId,
         template,
         tournament,
-        true // preview mode - don't trigger download
+        true, // preview mode - don't trigger download
+        getCategoryName(matchSheet.ageCategoryId)
       );
       
       // Convert PDF bytes to base64 and create blob URL
@@ -97,6 +128,7 @@ const MatchSheets: React.FC = () => {
       );
       const pdfDataUri = `data:application/pdf;base64,${base64Pdf}`;
       setPreviewUrl(pdfDataUri);
+      setPreviewReport(report);
       setSelectedTemplate(template.id);
     } catch (error) {
       console.error('Error previewing match sheet:', error);
@@ -145,8 +177,8 @@ const MatchSheets: React.FC = () => {
         }
       }
       
-      // Find the related template and tournament
-      const template = templates.find(t => t.id === matchSheet.templateId);
+      // Find the related template (in the version used by the sheet) and tournament
+      const template = await getTemplateForMatchSheet(matchSheet);
       const tournament = tournaments.find(t => t.id === matchSheet.tournamentId);
       
       if (!template || !tournament) {
@@ -159,16 +191,23 @@ const MatchSheets: React.FC = () => {
       const selectedPlayers = players.filter(p => matchSheet.playerIds.includes(p.id));
       const selectedCoaches = coaches.filter(c => matchSheet.coachIds.includes(c.id));
       
-      // Generate and download the PDF
-      await generateAndDownloadMatchSheet(
+      // Generate the PDF, the report is shown before the download
+      const { pdfBytes, report } = await generateAndDownloadMatchSheet(
         matchSheet.templateId,
         matchSheet.tournamentId,
         selectedPlayers,
         selectedCoaches,
         matchSheet.referentCoachId,
         template,
-        tournament
+        tournament,
+        true,
+        getCategoryName(matchSheet.ageCategoryId)
       );
+      setReportModal({
+        report,
+        title: `Rapport de génération : ${tournament.location}`,
+        download: { pdfBytes, tournament },
+      });
     } catch (error) {
       console.error('Error downloading match sheet:', error);
       alert('Failed to download match sheet.');
@@ -177,6 +216,12 @@ const MatchSheets: React.FC = () => {
     }
   };
 
+  const handleReportDownload = () => {
+    if (!reportModal?.download) return;
+    downloadGeneratedPdf(reportModal.download.pdfBytes, reportModal.download.tournament);
+    setReportModal(null);
+  };
+
   const handleDeleteMatchSheet = async (id: string, locationName: string) => {
     if (window.confirm(`Êtes-vous sûr de vouloir supprimer la feuille de match pour "${locationName}" ?`)) {
       setIsDeleting(id);
@@ -196,6 +241,52 @@ const MatchSheets: React.FC = () => {
     }
   };
 
+  const handleChangeStatus = async (matchSheet: MatchSheet, status: MatchSheetStatus) => {
+    const tournament = tournaments.find(t => t.id === matchSheet.tournamentId);
+    const template = status === 'validated' ? await getTemplateForMatchSheet(matchSheet) : undefined;
+
+    if (status === 'validated' && (!tournament || !template)) {
+      alert('Tournoi ou modèle introuvable : impossible de valider la feuille.');
+      return;
+    }
+
+    if (status === 'archived' && !window.confirm('Archiver cette feuille de match ? Elle ne pourra plus être modifiée.')) {
+      return;
+    }
+
+    setIsChangingStatus(matchSheet.id);
+    try {
+      let pdfUrl: string | undefined;
+      let report: PdfGenerationReport | undefined;
+
+      // Le PDF est régénéré à la validation pour correspondre à la version définitive
+      if (status === 'validated' && tournament && template) {
+        const generated = await generateAndStorePdf(
+          matchSheet.templateId,
+          matchSheet.tournamentId,
+          players.filter(p => matchSheet.playerIds.includes(p.id)),
+          coaches.filter(c => matchSheet.coachIds.includes(c.id)),
+          matchSheet.referentCoachId,
+          template,
+          tournament,
+          getCategoryName(matchSheet.ageCategoryId)
+        );
+        pdfUrl = `/generated_pdfs/${generated.filename}`;
+        report = generated.report;
+      }
+
+      await updateMatchSheetStatus(matchSheet.id, status, pdfUrl);
+      if (report && tournament) {
+        setReportModal({ report, title: `Feuille validée : ${tournament.location}` });
+      }
+    } catch (error) {
+      console.error('Error changing match sheet status:', error);
+      alert('Erreur lors du changement de statut de la feuille de match.');
+    } finally {
+      setIsChangingStatus(null);
+    }
+  };
+
   const toggleExpand = (id: string) => {
     setExpandedItems(prev => ({
       ...prev,
@@ -208,10 +299,12 @@ const MatchSheets: React.FC = () => {
     const tournament = tournaments.find(t => t.id === sheet.tournamentId);
     const tournamentName = tournament ? tournament.location : '';
     
-    const matchesSearch = tournamentName.toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesSearch = tournamentName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      (sheet.teamName || '').toLowerCase().includes(searchTerm.toLowerCase());
     const matchesTournament = selectedTournamentId ? sheet.tournamentId === selectedTournamentId : true;
+    const matchesStatus = selectedStatus ? sheet.status === selectedStatus : true;
     
-    return matchesSearch && matchesTournament;
+    return matchesSearch && matchesTournament && matchesStatus;
   });
 
   return (
@@ -223,13 +316,15 @@ const MatchSheets: React.FC = () => {
             Gérez et générez des feuilles de match pour les tournois
           </p>
         </div>
-        <Link
-          to="/match-sheets/create"
-          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md flex items-center"
-        >
-          <Plus size={18} className="mr-1" />
-          <span>Nouvelle feuille</span>
-        </Link>
+        {canEditAnyCategory && (
+          <Link
+            to="/match-sheets/create"
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md flex items-center"
+          >
+            <Plus size={18} className="mr-1" />
+            <span>Nouvelle feuille</span>
+          </Link>
+        )}
       </div>
 
       <div className="mb-6 flex flex-col sm:flex-row gap-4">
@@ -259,6 +354,20 @@ const MatchSheets: React.FC = () => {
             ))}
           </select>
         </div>
+        <div className="sm:w-1/5">
+          <select
+            className="w-full border border-gray-300 rounded-lg py-2 px-4 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            value={selectedStatus}
+            onChange={(e) => setSelectedStatus(e.target.value as MatchSheetStatus | '')}
+          >
+            <option value="">Tous les statuts</option>
+            {(Object.keys(MATCH_SHEET_STATUS_LABELS) as MatchSheetStatus[]).map((status) => (
+              <option key={status} value={status}>
+                {MATCH_SHEET_STATUS_LABELS[status].label}
+              </option>
+            ))}
+          </select>
+        </div>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -285,6 +394,12 @@ const MatchSheets: React.FC = () => {
                           <span className="font-medium">
                             {tournament ? tournament.location : 'Tournoi inconnu'}
                           </span>
+                          {sheet.teamName && (
+                            <span className="ml-2 text-sm text-gray-600">· {sheet.teamName}</span>
+                          )}
+                          <span className={`ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${MATCH_SHEET_STATUS_LABELS[sheet.status].className}`}>
+                            {MATCH_SHEET_STATUS_LABELS[sheet.status].label}
+                          </span>
                         </div>
                         {expandedItems[sheet.id] ? (
                           <ChevronUp size={18} />
@@ -352,15 +467,27 @@ const MatchSheets: React.FC = () => {
                               Télécharger
                             </button>
                             
-                            {/* Éditer */}
-                            <Link 
-                              to={`/match-sheets/edit/${sheet.id}`}
-                              className="w-full text-sm bg-indigo-100 text-indigo-700 px-3 py-2 rounded-md flex items-center justify-center hover:bg-indigo-200 transition-colors"
-                              onClick={(e) => e.stopPropagation()}
-                            >
-                              <Edit size={14} className="mr-1.5" />
-                              Éditer
-                            </Link>
+                            {/* Éditer (brouillons uniquement) */}
+                            {isMatchSheetEditable(sheet.status) && canEditCategory(sheet.ageCategoryId) ? (
+                              <Link 
+                                to={`/match-sheets/edit/${sheet.id}`}
+                                className="w-full text-sm bg-indigo-100 text-indigo-700 px-3 py-2 rounded-md flex items-center justify-center hover:bg-indigo-200 transition-colors"
+                                onClick={(e) => e.stopPropagation()}
+                              >
+                                <Edit size={14} className="mr-1.5" />
+                                Éditer
+                              </Link>
+                            ) : (
+                              <span
+                                className="w-full text-sm bg-gray-100 text-gray-400 px-3 py-2 rounded-md flex items-center justify-center cursor-not-allowed"
+                                title={canEditCategory(sheet.ageCategoryId)
+                                  ? 'Seuls les brouillons sont modifiables'
+                                  : 'Catégorie non modifiable avec votre rôle'}
+                              >
+                                <Edit size={14} className="mr-1.5" />
+                                Éditer
+                              </span>
+                            )}
                             
                             {/* Supprimer */}
                             <button
@@ -369,7 +496,7 @@ const MatchSheets: React.FC = () => {
                                 e.stopPropagation();
                                 handleDeleteMatchSheet(sheet.id, tournament?.location || 'Inconnu');
                               }}
-                              disabled={isDeleting === sheet.id}
+                              disabled={isDeleting === sheet.id || !canEditCategory(sheet.ageCategoryId)}
                             >
                               {isDeleting === sheet.id ? (
                                 <Loader size={14} className="mr-1.5 animate-spin" />
@@ -378,6 +505,41 @@ const MatchSheets: React.FC = () => {
                               )}
                               Supprimer
                             </button>
+
+                            {/* Historique */}
+                            <button
+                              className="w-full text-sm bg-gray-100 text-gray-700 px-3 py-2 rounded-md flex items-center justify-center hover:bg-gray-200 transition-colors"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setHistorySheetId(sheet.id);
+                              }}
+                            >
+                              <History size={14} className="mr-1.5" />
+                              Historique
+                            </button>
+
+                            {/* Changements de statut */}
+                            {canEditCategory(sheet.ageCategoryId) && getNextMatchSheetStatuses(sheet.status).map(status => {
+                              const action = statusActions[status];
+                              return (
+                                <button
+                                  key={status}
+                                  className={`w-full text-sm px-3 py-2 rounded-md flex items-center justify-center transition-colors disabled:opacity-70 disabled:cursor-not-allowed ${action.className}`}
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleChangeStatus(sheet, status);
+                                  }}
+                                  disabled={isChangingStatus === sheet.id}
+                                >
+                                  {isChangingStatus === sheet.id ? (
+                                    <Loader size={14} className="mr-1.5 animate-spin" />
+                                  ) : (
+                                    <action.icon size={14} className="mr-1.5" />
+                                  )}
+                                  {action.label}
+                                </button>
+                              );
+                            })}
                           </div>
                         </div>
                       )}
@@ -390,11 +552,11 @@ const MatchSheets: React.FC = () => {
                 <FileText size={48} className="mx-auto text-gray-300 mb-4" />
                 <h3 className="text-lg font-medium text-gray-900 mb-2">Aucune feuille trouvée</h3>
                 <p className="text-gray-500 mb-6">
-                  {searchTerm || selectedTournamentId
+                  {searchTerm || selectedTournamentId || selectedStatus
                     ? "Aucune feuille ne correspond aux critères de recherche."
                     : "Commencez par créer votre première feuille de match."}
                 </p>
-                {!searchTerm && !selectedTournamentId && (
+                {!searchTerm && !selectedTournamentId && !selectedStatus && canEditAnyCategory && (
                   <Link
                     to="/match-sheets/create"
                     className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
@@ -416,6 +578,7 @@ const MatchSheets: React.FC = () => {
                   <button 
                     onClick={() => {
                       setPreviewUrl(null);
+                      setPreviewReport(null);
                       setSelectedTemplate(null);
                     }}
                     className="mr-3 text-gray-500 hover:text-gray-700"
@@ -426,6 +589,15 @@ const MatchSheets: React.FC = () => {
                     {templates.find(t => t.id === selectedTemplate)?.name || 'Aperçu de la feuille'}
                   </h2>
                 </div>
+                {previewReport && (
+                  <button
+                    onClick={() => setReportModal({ report: previewReport, title: 'Rapport de génération de l\'aperçu' })}
+                    className="text-sm text-blue-600 hover:text-blue-800 flex items-center"
+                  >
+                    <ClipboardList size={16} className="mr-1" />
+                    Rapport de génération
+                  </button>
+                )}
               </div>
               <div className="p-4">
                 <PdfViewer url={previewUrl} height="600px" />
@@ -443,6 +615,23 @@ const MatchSheets: React.FC = () => {
           )}
         </div>
       </div>
+
+      {historySheetId && matchSheets.find(ms => ms.id === historySheetId) && (
+        <MatchSheetHistory
+          matchSheet={matchSheets.find(ms => ms.id === historySheetId)!}
+          onClose={() => setHistorySheetId(null)}
+        />
+      )}
+
+      {reportModal && (
+        <PdfReportModal
+          report={reportModal.report}
+          title={reportModal.title}
+          onClose={() => setReportModal(null)}
+          closeLabel={reportModal.download ? 'Annuler' : 'Fermer'}
+          onDownload={reportModal.download ? handleReportDownload : undefined}
+        />
+      )}
     </div>
   );
 };
@@ -1,6 +1,11 @@
 import React, { useState } from 'react';
 import { useAppContext } from '../context/AppContext';
-import { Plus, Search, Edit, Trash2, UserPlus, X } from 'lucide-react';
+import { Plus, Search, Edit, Trash2, UserPlus, X, RefreshCw, Upload } from 'lucide-react';
+import SeasonRolloverModal from '../components/SeasonRolloverModal';
+import PlayerImportModal from '../components/PlayerImportModal';
+import ExportMenu from '../components/ExportMenu';
+import { exportPlayers } from '../services/RosterExportService';
+import { getCategoryForBirthDate, loadCurrentSeason } from '../services/SeasonService';
 
 interface PlayerFormData {
   firstName: string;
@@ -23,12 +28,15 @@ const initialFormData: PlayerFormData = {
 };
 
 const Players: React.FC = () => {
-  const { players, addPlayer, updatePlayer, deletePlayer, ageCategories } = useAppContext();
+  const { players, addPlayer, updatePlayer, deletePlayer, ageCategories, isAdmin, canEditCategory } = useAppContext();
+  const canEditAnyCategory = ageCategories.some(category => canEditCategory(category.id));
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [formData, setFormData] = useState<PlayerFormData>(initialFormData);
   const [editingPlayerId, setEditingPlayerId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>('');
+  const [isSeasonModalOpen, setIsSeasonModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target as HTMLInputElement;
@@ -39,6 +47,14 @@ const Players: React.FC = () => {
         ...formData,
         [name]: checked,
       });
+    } else if (name === 'dateOfBirth') {
+      // Catégorie déduite de l'année de naissance pour la saison en cours
+      const category = getCategoryForBirthDate(value, loadCurrentSeason(), ageCategories);
+      setFormData({
+        ...formData,
+        dateOfBirth: value,
+        ageCategoryId: category ? category.id : formData.ageCategoryId,
+      });
     } else {
       setFormData({
         ...formData,
@@ -119,16 +135,42 @@ const Players: React.FC = () => {
             Gérez la liste des joueurs et leurs informations
           </p>
         </div>
-        <button
-          onClick={() => {
-            resetForm();
-            setIsModalOpen(true);
-          }}
-          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md flex items-center"
-        >
-          <Plus size={18} className="mr-1" />
-          <span>Nouveau joueur</span>
-        </button>
+        <div className="flex space-x-2">
+          <ExportMenu
+            count={filteredPlayers.length}
+            onExport={(format) => exportPlayers(filteredPlayers, ageCategories, format)}
+          />
+          {isAdmin && (
+            <>
+              <button
+                onClick={() => setIsImportModalOpen(true)}
+                className="bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 px-4 py-2 rounded-md flex items-center"
+              >
+                <Upload size={18} className="mr-1" />
+                <span>Importer</span>
+              </button>
+              <button
+                onClick={() => setIsSeasonModalOpen(true)}
+                className="bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 px-4 py-2 rounded-md flex items-center"
+              >
+                <RefreshCw size={18} className="mr-1" />
+                <span>Changer de saison</span>
+              </button>
+            </>
+          )}
+          {canEditAnyCategory && (
+            <button
+              onClick={() => {
+                resetForm();
+                setIsModalOpen(true);
+              }}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md flex items-center"
+            >
+              <Plus size={18} className="mr-1" />
+              <span>Nouveau joueur</span>
+            </button>
+          )}
+        </div>
       </div>
 
       <div className="mb-6 flex flex-col sm:flex-row gap-4">
@@ -237,18 +279,22 @@ const Players: React.FC = () => {
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                      <button
-                        onClick={() => handleEdit(player)}
-                        className="text-indigo-600 hover:text-indigo-900 mr-3"
-                      >
-                        <Edit size={18} />
-                      </button>
-                      <button
-                        onClick={() => handleDelete(player.id)}
-                        className="text-red-600 hover:text-red-900"
-                      >
-                        <Trash2 size={18} />
-                      </button>
+                      {canEditCategory(player.ageCategoryId) && (
+                        <>
+                          <button
+                            onClick={() => handleEdit(player)}
+                            className="text-indigo-600 hover:text-indigo-900 mr-3"
+                          >
+                            <Edit size={18} />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(player.id)}
+                            className="text-red-600 hover:text-red-900"
+                          >
+                            <Trash2 size={18} />
+                          </button>
+                        </>
+                      )}
                     </td>
                   </tr>
                 );
@@ -265,7 +311,7 @@ const Players: React.FC = () => {
               ? "Aucun joueur ne correspond aux critères de recherche."
               : "Commencez par ajouter votre premier joueur."}
           </p>
-          {!searchTerm && !selectedCategory && (
+          {!searchTerm && !selectedCategory && canEditAnyCategory && (
             <button
               onClick={() => {
                 resetForm();
@@ -368,7 +414,7 @@ const Players: React.FC = () => {
                     className="w-full border border-gray-300 rounded-md py-2 px-3 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   >
                     <option value="" disabled>Sélectionner une catégorie</option>
-                    {sortedCategories.map((category) => (
+                    {sortedCategories.filter(category => canEditCategory(category.id)).map((category) => (
                       <option key={category.id} value={category.id}>
                         {category.name} - {category.description}
                       </option>
@@ -426,6 +472,14 @@ const Players: React.FC = () => {
           </div>
         </div>
       )}
+
+      {isSeasonModalOpen && (
+        <SeasonRolloverModal onClose={() => setIsSeasonModalOpen(false)} />
+      )}
+
+      {isImportModalOpen && (
+        <PlayerImportModal onClose={() => setIsImportModalOpen(false)} />
+      )}
     </div>
   );
 };
@@ -1,9 +1,20 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { useAppContext } from '../context/AppContext';
-import { Plus, Search, Edit, Trash2, FileText, UploadCloud, X, Download, Tag, ArrowLeft, ListChecks, Loader } from 'lucide-react';
-import { analyzePdfStructure, extractTextFromPdf, PdfFieldMapping, savePdfAnalysis } from '../services/MistralApiService';
+import { Plus, Search, Edit, Trash2, FileText, UploadCloud, X, Download, Tag, ArrowLeft, ListChecks, Loader, MousePointerClick, Layers, Package, PackageOpen, FlaskConical } from 'lucide-react';
+import { analyzeTemplatePdf, PdfFieldMapping, savePdfAnalysis } from '../services/MistralApiService';
+import { getAnalysisProvider } from '../services/TemplateAnalysisProviders';
 import PdfViewer from '../components/PdfViewer';
+import TemplateFieldMapper from '../components/TemplateFieldMapper';
+import OverlayLayoutEditor from '../components/OverlayLayoutEditor';
+import TemplateVersionModal from '../components/TemplateVersionModal';
+import TemplateTestFillModal from '../components/TemplateTestFillModal';
+import { PdfOverlayLayout, PdfRowTemplate, Template } from '../types';
 import { getPdf, storePdf, cleanPdfFormFields } from '../services/PdfStorage';
+import { buildPdfData, resolveFieldValues } from '../services/PdfGenerator';
+import { FORMAT_OPERATIONS, validateFormat } from '../services/ValueFormatter';
+import { sampleCoaches, samplePlayers, samplePreviewTournament } from '../data/sampleData';
+import { createTemplatePack, getTemplatePackFileName, readTemplatePack } from '../services/TemplatePackService';
+import { downloadBlob } from '../services/RosterExportService';
 
 interface TemplateFormData {
   name: string;
@@ -11,6 +22,8 @@ interface TemplateFormData {
   fileUrl: string;
   ageCategoryIds: string[];
   fieldMappings: PdfFieldMapping[];
+  overlayLayout?: PdfOverlayLayout;
+  fileHash?: string;
 }
 
 const initialFormData: TemplateFormData = {
@@ -22,10 +35,12 @@ const initialFormData: TemplateFormData = {
 };
 
 const Templates: React.FC = () => {
-  const { templates, ageCategories, addTemplate, updateTemplate, deleteTemplate, refreshData } = useAppContext();
+  const { templates, ageCategories, addTemplate, updateTemplate, deleteTemplate, refreshData, isAdmin } = useAppContext();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
   const [isFieldMappingOpen, setIsFieldMappingOpen] = useState(false);
+  const [isVisualMapperOpen, setIsVisualMapperOpen] = useState(false);
+  const [isOverlayEditorOpen, setIsOverlayEditorOpen] = useState(false);
   const [formData, setFormData] = useState<TemplateFormData>(initialFormData);
   const [editingTemplateId, setEditingTemplateId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
@@ -39,7 +54,10 @@ const Templates: React.FC = () => {
   const [isAnalyzing, setIsAnalyzing] = useState<boolean>(false);
   const [analyzeError, setAnalyzeError] = useState<string | null>(null);
   const [pdfPreviewUrl, setPdfPreviewUrl] = useState<string | null>(null);
+  const [versioningTemplate, setVersioningTemplate] = useState<Template | null>(null);
+  const [isTestFillOpen, setIsTestFillOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const packInputRef = useRef<HTMLInputElement>(null);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
@@ -88,6 +106,13 @@ const Templates: React.FC = () => {
       alert("Veuillez sélectionner au moins une catégorie d'âge.");
       return;
     }
+
+    // Les propositions de l'analyse ne sont enregistrées qu'une fois confirmées
+    if (pendingConfirmationCount > 0) {
+      alert(`${pendingConfirmationCount} correspondance(s) proposée(s) par l'analyse restent à confirmer avant d'enregistrer le modèle.`);
+      setIsFieldMappingOpen(true);
+      return;
+    }
     
     try {
       if (editingTemplateId) {
@@ -96,6 +121,11 @@ const Templates: React.FC = () => {
         await addTemplate(formData);
       }
 
+      // Analyse conservée avec les correspondances confirmées
+      if (uploadedFileName) {
+        savePdfAnalysis(uploadedFileName, formData.fieldMappings);
+      }
+
       // Successful save - close modal and reset form
       setIsModalOpen(false);
       resetForm();
@@ -132,6 +162,57 @@ const Templates: React.FC = () => {
     }
   };
 
+  const handleExportPack = async (template: Template) => {
+    try {
+      const pack = await createTemplatePack(template, ageCategories);
+      downloadBlob(pack, getTemplatePackFileName(template));
+    } catch (error) {
+      console.error('Error exporting template pack:', error);
+      alert(`Erreur lors de l'export du modèle: ${error instanceof Error ? error.message : 'Erreur inconnue'}`);
+    }
+  };
+
+  // Le pack vérifié pré-remplit le formulaire : l'utilisateur contrôle les catégories avant d'enregistrer
+  const handleImportPack = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (packInputRef.current) {
+      packInputRef.current.value = '';
+    }
+    if (!file) return;
+
+    try {
+      const pack = await readTemplatePack(file, ageCategories);
+      const storedSuccessfully = await storePdf(pack.fileName, pack.pdfContent);
+      if (!storedSuccessfully) {
+        throw new Error('Erreur lors du stockage du PDF.');
+      }
+
+      const warnings = [...pack.warnings];
+      if (templates.some(template => template.name === pack.template.name)) {
+        warnings.push(`Un modèle nommé "${pack.template.name}" existe déjà`);
+      }
+
+      resetForm();
+      setFormData({
+        name: pack.template.name,
+        description: pack.template.description || '',
+        fileUrl: `/templates/${pack.fileName}`,
+        ageCategoryIds: pack.template.ageCategoryIds,
+        fieldMappings: pack.template.fieldMappings || [],
+        overlayLayout: pack.template.overlayLayout,
+        fileHash: pack.template.fileHash,
+      });
+      setIsModalOpen(true);
+
+      if (warnings.length > 0) {
+        alert(`Pack importé, à vérifier avant d'enregistrer :\n- ${warnings.join('\n- ')}`);
+      }
+    } catch (error) {
+      console.error('Error importing template pack:', error);
+      alert(`Erreur lors de l'import du pack: ${error instanceof Error ? error.message : 'Erreur inconnue'}`);
+    }
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
       const file = e.target.files[0];
@@ -213,35 +294,27 @@ const Templates: React.FC = () => {
       setIsAnalyzing(true);
       setAnalyzeError(null);
 
-      // Check if Mistral API key is defined
-      if (!import.meta.env.VITE_MISTRAL_API_KEY) {
-        throw new Error("Clé API Mistral non définie. Veuillez définir VITE_MISTRAL_API_KEY dans votre fichier .env");
+      // Check that the analysis provider is configured
+      const configurationError = getAnalysisProvider().getConfigurationError();
+      if (configurationError) {
+        throw new Error(configurationError);
       }
 
       // If we have a PDF preview URL, we can use that
       if (pdfPreviewUrl) {
         console.log('Analyzing PDF...');
         
-        // Extract text from PDF
-        const text = await extractTextFromPdf(pdfPreviewUrl);
+        // Extract the text and form fields, then ask the analysis provider for mappings
+        const { text, mappings: fieldMappings } = await analyzeTemplatePdf(pdfPreviewUrl);
         setExtractedText(text);
-        console.log('Text extracted, analyzing structure...');
-        
-        // Use Mistral API to analyze PDF structure
-        const fieldMappings = await analyzePdfStructure(text);
         console.log('Field mappings:', fieldMappings);
         
-        // Save field mappings to form data
+        // Save field mappings to form data ; they are persisted with the template once confirmed
         setFormData(prev => ({
           ...prev,
           fieldMappings
         }));
         
-        // If we have a file name, save the analysis
-        if (uploadedFileName) {
-          savePdfAnalysis(uploadedFileName, fieldMappings);
-        }
-        
         // Move to field mapping step
         setIsFieldMappingOpen(true);
       } else {
@@ -336,6 +409,20 @@ const Templates: React.FC = () => {
       .join(', ');
   };
 
+  const pendingConfirmationCount = formData.fieldMappings.filter(mapping => mapping.confiance !== undefined).length;
+
+  // Données fictives utilisées pour l'aperçu des formats
+  const sampleData = useMemo(
+    () => buildPdfData(samplePlayers, sampleCoaches, sampleCoaches[0]?.id || '', samplePreviewTournament),
+    []
+  );
+
+  const getFormatPreview = (mapping: PdfFieldMapping) => {
+    const [first] = resolveFieldValues(sampleData, [{ ...mapping, ligne: { index_depart: 1, ...mapping.ligne, nombre_lignes: 1 } }]);
+    if (!first) return '';
+    return typeof first.valeur === 'boolean' ? (first.valeur ? 'Oui' : 'Non') : first.valeur;
+  };
+
   const updateFieldMapping = (index: number, key: string, value: any) => {
     setFormData(prev => {
       const mappings = [...prev.fieldMappings];
@@ -350,6 +437,34 @@ const Templates: React.FC = () => {
     });
   };
 
+  const updateRowTemplate = (index: number, changes: Partial<PdfRowTemplate>) => {
+    setFormData(prev => {
+      const mappings = [...prev.fieldMappings];
+      mappings[index] = {
+        ...mappings[index],
+        ligne: {
+          index_depart: 1,
+          ...mappings[index].ligne,
+          ...changes,
+        },
+      };
+      return {
+        ...prev,
+        fieldMappings: mappings,
+      };
+    });
+  };
+
+  // Les correspondances proposées par l'analyse gardent leur indice de confiance jusqu'à confirmation
+  const confirmFieldMappings = (index?: number) => {
+    setFormData(prev => ({
+      ...prev,
+      fieldMappings: prev.fieldMappings.map((mapping, i) =>
+        index === undefined || i === index ? { ...mapping, confiance: undefined } : mapping
+      ),
+    }));
+  };
+
   const removeFieldMapping = (index: number) => {
     setFormData(prev => {
       const mappings = [...prev.fieldMappings];
@@ -387,16 +502,37 @@ const Templates: React.FC = () => {
           </p>
         </div>
         <div className="flex space-x-2">
-          <button
-            onClick={() => {
-              resetForm();
-              setIsUploadModalOpen(true);
-            }}
-            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md flex items-center"
-          >
-            <UploadCloud size={18} className="mr-1" />
-            <span>Téléverser</span>
-          </button>
+          {isAdmin && (
+            <>
+              <input
+                ref={packInputRef}
+                type="file"
+                accept=".zip,application/zip"
+                className="hidden"
+                onChange={handleImportPack}
+              />
+              <button
+                onClick={() => packInputRef.current?.click()}
+                className="bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-md flex items-center"
+                title="Importer un modèle exporté par un autre club"
+              >
+                <PackageOpen size={18} className="mr-1" />
+                <span>Importer un pack</span>
+              </button>
+            </>
+          )}
+          {isAdmin && (
+            <button
+              onClick={() => {
+                resetForm();
+                setIsUploadModalOpen(true);
+              }}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md flex items-center"
+            >
+              <UploadCloud size={18} className="mr-1" />
+              <span>Téléverser</span>
+            </button>
+          )}
         </div>
       </div>
 
@@ -456,28 +592,60 @@ const Templates: React.FC = () => {
                               ? `${template.fieldMappings.length} champs configurés`
                               : 'Pas de champs configurés'}
                           </span>
+                          {template.overlayLayout && (
+                            <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-800">
+                              Zones de texte
+                            </span>
+                          )}
+                          {(template.version ?? 1) > 1 && (
+                            <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800">
+                              v{template.version}
+                            </span>
+                          )}
                         </div>
                       </div>
-                      <div className="ml-4 flex-shrink-0 flex">
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleEdit(template);
-                          }}
-                          className="text-gray-400 hover:text-indigo-600 mr-2"
-                        >
-                          <Edit size={18} />
-                        </button>
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleDelete(template.id, template.name);
-                          }}
-                          className="text-gray-400 hover:text-red-600"
-                        >
-                          <Trash2 size={18} />
-                        </button>
-                      </div>
+                      {isAdmin && (
+                        <div className="ml-4 flex-shrink-0 flex">
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleEdit(template);
+                            }}
+                            className="text-gray-400 hover:text-indigo-600 mr-2"
+                          >
+                            <Edit size={18} />
+                          </button>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setVersioningTemplate(template);
+                            }}
+                            className="text-gray-400 hover:text-blue-600 mr-2"
+                            title="Nouvelle version du fichier"
+                          >
+                            <Layers size={18} />
+                          </button>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleExportPack(template);
+                            }}
+                            className="text-gray-400 hover:text-green-600 mr-2"
+                            title="Exporter le modèle (PDF et correspondances)"
+                          >
+                            <Package size={18} />
+                          </button>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDelete(template.id, template.name);
+                            }}
+                            className="text-gray-400 hover:text-red-600"
+                          >
+                            <Trash2 size={18} />
+                          </button>
+                        </div>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -491,7 +659,7 @@ const Templates: React.FC = () => {
                     ? "Aucun modèle ne correspond aux critères de recherche."
                     : "Commencez par téléverser votre premier modèle de feuille de match."}
                 </p>
-                {!searchTerm && (
+                {!searchTerm && isAdmin && (
                   <button
                     onClick={() => {
                       resetForm();
@@ -525,12 +693,22 @@ const Templates: React.FC = () => {
                 </div>
                 {selectedTemplateData && (
                   <div className="flex">
+                    {isAdmin && (
+                      <button
+                        onClick={() => handleEdit(selectedTemplateData)}
+                        className="mr-2 px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 flex items-center hover:bg-gray-50"
+                      >
+                        <Edit size={16} className="mr-1" />
+                        Éditer
+                      </button>
+                    )}
                     <button
-                      onClick={() => handleEdit(selectedTemplateData)}
+                      onClick={() => setIsTestFillOpen(true)}
                       className="mr-2 px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 flex items-center hover:bg-gray-50"
+                      title="Remplir le modèle avec un effectif fictif"
                     >
-                      <Edit size={16} className="mr-1" />
-                      Éditer
+                      <FlaskConical size={16} className="mr-1" />
+                      Test de remplissage
                     </button>
                     <button
                       onClick={() => {
@@ -561,16 +739,18 @@ const Templates: React.FC = () => {
                 Sélectionnez un modèle dans la liste pour afficher son aperçu ici.
                 Vous pourrez ensuite l'éditer ou télécharger le PDF.
               </p>
-              <button
-                onClick={() => {
-                  resetForm();
-                  setIsUploadModalOpen(true);
-                }}
-                className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
-              >
-                <UploadCloud size={18} className="mr-2" />
-                Téléverser un nouveau modèle
-              </button>
+              {isAdmin && (
+                <button
+                  onClick={() => {
+                    resetForm();
+                    setIsUploadModalOpen(true);
+                  }}
+                  className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+                >
+                  <UploadCloud size={18} className="mr-2" />
+                  Téléverser un nouveau modèle
+                </button>
+              )}
             </div>
           )}
         </div>
@@ -790,11 +970,19 @@ const Templates: React.FC = () => {
                             <ListChecks size={14} className="mr-1 inline" />
                             Voir et modifier les champs
                           </button>
+                          {extractedText && (
+                            <details className="mt-3">
+                              <summary className="text-xs text-gray-600 cursor-pointer">Texte extrait du PDF</summary>
+                              <pre className="mt-1 max-h-48 overflow-y-auto whitespace-pre-wrap text-xs bg-white border rounded p-2">
+                                {extractedText}
+                              </pre>
+                            </details>
+                          )}
                         </div>
                       ) : (
                         <p>
                           Cliquez sur "Lancer l'analyse" pour commencer l'extraction des champs du PDF. 
-                          Cette opération utilise l'API Mistral pour analyser le modèle.
+                          Cette opération utilise {getAnalysisProvider().label} pour analyser le modèle.
                         </p>
                       )}
                     </div>
@@ -882,8 +1070,33 @@ const Templates: React.FC = () => {
                 <p className="text-sm text-gray-600 mb-4">
                   Vérifiez et modifiez les correspondances entre les champs du PDF et les données de l'application.
                   Ces correspondances seront utilisées pour remplir automatiquement les feuilles de match.
+                  Pour les champs répétés des joueurs et éducateurs, utilisez {'{i}'} à la place du numéro de ligne (ex: Nom_{'{i}'}).
                 </p>
-                <div className="flex justify-end mb-2">
+                {pendingConfirmationCount > 0 && (
+                  <div className="mb-3 flex items-center justify-between bg-yellow-50 border border-yellow-200 rounded-md px-3 py-2 text-sm text-yellow-800">
+                    <span>
+                      {pendingConfirmationCount} correspondance(s) proposée(s) par l'analyse à confirmer.
+                      L'indice de confiance tient compte du nom du champ, de son libellé et de l'en-tête de sa colonne.
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => confirmFieldMappings()}
+                      className="ml-3 flex-shrink-0 text-sm px-3 py-1 border border-yellow-300 rounded-md bg-white hover:bg-yellow-100"
+                    >
+                      Tout confirmer
+                    </button>
+                  </div>
+                )}
+                <div className="flex justify-end mb-2 space-x-2">
+                  <button
+                    type="button"
+                    onClick={() => setIsVisualMapperOpen(true)}
+                    disabled={!formData.fileUrl}
+                    className="text-sm px-3 py-1.5 border border-gray-300 rounded-md bg-white hover:bg-gray-50 flex items-center disabled:opacity-50"
+                  >
+                    <MousePointerClick size={14} className="mr-1" />
+                    Éditeur visuel
+                  </button>
                   <button
                     type="button"
                     onClick={addFieldMapping}
@@ -909,6 +1122,9 @@ const Templates: React.FC = () => {
                         <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Correspondance
                         </th>
+                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Lignes
+                        </th>
                         <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Actions
                         </th>
@@ -923,8 +1139,24 @@ const Templates: React.FC = () => {
                               value={mapping.champ_pdf}
                               onChange={(e) => updateFieldMapping(index, 'champ_pdf', e.target.value)}
                               className="w-full border border-gray-300 rounded-md py-1 px-2 text-sm"
-                              placeholder="Nom du champ"
+                              placeholder="Nom du champ (ex: Nom_{i})"
                             />
+                            {mapping.confiance !== undefined && (
+                              <button
+                                type="button"
+                                onClick={() => confirmFieldMappings(index)}
+                                title="Confirmer cette correspondance"
+                                className={`mt-1 text-xs px-2 py-0.5 rounded-full ${
+                                  mapping.confiance >= 0.7
+                                    ? 'bg-green-100 text-green-800 hover:bg-green-200'
+                                    : mapping.confiance >= 0.4
+                                      ? 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200'
+                                      : 'bg-red-100 text-red-800 hover:bg-red-200'
+                                }`}
+                              >
+                                Confiance {Math.round(mapping.confiance * 100)} % · Confirmer
+                              </button>
+                            )}
                           </td>
                           <td className="px-4 py-2 text-sm">
                             <select
@@ -946,21 +1178,92 @@ const Templates: React.FC = () => {
                               className="w-full border border-gray-300 rounded-md py-1 px-2 text-sm"
                               placeholder="Correspondance (ex: joueur.nom)"
                             />
+                            <input
+                              type="text"
+                              value={mapping.format ?? ''}
+                              onChange={(e) => updateFieldMapping(index, 'format', e.target.value || undefined)}
+                              className="mt-1 w-full border border-gray-300 rounded-md py-1 px-2 text-xs font-mono"
+                              placeholder="Format (ex: majuscules|tronquer:20)"
+                              title="Mise en forme de la valeur, voir l'aide sous le tableau"
+                            />
+                            {mapping.format && (
+                              validateFormat(mapping.format).length > 0 ? (
+                                <p className="mt-1 text-xs text-red-600">{validateFormat(mapping.format).join(' · ')}</p>
+                              ) : (
+                                <p className="mt-1 text-xs text-gray-500 truncate max-w-[14rem]">
+                                  Aperçu : <span className="text-gray-900">{getFormatPreview(mapping) || '(vide)'}</span>
+                                </p>
+                              )
+                            )}
                           </td>
                           <td className="px-4 py-2 text-sm">
-                            <button
-                              type="button"
-                              onClick={() => removeFieldMapping(index)}
-                              className="text-red-600 hover:text-red-800"
-                            >
-                              <Trash2 size={16} />
-                            </button>
+                            {mapping.type === 'joueur' || mapping.type === 'educateur' ? (
+                              <div className="space-y-1 min-w-[12rem]">
+                                <div className="flex items-center space-x-1">
+                                  <input
+                                    type="number"
+                                    min={0}
+                                    value={mapping.ligne?.index_depart ?? 1}
+                                    onChange={(e) => updateRowTemplate(index, { index_depart: parseInt(e.target.value, 10) || 0 })}
+                                    className="w-16 border border-gray-300 rounded-md py-1 px-2 text-sm"
+                                    title="Numéro de la première ligne"
+                                  />
+                                  <span className="text-xs text-gray-500">à</span>
+                                  <input
+                                    type="number"
+                                    min={1}
+                                    value={mapping.ligne?.nombre_lignes ?? ''}
+                                    onChange={(e) => updateRowTemplate(index, {
+                                      nombre_lignes: e.target.value ? parseInt(e.target.value, 10) : undefined
+                                    })}
+                                    className="w-16 border border-gray-300 rounded-md py-1 px-2 text-sm"
+                                    placeholder="∞"
+                                    title="Nombre de lignes disponibles dans le PDF"
+                                  />
+                                  <span className="text-xs text-gray-500">lignes</span>
+                                </div>
+                                <input
+                                  type="text"
+                                  value={mapping.ligne?.champs_par_ligne?.join(', ') ?? ''}
+                                  onChange={(e) => updateRowTemplate(index, {
+                                    champs_par_ligne: e.target.value
+                                      ? e.target.value.split(',').map(name => name.trimStart())
+                                      : undefined
+                                  })}
+                                  className="w-full border border-gray-300 rounded-md py-1 px-2 text-xs"
+                                  placeholder="Noms explicites (optionnel): Nom1, Nom2..."
+                                  title="Noms des champs ligne par ligne, prioritaires sur le modèle {i}"
+                                />
+                              </div>
+                            ) : (
+                              <span className="text-xs text-gray-400">—</span>
+                            )}
+                          </td>
+                          <td className="px-4 py-2 text-sm">
+                            <div className="flex items-center space-x-3">
+                              <label className="flex items-center text-xs text-gray-600" title="Signalé dans le rapport de génération si la donnée est vide">
+                                <input
+                                  type="checkbox"
+                                  checked={!!mapping.obligatoire}
+                                  onChange={(e) => updateFieldMapping(index, 'obligatoire', e.target.checked)}
+                                  className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-1"
+                                />
+                                Requis
+                              </label>
+                              <button
+                                type="button"
+                                onClick={() => removeFieldMapping(index)}
+                                className="text-red-600 hover:text-red-800"
+                              >
+                                <Trash2 size={16} />
+                              </button>
+                            </div>
                           </td>
                         </tr>
                       ))}
                       {formData.fieldMappings.length === 0 && (
                         <tr>
-                          <td colSpan={4} className="px-4 py-4 text-sm text-center text-gray-500">
+                          <td colSpan={5} className="px-4 py-4 text-sm text-center text-gray-500">
                             Aucun champ détecté. Cliquez sur "Ajouter un champ" pour en créer un manuellement.
                           </td>
                         </tr>
@@ -969,6 +1272,29 @@ const Templates: React.FC = () => {
                   </table>
                 </div>
               </div>
+
+              <details className="mt-3 border rounded-md">
+                <summary className="px-3 py-2 text-sm font-medium text-gray-900 cursor-pointer">
+                  Formats disponibles
+                </summary>
+                <div className="px-3 pb-3 text-xs text-gray-600">
+                  <p className="mb-2">
+                    Enchaînez les opérations avec « | », par exemple {'{prenom} {nom}|majuscules|tronquer:25'}.
+                    L'aperçu utilise des données fictives.
+                  </p>
+                  <table className="min-w-full">
+                    <tbody>
+                      {FORMAT_OPERATIONS.map(operation => (
+                        <tr key={operation.syntax}>
+                          <td className="py-0.5 pr-4 font-mono text-gray-900 whitespace-nowrap">{operation.syntax}</td>
+                          <td className="py-0.5">{operation.description}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="mt-2">Le symbole ✓ n'est pas disponible dans les polices standard des formulaires PDF : préférez X.</p>
+                </div>
+              </details>
             </div>
 
             <div className="p-4 bg-gray-50 border-t flex justify-end space-x-3 flex-shrink-0">
@@ -1083,23 +1409,47 @@ const Templates: React.FC = () => {
                   </div>
                 )}
 
-                {formData.fieldMappings && formData.fieldMappings.length > 0 && (
+                {formData.fileUrl && (
                   <div>
                     <div className="flex justify-between items-center">
                       <label className="block text-sm font-medium text-gray-700 mb-1">
                         Correspondance des champs
                       </label>
-                      <button
-                        type="button"
-                        onClick={() => setIsFieldMappingOpen(true)}
-                        className="text-xs text-blue-600 hover:text-blue-800"
-                      >
-                        Modifier
-                      </button>
+                      <div className="space-x-3">
+                        <button
+                          type="button"
+                          onClick={() => setIsVisualMapperOpen(true)}
+                          className="text-xs text-blue-600 hover:text-blue-800"
+                        >
+                          Éditeur visuel
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setIsOverlayEditorOpen(true)}
+                          className="text-xs text-blue-600 hover:text-blue-800"
+                        >
+                          Zones de texte
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setIsFieldMappingOpen(true)}
+                          className="text-xs text-blue-600 hover:text-blue-800"
+                        >
+                          Modifier
+                        </button>
+                      </div>
                     </div>
                     
                     <div className="text-xs text-gray-500 border border-gray-200 rounded-md p-2 bg-gray-50">
                       <p>{formData.fieldMappings.length} champs configurés</p>
+                      {pendingConfirmationCount > 0 && (
+                        <p className="text-yellow-700">{pendingConfirmationCount} correspondance(s) à confirmer avant l'enregistrement</p>
+                      )}
+                      {formData.overlayLayout && (
+                        <p>
+                          {formData.overlayLayout.zones.length} zone(s) de texte, {formData.overlayLayout.tableaux.length} tableau(x)
+                        </p>
+                      )}
                     </div>
                   </div>
                 )}
@@ -1132,6 +1482,47 @@ const Templates: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* Visual Field Mapper */}
+      {isVisualMapperOpen && formData.fileUrl && (
+        <TemplateFieldMapper
+          fileUrl={formData.fileUrl}
+          fieldMappings={formData.fieldMappings}
+          onChange={(fieldMappings) => setFormData(prev => ({ ...prev, fieldMappings }))}
+          onClose={() => setIsVisualMapperOpen(false)}
+        />
+      )}
+
+      {/* Overlay Layout Editor */}
+      {isOverlayEditorOpen && formData.fileUrl && (
+        <OverlayLayoutEditor
+          fileUrl={formData.fileUrl}
+          layout={formData.overlayLayout}
+          onChange={(overlayLayout) => setFormData(prev => ({ ...prev, overlayLayout }))}
+          onClose={() => setIsOverlayEditorOpen(false)}
+        />
+      )}
+
+      {isTestFillOpen && selectedTemplateData && (
+        <TemplateTestFillModal
+          template={selectedTemplateData}
+          onClose={() => setIsTestFillOpen(false)}
+        />
+      )}
+
+      {versioningTemplate && (
+        <TemplateVersionModal
+          template={versioningTemplate}
+          onClose={() => setVersioningTemplate(null)}
+          onPublished={() => {
+            // L'aperçu affichait le fichier remplacé
+            if (selectedTemplate === versioningTemplate.id) {
+              handleClosePreview();
+            }
+            setVersioningTemplate(null);
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -1,7 +1,10 @@
 import React, { useState } from 'react';
 import { useAppContext } from '../context/AppContext';
-import { Plus, Search, Edit, Trash2, Calendar, X, Tag } from 'lucide-react';
+import { Plus, Search, Edit, Trash2, Calendar, X, Tag, UserCheck, Layers } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import AvailabilityPanel from '../components/AvailabilityPanel';
+import TournamentBatchModal from '../components/TournamentBatchModal';
+import { Tournament } from '../types';
 
 interface TournamentFormData {
   date: string;
@@ -16,11 +19,13 @@ const initialFormData: TournamentFormData = {
 };
 
 const Tournaments: React.FC = () => {
-  const { tournaments, ageCategories, addTournament, updateTournament, deleteTournament } = useAppContext();
+  const { tournaments, ageCategories, addTournament, updateTournament, deleteTournament, isAdmin } = useAppContext();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [formData, setFormData] = useState<TournamentFormData>(initialFormData);
   const [editingTournamentId, setEditingTournamentId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const [availabilityTournament, setAvailabilityTournament] = useState<Tournament | null>(null);
+  const [batchTournament, setBatchTournament] = useState<Tournament | null>(null);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
@@ -151,16 +156,18 @@ const Tournaments: React.FC = () => {
             Gérez la liste des tournois et leurs informations
           </p>
         </div>
-        <button
-          onClick={() => {
-            resetForm();
-            setIsModalOpen(true);
-          }}
-          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md flex items-center"
-        >
-          <Plus size={18} className="mr-1" />
-          <span>Nouveau tournoi</span>
-        </button>
+        {isAdmin && (
+          <button
+            onClick={() => {
+              resetForm();
+              setIsModalOpen(true);
+            }}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md flex items-center"
+          >
+            <Plus size={18} className="mr-1" />
+            <span>Nouveau tournoi</span>
+          </button>
+        )}
       </div>
 
       <div className="mb-6">
@@ -187,20 +194,22 @@ const Tournaments: React.FC = () => {
                   <h3 className="text-lg font-semibold text-gray-900 truncate">
                     {tournament.location}
                   </h3>
-                  <div className="flex space-x-2">
-                    <button
-                      onClick={() => handleEdit(tournament)}
-                      className="text-indigo-600 hover:text-indigo-900"
-                    >
-                      <Edit size={18} />
-                    </button>
-                    <button
-                      onClick={() => handleDelete(tournament.id)}
-                      className="text-red-600 hover:text-red-900"
-                    >
-                      <Trash2 size={18} />
-                    </button>
-                  </div>
+                  {isAdmin && (
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => handleEdit(tournament)}
+                        className="text-indigo-600 hover:text-indigo-900"
+                      >
+                        <Edit size={18} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(tournament.id)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        <Trash2 size={18} />
+                      </button>
+                    </div>
+                  )}
                 </div>
                 <div className="space-y-2">
                   <div className="flex items-center text-gray-600">
@@ -220,13 +229,28 @@ const Tournaments: React.FC = () => {
                     </p>
                   </div>
                 </div>
-                <div className="mt-4 pt-4 border-t border-gray-100">
+                <div className="mt-4 pt-4 border-t border-gray-100 flex justify-between items-center">
                   <Link
                     to={`/match-sheets?tournamentId=${tournament.id}`}
                     className="text-blue-600 hover:text-blue-800 text-sm font-medium"
                   >
                     Créer une feuille de match →
                   </Link>
+                  <button
+                    onClick={() => setAvailabilityTournament(tournament)}
+                    className="flex items-center text-green-600 hover:text-green-800 text-sm font-medium"
+                  >
+                    <UserCheck size={16} className="mr-1" />
+                    Disponibilités
+                  </button>
+                  <button
+                    onClick={() => setBatchTournament(tournament)}
+                    className="flex items-center text-gray-600 hover:text-gray-900 text-sm font-medium"
+                    title="Générer toutes les feuilles de match du tournoi"
+                  >
+                    <Layers size={16} className="mr-1" />
+                    Feuilles
+                  </button>
                 </div>
               </div>
             </div>
@@ -241,7 +265,7 @@ const Tournaments: React.FC = () => {
               ? "Aucun tournoi ne correspond aux critères de recherche."
               : "Commencez par ajouter votre premier tournoi."}
           </p>
-          {!searchTerm && (
+          {!searchTerm && isAdmin && (
             <button
               onClick={() => {
                 resetForm();
@@ -359,6 +383,20 @@ const Tournaments: React.FC = () => {
           </div>
         </div>
       )}
+
+      {availabilityTournament && (
+        <AvailabilityPanel
+          tournament={availabilityTournament}
+          onClose={() => setAvailabilityTournament(null)}
+        />
+      )}
+
+      {batchTournament && (
+        <TournamentBatchModal
+          tournament={batchTournament}
+          onClose={() => setBatchTournament(null)}
+        />
+      )}
     </div>
   );
 };
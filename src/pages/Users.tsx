@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { Loader, ShieldAlert, UserCog } from 'lucide-react';
+import { useAppContext } from '../context/AppContext';
+import { useAuth } from '../context/AuthContext';
+import { AppUser, UserRole } from '../types';
+import { listUsers, updateUserRole, USER_ROLE_LABELS, AUTH_MODE } from '../services/AuthService';
+
+const Users: React.FC = () => {
+  const { coaches, ageCategories, isAdmin } = useAppContext();
+  const { user: currentUser, refreshUser } = useAuth();
+  const [users, setUsers] = useState<AppUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingUserId, setSavingUserId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadUsers = async () => {
+    try {
+      setLoading(true);
+      setUsers(await listUsers());
+    } catch (err) {
+      console.error('Error loading users:', err);
+      setError('Erreur lors du chargement des utilisateurs.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadUsers();
+    }
+  }, [isAdmin]);
+
+  const handleChange = async (user: AppUser, role: UserRole, coachId?: string) => {
+    if (user.id === currentUser?.id && role !== 'admin' &&
+        !window.confirm('Vous allez retirer vos propres droits d\'administrateur. Continuer ?')) {
+      return;
+    }
+
+    try {
+      setSavingUserId(user.id);
+      setError(null);
+      await updateUserRole(user.id, role, coachId);
+      setUsers(prev => prev.map(u =>
+        u.id === user.id ? { ...u, role, coachId: role === 'coach' ? coachId : undefined } : u
+      ));
+      if (user.id === currentUser?.id) {
+        await refreshUser();
+      }
+    } catch (err) {
+      console.error('Error updating user role:', err);
+      setError('Erreur lors de la modification du rôle.');
+    } finally {
+      setSavingUserId(null);
+    }
+  };
+
+  const getCoachCategories = (coachId?: string) => {
+    const coach = coaches.find(c => c.id === coachId);
+    if (!coach) return '';
+    return ageCategories
+      .filter(category => coach.ageCategoryIds.includes(category.id))
+      .map(category => category.name)
+      .join(', ');
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-center text-sm text-yellow-800">
+        <ShieldAlert size={18} className="mr-2" />
+        La gestion des utilisateurs est réservée aux administrateurs du club.
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Utilisateurs</h1>
+        <p className="text-gray-600 mt-1">
+          Attribuez un rôle à chaque compte. Un entraîneur de catégorie ne peut modifier que les joueurs
+          et les feuilles de match des catégories de l'entraîneur associé.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {AUTH_MODE === 'local' && (
+        <div className="mb-6 bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-blue-800">
+          Mode d'authentification local : les comptes sont enregistrés dans ce navigateur uniquement.
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center py-8 text-gray-500">
+            <Loader size={20} className="animate-spin mr-2" />
+            Chargement des utilisateurs...
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Email</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rôle</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Entraîneur associé</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {users.map(user => (
+                <tr key={user.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    <div className="flex items-center">
+                      <UserCog size={16} className="mr-2 text-gray-400" />
+                      {user.email}
+                      {user.id === currentUser?.id && <span className="ml-2 text-xs text-gray-500">(vous)</span>}
+                      {savingUserId === user.id && <Loader size={12} className="ml-2 animate-spin text-gray-400" />}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <select
+                      value={user.role}
+                      onChange={(e) => handleChange(user, e.target.value as UserRole, user.coachId)}
+                      disabled={savingUserId === user.id}
+                      className="border border-gray-300 rounded-md py-1 px-2 text-sm"
+                    >
+                      {(Object.keys(USER_ROLE_LABELS) as UserRole[]).map(role => (
+                        <option key={role} value={role}>{USER_ROLE_LABELS[role]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    {user.role === 'coach' ? (
+                      <div>
+                        <select
+                          value={user.coachId || ''}
+                          onChange={(e) => handleChange(user, 'coach', e.target.value || undefined)}
+                          disabled={savingUserId === user.id}
+                          className="border border-gray-300 rounded-md py-1 px-2 text-sm"
+                        >
+                          <option value="">Aucun entraîneur</option>
+                          {[...coaches]
+                            .sort((a, b) => a.lastName.localeCompare(b.lastName, 'fr-FR'))
+                            .map(coach => (
+                              <option key={coach.id} value={coach.id}>
+                                {coach.lastName} {coach.firstName}
+                              </option>
+                            ))}
+                        </select>
+                        {user.coachId && (
+                          <p className="mt-1 text-xs text-gray-500">Catégories : {getCoachCategories(user.coachId) || 'aucune'}</p>
+                        )}
+                      </div>
+                    ) : (
+                      <span className="text-gray-400">-</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Users;
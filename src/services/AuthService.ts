@@ -0,0 +1,226 @@
+import { AppUser, Coach, UserRole } from '../types';
+import { supabase, getUserProfile, getUserProfiles, updateUserProfile } from './supabase';
+
+/**
+ * Service d'authentification par lien magique (email)
+ *
+ * Deux modes, choisis par la variable VITE_AUTH_MODE :
+ * - 'supabase' (par défaut) : lien envoyé par Supabase Auth, rôles dans la table user_profiles
+ * - 'local' : substitut sans serveur pour les tests et le développement,
+ *   la connexion est immédiate et les profils sont conservés dans le localStorage.
+ *   Les requêtes partent sans session : les politiques RLS refusent alors les écritures,
+ *   ce mode suppose une base de développement sans ces politiques
+ */
+
+export type AuthMode = 'supabase' | 'local';
+
+export const AUTH_MODE: AuthMode = import.meta.env.VITE_AUTH_MODE === 'local' ? 'local' : 'supabase';
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Administrateur du club',
+  coach: 'Entraîneur de catégorie',
+  viewer: 'Lecture seule',
+};
+
+// Clés du localStorage utilisées en mode local
+const LOCAL_SESSION_KEY = 'auth_local_session';
+const LOCAL_PROFILES_KEY = 'auth_local_profiles';
+// Dernier profil chargé, pour rester connecté sans réseau
+const CACHED_PROFILE_KEY = 'auth_cached_profile';
+
+type AuthListener = (user: AppUser | null) => void;
+const localListeners = new Set<AuthListener>();
+
+const mapUserProfileFromSupabase = (profile: any): AppUser => ({
+  id: profile.id,
+  email: profile.email,
+  role: (profile.role as UserRole) || 'viewer',
+  coachId: profile.coach_id || undefined,
+});
+
+const loadLocalProfiles = (): AppUser[] => {
+  try {
+    const stored = localStorage.getItem(LOCAL_PROFILES_KEY);
+    return stored ? (JSON.parse(stored) as AppUser[]) : [];
+  } catch (error) {
+    console.error('Erreur lors du chargement des profils locaux:', error);
+    return [];
+  }
+};
+
+const saveLocalProfiles = (profiles: AppUser[]): void => {
+  localStorage.setItem(LOCAL_PROFILES_KEY, JSON.stringify(profiles));
+};
+
+const getLocalUser = (): AppUser | null => {
+  const sessionUserId = localStorage.getItem(LOCAL_SESSION_KEY);
+  return loadLocalProfiles().find(profile => profile.id === sessionUserId) || null;
+};
+
+const notifyLocalListeners = () => {
+  const user = getLocalUser();
+  localListeners.forEach(listener => listener(user));
+};
+
+/**
+ * Envoie un lien de connexion à l'adresse indiquée
+ * En mode local, l'utilisateur est connecté immédiatement
+ * @param email Adresse email de l'utilisateur
+ */
+export const sendMagicLink = async (email: string): Promise<void> => {
+  const normalizedEmail = email.trim().toLowerCase();
+
+  if (AUTH_MODE === 'local') {
+    const profiles = loadLocalProfiles();
+    let profile = profiles.find(p => p.email === normalizedEmail);
+    if (!profile) {
+      // Comme en base : le premier utilisateur est administrateur, les suivants en lecture seule
+      profile = {
+        id: crypto.randomUUID(),
+        email: normalizedEmail,
+        role: profiles.length === 0 ? 'admin' : 'viewer',
+      };
+      saveLocalProfiles([...profiles, profile]);
+    }
+    localStorage.setItem(LOCAL_SESSION_KEY, profile.id);
+    console.log(`Connexion locale de ${normalizedEmail}`);
+    notifyLocalListeners();
+    return;
+  }
+
+  const { error } = await supabase.auth.signInWithOtp({
+    email: normalizedEmail,
+    options: { emailRedirectTo: window.location.origin },
+  });
+
+  if (error) {
+    console.error('Erreur lors de l\'envoi du lien de connexion:', error);
+    throw error;
+  }
+
+  console.log(`Lien de connexion envoyé à ${normalizedEmail}`);
+};
+
+/**
+ * Retourne l'utilisateur connecté et son profil
+ * @returns L'utilisateur, ou null si personne n'est connecté
+ */
+export const getCurrentUser = async (): Promise<AppUser | null> => {
+  if (AUTH_MODE === 'local') {
+    return getLocalUser();
+  }
+
+  const { data } = await supabase.auth.getSession();
+  const sessionUser = data.session?.user;
+  if (!sessionUser) {
+    return null;
+  }
+
+  let profile;
+  try {
+    profile = await getUserProfile(sessionUser.id);
+  } catch (error) {
+    // Hors ligne, le dernier profil connu de cet utilisateur est réutilisé
+    const cached = localStorage.getItem(CACHED_PROFILE_KEY);
+    const cachedUser = cached ? (JSON.parse(cached) as AppUser) : null;
+    if (cachedUser?.id === sessionUser.id) {
+      return cachedUser;
+    }
+    throw error;
+  }
+
+  // Sans profil (trigger non encore exécuté), l'accès reste en lecture seule
+  const user: AppUser = profile
+    ? mapUserProfileFromSupabase(profile)
+    : { id: sessionUser.id, email: sessionUser.email || '', role: 'viewer' };
+  localStorage.setItem(CACHED_PROFILE_KEY, JSON.stringify(user));
+  return user;
+};
+
+/**
+ * Déconnecte l'utilisateur courant
+ */
+export const signOut = async (): Promise<void> => {
+  if (AUTH_MODE === 'local') {
+    localStorage.removeItem(LOCAL_SESSION_KEY);
+    notifyLocalListeners();
+    return;
+  }
+
+  localStorage.removeItem(CACHED_PROFILE_KEY);
+  const { error } = await supabase.auth.signOut();
+  if (error) {
+    console.error('Erreur lors de la déconnexion:', error);
+    throw error;
+  }
+};
+
+/**
+ * S'abonne aux changements de session (connexion, déconnexion, retour du lien magique)
+ * @param listener Callback appelé avec l'utilisateur courant
+ * @returns Fonction de désabonnement
+ */
+export const onAuthChange = (listener: AuthListener): (() => void) => {
+  if (AUTH_MODE === 'local') {
+    localListeners.add(listener);
+    return () => {
+      localListeners.delete(listener);
+    };
+  }
+
+  const { data } = supabase.auth.onAuthStateChange(() => {
+    getCurrentUser()
+      .then(listener)
+      .catch(error => {
+        console.error('Erreur lors du chargement du profil utilisateur:', error);
+        listener(null);
+      });
+  });
+  return () => data.subscription.unsubscribe();
+};
+
+/**
+ * Liste les comptes utilisateurs (réservé aux administrateurs)
+ */
+export const listUsers = async (): Promise<AppUser[]> => {
+  if (AUTH_MODE === 'local') {
+    return loadLocalProfiles();
+  }
+  const profiles = await getUserProfiles();
+  return profiles.map(mapUserProfileFromSupabase);
+};
+
+/**
+ * Modifie le rôle et l'entraîneur associé d'un compte (réservé aux administrateurs)
+ * @param id ID de l'utilisateur
+ * @param role Nouveau rôle
+ * @param coachId Entraîneur associé (rôle coach uniquement)
+ */
+export const updateUserRole = async (id: string, role: UserRole, coachId?: string): Promise<void> => {
+  if (AUTH_MODE === 'local') {
+    saveLocalProfiles(loadLocalProfiles().map(profile =>
+      profile.id === id ? { ...profile, role, coachId: role === 'coach' ? coachId : undefined } : profile
+    ));
+    notifyLocalListeners();
+    return;
+  }
+  await updateUserProfile(id, {
+    role,
+    coach_id: role === 'coach' ? coachId || null : null,
+  });
+};
+
+/**
+ * Catégories modifiables par un utilisateur
+ * @param user Utilisateur connecté
+ * @param coaches Entraîneurs du club
+ * @returns 'all' pour un administrateur, sinon les IDs des catégories de son entraîneur
+ */
+export const getEditableCategoryIds = (user: AppUser | null, coaches: Coach[]): 'all' | string[] => {
+  if (!user) return [];
+  if (user.role === 'admin') return 'all';
+  if (user.role === 'coach' && user.coachId) {
+    return coaches.find(coach => coach.id === user.coachId)?.ageCategoryIds || [];
+  }
+  return [];
+};
@@ -0,0 +1,450 @@
+import JSZip from 'jszip';
+import {
+  AgeCategory,
+  Coach,
+  MatchSheet,
+  MatchSheetRevision,
+  PdfFieldMapping,
+  PdfOverlayLayout,
+  Player,
+  PlayerAvailability,
+  Template,
+  TemplateVersion,
+  Tournament,
+} from '../types';
+import * as supabaseService from './supabase';
+import { getPdf, storePdf } from './PdfStorage';
+import { getCachedPdf, listCachedPdfs, putCachedPdf } from './PdfCache';
+import { SEASON_STORAGE_KEY } from './SeasonService';
+
+/**
+ * Service de sauvegarde et de restauration complète des données du club
+ *
+ * Contenu de l'archive :
+ * - manifest.json : format, version et date de la sauvegarde
+ * - data/*.json : catégories, joueurs, entraîneurs, tournois, modèles (avec correspondances, mise en page
+ *   des zones de texte, version et hash), versions archivées des modèles, feuilles de match (avec la version
+ *   du modèle utilisée), historique des feuilles de match, disponibilités
+ * - templates/*.pdf : fichiers PDF des modèles et de leurs versions archivées
+ * - local_storage.json : copies locales (PDF du cache sous le préfixe pdf_, analyses pdf_analysis_,
+ *   saison courante)
+ */
+
+const BACKUP_FORMAT = 'rugby-nantua-backup';
+// Version 2 : versions archivées des modèles
+// Version 3 : historique des feuilles de match
+const BACKUP_VERSION = 3;
+
+// Entrées du localStorage incluses dans la sauvegarde
+const LOCAL_STORAGE_PREFIX = 'pdf_';
+const ANALYSIS_STORAGE_PREFIX = 'pdf_analysis_';
+
+export interface ClubData {
+  ageCategories: AgeCategory[];
+  players: Player[];
+  coaches: Coach[];
+  tournaments: Tournament[];
+  templates: Template[];
+  matchSheets: MatchSheet[];
+}
+
+interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  counts: Record<string, number>;
+}
+
+export interface RestoreSummary {
+  players: number;
+  coaches: number;
+  tournaments: number;
+  templates: number;
+  templateVersions: number;
+  matchSheets: number;
+  matchSheetRevisions: number;
+  availabilities: number;
+  localEntries: number;
+  warnings: string[];
+}
+
+// Nom de fichier d'un modèle ou d'une version archivée à partir de son URL (/templates/fichier.pdf)
+const getTemplateFileName = (template: Pick<Template, 'id' | 'fileUrl'>): string =>
+  template.fileUrl.split('/').pop() || `${template.id}.pdf`;
+
+/**
+ * Crée l'archive ZIP de sauvegarde du club
+ * @param data Données du club chargées dans l'application
+ * @param onProgress Callback de progression (message)
+ * @returns Le contenu de l'archive
+ */
+export const createClubBackup = async (
+  data: ClubData,
+  onProgress: (message: string) => void = () => {}
+): Promise<Blob> => {
+  const zip = new JSZip();
+
+  onProgress('Récupération des disponibilités...');
+  const availabilities: PlayerAvailability[] = [];
+  for (const tournament of data.tournaments) {
+    const rows = await supabaseService.getTournamentAvailabilities(tournament.id);
+    rows.forEach(row => availabilities.push({
+      id: row.id,
+      tournamentId: row.tournament_id,
+      playerId: row.player_id,
+      status: row.status as PlayerAvailability['status'],
+      comment: row.comment || undefined,
+    }));
+  }
+
+  onProgress('Récupération de l\'historique des feuilles de match...');
+  const matchSheetRevisions: MatchSheetRevision[] = [];
+  for (const matchSheet of data.matchSheets) {
+    const rows = await supabaseService.getMatchSheetRevisions(matchSheet.id);
+    rows.forEach(row => matchSheetRevisions.push({
+      id: row.id,
+      matchSheetId: row.match_sheet_id,
+      changeType: row.change_type as MatchSheetRevision['changeType'],
+      templateId: row.template_id || '',
+      referentCoachId: row.referent_coach_id || '',
+      playerIds: row.player_ids || [],
+      coachIds: row.coach_ids || [],
+      pdfUrl: row.pdf_url || undefined,
+      createdAt: new Date(row.created_at),
+    }));
+  }
+
+  zip.file('data/age_categories.json', JSON.stringify(data.ageCategories, null, 2));
+  zip.file('data/players.json', JSON.stringify(data.players, null, 2));
+  zip.file('data/coaches.json', JSON.stringify(data.coaches, null, 2));
+  zip.file('data/tournaments.json', JSON.stringify(data.tournaments, null, 2));
+  zip.file('data/templates.json', JSON.stringify(data.templates, null, 2));
+  zip.file('data/match_sheets.json', JSON.stringify(data.matchSheets, null, 2));
+  zip.file('data/match_sheet_revisions.json', JSON.stringify(matchSheetRevisions, null, 2));
+  zip.file('data/availabilities.json', JSON.stringify(availabilities, null, 2));
+
+  // Fichiers PDF des modèles et de leurs versions archivées
+  const templateFileKeys = new Set<string>();
+  const addTemplateFile = async (file: Pick<Template, 'id' | 'fileUrl'>) => {
+    const fileName = getTemplateFileName(file);
+    if (templateFileKeys.has(`${LOCAL_STORAGE_PREFIX}${fileName}`)) return;
+    const content = await getPdf(file.fileUrl);
+    if (content) {
+      const base64Data = content.includes('base64,') ? content.split('base64,')[1] : content;
+      zip.file(`templates/${fileName}`, base64Data, { base64: true });
+      templateFileKeys.add(`${LOCAL_STORAGE_PREFIX}${fileName}`);
+    }
+  };
+
+  const templateVersions: TemplateVersion[] = [];
+  for (const template of data.templates) {
+    onProgress(`Ajout du modèle ${template.name}...`);
+    await addTemplateFile(template);
+
+    const rows = await supabaseService.getTemplateVersions(template.id);
+    for (const row of rows) {
+      const templateVersion: TemplateVersion = {
+        id: row.id,
+        templateId: row.template_id,
+        version: row.version,
+        fileUrl: row.file_url,
+        fieldMappings: row.field_mappings as unknown as PdfFieldMapping[] || [],
+        overlayLayout: row.overlay_layout as unknown as PdfOverlayLayout || undefined,
+        fieldNames: row.field_names || [],
+        createdAt: new Date(row.created_at),
+      };
+      templateVersions.push(templateVersion);
+      await addTemplateFile(templateVersion);
+    }
+  }
+  zip.file('data/template_versions.json', JSON.stringify(templateVersions, null, 2));
+
+  // Copies locales, hors PDF des modèles déjà présents dans l'archive
+  const localEntries: Record<string, string> = {};
+  for (const entry of await listCachedPdfs()) {
+    const key = `${LOCAL_STORAGE_PREFIX}${entry.path}`;
+    if (templateFileKeys.has(key)) continue;
+    const content = await getCachedPdf(entry.path);
+    if (content) {
+      localEntries[key] = content;
+    }
+  }
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key) continue;
+    if ((key.startsWith(LOCAL_STORAGE_PREFIX) && !templateFileKeys.has(key)) || key === SEASON_STORAGE_KEY) {
+      localEntries[key] = localStorage.getItem(key) || '';
+    }
+  }
+  zip.file('local_storage.json', JSON.stringify(localEntries));
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    counts: {
+      players: data.players.length,
+      coaches: data.coaches.length,
+      tournaments: data.tournaments.length,
+      templates: data.templates.length,
+      templateVersions: templateVersions.length,
+      matchSheets: data.matchSheets.length,
+      matchSheetRevisions: matchSheetRevisions.length,
+      availabilities: availabilities.length,
+    },
+  };
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+  onProgress('Compression de l\'archive...');
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+const readJson = async <T,>(zip: JSZip, path: string, fallback: T): Promise<T> => {
+  const file = zip.file(path);
+  if (!file) return fallback;
+  return JSON.parse(await file.async('string')) as T;
+};
+
+/**
+ * Restaure une sauvegarde dans un projet vide, en recréant les identifiants
+ * et les tables de liaison (coach_categories, match_sheet_players...)
+ * @param file Archive ZIP de sauvegarde
+ * @param ageCategories Catégories d'âge du projet cible (rapprochées par nom)
+ * @param onProgress Callback de progression (message)
+ * @returns Le bilan de la restauration
+ */
+export const restoreClubBackup = async (
+  file: Blob,
+  ageCategories: AgeCategory[],
+  onProgress: (message: string) => void = () => {}
+): Promise<RestoreSummary> => {
+  const zip = await JSZip.loadAsync(file);
+
+  const manifest = await readJson<BackupManifest | null>(zip, 'manifest.json', null);
+  if (!manifest || manifest.format !== BACKUP_FORMAT) {
+    throw new Error('Cette archive n\'est pas une sauvegarde du club');
+  }
+  if (manifest.version > BACKUP_VERSION) {
+    throw new Error('Cette sauvegarde a été créée par une version plus récente de l\'application');
+  }
+
+  const backupCategories = await readJson<AgeCategory[]>(zip, 'data/age_categories.json', []);
+  const players = await readJson<Player[]>(zip, 'data/players.json', []);
+  const coaches = await readJson<Coach[]>(zip, 'data/coaches.json', []);
+  const tournaments = await readJson<Tournament[]>(zip, 'data/tournaments.json', []);
+  const templates = await readJson<Template[]>(zip, 'data/templates.json', []);
+  const templateVersions = await readJson<TemplateVersion[]>(zip, 'data/template_versions.json', []);
+  const matchSheets = await readJson<MatchSheet[]>(zip, 'data/match_sheets.json', []);
+  const matchSheetRevisions = await readJson<MatchSheetRevision[]>(zip, 'data/match_sheet_revisions.json', []);
+  const availabilities = await readJson<PlayerAvailability[]>(zip, 'data/availabilities.json', []);
+  const localEntries = await readJson<Record<string, string>>(zip, 'local_storage.json', {});
+
+  const summary: RestoreSummary = {
+    players: 0,
+    coaches: 0,
+    tournaments: 0,
+    templates: 0,
+    templateVersions: 0,
+    matchSheets: 0,
+    matchSheetRevisions: 0,
+    availabilities: 0,
+    localEntries: 0,
+    warnings: [],
+  };
+
+  // Les catégories d'âge sont créées par les migrations : elles sont rapprochées par nom
+  // et reprennent leurs règles d'effectif
+  const categoryIds = new Map<string, string>();
+  for (const category of backupCategories) {
+    const target = ageCategories.find(c => c.name === category.name);
+    if (!target) {
+      summary.warnings.push(`Catégorie ${category.name} absente du projet : ses liaisons sont ignorées`);
+      continue;
+    }
+    categoryIds.set(category.id, target.id);
+    if (category.rosterRules) {
+      await supabaseService.updateAgeCategoryRosterRules(target.id, category.rosterRules);
+    }
+  }
+  const mapCategories = (ids: string[]) =>
+    ids.map(id => categoryIds.get(id)).filter((id): id is string => Boolean(id));
+
+  onProgress('Restauration des joueurs...');
+  const playerIds = new Map<string, string>();
+  for (const player of players) {
+    const created = await supabaseService.addPlayer({
+      first_name: player.firstName,
+      last_name: player.lastName,
+      date_of_birth: player.dateOfBirth,
+      license_number: player.licenseNumber,
+      can_play_forward: player.canPlayForward,
+      can_referee: player.canReferee,
+      age_category_id: categoryIds.get(player.ageCategoryId) || null,
+    });
+    if (created) {
+      playerIds.set(player.id, created.id);
+      summary.players++;
+    }
+  }
+
+  onProgress('Restauration des entraîneurs...');
+  const coachIds = new Map<string, string>();
+  for (const coach of coaches) {
+    const created = await supabaseService.addCoach({
+      first_name: coach.firstName,
+      last_name: coach.lastName,
+      license_number: coach.licenseNumber,
+      diploma: coach.diploma,
+      phone: coach.phone,
+    }, mapCategories(coach.ageCategoryIds));
+    coachIds.set(coach.id, created.id);
+    summary.coaches++;
+  }
+
+  onProgress('Restauration des tournois...');
+  const tournamentIds = new Map<string, string>();
+  for (const tournament of tournaments) {
+    const created = await supabaseService.addTournament({
+      date: tournament.date,
+      location: tournament.location,
+    }, mapCategories(tournament.ageCategoryIds));
+    tournamentIds.set(tournament.id, created.id);
+    summary.tournaments++;
+  }
+
+  // Un même fichier peut servir à plusieurs modèles ou versions : il n'est envoyé qu'une fois
+  const restoredFiles = new Set<string>();
+  const restoreTemplateFile = async (file: Pick<Template, 'id' | 'fileUrl'>): Promise<boolean> => {
+    const fileName = getTemplateFileName(file);
+    if (restoredFiles.has(fileName)) return true;
+    const pdfFile = zip.file(`templates/${fileName}`);
+    if (!pdfFile) return false;
+    const base64Data = await pdfFile.async('base64');
+    await storePdf(fileName, `data:application/pdf;base64,${base64Data}`);
+    restoredFiles.add(fileName);
+    return true;
+  };
+
+  const templateIds = new Map<string, string>();
+  for (const template of templates) {
+    onProgress(`Restauration du modèle ${template.name}...`);
+    const created = await supabaseService.addTemplate({
+      name: template.name,
+      description: template.description,
+      file_url: template.fileUrl,
+      field_mappings: template.fieldMappings,
+      overlay_layout: template.overlayLayout ?? null,
+      version: template.version ?? 1,
+      file_hash: template.fileHash,
+    }, mapCategories(template.ageCategoryIds));
+    templateIds.set(template.id, created.id);
+    summary.templates++;
+
+    if (!await restoreTemplateFile(template)) {
+      summary.warnings.push(`Fichier PDF manquant pour le modèle ${template.name}`);
+    }
+  }
+
+  onProgress('Restauration des versions archivées des modèles...');
+  for (const templateVersion of templateVersions) {
+    const templateId = templateIds.get(templateVersion.templateId);
+    if (!templateId) continue;
+
+    await supabaseService.addTemplateVersion({
+      template_id: templateId,
+      version: templateVersion.version,
+      file_url: templateVersion.fileUrl,
+      field_mappings: templateVersion.fieldMappings,
+      overlay_layout: templateVersion.overlayLayout ?? null,
+      field_names: templateVersion.fieldNames,
+    });
+    summary.templateVersions++;
+
+    if (!await restoreTemplateFile(templateVersion)) {
+      summary.warnings.push(`Fichier PDF manquant pour la version ${templateVersion.version} d'un modèle`);
+    }
+  }
+
+  onProgress('Restauration des feuilles de match...');
+  const matchSheetIds = new Map<string, string>();
+  const mapPlayers = (ids: string[]) =>
+    ids.map(id => playerIds.get(id)).filter((id): id is string => Boolean(id));
+  const mapCoaches = (ids: string[]) =>
+    ids.map(id => coachIds.get(id)).filter((id): id is string => Boolean(id));
+  for (const matchSheet of matchSheets) {
+    const tournamentId = tournamentIds.get(matchSheet.tournamentId);
+    if (!tournamentId) {
+      summary.warnings.push(`Feuille de match ${matchSheet.id} ignorée : tournoi introuvable`);
+      continue;
+    }
+
+    const created = await supabaseService.addMatchSheet(
+      {
+        tournament_id: tournamentId,
+        template_id: templateIds.get(matchSheet.templateId) || null,
+        age_category_id: categoryIds.get(matchSheet.ageCategoryId) || null,
+        referent_coach_id: coachIds.get(matchSheet.referentCoachId) || null,
+        pdf_url: matchSheet.pdfUrl,
+        status: matchSheet.status,
+        team_name: matchSheet.teamName || null,
+        template_version: matchSheet.templateVersion ?? null,
+      },
+      mapPlayers(matchSheet.playerIds),
+      mapCoaches(matchSheet.coachIds)
+    );
+    matchSheetIds.set(matchSheet.id, created.id);
+    summary.matchSheets++;
+  }
+
+  // Historique restauré dans l'ordre et avec les dates d'origine, pour rester consultable depuis chaque feuille
+  onProgress('Restauration de l\'historique des feuilles de match...');
+  for (const revision of matchSheetRevisions) {
+    const matchSheetId = matchSheetIds.get(revision.matchSheetId);
+    if (!matchSheetId) continue;
+
+    await supabaseService.addMatchSheetRevision({
+      match_sheet_id: matchSheetId,
+      change_type: revision.changeType,
+      template_id: templateIds.get(revision.templateId) || null,
+      referent_coach_id: coachIds.get(revision.referentCoachId) || null,
+      player_ids: mapPlayers(revision.playerIds),
+      coach_ids: mapCoaches(revision.coachIds),
+      pdf_url: revision.pdfUrl || null,
+      created_at: new Date(revision.createdAt).toISOString(),
+    });
+    summary.matchSheetRevisions++;
+  }
+
+  onProgress('Restauration des disponibilités...');
+  for (const availability of availabilities) {
+    const tournamentId = tournamentIds.get(availability.tournamentId);
+    const playerId = playerIds.get(availability.playerId);
+    if (!tournamentId || !playerId) continue;
+
+    await supabaseService.setPlayerAvailability({
+      tournament_id: tournamentId,
+      player_id: playerId,
+      status: availability.status,
+      comment: availability.comment || null,
+    });
+    summary.availabilities++;
+  }
+
+  // Copies locales (PDF générés dans le cache, analyses, saison)
+  for (const [key, value] of Object.entries(localEntries)) {
+    try {
+      if (key.startsWith(LOCAL_STORAGE_PREFIX) && !key.startsWith(ANALYSIS_STORAGE_PREFIX)) {
+        await putCachedPdf(key.substring(LOCAL_STORAGE_PREFIX.length), value);
+      } else {
+        localStorage.setItem(key, value);
+      }
+      summary.localEntries++;
+    } catch (error) {
+      console.warn(`Impossible de restaurer l'entrée locale ${key}:`, error);
+      summary.warnings.push(`Copie locale ${key} non restaurée (stockage plein)`);
+    }
+  }
+
+  console.log('Restauration terminée:', summary);
+  return summary;
+};
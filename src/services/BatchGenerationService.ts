@@ -0,0 +1,177 @@
+import JSZip from 'jszip';
+import { PDFDocument } from 'pdf-lib';
+import { AgeCategory, Coach, MatchSheet, Player, Template, Tournament } from '../types';
+import { generatePdf, PdfGenerationReport } from './PdfGenerator';
+
+/**
+ * Génération groupée des feuilles de match d'un tournoi
+ * Les feuilles sont générées l'une après l'autre puis réunies dans un PDF unique (pages copiées avec pdf-lib)
+ * et dans une archive ZIP contenant un fichier par catégorie et par équipe
+ */
+
+export type BatchSheetStatus = 'pending' | 'running' | 'done' | 'error';
+
+export interface BatchSheetJob {
+  matchSheet: MatchSheet;
+  categoryName?: string; // Absent si la catégorie a été supprimée
+  label: string; // Catégorie et équipe (ex: M10 · Nantua 2)
+  fileName: string; // Nom du fichier dans l'archive ZIP
+}
+
+export interface BatchSheetProgress {
+  status: BatchSheetStatus;
+  report?: PdfGenerationReport;
+  error?: string;
+}
+
+export interface BatchGenerationContext {
+  tournament: Tournament;
+  players: Player[];
+  coaches: Coach[];
+  getTemplate: (matchSheet: MatchSheet) => Promise<Template | undefined>;
+}
+
+export interface BatchSheetFailure {
+  label: string;
+  error: string;
+}
+
+export interface BatchGenerationResult {
+  mergedPdf: Uint8Array | null; // null si aucune feuille n'a pu être générée
+  zip: Blob | null;
+  generatedCount: number;
+  failedCount: number;
+}
+
+// Nom de fichier sans accents ni espaces (ex: Nantua 2 → Nantua_2)
+const toFileSlug = (name: string): string =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+/**
+ * Nom des fichiers produits pour un tournoi (sans extension)
+ */
+export const getBatchBaseName = (tournament: Tournament): string =>
+  `feuilles_match_${toFileSlug(tournament.location) || 'tournoi'}_${tournament.date}`;
+
+/**
+ * Liste les feuilles d'un tournoi à générer, dans l'ordre des catégories puis des équipes
+ * @param tournament Tournoi concerné
+ * @param matchSheets Toutes les feuilles de match
+ * @param ageCategories Catégories d'âge, pour l'ordre et les libellés
+ */
+export const getBatchSheetJobs = (
+  tournament: Tournament,
+  matchSheets: MatchSheet[],
+  ageCategories: AgeCategory[]
+): BatchSheetJob[] => {
+  const categoryIndex = (id: string) => {
+    const index = ageCategories.findIndex(category => category.id === id);
+    return index === -1 ? ageCategories.length : index;
+  };
+
+  return matchSheets
+    .filter(sheet => sheet.tournamentId === tournament.id)
+    .sort((a, b) => categoryIndex(a.ageCategoryId) - categoryIndex(b.ageCategoryId)
+      || (a.teamName || '').localeCompare(b.teamName || ''))
+    .map((matchSheet, index) => {
+      const categoryName = ageCategories.find(category => category.id === matchSheet.ageCategoryId)?.name;
+      const label = [categoryName || 'Catégorie', matchSheet.teamName].filter(Boolean).join(' · ');
+      const slug = [categoryName, matchSheet.teamName].filter(Boolean).map(part => toFileSlug(part as string)).join('_');
+      return {
+        matchSheet,
+        categoryName,
+        label,
+        fileName: `${String(index + 1).padStart(2, '0')}_${slug || 'feuille'}.pdf`,
+      };
+    });
+};
+
+/**
+ * Génère les feuilles une à une, avec suivi de l'avancement
+ * Partagé par la génération groupée et le dossier tournoi
+ * @param jobs Feuilles à générer
+ * @param context Tournoi, effectif et résolution du modèle de chaque feuille
+ * @param onSheet Reçoit le PDF de chaque feuille générée (fusion, archive...)
+ * @param onProgress Appelé à chaque changement d'état d'une feuille
+ * @returns Le nombre de feuilles générées et les feuilles en erreur
+ */
+export const generateBatchSheets = async (
+  jobs: BatchSheetJob[],
+  context: BatchGenerationContext,
+  onSheet: (job: BatchSheetJob, pdfBytes: Uint8Array) => Promise<void>,
+  onProgress?: (matchSheetId: string, progress: BatchSheetProgress) => void
+): Promise<{ generatedCount: number; failedSheets: BatchSheetFailure[] }> => {
+  const failedSheets: BatchSheetFailure[] = [];
+  let generatedCount = 0;
+
+  for (const job of jobs) {
+    const { matchSheet } = job;
+    onProgress?.(matchSheet.id, { status: 'running' });
+
+    try {
+      const template = await context.getTemplate(matchSheet);
+      if (!template) {
+        throw new Error('Modèle introuvable');
+      }
+
+      const { pdfBytes, report } = await generatePdf({
+        templateId: template.id,
+        tournamentId: context.tournament.id,
+        players: context.players.filter(p => matchSheet.playerIds.includes(p.id)),
+        coaches: context.coaches.filter(c => matchSheet.coachIds.includes(c.id)),
+        referentCoachId: matchSheet.referentCoachId,
+        template,
+        tournament: context.tournament,
+        categoryName: job.categoryName,
+      });
+
+      await onSheet(job, pdfBytes);
+
+      generatedCount++;
+      onProgress?.(matchSheet.id, { status: 'done', report });
+    } catch (error) {
+      console.error(`Erreur lors de la génération de la feuille ${job.label}:`, error);
+      const message = error instanceof Error ? error.message : 'Erreur lors de la génération du PDF';
+      failedSheets.push({ label: job.label, error: message });
+      onProgress?.(matchSheet.id, { status: 'error', error: message });
+    }
+  }
+
+  return { generatedCount, failedSheets };
+};
+
+/**
+ * Génère toutes les feuilles d'un tournoi
+ * Une feuille en erreur (modèle introuvable, PDF illisible...) n'interrompt pas les suivantes
+ * @param jobs Feuilles à générer (voir getBatchSheetJobs)
+ * @param context Tournoi, effectif et résolution du modèle de chaque feuille
+ * @param onProgress Appelé à chaque changement d'état d'une feuille
+ * @returns Le PDF fusionné et l'archive des fichiers individuels
+ */
+export const generateTournamentBatch = async (
+  jobs: BatchSheetJob[],
+  context: BatchGenerationContext,
+  onProgress: (matchSheetId: string, progress: BatchSheetProgress) => void
+): Promise<BatchGenerationResult> => {
+  const merged = await PDFDocument.create();
+  const zip = new JSZip();
+
+  const { generatedCount, failedSheets } = await generateBatchSheets(jobs, context, async (job, pdfBytes) => {
+    const sheetPdf = await PDFDocument.load(pdfBytes);
+    const pages = await merged.copyPages(sheetPdf, sheetPdf.getPageIndices());
+    pages.forEach(page => merged.addPage(page));
+    zip.file(job.fileName, pdfBytes);
+  }, onProgress);
+  const failedCount = failedSheets.length;
+
+  if (generatedCount === 0) {
+    return { mergedPdf: null, zip: null, generatedCount, failedCount };
+  }
+
+  return {
+    mergedPdf: await merged.save(),
+    zip: await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' }),
+    generatedCount,
+    failedCount,
+  };
+};
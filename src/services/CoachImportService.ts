@@ -0,0 +1,117 @@
+import { AgeCategory, Coach, CoachImportRow } from '../types';
+import { normalizeLicenseNumber, normalizeText } from './PlayerImportService';
+import { ROSTER_BACKUP_FORMAT, RosterBackup, RosterBackupCoach } from './RosterExportService';
+
+/**
+ * Service d'import d'entraîneurs depuis une sauvegarde JSON produite par l'export de la page Entraîneurs
+ */
+
+/**
+ * Lit une sauvegarde JSON produite par l'export des entraîneurs
+ * @param content Contenu du fichier
+ * @returns Les entraîneurs de la sauvegarde
+ */
+export const parseCoachBackup = (content: string): RosterBackupCoach[] => {
+  let backup: RosterBackup;
+  try {
+    backup = JSON.parse(content);
+  } catch {
+    throw new Error('Le fichier JSON est invalide');
+  }
+
+  if (backup?.format !== ROSTER_BACKUP_FORMAT || !Array.isArray(backup.coaches)) {
+    throw new Error('Ce fichier JSON n\'est pas un export d\'entraîneurs');
+  }
+
+  return backup.coaches;
+};
+
+// Clé de rapprochement : numéro de licence, ou à défaut nom et prénom
+const getCoachKey = (coach: { firstName: string; lastName: string; licenseNumber: string }): string =>
+  coach.licenseNumber
+    ? `licence:${normalizeLicenseNumber(coach.licenseNumber)}`
+    : `nom:${normalizeText(coach.lastName)}|${normalizeText(coach.firstName)}`;
+
+/**
+ * Construit l'aperçu de l'import : créations, mises à jour et entrées en erreur
+ * @param backupCoaches Entraîneurs de la sauvegarde
+ * @param coaches Entraîneurs existants
+ * @param ageCategories Catégories d'âge existantes, retrouvées par leur nom
+ * @returns Une entrée par entraîneur de la sauvegarde
+ */
+export const buildCoachImportPreview = (
+  backupCoaches: RosterBackupCoach[],
+  coaches: Coach[],
+  ageCategories: AgeCategory[]
+): CoachImportRow[] => {
+  const coachesByKey = new Map(coaches.map(coach => [getCoachKey(coach), coach]));
+  const seenKeys = new Set<string>();
+
+  return backupCoaches.map((backupCoach, index) => {
+    const errors: string[] = [];
+    const firstName = String(backupCoach.firstName ?? '').trim();
+    const lastName = String(backupCoach.lastName ?? '').trim();
+    const licenseNumber = normalizeLicenseNumber(String(backupCoach.licenseNumber ?? ''));
+    const key = getCoachKey({ firstName, lastName, licenseNumber });
+    const existingCoach = coachesByKey.get(key);
+
+    if (!lastName) errors.push('Nom manquant');
+    if (!firstName) errors.push('Prénom manquant');
+    if (seenKeys.has(key)) {
+      errors.push('Entraîneur en double dans le fichier');
+    }
+    seenKeys.add(key);
+
+    const ageCategoryIds: string[] = [];
+    (Array.isArray(backupCoach.categories) ? backupCoach.categories : []).forEach(name => {
+      const category = ageCategories.find(c => normalizeText(c.name) === normalizeText(String(name)));
+      if (category) {
+        ageCategoryIds.push(category.id);
+      } else {
+        errors.push(`Catégorie inconnue : ${name}`);
+      }
+    });
+    // Comme dans le formulaire, un entraîneur est rattaché à au moins une catégorie
+    if (ageCategoryIds.length === 0 && errors.length === 0) {
+      errors.push('Aucune catégorie');
+    }
+
+    const coach: Coach = {
+      id: existingCoach?.id || '',
+      firstName,
+      lastName,
+      licenseNumber,
+      diploma: String(backupCoach.diploma ?? '').trim(),
+      phone: existingCoach?.phone, // Le téléphone n'est pas exporté
+      ageCategoryIds,
+    };
+
+    const changedFields: string[] = [];
+    if (existingCoach) {
+      if (existingCoach.lastName !== coach.lastName) changedFields.push('Nom');
+      if (existingCoach.firstName !== coach.firstName) changedFields.push('Prénom');
+      if (normalizeLicenseNumber(existingCoach.licenseNumber) !== coach.licenseNumber) changedFields.push('Licence');
+      if (existingCoach.diploma !== coach.diploma) changedFields.push('Diplôme');
+      if (existingCoach.ageCategoryIds.length !== coach.ageCategoryIds.length ||
+        existingCoach.ageCategoryIds.some(id => !coach.ageCategoryIds.includes(id))) {
+        changedFields.push('Catégories');
+      }
+    }
+
+    let action: CoachImportRow['action'] = 'create';
+    if (errors.length > 0) {
+      action = 'error';
+    } else if (existingCoach) {
+      action = changedFields.length > 0 ? 'update' : 'unchanged';
+    }
+
+    return {
+      rowNumber: index + 1,
+      action,
+      coach,
+      existingCoach,
+      changedFields,
+      errors,
+    };
+  });
+};
@@ -0,0 +1,289 @@
+import { PdfFieldMapping } from '../types';
+import { PdfTextLayout, PdfTextPage, PdfWidgetPosition, findLabelLeftOf, findTextsAbove } from './PdfTextExtractor';
+
+/**
+ * Proposition de correspondances sans modèle de langage
+ * Chaque champ du formulaire est rapproché du vocabulaire des feuilles de match à partir de son nom,
+ * de son type, du libellé écrit à sa gauche et de l'en-tête de sa colonne.
+ * Le résultat est déterministe : un même PDF donne toujours les mêmes propositions.
+ */
+
+// Champ du formulaire tel que lu par extractFormFieldsInfo
+export interface FormFieldInfo {
+  name: string;
+  type: string; // Classe pdf-lib (PDFTextField, PDFCheckBox...)
+  options?: string[];
+}
+
+type RowType = 'joueur' | 'educateur';
+
+interface Candidate {
+  mapping: string;
+  type: PdfFieldMapping['type'];
+  score: number;
+}
+
+// Indice trouvé pour un champ, avec le poids de sa source
+interface Evidence {
+  text: string;
+  weight: number;
+}
+
+const normalize = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    // Sépare les mots collés (JoueurNom, nom_joueur...)
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const splitCamelCase = (name: string) => name.replace(/([a-z])([A-Z])/g, '$1 $2');
+
+// Vocabulaire des propriétés d'une ligne, testé dans l'ordre
+const ROW_PROPERTIES: { property: string; keywords: RegExp; boolean?: boolean }[] = [
+  { property: 'prenom', keywords: /\b(prenoms?|first ?name)\b/ },
+  { property: 'licence', keywords: /\b(licen[cs]es?|n ?licence|num(ero)? ?licence|lic)\b/ },
+  { property: 'diplome', keywords: /\b(diplomes?|brevet|qualification|bf)\b/ },
+  { property: 'est_avant', keywords: /\b(avants?|1ere ligne|premiere ligne|pilier|talonneur)\b/, boolean: true },
+  { property: 'est_arbitre', keywords: /\b(arbitres?|arbitrage|jeune arbitre)\b/, boolean: true },
+  { property: 'est_referent', keywords: /\b(referents?|responsable)\b/, boolean: true },
+  { property: 'nom', keywords: /\b(noms?|name|last ?name|patronyme)\b/ },
+];
+
+const ROW_TYPES: { type: RowType; keywords: RegExp }[] = [
+  { type: 'educateur', keywords: /\b(educateurs?|educ|entraineurs?|encadrants?|encadrement|coach|accompagnateurs?|dirigeants?)\b/ },
+  { type: 'joueur', keywords: /\b(joueurs?|joueuses?|enfants?|players?|licencies?|j)\b/ },
+];
+
+const GLOBAL_PROPERTIES: { mapping: string; keywords: RegExp }[] = [
+  { mapping: 'date_manifestation', keywords: /\b(date|jour)\b/ },
+  { mapping: 'lieu_manifestation', keywords: /\b(lieu|adresse|ville|stade|terrain)\b/ },
+  { mapping: 'categorie', keywords: /\b(categories?|cat|m ?\d{1,2}|u ?\d{1,2})\b/ },
+  { mapping: 'club', keywords: /\b(club|equipe|association|ecole de rugby)\b/ },
+  { mapping: 'nom_manifestation', keywords: /\b(tournoi|plateau|manifestation|rencontre|competition|evenement|match)\b/ },
+];
+
+// Poids des sources d'indices
+const NAME_WEIGHT = 2;
+const LABEL_WEIGHT = 1.5;
+const HEADER_WEIGHT = 1.5;
+const SECTION_WEIGHT = 1;
+
+// Score à partir duquel une proposition est considérée comme sûre
+const FULL_CONFIDENCE_SCORE = 3;
+
+// Distance maximale entre un en-tête de colonne et le premier champ de la colonne, en points
+const MAX_HEADER_DISTANCE = 400;
+
+const isBooleanField = (field: FormFieldInfo) =>
+  field.type === 'PDFCheckBox'
+  || (!!field.options && field.options.length > 0 && field.options.every(option => /^(oui|non|yes|no|x|off)$/i.test(option)));
+
+/**
+ * Rassemble les indices d'un champ : son nom, le libellé à sa gauche, l'en-tête de sa colonne et le titre de sa section
+ */
+const collectEvidence = (field: FormFieldInfo, page?: PdfTextPage, widget?: PdfWidgetPosition): { evidence: Evidence[]; section?: string } => {
+  const evidence: Evidence[] = [{ text: normalize(splitCamelCase(field.name).replace(/\d+/g, ' ')), weight: NAME_WEIGHT }];
+  if (!page || !widget) return { evidence };
+
+  const label = findLabelLeftOf(page, widget);
+  if (label) evidence.push({ text: normalize(label), weight: LABEL_WEIGHT });
+
+  // En-tête : le premier texte au-dessus dans la colonne qui appartient au vocabulaire
+  const header = findTextsAbove(page, widget, true)
+    .filter(item => item.y - widget.y <= MAX_HEADER_DISTANCE)
+    .map(item => normalize(item.text))
+    .find(text => ROW_PROPERTIES.some(({ keywords }) => keywords.test(text)) || GLOBAL_PROPERTIES.some(({ keywords }) => keywords.test(text)));
+  if (header) evidence.push({ text: header, weight: HEADER_WEIGHT });
+
+  // Section : le titre le plus proche au-dessus qui désigne des joueurs ou des éducateurs
+  const section = findTextsAbove(page, widget, false)
+    .map(item => normalize(item.text))
+    .find(text => ROW_TYPES.some(({ keywords }) => keywords.test(text)));
+
+  return { evidence, section };
+};
+
+/**
+ * Évalue chaque correspondance possible pour un champ
+ * @returns Les correspondances ayant obtenu un score, de la plus probable à la moins probable
+ */
+const scoreField = (field: FormFieldInfo, evidence: Evidence[], section?: string): Candidate[] => {
+  const booleanField = isBooleanField(field);
+  const scores = new Map<string, Candidate>();
+  const add = (mapping: string, type: PdfFieldMapping['type'], score: number) => {
+    const current = scores.get(mapping);
+    scores.set(mapping, { mapping, type, score: (current?.score ?? 0) + score });
+  };
+
+  // Type de ligne désigné par les indices, puis par la section
+  const typeScores: Record<RowType, number> = { joueur: 0, educateur: 0 };
+  evidence.forEach(({ text, weight }) => {
+    ROW_TYPES.forEach(({ type, keywords }) => {
+      if (keywords.test(text)) typeScores[type] += weight;
+    });
+  });
+  if (section) {
+    ROW_TYPES.forEach(({ type, keywords }) => {
+      if (keywords.test(section)) typeScores[type] += SECTION_WEIGHT;
+    });
+  }
+  const referent = evidence.some(({ text }) => /\breferent/.test(text));
+
+  evidence.forEach(({ text, weight }) => {
+    ROW_PROPERTIES.forEach(({ property, keywords, boolean }) => {
+      if (!keywords.test(text)) return;
+
+      // Un champ du référent (Nom du référent...) désigne l'éducateur référent
+      if (referent && property !== 'est_referent' && !boolean) {
+        add(`referent.${property}`, 'global', weight);
+        return;
+      }
+
+      let rowTypes: RowType[] = typeScores.joueur > typeScores.educateur
+        ? ['joueur']
+        : typeScores.educateur > typeScores.joueur ? ['educateur'] : ['joueur', 'educateur'];
+      if (property === 'diplome' || property === 'est_referent') rowTypes = ['educateur'];
+      if (property === 'est_avant' || property === 'est_arbitre') rowTypes = ['joueur'];
+
+      // Les cases à cocher ne peuvent recevoir qu'une donnée oui/non, et inversement
+      const typeFactor = !!boolean === booleanField ? 1 : 0.3;
+      rowTypes.forEach(type => {
+        const typeBonus = typeScores[type] > 0 ? Math.min(typeScores[type], NAME_WEIGHT) / 2 : 0;
+        add(`${type}.${property}`, type, (weight + typeBonus) * typeFactor / rowTypes.length);
+      });
+    });
+
+    if (!booleanField) {
+      GLOBAL_PROPERTIES.forEach(({ mapping, keywords }) => {
+        if (keywords.test(text)) add(mapping, 'global', weight);
+      });
+    }
+  });
+
+  return [...scores.values()].sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Indice de confiance d'une proposition, entre 0 et 1
+ * Diminue quand une autre correspondance obtient un score proche
+ */
+const getConfidence = (candidates: Candidate[]): number => {
+  const [best, second] = candidates;
+  const strength = Math.min(best.score / FULL_CONFIDENCE_SCORE, 1);
+  const ambiguity = second ? second.score / best.score : 0;
+  return Math.round(strength * (1 - ambiguity / 2) * 100) / 100;
+};
+
+interface FieldSuggestion {
+  field: FormFieldInfo;
+  candidate: Candidate;
+  confidence: number;
+  position?: { page: number; widget: PdfWidgetPosition };
+}
+
+const ROW_NUMBER = /^(.*?)(\d+)(\D*)$/;
+
+/**
+ * Regroupe les champs d'une même donnée de ligne en un mapping répété
+ * Les noms numérotés à la suite donnent un modèle {i} ; sinon les noms sont listés ligne par ligne
+ */
+const buildRowMapping = (suggestions: FieldSuggestion[]): PdfFieldMapping => {
+  // Ordre de lecture : page, puis de haut en bas, puis de gauche à droite
+  const ordered = [...suggestions].sort((a, b) => {
+    if (!a.position || !b.position) return 0;
+    return a.position.page - b.position.page
+      || b.position.widget.y - a.position.widget.y
+      || a.position.widget.x - b.position.widget.x;
+  });
+  const names = ordered.map(({ field }) => field.name);
+  const { candidate } = ordered[0];
+  const confiance = Math.round(ordered.reduce((sum, { confidence }) => sum + confidence, 0) / ordered.length * 100) / 100;
+
+  const numbered = names.map(name => name.match(ROW_NUMBER));
+  const first = numbered[0];
+  const consecutive = first && numbered.every((match, row) =>
+    match
+    && match[1] === first[1]
+    && match[3] === first[3]
+    && parseInt(match[2], 10) === parseInt(first[2], 10) + row
+  );
+
+  if (consecutive && first) {
+    return {
+      champ_pdf: `${first[1]}{i}${first[3]}`,
+      type: candidate.type,
+      mapping: candidate.mapping,
+      ligne: { index_depart: parseInt(first[2], 10), nombre_lignes: names.length },
+      confiance,
+    };
+  }
+
+  return {
+    champ_pdf: names[0],
+    type: candidate.type,
+    mapping: candidate.mapping,
+    ligne: { index_depart: 1, nombre_lignes: names.length, champs_par_ligne: names },
+    confiance,
+  };
+};
+
+/**
+ * Propose les correspondances des champs d'un formulaire
+ * @param fields Champs du formulaire (noms, types, options)
+ * @param layout Texte positionné du PDF, pour les libellés et en-têtes de colonne
+ * @returns Les mappings proposés avec leur indice de confiance, dans l'ordre du formulaire
+ */
+export const suggestFieldMappings = (fields: FormFieldInfo[], layout?: PdfTextLayout): PdfFieldMapping[] => {
+  const positions = new Map<string, { page: number; widget: PdfWidgetPosition }>();
+  layout?.pages.forEach(page => {
+    page.widgets.forEach(widget => {
+      if (!positions.has(widget.fieldName)) positions.set(widget.fieldName, { page: page.pageNumber, widget });
+    });
+  });
+
+  const suggestions: FieldSuggestion[] = [];
+  fields.forEach(field => {
+    const position = positions.get(field.name);
+    const page = position && layout?.pages.find(p => p.pageNumber === position.page);
+    const { evidence, section } = collectEvidence(field, page, position?.widget);
+
+    const candidates = scoreField(field, evidence, section);
+    if (candidates.length === 0) return;
+    suggestions.push({ field, candidate: candidates[0], confidence: getConfidence(candidates), position });
+  });
+
+  // Regroupement des champs de ligne par donnée, en gardant la position du premier champ
+  const mappings: { order: number; mapping: PdfFieldMapping }[] = [];
+  const rowGroups = new Map<string, FieldSuggestion[]>();
+  suggestions.forEach(suggestion => {
+    const order = fields.indexOf(suggestion.field);
+    if (suggestion.candidate.type === 'global') {
+      mappings.push({
+        order,
+        mapping: {
+          champ_pdf: suggestion.field.name,
+          type: 'global',
+          mapping: suggestion.candidate.mapping,
+          confiance: suggestion.confidence,
+        },
+      });
+      return;
+    }
+    const group = rowGroups.get(suggestion.candidate.mapping);
+    if (group) {
+      group.push(suggestion);
+    } else {
+      rowGroups.set(suggestion.candidate.mapping, [suggestion]);
+    }
+  });
+
+  rowGroups.forEach(group => {
+    mappings.push({ order: fields.indexOf(group[0].field), mapping: buildRowMapping(group) });
+  });
+
+  return mappings
+    .sort((a, b) => a.order - b.order)
+    .map(({ mapping }) => mapping);
+};
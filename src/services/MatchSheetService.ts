@@ -1,5 +1,6 @@
 import { PDFDocument } from 'pdf-lib';
-import { Player, Coach, Tournament, Template } from '../types';
+import { Player, Coach, Tournament, Template, MatchSheet, MatchSheetStatus, MatchSheetRevision, MatchSheetRevisionChange, CategoryRosterRules, Season } from '../types';
+import { checkRosterRules } from './RosterRulesService';
 
 /**
  * Service pour la gestion des feuilles de match 
@@ -182,7 +183,9 @@ export const prepareMatchSheetData = (
  * @param players Joueurs sélectionnés
  * @param coaches Entraîneurs sélectionnés
  * @param referentCoachId ID de l'entraîneur référent
- * @returns Objet indiquant la validité et les éventuels problèmes
+ * @param rosterRules Règles d'effectif de la catégorie (optionnel)
+ * @param season Saison courante, requise avec les règles d'effectif
+ * @returns Objet indiquant la validité, les erreurs bloquantes et les avertissements
  */
 export const validateMatchSheet = (
   tournament: Tournament | undefined,
@@ -190,9 +193,12 @@ export const validateMatchSheet = (
   ageCategoryId: string,
   players: Player[],
   coaches: Coach[],
-  referentCoachId: string
-): { isValid: boolean, errors: string[] } => {
+  referentCoachId: string,
+  rosterRules?: CategoryRosterRules,
+  season?: Season
+): { isValid: boolean, errors: string[], warnings: string[] } => {
   const errors: string[] = [];
+  const warnings: string[] = [];
   
   // Vérifier que toutes les données essentielles sont présentes
   if (!tournament) {
@@ -224,8 +230,175 @@ export const validateMatchSheet = (
     errors.push("L'entraîneur référent doit faire partie des entraîneurs sélectionnés");
   }
   
+  // Vérifier les règles d'effectif de la catégorie
+  if (rosterRules && season && players.length > 0) {
+    checkRosterRules(rosterRules, players, coaches, season).forEach(violation => {
+      (violation.severity === 'error' ? errors : warnings).push(violation.message);
+    });
+  }
+  
   return {
     isValid: errors.length === 0,
-    errors
+    errors,
+    warnings
   };
-};
\ No newline at end of file
+};
+
+/**
+ * Libellés et couleurs des statuts de feuille de match
+ */
+export const MATCH_SHEET_STATUS_LABELS: Record<MatchSheetStatus, { label: string, className: string }> = {
+  draft: { label: 'Brouillon', className: 'bg-gray-100 text-gray-800' },
+  validated: { label: 'Validée', className: 'bg-green-100 text-green-800' },
+  sent: { label: 'Envoyée', className: 'bg-blue-100 text-blue-800' },
+  archived: { label: 'Archivée', className: 'bg-yellow-100 text-yellow-800' }
+};
+
+/**
+ * Transitions autorisées entre statuts :
+ * brouillon → validée → envoyée à l'organisateur → archivée.
+ * Une feuille validée peut repasser en brouillon tant qu'elle n'est pas envoyée.
+ */
+const MATCH_SHEET_STATUS_TRANSITIONS: Record<MatchSheetStatus, MatchSheetStatus[]> = {
+  draft: ['validated'],
+  validated: ['sent', 'draft'],
+  sent: ['archived'],
+  archived: []
+};
+
+/**
+ * Retourne les statuts accessibles depuis un statut donné
+ * @param status Statut actuel de la feuille
+ * @returns Liste des statuts suivants possibles
+ */
+export const getNextMatchSheetStatuses = (status: MatchSheetStatus): MatchSheetStatus[] =>
+  MATCH_SHEET_STATUS_TRANSITIONS[status] || [];
+
+/**
+ * Vérifie si une transition de statut est autorisée
+ * @param from Statut actuel
+ * @param to Statut souhaité
+ * @returns True si la transition est autorisée
+ */
+export const canTransitionMatchSheet = (from: MatchSheetStatus, to: MatchSheetStatus): boolean =>
+  getNextMatchSheetStatuses(from).includes(to);
+
+/**
+ * Indique si une feuille de match peut encore être modifiée
+ * @param status Statut de la feuille
+ * @returns True pour les brouillons uniquement
+ */
+export const isMatchSheetEditable = (status: MatchSheetStatus): boolean => status === 'draft';
+
+/**
+ * Libellés des types de révision affichés dans l'historique
+ */
+export const MATCH_SHEET_REVISION_LABELS: Record<MatchSheetRevisionChange, string> = {
+  created: 'Création',
+  updated: 'Modification',
+  validated: 'Validation',
+  restored: 'Restauration'
+};
+
+export interface MatchSheetRevisionDiff {
+  addedPlayerIds: string[];
+  removedPlayerIds: string[];
+  addedCoachIds: string[];
+  removedCoachIds: string[];
+  referentChanged: boolean;
+  templateChanged: boolean;
+  pdfChanged: boolean;
+}
+
+/**
+ * Compare deux révisions successives d'une feuille de match
+ * @param previous Révision précédente (undefined pour la première révision)
+ * @param current Révision comparée
+ * @returns Joueurs et entraîneurs ajoutés/retirés et champs modifiés
+ */
+export const diffMatchSheetRevisions = (
+  previous: MatchSheetRevision | undefined,
+  current: MatchSheetRevision
+): MatchSheetRevisionDiff => {
+  const previousPlayerIds = previous ? previous.playerIds : [];
+  const previousCoachIds = previous ? previous.coachIds : [];
+
+  return {
+    addedPlayerIds: current.playerIds.filter(id => !previousPlayerIds.includes(id)),
+    removedPlayerIds: previousPlayerIds.filter(id => !current.playerIds.includes(id)),
+    addedCoachIds: current.coachIds.filter(id => !previousCoachIds.includes(id)),
+    removedCoachIds: previousCoachIds.filter(id => !current.coachIds.includes(id)),
+    referentChanged: !!previous && previous.referentCoachId !== current.referentCoachId,
+    templateChanged: !!previous && previous.templateId !== current.templateId,
+    pdfChanged: !!previous && previous.pdfUrl !== current.pdfUrl
+  };
+};
+
+/**
+ * Nom d'équipe proposé par défaut (Nantua 1, Nantua 2...)
+ * @param index Position de l'équipe, à partir de 0
+ * @param baseName Nom du club
+ */
+export const getDefaultTeamName = (index: number, baseName: string = 'Nantua'): string =>
+  `${baseName} ${index + 1}`;
+
+/**
+ * Recense les joueurs déjà inscrits sur une feuille de match du tournoi
+ * @param matchSheets Toutes les feuilles de match
+ * @param tournamentId Tournoi concerné
+ * @param excludeMatchSheetId Feuille en cours d'édition, à ignorer
+ * @returns Feuille de match de chaque joueur déjà inscrit, par ID de joueur
+ */
+export const getPlayersOnOtherSheets = (
+  matchSheets: MatchSheet[],
+  tournamentId: string,
+  excludeMatchSheetId?: string | null
+): Map<string, MatchSheet> => {
+  const playerSheets = new Map<string, MatchSheet>();
+  matchSheets
+    .filter(sheet => sheet.tournamentId === tournamentId && sheet.id !== excludeMatchSheetId)
+    .forEach(sheet => {
+      sheet.playerIds.forEach(playerId => playerSheets.set(playerId, sheet));
+    });
+  return playerSheets;
+};
+
+/**
+ * Répartit des joueurs en plusieurs équipes équilibrées :
+ * les avants puis les jeunes arbitres sont distribués en premier,
+ * chaque joueur rejoignant l'équipe qui en compte le moins
+ * @param players Joueurs à répartir
+ * @param teamCount Nombre d'équipes
+ * @returns Joueurs de chaque équipe
+ */
+export const splitPlayersIntoTeams = (players: Player[], teamCount: number): Player[][] => {
+  const teams: Player[][] = Array.from({ length: Math.max(1, teamCount) }, () => []);
+
+  // Les profils les plus rares (avant et arbitre) sont placés en premier
+  const getProfileRank = (player: Player) => (player.canPlayForward ? 2 : 0) + (player.canReferee ? 1 : 0);
+  const sortedPlayers = [...players].sort((a, b) =>
+    getProfileRank(b) - getProfileRank(a) || a.lastName.localeCompare(b.lastName, 'fr-FR')
+  );
+
+  sortedPlayers.forEach(player => {
+    const getScore = (team: Player[]) => [
+      player.canPlayForward ? team.filter(p => p.canPlayForward).length : 0,
+      player.canReferee ? team.filter(p => p.canReferee).length : 0,
+      team.length
+    ];
+
+    let targetIndex = 0;
+    teams.forEach((team, index) => {
+      const score = getScore(team);
+      const bestScore = getScore(teams[targetIndex]);
+      const firstDifference = score.findIndex((value, i) => value !== bestScore[i]);
+      if (firstDifference !== -1 && score[firstDifference] < bestScore[firstDifference]) {
+        targetIndex = index;
+      }
+    });
+
+    teams[targetIndex].push(player);
+  });
+
+  return teams;
+};
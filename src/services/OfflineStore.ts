@@ -0,0 +1,169 @@
+import { AgeCategory, Coach, MatchSheet, Player, QueuedMutation, SyncTable, Template, Tournament } from '../types';
+
+/**
+ * Stockage local IndexedDB
+ * Conserve une copie des données du club consultable sans réseau
+ * ainsi que la file d'attente des modifications faites hors ligne
+ */
+
+const DB_NAME = 'nantua_rugby_offline';
+const DB_VERSION = 1;
+
+// Magasins d'objets : une copie par table, les versions serveur connues et la file d'attente
+const MIRRORED_STORES = ['age_categories', 'players', 'coaches', 'tournaments', 'templates', 'match_sheets'] as const;
+const VERSIONS_STORE = 'record_versions';
+const QUEUE_STORE = 'sync_queue';
+
+export interface OfflineSnapshot {
+  ageCategories: AgeCategory[];
+  players: Player[];
+  coaches: Coach[];
+  tournaments: Tournament[];
+  templates: Template[];
+  matchSheets: MatchSheet[];
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        MIRRORED_STORES.forEach(store => {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store, { keyPath: 'id' });
+          }
+        });
+        if (!db.objectStoreNames.contains(VERSIONS_STORE)) {
+          db.createObjectStore(VERSIONS_STORE);
+        }
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const versionKey = (table: SyncTable, id: string) => `${table}:${id}`;
+
+/**
+ * Remplace la copie locale par les données chargées
+ * @param snapshot Données du club
+ */
+export const saveSnapshot = async (snapshot: OfflineSnapshot): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([...MIRRORED_STORES], 'readwrite');
+  const recordsByStore: Record<typeof MIRRORED_STORES[number], { id: string }[]> = {
+    age_categories: snapshot.ageCategories,
+    players: snapshot.players,
+    coaches: snapshot.coaches,
+    tournaments: snapshot.tournaments,
+    templates: snapshot.templates,
+    match_sheets: snapshot.matchSheets,
+  };
+
+  MIRRORED_STORES.forEach(storeName => {
+    const store = transaction.objectStore(storeName);
+    store.clear();
+    recordsByStore[storeName].forEach(record => store.put(record));
+  });
+
+  await transactionDone(transaction);
+};
+
+/**
+ * Charge la copie locale des données
+ * @returns Les données enregistrées, ou null si aucune copie n'existe encore
+ */
+export const loadSnapshot = async (): Promise<OfflineSnapshot | null> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([...MIRRORED_STORES], 'readonly');
+  const [ageCategories, players, coaches, tournaments, templates, matchSheets] = await Promise.all(
+    MIRRORED_STORES.map(storeName => requestResult(transaction.objectStore(storeName).getAll()))
+  );
+
+  if (ageCategories.length === 0 && players.length === 0 && matchSheets.length === 0) {
+    return null;
+  }
+
+  return { ageCategories, players, coaches, tournaments, templates, matchSheets };
+};
+
+/**
+ * Enregistre les versions serveur (updated_at) des enregistrements chargés
+ * @param table Table concernée
+ * @param rows Lignes renvoyées par Supabase
+ */
+export const saveVersions = async (table: SyncTable, rows: { id: string; updated_at?: string | null }[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(VERSIONS_STORE, 'readwrite');
+  const store = transaction.objectStore(VERSIONS_STORE);
+  rows.forEach(row => store.put(row.updated_at ?? null, versionKey(table, row.id)));
+  await transactionDone(transaction);
+};
+
+/**
+ * Version serveur connue d'un enregistrement
+ * @returns La date de modification, ou undefined pour un enregistrement jamais synchronisé
+ */
+export const getVersion = async (table: SyncTable, id: string): Promise<string | null | undefined> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(VERSIONS_STORE, 'readonly');
+  return requestResult(transaction.objectStore(VERSIONS_STORE).get(versionKey(table, id)));
+};
+
+/**
+ * Ajoute une modification à la file d'attente
+ */
+export const enqueueMutation = async (mutation: QueuedMutation): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(QUEUE_STORE, 'readwrite');
+  transaction.objectStore(QUEUE_STORE).add(mutation);
+  await transactionDone(transaction);
+};
+
+/**
+ * Modifications en attente, dans l'ordre où elles ont été faites
+ */
+export const getQueuedMutations = async (): Promise<QueuedMutation[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(QUEUE_STORE, 'readonly');
+  const mutations = await requestResult<QueuedMutation[]>(transaction.objectStore(QUEUE_STORE).getAll());
+  return mutations.sort((a, b) => (a.id || 0) - (b.id || 0));
+};
+
+export const updateQueuedMutation = async (mutation: QueuedMutation): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(QUEUE_STORE, 'readwrite');
+  transaction.objectStore(QUEUE_STORE).put(mutation);
+  await transactionDone(transaction);
+};
+
+export const removeQueuedMutation = async (id: number): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(QUEUE_STORE, 'readwrite');
+  transaction.objectStore(QUEUE_STORE).delete(id);
+  await transactionDone(transaction);
+};
@@ -0,0 +1,417 @@
+import { sha256 } from 'js-sha256';
+
+/**
+ * Cache local des fichiers PDF (IndexedDB)
+ *
+ * Les fichiers sont stockés une seule fois sous forme de Blob, indexés par le hash SHA-256
+ * de leur contenu ; plusieurs chemins peuvent pointer vers le même fichier.
+ * Au-delà de la taille maximale, les fichiers les moins récemment utilisés sont supprimés,
+ * sauf les fichiers épinglés : copies pas encore envoyées sur Supabase, seules copies existantes.
+ * Taille, dernier accès et épinglage sont tenus dans les chemins pour ne pas relire les Blob.
+ */
+
+const DB_NAME = 'nantua_rugby_pdf_cache';
+const DB_VERSION = 1;
+const BLOBS_STORE = 'blobs';
+const PATHS_STORE = 'paths';
+
+// Ancien stockage : PDF en base64 dans le localStorage (hors analyses pdf_analysis_)
+const LEGACY_PREFIX = 'pdf_';
+const LEGACY_EXCLUDED_PREFIX = 'pdf_analysis_';
+
+// Taille maximale choisie par l'utilisateur, conservée dans le localStorage
+const CACHE_LIMIT_STORAGE_KEY = 'cache_pdf_limit';
+export const DEFAULT_CACHE_LIMIT = 50 * 1024 * 1024;
+export const CACHE_LIMIT_OPTIONS = [25, 50, 100, 200].map(megabytes => megabytes * 1024 * 1024);
+
+interface CachedBlob {
+  hash: string;
+  blob: Blob;
+  size: number;
+  createdAt: Date;
+  lastAccessedAt: Date;
+}
+
+interface CachedPath {
+  path: string;
+  hash: string;
+  // Absents des chemins écrits avant l'épinglage, complétés à la première lecture
+  size?: number;
+  lastAccessedAt?: Date;
+  pinned?: boolean;
+}
+
+export interface PdfCacheEntry {
+  path: string;
+  hash: string;
+  size: number;
+  lastAccessedAt: Date;
+  pinned: boolean;
+}
+
+export interface PdfCacheStats {
+  fileCount: number;
+  pathCount: number;
+  pinnedCount: number;
+  totalSize: number;
+  limit: number;
+}
+
+interface CachedFileSummary {
+  hash: string;
+  size: number;
+  lastAccessedAt: Date;
+  pinned: boolean;
+  paths: string[];
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+let migrationPromise: Promise<void> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(BLOBS_STORE)) {
+          db.createObjectStore(BLOBS_STORE, { keyPath: 'hash' });
+        }
+        if (!db.objectStoreNames.contains(PATHS_STORE)) {
+          db.createObjectStore(PATHS_STORE, { keyPath: 'path' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const toBase64Data = (content: string) => (content.includes('base64,') ? content.split('base64,')[1] : content);
+
+const dataUrlToBlob = (content: string): Blob => {
+  const binary = atob(toBase64Data(content));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: 'application/pdf' });
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Lit les chemins du cache sans charger les fichiers
+ * Les chemins écrits avant l'ajout de la taille sont complétés depuis leur fichier (une seule fois)
+ */
+const readPathEntries = async (transaction: IDBTransaction): Promise<PdfCacheEntry[]> => {
+  const pathsStore = transaction.objectStore(PATHS_STORE);
+  const paths = await requestResult<CachedPath[]>(pathsStore.getAll());
+  const entries: PdfCacheEntry[] = [];
+
+  for (const p of paths) {
+    if (p.size === undefined || p.lastAccessedAt === undefined) {
+      const blobEntry = await requestResult<CachedBlob | undefined>(transaction.objectStore(BLOBS_STORE).get(p.hash));
+      if (!blobEntry) continue;
+      p.size = blobEntry.size;
+      p.lastAccessedAt = blobEntry.lastAccessedAt;
+      if (transaction.mode === 'readwrite') {
+        pathsStore.put(p);
+      }
+    }
+    entries.push({ path: p.path, hash: p.hash, size: p.size, lastAccessedAt: p.lastAccessedAt, pinned: !!p.pinned });
+  }
+  return entries;
+};
+
+// Regroupe les chemins par fichier : un fichier est épinglé dès qu'un de ses chemins l'est
+const summarizeFiles = (entries: PdfCacheEntry[]): CachedFileSummary[] => {
+  const files = new Map<string, CachedFileSummary>();
+  for (const entry of entries) {
+    const file = files.get(entry.hash);
+    if (!file) {
+      files.set(entry.hash, { ...entry, paths: [entry.path] });
+      continue;
+    }
+    file.paths.push(entry.path);
+    file.pinned = file.pinned || entry.pinned;
+    if (entry.lastAccessedAt > file.lastAccessedAt) {
+      file.lastAccessedAt = entry.lastAccessedAt;
+    }
+  }
+  return [...files.values()];
+};
+
+/**
+ * Hash SHA-256 d'un contenu PDF en base64, clé du cache
+ */
+export const hashPdfContent = (content: string): string => sha256(toBase64Data(content));
+
+export const getCacheLimit = (): number => {
+  const stored = parseInt(localStorage.getItem(CACHE_LIMIT_STORAGE_KEY) || '', 10);
+  return Number.isFinite(stored) && stored > 0 ? stored : DEFAULT_CACHE_LIMIT;
+};
+
+/**
+ * Modifie la taille maximale du cache et supprime les fichiers en trop
+ * @param limit Taille maximale en octets
+ */
+export const setCacheLimit = async (limit: number): Promise<void> => {
+  localStorage.setItem(CACHE_LIMIT_STORAGE_KEY, String(limit));
+  await evictLeastRecentlyUsed();
+};
+
+/**
+ * Supprime les fichiers les moins récemment utilisés jusqu'à repasser sous la taille maximale
+ * Les fichiers épinglés ne sont jamais supprimés, quitte à dépasser la taille maximale
+ * @param keepHash Fichier à conserver (celui qui vient d'être ajouté)
+ * @returns Le nombre de fichiers supprimés
+ */
+const evictLeastRecentlyUsed = async (keepHash?: string): Promise<number> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([BLOBS_STORE, PATHS_STORE], 'readwrite');
+  const blobsStore = transaction.objectStore(BLOBS_STORE);
+  const pathsStore = transaction.objectStore(PATHS_STORE);
+
+  const files = summarizeFiles(await readPathEntries(transaction));
+  const limit = getCacheLimit();
+  let totalSize = files.reduce((sum, file) => sum + file.size, 0);
+  let evicted = 0;
+
+  const candidates = files
+    .filter(file => file.hash !== keepHash && !file.pinned)
+    .sort((a, b) => a.lastAccessedAt.getTime() - b.lastAccessedAt.getTime());
+
+  for (const file of candidates) {
+    if (totalSize <= limit) break;
+    blobsStore.delete(file.hash);
+    file.paths.forEach(path => pathsStore.delete(path));
+    totalSize -= file.size;
+    evicted++;
+  }
+
+  await transactionDone(transaction);
+  if (evicted > 0) {
+    console.log(`Cache PDF : ${evicted} fichier(s) supprimé(s) pour libérer de la place`);
+  }
+  return evicted;
+};
+
+// pinned absent : le chemin garde son épinglage s'il existe déjà
+const writeEntry = async (path: string, content: string, hash: string, pinned?: boolean): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([BLOBS_STORE, PATHS_STORE], 'readwrite');
+  const blobsStore = transaction.objectStore(BLOBS_STORE);
+  const pathsStore = transaction.objectStore(PATHS_STORE);
+  const existing = await requestResult<CachedBlob | undefined>(blobsStore.get(hash));
+  const existingPath = await requestResult<CachedPath | undefined>(pathsStore.get(path));
+  const now = new Date();
+  let size = existing?.size;
+
+  if (!existing) {
+    const blob = dataUrlToBlob(content);
+    size = blob.size;
+    blobsStore.put({ hash, blob, size, createdAt: now, lastAccessedAt: now } as CachedBlob);
+  }
+  pathsStore.put({
+    path,
+    hash,
+    size,
+    lastAccessedAt: now,
+    pinned: pinned ?? (existingPath?.hash === hash && !!existingPath.pinned),
+  } as CachedPath);
+  await transactionDone(transaction);
+};
+
+/**
+ * Déplace les PDF de l'ancien stockage localStorage vers IndexedDB (une seule fois)
+ */
+export const migrateLegacyPdfs = (): Promise<void> => {
+  if (!migrationPromise) {
+    migrationPromise = (async () => {
+      const legacyKeys = Object.keys(localStorage).filter(
+        key => key.startsWith(LEGACY_PREFIX) && !key.startsWith(LEGACY_EXCLUDED_PREFIX)
+      );
+      if (legacyKeys.length === 0) return;
+
+      console.log(`Migration de ${legacyKeys.length} PDF du localStorage vers IndexedDB`);
+      for (const key of legacyKeys) {
+        const content = localStorage.getItem(key);
+        if (!content) continue;
+        try {
+          await writeEntry(key.substring(LEGACY_PREFIX.length), content, hashPdfContent(content));
+          localStorage.removeItem(key);
+        } catch (error) {
+          // L'entrée reste dans le localStorage et sera migrée au prochain chargement
+          console.error(`Erreur lors de la migration du PDF ${key}:`, error);
+        }
+      }
+      await evictLeastRecentlyUsed();
+    })();
+  }
+  return migrationPromise;
+};
+
+/**
+ * Récupère un PDF du cache
+ * @param path Chemin normalisé du fichier
+ * @returns Le contenu en base64 (data URL) ou null s'il n'est pas en cache
+ */
+export const getCachedPdf = async (path: string): Promise<string | null> => {
+  await migrateLegacyPdfs();
+  const db = await openDatabase();
+  const transaction = db.transaction([BLOBS_STORE, PATHS_STORE], 'readwrite');
+  const pathsStore = transaction.objectStore(PATHS_STORE);
+  const pathEntry = await requestResult<CachedPath | undefined>(pathsStore.get(path));
+  if (!pathEntry) return null;
+
+  const entry = await requestResult<CachedBlob | undefined>(transaction.objectStore(BLOBS_STORE).get(pathEntry.hash));
+  if (!entry) return null;
+
+  pathsStore.put({ ...pathEntry, size: pathEntry.size ?? entry.size, lastAccessedAt: new Date() });
+  await transactionDone(transaction);
+  return blobToDataUrl(entry.blob);
+};
+
+export const hasCachedPdf = async (path: string): Promise<boolean> => {
+  await migrateLegacyPdfs();
+  const db = await openDatabase();
+  const transaction = db.transaction(PATHS_STORE, 'readonly');
+  return (await requestResult(transaction.objectStore(PATHS_STORE).getKey(path))) !== undefined;
+};
+
+/**
+ * Ajoute un PDF au cache
+ * @param path Chemin normalisé du fichier
+ * @param content Contenu en base64 (data URL)
+ * @param hash Hash SHA-256 du contenu s'il est déjà calculé
+ * @param pinned true tant que le fichier n'a pas été envoyé sur Supabase (jamais supprimé automatiquement),
+ * false s'il a été lu ou envoyé sur Supabase ; absent, l'épinglage existant est conservé
+ */
+export const putCachedPdf = async (
+  path: string,
+  content: string,
+  hash: string = hashPdfContent(content),
+  pinned?: boolean
+): Promise<void> => {
+  await migrateLegacyPdfs();
+  await writeEntry(path, content, hash, pinned);
+  await evictLeastRecentlyUsed(hash);
+};
+
+/**
+ * Désépingle un chemin une fois son envoi sur Supabase confirmé ; il peut alors être supprimé du cache
+ * @param path Chemin normalisé du fichier
+ */
+export const unpinCachedPdf = async (path: string): Promise<void> => {
+  await migrateLegacyPdfs();
+  const db = await openDatabase();
+  const transaction = db.transaction(PATHS_STORE, 'readwrite');
+  const pathsStore = transaction.objectStore(PATHS_STORE);
+  const pathEntry = await requestResult<CachedPath | undefined>(pathsStore.get(path));
+  if (pathEntry?.pinned) {
+    pathsStore.put({ ...pathEntry, pinned: false });
+  }
+  await transactionDone(transaction);
+  await evictLeastRecentlyUsed();
+};
+
+/**
+ * Retire un chemin du cache ; le fichier est supprimé s'il n'est plus référencé
+ * @param path Chemin normalisé du fichier
+ */
+export const removeCachedPdf = async (path: string): Promise<void> => {
+  await migrateLegacyPdfs();
+  const db = await openDatabase();
+  const transaction = db.transaction([BLOBS_STORE, PATHS_STORE], 'readwrite');
+  const pathsStore = transaction.objectStore(PATHS_STORE);
+  const pathEntry = await requestResult<CachedPath | undefined>(pathsStore.get(path));
+  if (pathEntry) {
+    pathsStore.delete(path);
+    const paths = await requestResult<CachedPath[]>(pathsStore.getAll());
+    if (!paths.some(p => p.hash === pathEntry.hash && p.path !== path)) {
+      transaction.objectStore(BLOBS_STORE).delete(pathEntry.hash);
+    }
+  }
+  await transactionDone(transaction);
+};
+
+/**
+ * Liste le contenu du cache, du plus récemment utilisé au plus ancien
+ */
+export const listCachedPdfs = async (): Promise<PdfCacheEntry[]> => {
+  await migrateLegacyPdfs();
+  const db = await openDatabase();
+  const transaction = db.transaction([BLOBS_STORE, PATHS_STORE], 'readwrite');
+  const entries = await readPathEntries(transaction);
+  await transactionDone(transaction);
+  return entries.sort((a, b) => b.lastAccessedAt.getTime() - a.lastAccessedAt.getTime());
+};
+
+export const getCacheStats = async (): Promise<PdfCacheStats> => {
+  await migrateLegacyPdfs();
+  const db = await openDatabase();
+  const transaction = db.transaction([BLOBS_STORE, PATHS_STORE], 'readwrite');
+  const entries = await readPathEntries(transaction);
+  await transactionDone(transaction);
+  const files = summarizeFiles(entries);
+
+  return {
+    fileCount: files.length,
+    pathCount: entries.length,
+    pinnedCount: entries.filter(entry => entry.pinned).length,
+    totalSize: files.reduce((sum, file) => sum + file.size, 0),
+    limit: getCacheLimit(),
+  };
+};
+
+/**
+ * Vide le cache, sauf les fichiers épinglés qui n'existent pas encore sur Supabase
+ */
+export const clearPdfCache = async (): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([BLOBS_STORE, PATHS_STORE], 'readwrite');
+  const blobsStore = transaction.objectStore(BLOBS_STORE);
+  const pathsStore = transaction.objectStore(PATHS_STORE);
+  const files = summarizeFiles(await readPathEntries(transaction));
+  const pinnedHashes = new Set(files.filter(file => file.pinned).map(file => file.hash));
+
+  const paths = await requestResult<CachedPath[]>(pathsStore.getAll());
+  paths.filter(p => !p.pinned).forEach(p => pathsStore.delete(p.path));
+  const hashes = await requestResult<IDBValidKey[]>(blobsStore.getAllKeys());
+  hashes.filter(hash => !pinnedHashes.has(hash as string)).forEach(hash => blobsStore.delete(hash));
+  await transactionDone(transaction);
+  console.log(`Cache PDF vidé (${pinnedHashes.size} fichier(s) non envoyé(s) conservé(s))`);
+};
+
+/**
+ * Taille lisible en français (ex : 1,2 Mo)
+ */
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} o`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toLocaleString('fr-FR', { maximumFractionDigits: 1 })} Ko`;
+  return `${(bytes / (1024 * 1024)).toLocaleString('fr-FR', { maximumFractionDigits: 1 })} Mo`;
+};
@@ -1,10 +1,52 @@
-import { PDFDocument, rgb, StandardFonts } from 'pdf-lib';
-import { Tournament, Player, Coach, Template } from '../types';
+import { PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from 'pdf-lib';
+import { Tournament, Player, Coach, Template, AgeCategory } from '../types';
 import { getPdf, createPdfBlobUrl, storePdf } from './PdfStorage';
-import { generatePdf } from './PdfGenerator';
+import { generatePdf, PdfGenerationResult } from './PdfGenerator';
+import {
+  BatchGenerationContext,
+  BatchSheetFailure,
+  BatchSheetJob,
+  BatchSheetProgress,
+  generateBatchSheets,
+} from './BatchGenerationService';
+
+/**
+ * Convertit un PDF généré en data URI base64
+ */
+const toPdfDataUri = (pdfBytes: Uint8Array): string => {
+  const pdfBase64 = btoa(
+    Array.from(new Uint8Array(pdfBytes))
+      .map(byte => String.fromCharCode(byte))
+      .join('')
+  );
+  return `data:application/pdf;base64,${pdfBase64}`;
+};
+
+/**
+ * Télécharge un PDF de feuille de match déjà généré
+ * @param pdfBytes Contenu du PDF
+ * @param tournament Tournoi concerné, utilisé pour le nom du fichier
+ */
+export const downloadGeneratedPdf = (pdfBytes: Uint8Array, tournament: Tournament): void => {
+  const blobUrl = createPdfBlobUrl(toPdfDataUri(pdfBytes));
+  
+  // Téléchargement du fichier
+  const filename = `feuille_match_${tournament.location.replace(/\s+/g, '_')}_${tournament.date}.pdf`;
+  const a = document.createElement('a');
+  a.href = blobUrl;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  
+  // Nettoyage
+  document.body.removeChild(a);
+  URL.revokeObjectURL(blobUrl);
+};
 
 /**
  * Génère et télécharge un PDF rempli avec les données fournies
+ * @param categoryName Catégorie de la feuille (M6, M10...)
+ * @returns Le PDF généré et son rapport de remplissage
  */
 export const generateAndDownloadMatchSheet = async (
   templateId: string,
@@ -14,8 +56,9 @@ export const generateAndDownloadMatchSheet = async (
   referentCoachId: string,
   template: Template,
   tournament: Tournament,
-  previewOnly: boolean = false
-): Promise<Uint8Array> => {
+  previewOnly: boolean = false,
+  categoryName?: string
+): Promise<PdfGenerationResult> => {
   try {
     console.log("Génération d'une feuille de match pour téléchargement avec les données suivantes:");
     console.log("- Template:", template.name);
@@ -24,52 +67,28 @@ export const generateAndDownloadMatchSheet = async (
     console.log("- Nombre d'entraîneurs:", coaches.length);
     
     // Génération du PDF
-    const pdfBytes = await generatePdf({
+    const result = await generatePdf({
       templateId,
       tournamentId,
       players,
       coaches,
       referentCoachId,
       template,
-      tournament
+      tournament,
+      categoryName
     });
     
     // If preview only, return the PDF bytes
     if (previewOnly) {
       console.log("Mode prévisualisation uniquement, retour des données PDF");
-      return pdfBytes;
+      return result;
     }
     
-    // Conversion en Base64
-    const pdfBase64 = btoa(
-      Array.from(new Uint8Array(pdfBytes))
-        .map(byte => String.fromCharCode(byte))
-        .join('')
-    );
-    
-    // Création d'une URL de blob
-    const pdfDataUri = `data:application/pdf;base64,${pdfBase64}`;
-    
-    // Nettoyer les champs du formulaire avant de créer le blob
-    const cleanedPdfDataUri = await cleanPdfFormFields(pdfDataUri);
-    
-    const blobUrl = createPdfBlobUrl(pdfDataUri);
-    
-    // Téléchargement du fichier
-    const filename = `feuille_match_${tournament.location.replace(/\s+/g, '_')}_${tournament.date}.pdf`;
-    const a = document.createElement('a');
-    a.href = blobUrl;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    
-    // Nettoyage
-    document.body.removeChild(a);
-    URL.revokeObjectURL(blobUrl);
+    downloadGeneratedPdf(result.pdfBytes, tournament);
     
     console.log("PDF généré et téléchargé avec succès");
     
-    return pdfBytes;
+    return result;
   } catch (error) {
     console.error('Erreur lors de la génération du PDF:', error);
     throw error;
@@ -78,7 +97,8 @@ export const generateAndDownloadMatchSheet = async (
 
 /**
  * Génère un PDF pour une feuille de match et le stocke dans Supabase
- * @returns Le nom du fichier généré
+ * @param categoryName Catégorie de la feuille (M6, M10...)
+ * @returns Le nom du fichier généré, le PDF et son rapport de remplissage
  */
 export const generateAndStorePdf = async (
   templateId: string,
@@ -87,8 +107,9 @@ export const generateAndStorePdf = async (
   coaches: Coach[],
   referentCoachId: string,
   template: Template,
-  tournament: Tournament
-): Promise<string> => {
+  tournament: Tournament,
+  categoryName?: string
+): Promise<PdfGenerationResult & { filename: string }> => {
   try {
     console.log("Début de la génération du PDF pour stockage...");
     console.log("- Template:", template.name);
@@ -97,23 +118,18 @@ export const generateAndStorePdf = async (
     console.log("- Nombre d'entraîneurs:", coaches.length);
     
     // Génération du PDF
-    const pdfBytes = await generatePdf({
+    const { pdfBytes, report } = await generatePdf({
       templateId,
       tournamentId,
       players,
       coaches,
       referentCoachId,
       template,
-      tournament
+      tournament,
+      categoryName
     });
     
     console.log("PDF généré avec succès, conversion en Base64...");
-    // Conversion en Base64
-    const pdfBase64 = btoa(
-      Array.from(new Uint8Array(pdfBytes))
-        .map(byte => String.fromCharCode(byte))
-        .join('')
-    );
     
     // Créer un nom de fichier unique
     const timestamp = Date.now();
@@ -121,14 +137,234 @@ export const generateAndStorePdf = async (
     
     console.log(`Stockage du PDF généré sous: ${filename}`);
     // Stocker le PDF dans Supabase
-    const pdfDataUri = `data:application/pdf;base64,${pdfBase64}`;
-    await storePdf(filename, pdfDataUri, true);
+    await storePdf(filename, toPdfDataUri(pdfBytes), true);
     
     console.log(`PDF généré et stocké avec succès: ${filename}`);
     
-    return filename;
+    return { filename, pdfBytes, report };
   } catch (error) {
     console.error('Erreur lors de la génération et du stockage du PDF:', error);
     throw error;
   }
+};
+
+/**
+ * Dossier tournoi : un seul PDF par club pour les organisateurs
+ * - page de garde : club, date, lieu, catégories et éducateurs référents avec leur téléphone
+ * - feuilles de match remplies de chaque catégorie
+ * - récapitulatif des licences des joueurs et éducateurs engagés
+ */
+
+export interface TournamentPackResult {
+  pdfBytes: Uint8Array;
+  generatedCount: number;
+  failedSheets: BatchSheetFailure[];
+}
+
+interface PackColumn {
+  title: string;
+  width: number;
+}
+
+interface PackCursor {
+  page: PDFPage;
+  y: number;
+}
+
+const PACK_CLUB_NAME = 'US Nantua Rugby';
+const PACK_PAGE_SIZE: [number, number] = [595.28, 841.89]; // A4 portrait
+const PACK_MARGIN = 50;
+const PACK_ROW_HEIGHT = 16;
+const PACK_TEXT_SIZE = 9;
+
+const REFERENT_COLUMNS: PackColumn[] = [
+  { title: 'Catégorie', width: 130 },
+  { title: 'Éducateur référent', width: 170 },
+  { title: 'Téléphone', width: 120 },
+  { title: 'Joueurs', width: 75 },
+];
+
+const LICENCE_COLUMNS: PackColumn[] = [
+  { title: 'Catégorie', width: 110 },
+  { title: 'Nom', width: 110 },
+  { title: 'Prénom', width: 100 },
+  { title: 'Licence', width: 95 },
+  { title: 'Rôle', width: 80 },
+];
+
+/**
+ * Nom du fichier du dossier tournoi
+ */
+export const getTournamentPackFileName = (tournament: Tournament): string =>
+  `dossier_tournoi_${tournament.location.replace(/\s+/g, '_')}_${tournament.date}.pdf`;
+
+/**
+ * Prépare l'écriture du dossier : polices, filtrage des caractères hors WinAnsi et saut de page automatique
+ */
+const createPackWriter = async (pdfDoc: PDFDocument) => {
+  const regular = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const bold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const supported = new Set(regular.getCharacterSet());
+
+  // Les polices standard ne couvrent que WinAnsi : les autres caractères feraient échouer le dessin,
+  // ils sont remplacés par leur lettre de base quand elle existe (ș → s) ou retirés
+  const isSupported = (char: string) => supported.has(char.codePointAt(0) as number);
+  const clean = (text: string) => Array.from(text)
+    .map(char => isSupported(char) ? char : Array.from(char.normalize('NFD')).filter(isSupported).join(''))
+    .join('');
+
+  const fit = (text: string, font: PDFFont, size: number, maxWidth: number) => {
+    let fitted = clean(text);
+    if (font.widthOfTextAtSize(fitted, size) <= maxWidth) return fitted;
+    while (fitted.length > 0 && font.widthOfTextAtSize(`${fitted}…`, size) > maxWidth) {
+      fitted = fitted.slice(0, -1);
+    }
+    return `${fitted}…`;
+  };
+
+  const newPage = (): PackCursor => ({ page: pdfDoc.addPage(PACK_PAGE_SIZE), y: PACK_PAGE_SIZE[1] - PACK_MARGIN });
+
+  const text = (cursor: PackCursor, value: string, options: { size?: number; bold?: boolean; gap?: number } = {}) => {
+    const size = options.size ?? 11;
+    const font = options.bold ? bold : regular;
+    if (cursor.y - size - (options.gap ?? 6) < PACK_MARGIN) {
+      Object.assign(cursor, newPage());
+    }
+    cursor.y -= size + (options.gap ?? 6);
+    cursor.page.drawText(fit(value, font, size, PACK_PAGE_SIZE[0] - 2 * PACK_MARGIN), {
+      x: PACK_MARGIN,
+      y: cursor.y,
+      size,
+      font,
+      color: rgb(0.1, 0.1, 0.1),
+    });
+  };
+
+  const drawRow = (cursor: PackCursor, cells: string[], columns: PackColumn[], header: boolean) => {
+    let x = PACK_MARGIN;
+    cursor.y -= PACK_ROW_HEIGHT;
+    if (header) {
+      const width = columns.reduce((total, column) => total + column.width, 0);
+      cursor.page.drawRectangle({ x, y: cursor.y - 4, width, height: PACK_ROW_HEIGHT, color: rgb(0.9, 0.92, 0.96) });
+    }
+    columns.forEach((column, index) => {
+      const font = header ? bold : regular;
+      cursor.page.drawText(fit(cells[index] || '', font, PACK_TEXT_SIZE, column.width - 6), {
+        x: x + 3,
+        y: cursor.y,
+        size: PACK_TEXT_SIZE,
+        font,
+        color: rgb(0.1, 0.1, 0.1),
+      });
+      x += column.width;
+    });
+  };
+
+  // Tableau avec en-tête répété sur chaque nouvelle page
+  const table = (cursor: PackCursor, columns: PackColumn[], rows: string[][]): PackCursor => {
+    let current = cursor;
+    drawRow(current, columns.map(column => column.title), columns, true);
+    rows.forEach(row => {
+      if (current.y - PACK_ROW_HEIGHT < PACK_MARGIN) {
+        current = newPage();
+        drawRow(current, columns.map(column => column.title), columns, true);
+      }
+      drawRow(current, row, columns, false);
+    });
+    return current;
+  };
+
+  return { newPage, text, table };
+};
+
+/**
+ * Génère le dossier tournoi d'un club
+ * Les feuilles en erreur sont signalées sur la page de garde sans interrompre la génération
+ * @param jobs Feuilles du tournoi, dans l'ordre des catégories (voir getBatchSheetJobs)
+ * @param context Tournoi, effectif et résolution du modèle de chaque feuille
+ * @param ageCategories Catégories d'âge, pour les libellés de la page de garde
+ * @param onProgress Appelé à chaque changement d'état d'une feuille
+ * @returns Le PDF du dossier et les feuilles qui n'ont pas pu être générées
+ */
+export const generateTournamentPack = async (
+  jobs: BatchSheetJob[],
+  context: BatchGenerationContext,
+  ageCategories: AgeCategory[],
+  onProgress?: (matchSheetId: string, progress: BatchSheetProgress) => void
+): Promise<TournamentPackResult> => {
+  const { tournament } = context;
+  const sheetsDoc = await PDFDocument.create();
+
+  // Feuilles de match, générées avant la page de garde pour pouvoir y signaler les erreurs
+  const { generatedCount, failedSheets } = await generateBatchSheets(jobs, context, async (_job, pdfBytes) => {
+    const sheetPdf = await PDFDocument.load(pdfBytes);
+    const pages = await sheetsDoc.copyPages(sheetPdf, sheetPdf.getPageIndices());
+    pages.forEach(page => sheetsDoc.addPage(page));
+  }, onProgress);
+
+  const packDoc = await PDFDocument.create();
+  packDoc.setTitle(`Dossier tournoi - ${tournament.location} - ${tournament.date}`);
+  const writer = await createPackWriter(packDoc);
+
+  // Page de garde
+  let cursor = writer.newPage();
+  writer.text(cursor, 'Dossier tournoi', { size: 22, bold: true, gap: 0 });
+  writer.text(cursor, PACK_CLUB_NAME, { size: 16, bold: true, gap: 14 });
+  writer.text(cursor, `Tournoi : ${tournament.location}`, { gap: 18 });
+  writer.text(cursor, `Date : ${new Date(tournament.date).toLocaleDateString('fr-FR', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  })}`);
+  writer.text(cursor, `Catégories : ${tournament.ageCategoryIds
+    .map(id => ageCategories.find(category => category.id === id)?.name)
+    .filter(Boolean)
+    .join(', ') || '-'}`);
+
+  writer.text(cursor, 'Éducateurs référents', { size: 13, bold: true, gap: 24 });
+  cursor = writer.table(cursor, REFERENT_COLUMNS, jobs.map(job => {
+    const referent = context.coaches.find(coach => coach.id === job.matchSheet.referentCoachId);
+    return [
+      job.label,
+      referent ? `${referent.firstName} ${referent.lastName}` : 'Non désigné',
+      referent?.phone || '-',
+      String(job.matchSheet.playerIds.length),
+    ];
+  }));
+
+  if (failedSheets.length > 0) {
+    writer.text(cursor, 'Feuilles non incluses dans ce dossier', { size: 11, bold: true, gap: 18 });
+    failedSheets.forEach(sheet => writer.text(cursor, `${sheet.label} : ${sheet.error}`, { size: 10, gap: 4 }));
+  }
+
+  // Feuilles de match
+  const sheetPages = await packDoc.copyPages(sheetsDoc, sheetsDoc.getPageIndices());
+  sheetPages.forEach(page => packDoc.addPage(page));
+
+  // Récapitulatif des licences
+  cursor = writer.newPage();
+  writer.text(cursor, 'Récapitulatif des licences', { size: 16, bold: true, gap: 0 });
+  writer.text(cursor, `${tournament.location} - ${new Date(tournament.date).toLocaleDateString('fr-FR')}`, { size: 10, gap: 6 });
+  cursor.y -= 8;
+  const byName = (a: Player | Coach, b: Player | Coach) =>
+    a.lastName.localeCompare(b.lastName, 'fr-FR') || a.firstName.localeCompare(b.firstName, 'fr-FR');
+  writer.table(cursor, LICENCE_COLUMNS, jobs.flatMap(job => [
+    ...context.players
+      .filter(p => job.matchSheet.playerIds.includes(p.id))
+      .sort(byName)
+      .map(player => [job.label, player.lastName, player.firstName, player.licenseNumber || '-', 'Joueur']),
+    ...context.coaches
+      .filter(c => job.matchSheet.coachIds.includes(c.id))
+      .sort(byName)
+      .map(coach => [
+        job.label,
+        coach.lastName,
+        coach.firstName,
+        coach.licenseNumber || '-',
+        coach.id === job.matchSheet.referentCoachId ? 'Référent' : 'Éducateur',
+      ]),
+  ]));
+
+  return { pdfBytes: await packDoc.save(), generatedCount, failedSheets };
 };
\ No newline at end of file
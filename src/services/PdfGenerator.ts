@@ -1,7 +1,8 @@
-import { PDFDocument, rgb, StandardFonts, PDFForm, PDFTextField, PDFCheckBox } from 'pdf-lib';
-import { Tournament, Player, Coach, Template, PdfFieldMapping } from '../types';
+import { PDFDocument, rgb, StandardFonts, PDFForm, PDFFont, PDFTextField, PDFCheckBox } from 'pdf-lib';
+import { Tournament, Player, Coach, Template, PdfFieldMapping, PdfOverlayLayout, PdfRowTemplate } from '../types';
 import { getPdf } from './PdfStorage';
 import { cleanPdfFormFields } from './PdfStorage';
+import { applyFormat, FormatResolver, isTruthyValue, valueToText } from './ValueFormatter';
 
 interface GeneratePdfOptions {
   templateId: string;
@@ -11,14 +12,21 @@ interface GeneratePdfOptions {
   referentCoachId: string;
   template: Template;
   tournament: Tournament;
+  categoryName?: string; // Catégorie de la feuille (M6, M10...), M14 par défaut
 }
 
-interface PdfData {
+export interface PdfData {
   nom_manifestation?: string;
   date_manifestation?: string;
   lieu_manifestation?: string;
   categorie?: string;
   club?: string;
+  referent?: {
+    nom: string;
+    prenom: string;
+    licence: string;
+    diplome?: string;
+  };
   joueurs: {
     nom: string;
     prenom: string;
@@ -35,13 +43,85 @@ interface PdfData {
   }[];
 }
 
+// Données pouvant être associées à un champ du PDF
+export const PDF_DATA_PATHS: { type: 'global' | 'joueur' | 'educateur'; mapping: string; label: string }[] = [
+  { type: 'global', mapping: 'nom_manifestation', label: 'Nom de la manifestation' },
+  { type: 'global', mapping: 'date_manifestation', label: 'Date de la manifestation' },
+  { type: 'global', mapping: 'lieu_manifestation', label: 'Lieu de la manifestation' },
+  { type: 'global', mapping: 'categorie', label: 'Catégorie' },
+  { type: 'global', mapping: 'club', label: 'Club' },
+  { type: 'global', mapping: 'referent.nom', label: 'Éducateur référent : nom' },
+  { type: 'global', mapping: 'referent.prenom', label: 'Éducateur référent : prénom' },
+  { type: 'global', mapping: 'referent.licence', label: 'Éducateur référent : licence' },
+  { type: 'global', mapping: 'referent.diplome', label: 'Éducateur référent : diplôme' },
+  { type: 'joueur', mapping: 'joueur.nom', label: 'Nom' },
+  { type: 'joueur', mapping: 'joueur.prenom', label: 'Prénom' },
+  { type: 'joueur', mapping: 'joueur.licence', label: 'Licence' },
+  { type: 'joueur', mapping: 'joueur.est_avant', label: 'Peut jouer avant' },
+  { type: 'joueur', mapping: 'joueur.est_arbitre', label: 'Peut arbitrer' },
+  { type: 'educateur', mapping: 'educateur.nom', label: 'Nom' },
+  { type: 'educateur', mapping: 'educateur.prenom', label: 'Prénom' },
+  { type: 'educateur', mapping: 'educateur.licence', label: 'Licence' },
+  { type: 'educateur', mapping: 'educateur.diplome', label: 'Diplôme' },
+  { type: 'educateur', mapping: 'educateur.est_referent', label: 'Est référent' },
+];
+
+/**
+ * Prépare les données insérées dans le PDF
+ * @param players Joueurs sélectionnés
+ * @param coaches Éducateurs sélectionnés
+ * @param referentCoachId ID de l'éducateur référent
+ * @param tournament Tournoi concerné
+ * @param categoryName Catégorie de la feuille
+ * @returns Données au format attendu par les mappings
+ */
+export const buildPdfData = (
+  players: Player[],
+  coaches: Coach[],
+  referentCoachId: string,
+  tournament: Tournament,
+  categoryName?: string
+): PdfData => {
+  const referent = coaches.find(coach => coach.id === referentCoachId);
+
+  return {
+    nom_manifestation: tournament.location,
+    date_manifestation: new Date(tournament.date).toLocaleDateString('fr-FR'),
+    lieu_manifestation: tournament.location,
+    categorie: categoryName || 'M14', // Ideally this should come from the age category
+    club: 'US Nantua Rugby',
+    referent: referent && {
+      nom: referent.lastName,
+      prenom: referent.firstName,
+      licence: referent.licenseNumber || '',
+      diplome: referent.diploma
+    },
+    joueurs: players.map(player => ({
+      nom: player.lastName,
+      prenom: player.firstName,
+      licence: player.licenseNumber,
+      est_avant: player.canPlayForward,
+      est_arbitre: player.canReferee
+    })),
+    educateurs: coaches.map(coach => ({
+      nom: coach.lastName,
+      prenom: coach.firstName,
+      licence: coach.licenseNumber || '',
+      diplome: coach.diploma,
+      est_referent: coach.id === referentCoachId
+    }))
+  };
+};
+
 /**
  * Génère un PDF rempli avec les données fournies
+ * Quand le modèle déclare un nombre de lignes joueur inférieur à l'effectif, des pages de suite
+ * reprenant la page des joueurs sont ajoutées ; les champs globaux et éducateurs restent sur la première page
  * @param options Options pour la génération du PDF
- * @returns PDF généré au format Uint8Array
+ * @returns PDF généré au format Uint8Array et rapport de remplissage
  */
-export const generatePdf = async (options: GeneratePdfOptions): Promise<Uint8Array> => {
-  const { templateId, players, coaches, referentCoachId, template, tournament } = options;
+export const generatePdf = async (options: GeneratePdfOptions): Promise<PdfGenerationResult> => {
+  const { templateId, players, coaches, referentCoachId, template, tournament, categoryName } = options;
 
   // Extraction du nom du fichier à partir de l'URL du template
   const templateFileName = template.fileUrl.split('/').pop();
@@ -63,9 +143,97 @@ export const generatePdf = async (options: GeneratePdfOptions): Promise<Uint8Arr
   const base64Data = pdfContent.includes('base64,') ? pdfContent.split(',')[1] : pdfContent;
   const pdfBytes = Uint8Array.from(atob(base64Data), c => c.charCodeAt(0));
 
+  // Préparation des données à insérer dans le PDF
+  const data = buildPdfData(players, coaches, referentCoachId, tournament, categoryName);
+
+  console.log("Données préparées pour le remplissage du PDF:", JSON.stringify(data, null, 2));
+
+  // Découpage des joueurs selon le nombre de lignes déclaré par le modèle
+  const capacity = getDeclaredRowCapacity(template, 'joueur');
+  const playerChunks: PdfData['joueurs'][] = [];
+  if (capacity && data.joueurs.length > capacity) {
+    for (let start = 0; start < data.joueurs.length; start += capacity) {
+      playerChunks.push(data.joueurs.slice(start, start + capacity));
+    }
+  } else {
+    playerChunks.push(data.joueurs);
+  }
+
   // Chargement du PDF
   const pdfDoc = await PDFDocument.load(pdfBytes);
+  const playerPageIndexes = findRowPageIndexes(pdfDoc, template, 'joueur');
+  const report = await fillTemplateDocument(pdfDoc, { ...data, joueurs: playerChunks[0] }, template);
+  report.continuationPages = playerChunks.length - 1;
+
+  if (playerChunks.length > 1) {
+    console.log(`${data.joueurs.length} joueurs pour ${capacity} lignes : ajout de ${playerChunks.length - 1} page(s) de suite`);
+
+    // Les pages de suite ne reprennent que les lignes joueur
+    const rowsOnlyTemplate: Template = {
+      ...template,
+      fieldMappings: (template.fieldMappings || []).filter(mapping => mapping.type === 'joueur'),
+      overlayLayout: template.overlayLayout && {
+        zones: [],
+        tableaux: template.overlayLayout.tableaux.filter(table => table.type === 'joueur'),
+      },
+    };
+
+    const pageGroups: number[][] = [playerPageIndexes];
+    let insertAt = Math.max(...playerPageIndexes) + 1;
+
+    for (let chunk = 1; chunk < playerChunks.length; chunk++) {
+      // Chaque page de suite est remplie dans son propre exemplaire du modèle, puis aplatie :
+      // les noms de champs ne peuvent pas entrer en conflit avec ceux de la première page
+      const continuationDoc = await PDFDocument.load(pdfBytes);
+      const continuationReport = await fillTemplateDocument(
+        continuationDoc,
+        { ...data, joueurs: playerChunks[chunk] },
+        rowsOnlyTemplate,
+        true
+      );
+      const label = `suite ${chunk}`;
+      report.filled.push(...continuationReport.filled.map(field => ({ ...field, champ_pdf: `${field.champ_pdf} (${label})` })));
+      report.emptyRequired.push(
+        ...continuationReport.emptyRequired.map(field => ({ ...field, champ_pdf: `${field.champ_pdf} (${label})` }))
+      );
+      report.truncated.push(...continuationReport.truncated.map(field => ({ ...field, champ_pdf: `${field.champ_pdf} (${label})` })));
+
+      const copiedPages = await pdfDoc.copyPages(continuationDoc, playerPageIndexes);
+      const group: number[] = [];
+      copiedPages.forEach(page => {
+        pdfDoc.insertPage(insertAt, page);
+        group.push(insertAt);
+        insertAt++;
+      });
+      pageGroups.push(group);
+    }
+
+    await numberPageGroups(pdfDoc, pageGroups);
+  }
+
+  // Enregistrement du PDF modifié
+  console.log("Enregistrement du PDF modifié...");
+  const modifiedPdfBytes = await pdfDoc.save();
+  console.log("PDF modifié enregistré avec succès.");
   
+  return { pdfBytes: modifiedPdfBytes, report };
+};
+
+/**
+ * Remplit un exemplaire du modèle : champs de formulaire puis zones de texte
+ * Le formulaire est aplati après remplissage
+ * @param pdfDoc Exemplaire du modèle
+ * @param data Données à insérer
+ * @param template Modèle utilisé
+ * @param continuation true pour une page de suite, sans remplissage automatique des champs non mappés
+ * @returns Le rapport de remplissage de cet exemplaire
+ */
+const fillTemplateDocument = async (
+  pdfDoc: PDFDocument,
+  data: PdfData,
+  template: Template,
+  continuation = false
+): Promise<PdfGenerationReport> => {
   // Vérifier si le PDF a un formulaire
   const form = pdfDoc.getForm();
   const fields = form.getFields();
@@ -77,36 +245,23 @@ export const generatePdf = async (options: GeneratePdfOptions): Promise<Uint8Arr
   fields.forEach(field => {
     console.log(`- ${field.getName()} (${field.constructor.name})`);
   });
-  
-  // Préparation des données à insérer dans le PDF
-  const data: PdfData = {
-    nom_manifestation: tournament.location,
-    date_manifestation: new Date(tournament.date).toLocaleDateString('fr-FR'),
-    lieu_manifestation: tournament.location,
-    categorie: 'M14', // Ideally this should come from the age category
-    club: 'US Nantua Rugby',
-    joueurs: players.map(player => ({
-      nom: player.lastName,
-      prenom: player.firstName,
-      licence: player.licenseNumber,
-      est_avant: player.canPlayForward,
-      est_arbitre: player.canReferee
-    })),
-    educateurs: coaches.map(coach => ({
-      nom: coach.lastName,
-      prenom: coach.firstName,
-      licence: coach.licenseNumber || '',
-      diplome: coach.diploma,
-      est_referent: coach.id === referentCoachId
-    }))
-  };
 
-  console.log("Données préparées pour le remplissage du PDF:", JSON.stringify(data, null, 2));
+  // Contrôles faits avant l'aplatissement, qui supprime les champs du formulaire
+  const report: PdfGenerationReport = {
+    filled: [],
+    truncated: [],
+    ...checkMappings(new Set(fields.map(field => field.getName())), data, template),
+    continuationPages: 0,
+  };
 
-  if (fields.length > 0) {
+  const fieldMappings = template.fieldMappings || [];
+  if (fields.length > 0 && (fieldMappings.length > 0 || !continuation)) {
     console.log("PDF avec formulaire détecté, remplissage des champs...");
     
-    fillFormFields(form, data, template.fieldMappings || []);
+    const filledFields = fillFormFields(form, data, fieldMappings);
+    report.filled.push(...filledFields);
+    report.truncated.push(...filledFields.filter(field => isTextFieldClipped(form, field.champ_pdf)));
+    console.log(`${filledFields.length} champ(s) rempli(s):`, filledFields.map(field => field.champ_pdf));
     
     // Vérification post-remplissage
     console.log("Vérification des champs après remplissage:");
@@ -120,7 +275,9 @@ export const generatePdf = async (options: GeneratePdfOptions): Promise<Uint8Arr
         }
       }
     });
-    
+  }
+
+  if (fields.length > 0) {
     // Aplatir le formulaire pour rendre les modifications permanentes
     try {
       console.log("Aplatissement du formulaire PDF...");
@@ -131,12 +288,374 @@ export const generatePdf = async (options: GeneratePdfOptions): Promise<Uint8Arr
     }
   }
 
-  // Enregistrement du PDF modifié
-  console.log("Enregistrement du PDF modifié...");
-  const modifiedPdfBytes = await pdfDoc.save();
-  console.log("PDF modifié enregistré avec succès.");
-  
-  return modifiedPdfBytes;
+  // Modèles sans formulaire (scannés ou aplatis) : le texte est dessiné aux coordonnées définies
+  const overlay = template.overlayLayout;
+  if (overlay && (overlay.zones.length > 0 || overlay.tableaux.length > 0)) {
+    const { drawn, truncated } = await drawOverlay(pdfDoc, data, overlay);
+    report.filled.push(...drawn);
+    report.truncated.push(...truncated);
+    console.log(`${drawn.length} zone(s) de texte dessinée(s)`);
+  } else if (fields.length === 0) {
+    console.warn("Le modèle ne contient ni champ de formulaire ni zone de texte : aucune donnée n'a été insérée");
+    report.warnings.push('Le modèle ne contient ni champ de formulaire ni zone de texte : aucune donnée n\'a été insérée.');
+  }
+
+  return report;
+};
+
+/**
+ * Nombre de lignes déclaré par le modèle pour les joueurs ou les éducateurs
+ * @returns Le plus petit nombre de lignes des mappings et tableaux concernés,
+ * ou undefined si l'un d'eux n'a pas de limite déclarée
+ */
+export const getDeclaredRowCapacity = (template: Template, type: 'joueur' | 'educateur'): number | undefined => {
+  const capacities = [
+    ...(template.fieldMappings || [])
+      .filter(mapping => mapping.type === type)
+      .map(mapping => resolveRowTemplate(mapping).ligne.nombre_lignes),
+    ...(template.overlayLayout?.tableaux || [])
+      .filter(table => table.type === type)
+      .map(table => table.nombre_lignes),
+  ];
+
+  if (capacities.length === 0 || capacities.some(capacity => capacity === undefined || capacity < 1)) {
+    return undefined;
+  }
+  return Math.min(...(capacities as number[]));
+};
+
+/**
+ * Pages du modèle contenant les lignes joueur ou éducateur
+ * @returns Les index des pages, la première page si aucune n'est trouvée
+ */
+export const findRowPageIndexes = (pdfDoc: PDFDocument, template: Template, type: 'joueur' | 'educateur'): number[] => {
+  const pages = pdfDoc.getPages();
+  const form = pdfDoc.getForm();
+  const indexes = new Set<number>();
+
+  (template.fieldMappings || [])
+    .filter(mapping => mapping.type === type)
+    .forEach(mapping => {
+      getRowFieldNames(mapping, resolveRowTemplate(mapping).ligne.nombre_lignes ?? 1).forEach(fieldName => {
+        const field = form.getFieldMaybe(fieldName);
+        field?.acroField.getWidgets().forEach(widget => {
+          const widgetRef = pdfDoc.context.getObjectRef(widget.dict);
+          const pageIndex = pages.findIndex(page =>
+            page.ref === widget.P() || (!!widgetRef && !!page.node.Annots()?.asArray().includes(widgetRef))
+          );
+          if (pageIndex !== -1) indexes.add(pageIndex);
+        });
+      });
+    });
+
+  (template.overlayLayout?.tableaux || [])
+    .filter(table => table.type === type && table.page <= pages.length)
+    .forEach(table => indexes.add(table.page - 1));
+
+  return indexes.size > 0 ? Array.from(indexes).sort((a, b) => a - b) : [0];
+};
+
+/**
+ * Numérote les pages de joueurs (page 1/n, page 2/n...) en bas à droite
+ * @param pdfDoc Document généré
+ * @param pageGroups Index des pages de chaque exemplaire, dans l'ordre
+ */
+const numberPageGroups = async (pdfDoc: PDFDocument, pageGroups: number[][]) => {
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const pages = pdfDoc.getPages();
+  const size = 9;
+
+  pageGroups.forEach((group, groupIndex) => {
+    const label = `page ${groupIndex + 1}/${pageGroups.length}`;
+    group.forEach(pageIndex => {
+      const page = pages[pageIndex];
+      const { width } = page.getSize();
+      page.drawText(label, {
+        x: width - font.widthOfTextAtSize(label, size) - 20,
+        y: 15,
+        size,
+        font,
+        color: rgb(0, 0, 0),
+      });
+    });
+  });
+};
+
+// Marqueur du numéro de ligne dans le nom d'un champ répété
+const ROW_INDEX_MARKER = '{i}';
+
+// Noms de propriétés acceptés dans les correspondances des lignes joueur et éducateur
+const ROW_PROPERTY_ALIASES: Record<string, string> = {
+  avant: 'est_avant',
+  estavant: 'est_avant',
+  peutjoueravant: 'est_avant',
+  arbitre: 'est_arbitre',
+  estarbitre: 'est_arbitre',
+  peutarbitrer: 'est_arbitre',
+  referent: 'est_referent',
+  estreferent: 'est_referent',
+  // Noms proposés par l'analyse des modèles (ex: joueur.nom_famille, joueur.numero_licence)
+  nomfamille: 'nom',
+  lastname: 'nom',
+  firstname: 'prenom',
+  numerolicence: 'licence',
+  license: 'licence',
+  diploma: 'diplome',
+};
+
+/**
+ * Normalise un nom pour comparer des champs sans tenir compte de la casse, des accents ni des séparateurs
+ */
+const normalizeName = (name: string): string =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Modèle de ligne d'un mapping joueur ou éducateur
+ * Les mappings enregistrés avant l'introduction des modèles utilisaient n, [n] ou {n} dans le nom du champ :
+ * ils sont convertis en modèle {i} commençant à 1
+ * @param mapping Mapping du champ
+ * @returns Le nom de champ avec {i} et le modèle de ligne
+ */
+export const resolveRowTemplate = (mapping: PdfFieldMapping): { pattern: string; ligne: PdfRowTemplate } => {
+  const ligne = mapping.ligne ?? { index_depart: 1 };
+  if (mapping.champ_pdf.includes(ROW_INDEX_MARKER)) {
+    return { pattern: mapping.champ_pdf, ligne };
+  }
+
+  let pattern = mapping.champ_pdf;
+  if (/\[n\]/.test(pattern)) pattern = pattern.replace(/\[n\]/, `[${ROW_INDEX_MARKER}]`);
+  else if (/\{n\}/.test(pattern)) pattern = pattern.replace(/\{n\}/, ROW_INDEX_MARKER);
+  else if (/_n$/.test(pattern)) pattern = pattern.replace(/_n$/, `_${ROW_INDEX_MARKER}`);
+  else pattern = `${pattern}${ROW_INDEX_MARKER}`;
+
+  return { pattern, ligne };
+};
+
+/**
+ * Noms des champs PDF d'un mapping répété, dans l'ordre des lignes
+ * @param mapping Mapping joueur ou éducateur
+ * @param count Nombre de lignes à remplir
+ * @returns Un nom de champ par ligne, limité au nombre de lignes du modèle
+ */
+export const getRowFieldNames = (mapping: PdfFieldMapping, count: number): string[] => {
+  const { pattern, ligne } = resolveRowTemplate(mapping);
+  const rowCount = ligne.nombre_lignes !== undefined ? Math.min(count, ligne.nombre_lignes) : count;
+
+  return Array.from({ length: rowCount }, (_, row) => {
+    const explicitName = ligne.champs_par_ligne?.[row]?.trim();
+    return explicitName || pattern.split(ROW_INDEX_MARKER).join(String(ligne.index_depart + row));
+  });
+};
+
+const ROW_PROPERTIES = new Set(['nom', 'prenom', 'licence', 'diplome']);
+
+/**
+ * Propriété d'une ligne reconnue dans une correspondance, undefined si aucune donnée ne correspond
+ * Seuls les noms exacts sont reconnus : les autres sont signalés comme correspondances inconnues
+ */
+const resolveRowProperty = (mapping: string): string | undefined => {
+  const property = normalizeName(mapping.split('.').pop() || '');
+  if (ROW_PROPERTY_ALIASES[property]) return ROW_PROPERTY_ALIASES[property];
+  if (ROW_PROPERTIES.has(property)) return property;
+  return undefined;
+};
+
+/**
+ * Propriété d'une ligne désignée par une correspondance (ex: joueur.nom, educateur.diplôme, joueur.nom_famille)
+ */
+export const getRowProperty = (mapping: string): string =>
+  resolveRowProperty(mapping) ?? normalizeName(mapping.split('.').pop() || '');
+
+const GLOBAL_DATA_PATHS = new Set(PDF_DATA_PATHS.filter(path => path.type === 'global').map(path => path.mapping));
+
+/**
+ * Lecture des données utilisées par le format d'un mapping
+ * Dans une ligne, {nom} ou {joueur.nom} désignent la ligne ; les autres chemins les données globales
+ */
+const createFormatResolver = (data: PdfData, row?: Record<string, unknown>): FormatResolver => path => {
+  if (row && (!path.includes('.') || /^(joueur|educateur)\./.test(path))) {
+    return row[getRowProperty(path)];
+  }
+  return getValueFromMapping(path, data);
+};
+
+/**
+ * Valeur destinée à un champ du PDF
+ */
+export interface FilledField {
+  champ_pdf: string;
+  mapping: string;
+  valeur: string | boolean;
+}
+
+/**
+ * Calcule les valeurs à écrire dans chaque champ d'après les mappings, sans modifier le PDF
+ * Utilisé pour la génération comme pour l'aperçu des modèles
+ * @param data Données à insérer
+ * @param fieldMappings Mappings des champs
+ * @returns Un élément par champ à remplir, dans l'ordre des mappings
+ */
+export const resolveFieldValues = (data: PdfData, fieldMappings: PdfFieldMapping[]): FilledField[] => {
+  const values: FilledField[] = [];
+  const addValue = (fieldName: string, mapping: string, value: unknown) => {
+    if (value === null || value === undefined || typeof value === 'object') return;
+    values.push({ champ_pdf: fieldName, mapping, valeur: typeof value === 'boolean' ? value : String(value) });
+  };
+
+  fieldMappings.forEach(mapping => {
+    if (mapping.type === 'global') {
+      const value = getValueFromMapping(mapping.mapping, data);
+      addValue(mapping.champ_pdf, mapping.mapping, applyFormat(value, mapping.format, createFormatResolver(data)));
+      return;
+    }
+
+    if (mapping.type !== 'joueur' && mapping.type !== 'educateur') return;
+
+    const rows: Record<string, unknown>[] = mapping.type === 'joueur' ? data.joueurs : data.educateurs;
+    const property = getRowProperty(mapping.mapping);
+    const rowFieldNames = getRowFieldNames(mapping, rows.length);
+
+    if (rowFieldNames.length < rows.length) {
+      console.warn(`${rows.length - rowFieldNames.length} ligne(s) sans champ disponible pour ${mapping.champ_pdf}`);
+    }
+
+    rowFieldNames.forEach((fieldName, row) => {
+      const value = applyFormat(rows[row][property], mapping.format, createFormatResolver(data, rows[row]));
+      addValue(fieldName, mapping.mapping, value);
+    });
+  });
+
+  return values;
+};
+
+// Champ mappé absent du formulaire, mapping obligatoire sans donnée ou correspondance inconnue
+export interface ReportedField {
+  champ_pdf: string;
+  mapping: string;
+}
+
+// Joueurs ou éducateurs qui ne tiennent pas dans les lignes du modèle
+export interface RowOverflow {
+  type: 'joueur' | 'educateur';
+  capacity: number;
+  names: string[];
+}
+
+export interface PdfGenerationReport {
+  filled: FilledField[];
+  truncated: FilledField[]; // Textes plus larges que leur champ ou leur zone, avec leur valeur complète
+  missingFields: ReportedField[];
+  unknownMappings: ReportedField[]; // Correspondances qui ne désignent aucune donnée : champ laissé vide
+  emptyRequired: ReportedField[];
+  overflow: RowOverflow[];
+  warnings: string[];
+  continuationPages: number;
+}
+
+export interface PdfGenerationResult {
+  pdfBytes: Uint8Array;
+  report: PdfGenerationReport;
+}
+
+const isEmptyValue = (value: unknown) => value === null || value === undefined || value === '';
+
+/**
+ * Contrôle les mappings d'un modèle par rapport aux champs du formulaire et aux données
+ * @param fieldNames Noms des champs présents dans le formulaire
+ * @param data Données à insérer
+ * @param template Modèle utilisé
+ * @returns Les champs introuvables, les données obligatoires manquantes et les lignes en trop
+ */
+const checkMappings = (
+  fieldNames: Set<string>,
+  data: PdfData,
+  template: Template
+): Omit<PdfGenerationReport, 'filled' | 'truncated' | 'continuationPages'> => {
+  const mappings = template.fieldMappings || [];
+  const overlay = template.overlayLayout;
+  const missingFields: ReportedField[] = [];
+  const unknownMappings: ReportedField[] = [];
+  const emptyRequired: ReportedField[] = [];
+  const overflow: RowOverflow[] = [];
+  const warnings: string[] = [];
+
+  const checkKnownMapping = (champ_pdf: string, mapping: string, type: 'global' | 'joueur' | 'educateur') => {
+    const isKnown = type === 'global' ? GLOBAL_DATA_PATHS.has(mapping) : resolveRowProperty(mapping) !== undefined;
+    if (!isKnown) {
+      unknownMappings.push({ champ_pdf, mapping });
+    }
+  };
+
+  mappings.forEach(mapping => {
+    if (mapping.type === 'global' || mapping.type === 'joueur' || mapping.type === 'educateur') {
+      checkKnownMapping(mapping.champ_pdf, mapping.mapping, mapping.type);
+    }
+
+    if (mapping.type === 'global') {
+      if (!fieldNames.has(mapping.champ_pdf)) {
+        missingFields.push({ champ_pdf: mapping.champ_pdf, mapping: mapping.mapping });
+      }
+      if (mapping.obligatoire && isEmptyValue(getValueFromMapping(mapping.mapping, data))) {
+        emptyRequired.push({ champ_pdf: mapping.champ_pdf, mapping: mapping.mapping });
+      }
+      return;
+    }
+
+    if (mapping.type !== 'joueur' && mapping.type !== 'educateur') return;
+
+    const rows: Record<string, unknown>[] = mapping.type === 'joueur' ? data.joueurs : data.educateurs;
+    const property = getRowProperty(mapping.mapping);
+    getRowFieldNames(mapping, rows.length).forEach((fieldName, row) => {
+      if (!fieldNames.has(fieldName)) {
+        missingFields.push({ champ_pdf: fieldName, mapping: mapping.mapping });
+      }
+      if (mapping.obligatoire && isEmptyValue(rows[row][property])) {
+        emptyRequired.push({ champ_pdf: fieldName, mapping: mapping.mapping });
+      }
+    });
+  });
+
+  overlay?.zones.forEach((zone, index) =>
+    checkKnownMapping(`Zone ${index + 1} (page ${zone.page})`, zone.mapping, 'global')
+  );
+  overlay?.tableaux.forEach((table, tableIndex) =>
+    table.colonnes.forEach((column, columnIndex) =>
+      checkKnownMapping(`Tableau ${tableIndex + 1}, colonne ${columnIndex + 1}`, column.mapping, table.type)
+    )
+  );
+
+  (['joueur', 'educateur'] as const).forEach(type => {
+    const rows = type === 'joueur' ? data.joueurs : data.educateurs;
+    if (rows.length === 0 || (mappings.length === 0 && !overlay)) return;
+
+    // Sans nombre de lignes explicite, la capacité s'arrête au premier champ absent du formulaire
+    const capacities = [
+      ...mappings.filter(mapping => mapping.type === type).map(mapping => {
+        const { ligne } = resolveRowTemplate(mapping);
+        if (ligne.nombre_lignes !== undefined) return ligne.nombre_lignes;
+        const available = getRowFieldNames(mapping, rows.length).findIndex(fieldName => !fieldNames.has(fieldName));
+        return available === -1 ? rows.length : available;
+      }),
+      ...(overlay?.tableaux || []).filter(table => table.type === type).map(table => table.nombre_lignes),
+    ];
+
+    const label = type === 'joueur' ? 'joueur' : 'éducateur';
+    if (capacities.length === 0) {
+      warnings.push(`Le modèle ne définit aucune ligne ${label} : ${rows.length} ${label}(s) non inscrit(s).`);
+      return;
+    }
+
+    const capacity = Math.max(...capacities);
+    if (rows.length > capacity) {
+      overflow.push({
+        type,
+        capacity,
+        names: rows.slice(capacity).map(row => `${row.prenom} ${row.nom}`),
+      });
+    }
+  });
+
+  return { missingFields, unknownMappings, emptyRequired, overflow, warnings };
 };
 
 /**
@@ -144,176 +663,159 @@ export const generatePdf = async (options: GeneratePdfOptions): Promise<Uint8Arr
  * @param form Formulaire PDF
  * @param data Données à insérer
  * @param fieldMappings Mappings des champs (optionnel)
+ * @returns La liste des champs remplis
  */
-const fillFormFields = (form: PDFForm, data: PdfData, fieldMappings: PdfFieldMapping[]) => {
+const fillFormFields = (form: PDFForm, data: PdfData, fieldMappings: PdfFieldMapping[]): FilledField[] => {
   // Loggez les noms de tous les champs pour le débogage
   const fieldNames = form.getFields().map(field => field.getName());
   console.log("Champs disponibles dans le formulaire:", fieldNames);
+
+  const filled: FilledField[] = [];
   
   try {
     // Si des mappings sont fournis, les utiliser pour remplir les champs
     if (fieldMappings.length > 0) {
       console.log("Utilisation des mappings de champs pour le remplissage");
       
-      // Mappings pour les champs globaux
-      fieldMappings
-        .filter(mapping => mapping.type === 'global')
-        .forEach(mapping => {
-          try {
-            console.log(`Traitement du mapping global: ${mapping.champ_pdf} -> ${mapping.mapping}`);
-            const value = getValueFromMapping(mapping.mapping, data);
-            if (value !== null && value !== undefined) {
-              console.log(`  Valeur trouvée: "${value}", tentative de remplissage du champ "${mapping.champ_pdf}"`);
-              fillField(form, mapping.champ_pdf, value);
-              
-              // Essayez aussi des variantes communes du nom de champ
-              tryFillVariantFieldNames(form, mapping.champ_pdf, value);
-            } else {
-              console.log(`  Aucune valeur trouvée pour le mapping "${mapping.mapping}"`);
-            }
-          } catch (error) {
-            console.warn(`Erreur lors du remplissage du champ ${mapping.champ_pdf}:`, error);
-          }
-        });
-      
-      // Mappings pour les joueurs
-      data.joueurs.forEach((joueur, index) => {
-        fieldMappings
-          .filter(mapping => mapping.type === 'joueur')
-          .forEach(mapping => {
-            try {
-              let value = null;
-              console.log(`Traitement du mapping joueur: ${mapping.champ_pdf} -> ${mapping.mapping} pour le joueur ${index+1}`);
-              
-              if (mapping.mapping.includes('nom')) value = joueur.nom;
-              else if (mapping.mapping.includes('prenom')) value = joueur.prenom;
-              else if (mapping.mapping.includes('licence')) value = joueur.licence;
-              else if (mapping.mapping.includes('avant')) value = joueur.est_avant;
-              else if (mapping.mapping.includes('arbitre')) value = joueur.est_arbitre;
-              
-              if (value !== null && value !== undefined) {
-                // Remplacer [n] ou {n} ou n par l'index du joueur
-                const patterns = [
-                  { regex: /\[n\]/, replace: `[${index + 1}]` },
-                  { regex: /\{n\}/, replace: `{${index + 1}}` },
-                  { regex: /^(.*?)n$/, replace: `$1${index + 1}` },
-                  { regex: /^(.*?)n(.*)$/, replace: `$1${index + 1}$2` }
-                ];
-                
-                for (const pattern of patterns) {
-                  const fieldName = mapping.champ_pdf.replace(pattern.regex, pattern.replace);
-                  if (fieldName !== mapping.champ_pdf) {
-                    console.log(`  Tentative avec le champ "${fieldName}" pour la valeur "${value}"`);
-                    fillField(form, fieldName, value);
-                  }
-                }
-                
-                // Essayer aussi un format avec numéro à la fin
-                const indexFieldName = `${mapping.champ_pdf}${index + 1}`;
-                console.log(`  Tentative avec le champ "${indexFieldName}" pour la valeur "${value}"`);
-                fillField(form, indexFieldName, value);
-              }
-            } catch (error) {
-              console.warn(`Erreur lors du remplissage du champ joueur ${mapping.champ_pdf}:`, error);
-            }
-          });
-      });
-      
-      // Mappings pour les éducateurs
-      data.educateurs.forEach((educateur, index) => {
-        fieldMappings
-          .filter(mapping => mapping.type === 'educateur')
-          .forEach(mapping => {
-            try {
-              let value = null;
-              console.log(`Traitement du mapping éducateur: ${mapping.champ_pdf} -> ${mapping.mapping} pour l'éducateur ${index+1}`);
-              
-              if (mapping.mapping.includes('nom')) value = educateur.nom;
-              else if (mapping.mapping.includes('prenom')) value = educateur.prenom;
-              else if (mapping.mapping.includes('licence')) value = educateur.licence;
-              else if (mapping.mapping.includes('diplome')) value = educateur.diplome;
-              else if (mapping.mapping.includes('referent')) value = educateur.est_referent;
-              
-              if (value !== null && value !== undefined) {
-                // Remplacer [n] ou {n} ou n par l'index de l'éducateur
-                const patterns = [
-                  { regex: /\[n\]/, replace: `[${index + 1}]` },
-                  { regex: /\{n\}/, replace: `{${index + 1}}` },
-                  { regex: /^(.*?)n$/, replace: `$1${index + 1}` },
-                  { regex: /^(.*?)n(.*)$/, replace: `$1${index + 1}$2` }
-                ];
-                
-                for (const pattern of patterns) {
-                  const fieldName = mapping.champ_pdf.replace(pattern.regex, pattern.replace);
-                  if (fieldName !== mapping.champ_pdf) {
-                    console.log(`  Tentative avec le champ "${fieldName}" pour la valeur "${value}"`);
-                    fillField(form, fieldName, value);
-                  }
-                }
-                
-                // Essayer aussi un format avec numéro à la fin
-                const indexFieldName = `${mapping.champ_pdf}${index + 1}`;
-                console.log(`  Tentative avec le champ "${indexFieldName}" pour la valeur "${value}"`);
-                fillField(form, indexFieldName, value);
-                
-                // Essayer les variantes du nom de champ
-                tryFillVariantFieldNames(form, indexFieldName, value);
-              }
-            } catch (error) {
-              console.warn(`Erreur lors du remplissage du champ éducateur ${mapping.champ_pdf}:`, error);
-            }
-          });
+      resolveFieldValues(data, fieldMappings).forEach(field => {
+        if (fillField(form, field.champ_pdf, field.valeur)) {
+          filled.push(field);
+        }
       });
-      
     } else {
       // Si aucun mapping n'est fourni, essayer de détecter et remplir les champs communs
       console.log("Aucun mapping fourni, tentative de remplissage automatique des champs communs");
-      autoFillFormFields(form, data);
+      autoFillFormFields(form, data, (fieldName, mapping, value) => {
+        if (fillField(form, fieldName, value)) {
+          filled.push({ champ_pdf: fieldName, mapping, valeur: typeof value === 'boolean' ? value : String(value) });
+        }
+      });
     }
   } catch (error) {
     console.error("Erreur lors du remplissage du formulaire:", error);
   }
+
+  return filled;
 };
 
+// Taille de police des champs texte remplis
+const TEXT_FIELD_FONT_SIZE = 11;
+// Marge intérieure d'un champ texte (bordure et espacement), de chaque côté
+const TEXT_FIELD_PADDING = 2;
+
 /**
- * Tente de remplir des variations du nom de champ avec la même valeur
+ * Indique si le texte d'un champ dépasse la largeur de son cadre (le lecteur PDF le coupe)
+ * Les champs multilignes, où le texte revient à la ligne, ne sont pas contrôlés
  */
-const tryFillVariantFieldNames = (form: PDFForm, baseFieldName: string, value: any) => {
-  // Liste des variantes communes de noms de champs
-  const variants = [
-    // Variations avec case différente
-    baseFieldName.toLowerCase(),
-    baseFieldName.toUpperCase(),
-    baseFieldName.charAt(0).toUpperCase() + baseFieldName.slice(1),
-    
-    // Variations avec underscore ou tiret
-    baseFieldName.replace(/\s+/g, '_'),
-    baseFieldName.replace(/\s+/g, '-'),
-    baseFieldName.replace(/_/g, ''),
-    baseFieldName.replace(/-/g, ''),
-    
-    // Variations avec préfixes/suffixes communs
-    `form_${baseFieldName}`,
-    `field_${baseFieldName}`,
-    `${baseFieldName}_field`,
-    `txt${baseFieldName}`,
-    
-    // Autres variations courantes dans les PDFs
-    `fld${baseFieldName}`,
-    `f${baseFieldName}`,
-    `${baseFieldName.replace(/[^a-zA-Z0-9]/g, "")}` // Supprime tous les caractères spéciaux
-  ];
-  
-  // Essayer de remplir chaque variante
-  variants.forEach(variant => {
-    if (variant !== baseFieldName) {
-      try {
-        fillField(form, variant, value);
-      } catch (e) {
-        // Ignore les erreurs pour les variantes
-      }
+const isTextFieldClipped = (form: PDFForm, fieldName: string): boolean => {
+  try {
+    const textField = form.getTextField(fieldName);
+    const text = textField.getText();
+    if (!text || textField.isMultiline()) return false;
+
+    const widths = textField.acroField.getWidgets().map(widget => widget.getRectangle().width);
+    if (widths.length === 0) return false;
+    const textWidth = form.getDefaultFont().widthOfTextAtSize(text, TEXT_FIELD_FONT_SIZE);
+    return textWidth > Math.min(...widths) - 2 * TEXT_FIELD_PADDING;
+  } catch (error) {
+    // Case à cocher ou champ introuvable
+    return false;
+  }
+};
+
+// Taille de police minimale lors de la réduction d'un texte trop long
+const MIN_OVERLAY_FONT_SIZE = 5;
+
+/**
+ * Ajuste un texte à la largeur d'une zone en réduisant la police, puis en le tronquant si nécessaire
+ * @param font Police utilisée
+ * @param text Texte à dessiner
+ * @param maxWidth Largeur disponible en points
+ * @param fontSize Taille de police souhaitée
+ */
+const fitText = (font: PDFFont, text: string, maxWidth: number, fontSize: number): { text: string; size: number } => {
+  let size = fontSize;
+  while (size > MIN_OVERLAY_FONT_SIZE && font.widthOfTextAtSize(text, size) > maxWidth) {
+    size -= 0.5;
+  }
+
+  let fitted = text;
+  while (fitted.length > 1 && font.widthOfTextAtSize(fitted, size) > maxWidth) {
+    fitted = `${fitted.slice(0, -2)}…`;
+  }
+
+  return { text: fitted, size };
+};
+
+/**
+ * Remplace les caractères absents d'une police standard (✓, emoji...), qui ne peuvent pas être encodés
+ */
+const replaceUnsupportedCharacters = (font: PDFFont, text: string): string => {
+  const supportedCharacters = new Set(font.getCharacterSet());
+  return Array.from(text)
+    .map(char => (supportedCharacters.has(char.codePointAt(0) ?? 0) ? char : '?'))
+    .join('');
+};
+
+/**
+ * Dessine les zones de texte et tableaux d'un modèle sans formulaire
+ * @param pdfDoc Document PDF
+ * @param data Données à insérer
+ * @param layout Zones de texte du modèle
+ * @returns La liste des zones dessinées et celles dont le texte a été tronqué
+ */
+const drawOverlay = async (
+  pdfDoc: PDFDocument,
+  data: PdfData,
+  layout: PdfOverlayLayout
+): Promise<{ drawn: FilledField[]; truncated: FilledField[] }> => {
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const pages = pdfDoc.getPages();
+  const drawn: FilledField[] = [];
+  const truncated: FilledField[] = [];
+
+  const drawValue = (pageNumber: number, x: number, y: number, width: number, fontSize: number, mapping: string, value: unknown) => {
+    if (value === null || value === undefined || value === '' || typeof value === 'object') return;
+    const page = pages[pageNumber - 1];
+    if (!page) {
+      console.warn(`Page ${pageNumber} absente du modèle, zone ${mapping} ignorée`);
+      return;
+    }
+
+    const fullText = replaceUnsupportedCharacters(font, valueToText(value));
+    const { text, size } = fitText(font, fullText, width, fontSize);
+
+    page.drawText(text, { x, y, size, font, color: rgb(0, 0, 0) });
+    const field: FilledField = {
+      champ_pdf: `Page ${pageNumber} (${Math.round(x)}, ${Math.round(y)})`,
+      mapping,
+      valeur: typeof value === 'boolean' ? value : String(value),
+    };
+    drawn.push(field);
+    if (text !== fullText) truncated.push(field);
+  };
+
+  layout.zones.forEach(zone => {
+    const value = applyFormat(getValueFromMapping(zone.mapping, data), zone.format, createFormatResolver(data));
+    drawValue(zone.page, zone.x, zone.y, zone.largeur, zone.taille_police, zone.mapping, value);
+  });
+
+  layout.tableaux.forEach(table => {
+    const rows: Record<string, unknown>[] = table.type === 'joueur' ? data.joueurs : data.educateurs;
+    if (rows.length > table.nombre_lignes) {
+      console.warn(`${rows.length - table.nombre_lignes} ligne(s) ${table.type} au-delà du tableau de la page ${table.page}`);
     }
+
+    rows.slice(0, table.nombre_lignes).forEach((row, index) => {
+      const y = table.y - index * table.hauteur_ligne;
+      table.colonnes.forEach(column => {
+        const value = applyFormat(row[getRowProperty(column.mapping)], column.format, createFormatResolver(data, row));
+        drawValue(table.page, column.x, y, column.largeur, table.taille_police, column.mapping, value);
+      });
+    });
   });
+
+  return { drawn, truncated };
 };
 
 /**
@@ -321,58 +823,69 @@ const tryFillVariantFieldNames = (form: PDFForm, baseFieldName: string, value: a
  * @param form Formulaire PDF
  * @param fieldName Nom du champ
  * @param value Valeur à insérer
+ * @returns true si le champ existe et a été rempli
  */
-const fillField = (form: PDFForm, fieldName: string, value: any) => {
+const fillField = (form: PDFForm, fieldName: string, value: any): boolean => {
   try {
     // Vérifier si le champ existe
     const field = form.getFields().find(f => f.getName() === fieldName);
     if (!field) {
       console.log(`Champ "${fieldName}" non trouvé dans le formulaire`);
-      return;
+      return false;
     }
 
     console.log(`Tentative de remplissage du champ "${fieldName}" avec la valeur:`, value);
 
     // Gérer différents types de champs
     if (field.constructor.name === 'PDFTextField') {
-      const textValue = typeof value === 'boolean' 
-        ? (value ? 'Oui' : 'Non')
-        : String(value);
+      const textValue = replaceUnsupportedCharacters(form.getDefaultFont(), valueToText(value));
       const textField = form.getTextField(fieldName);
       textField.setText(textValue);
-      textField.setFontSize(11);
+      textField.setFontSize(TEXT_FIELD_FONT_SIZE);
       console.log(`✓ Champ texte ${fieldName} rempli avec: "${textValue}"`);
+      return true;
     } else if (field.constructor.name === 'PDFCheckBox') {
-      if (typeof value === 'boolean') {
-        if (value) {
-          const checkbox = form.getCheckBox(fieldName);
-          checkbox.check();
-        } else {
-          const checkbox = form.getCheckBox(fieldName);
-          checkbox.uncheck();
-        }
-      } else if (typeof value === 'string') {
-        const boolValue = value.toLowerCase() === 'true' || value.toLowerCase() === 'oui';
-        if (boolValue) {
-          const checkbox = form.getCheckBox(fieldName);
-          checkbox.check();
-        } else {
-          const checkbox = form.getCheckBox(fieldName);
-          checkbox.uncheck();
-        }
+      // Texte issu d'un format : X, ✓, Oui... cochent la case
+      const checked = isTruthyValue(value);
+      const checkbox = form.getCheckBox(fieldName);
+      if (checked) {
+        checkbox.check();
+      } else {
+        checkbox.uncheck();
       }
-      console.log(`✓ Case à cocher ${fieldName} définie à: ${!!value}`);
+      console.log(`✓ Case à cocher ${fieldName} définie à: ${checked}`);
+      return true;
     }
+    return false;
   } catch (error) {
     console.warn(`Erreur lors du remplissage du champ ${fieldName}:`, error);
+    return false;
   }
 };
 
 /**
  * Remplit automatiquement les champs du formulaire en se basant sur les noms communs
+ * Les noms sont comparés sans tenir compte de la casse ni des séparateurs (joueur1_nom, Joueur1Nom...)
  */
-const autoFillFormFields = (form: PDFForm, data: PdfData) => {
+const autoFillFormFields = (
+  form: PDFForm,
+  data: PdfData,
+  fill: (fieldName: string, mapping: string, value: any) => void
+) => {
   console.log("Tentative de remplissage automatique des champs");
+
+  const fieldsByName = new Map<string, string>();
+  form.getFields().forEach(field => {
+    const key = normalizeName(field.getName());
+    if (!fieldsByName.has(key)) fieldsByName.set(key, field.getName());
+  });
+
+  const fillByName = (name: string, mapping: string, value: any) => {
+    const fieldName = fieldsByName.get(normalizeName(name));
+    if (fieldName && value !== undefined && value !== '') {
+      fill(fieldName, mapping, value);
+    }
+  };
   
   // Mappings communs pour les champs globaux
   const commonMappings = [
@@ -385,10 +898,7 @@ const autoFillFormFields = (form: PDFForm, data: PdfData) => {
 
   // Remplir les champs globaux
   commonMappings.forEach(mapping => {
-    if (mapping.value) {
-      fillField(form, mapping.field, mapping.value);
-      tryFillVariantFieldNames(form, mapping.field, mapping.value);
-    }
+    fillByName(mapping.field, mapping.field, mapping.value);
   });
 
   // Remplir les champs des joueurs
@@ -402,11 +912,7 @@ const autoFillFormFields = (form: PDFForm, data: PdfData) => {
     ];
 
     playerFields.forEach(field => {
-      if (field.value !== undefined) {
-        const fieldName = `joueur${index + 1}_${field.suffix}`;
-        fillField(form, fieldName, field.value);
-        tryFillVariantFieldNames(form, fieldName, field.value);
-      }
+      fillByName(`joueur${index + 1}_${field.suffix}`, `joueur.${field.suffix}`, field.value);
     });
   });
 
@@ -421,11 +927,7 @@ const autoFillFormFields = (form: PDFForm, data: PdfData) => {
     ];
 
     coachFields.forEach(field => {
-      if (field.value !== undefined) {
-        const fieldName = `educateur${index + 1}_${field.suffix}`;
-        fillField(form, fieldName, field.value);
-        tryFillVariantFieldNames(form, fieldName, field.value);
-      }
+      fillByName(`educateur${index + 1}_${field.suffix}`, `educateur.${field.suffix}`, field.value);
     });
   });
 };
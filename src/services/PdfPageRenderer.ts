@@ -0,0 +1,85 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.js?url';
+
+/**
+ * Rendu des pages d'un PDF dans un canvas
+ * Utilisé par l'éditeur visuel des correspondances pour afficher les pages du modèle
+ * et la position de chaque champ de formulaire
+ */
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = workerUrl;
+
+// Position d'un champ de formulaire sur la page affichée, en pixels
+export interface PdfWidgetBox {
+  fieldName: string;
+  fieldType: 'texte' | 'case' | 'autre';
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface RenderedPdfPage {
+  width: number;
+  height: number;
+  widgets: PdfWidgetBox[];
+}
+
+/**
+ * Charge un PDF stocké en base64 (avec ou sans préfixe data:)
+ * Seul point d'entrée vers pdf.js : l'extraction de texte passe aussi par ici
+ * @param content Contenu du PDF
+ * @returns Le document chargé par pdf.js
+ */
+export const loadPdfDocument = async (content: string): Promise<PDFDocumentProxy> => {
+  const base64Data = content.includes('base64,') ? content.split(',')[1] : content;
+  const pdfBytes = Uint8Array.from(atob(base64Data), c => c.charCodeAt(0));
+  // Pas de compilation des polices par eval : un PDF piégé pourrait exécuter du code (CVE-2024-4367)
+  return pdfjsLib.getDocument({ data: pdfBytes, isEvalSupported: false }).promise;
+};
+
+/**
+ * Affiche une page dans un canvas et renvoie la position des champs de formulaire
+ * @param document Document chargé
+ * @param pageNumber Numéro de page (à partir de 1)
+ * @param canvas Canvas de destination
+ * @param scale Facteur d'agrandissement
+ */
+export const renderPdfPage = async (
+  document: PDFDocumentProxy,
+  pageNumber: number,
+  canvas: HTMLCanvasElement,
+  scale: number
+): Promise<RenderedPdfPage> => {
+  const page = await document.getPage(pageNumber);
+  const viewport = page.getViewport({ scale });
+  const context = canvas.getContext('2d');
+
+  if (!context) {
+    throw new Error('Impossible d\'initialiser le rendu de la page');
+  }
+
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+
+  // Les champs sont dessinés par l'éditeur : on ne rend que le contenu de la page
+  await page.render({ canvasContext: context, viewport, annotationMode: pdfjsLib.AnnotationMode.DISABLE }).promise;
+
+  const annotations = await page.getAnnotations();
+  const widgets: PdfWidgetBox[] = annotations
+    .filter(annotation => annotation.subtype === 'Widget' && annotation.fieldName)
+    .map(annotation => {
+      const [x1, y1, x2, y2] = viewport.convertToViewportRectangle(annotation.rect);
+      return {
+        fieldName: annotation.fieldName as string,
+        fieldType: annotation.fieldType === 'Tx' ? 'texte' : annotation.checkBox ? 'case' : 'autre',
+        left: Math.min(x1, x2),
+        top: Math.min(y1, y2),
+        width: Math.abs(x2 - x1),
+        height: Math.abs(y2 - y1),
+      };
+    });
+
+  return { width: viewport.width, height: viewport.height, widgets };
+};
@@ -1,24 +1,29 @@
 /**
  * Service de gestion des fichiers PDF
  * Ce service gère le stockage et la récupération des fichiers PDF
+ * Les copies locales sont conservées dans le cache IndexedDB (voir PdfCache)
  */
 
 import { PDFDocument, PDFField, PDFForm } from 'pdf-lib';
 import { supabase, TEMPLATES_BUCKET, GENERATED_BUCKET } from './SupabaseClient';
-import { sha256 } from 'js-sha256';
-
-// Préfixe utilisé pour stocker les fichiers dans le localStorage
-const PDF_STORAGE_PREFIX = 'pdf_';
+import {
+  getCachedPdf,
+  hasCachedPdf,
+  hashPdfContent,
+  listCachedPdfs,
+  putCachedPdf,
+  removeCachedPdf,
+  unpinCachedPdf,
+} from './PdfCache';
 
 // Cache pour les hashes de fichiers
 const fileHashCache = new Map<string, string>();
 
 /**
- * Calcule le hash SHA-256 d'un contenu PDF
+ * Calcule le hash SHA-256 d'un contenu PDF, utilisé comme clé du cache local
  */
 const calculatePdfHash = async (content: string): Promise<string> => {
-  const base64Data = content.includes('base64,') ? content.split(',')[1] : content;
-  return sha256(base64Data);
+  return hashPdfContent(content);
 };
 
 /**
@@ -65,9 +70,18 @@ const normalizeFilePath = (filename: string): string => {
  * Vérifie si un PDF existe dans le stockage local
  * @param filename Nom du fichier (sans chemin)
  */
-export const pdfExists = (filename: string): boolean => {
+export const pdfExists = async (filename: string): Promise<boolean> => {
   const normalizedPath = normalizeFilePath(filename);
-  return localStorage.getItem(`${PDF_STORAGE_PREFIX}${normalizedPath}`) !== null;
+  return hasCachedPdf(normalizedPath);
+};
+
+// Une erreur du cache local ne doit pas empêcher l'accès au fichier
+const cachePdf = async (normalizedPath: string, content: string, hash?: string, pinned?: boolean) => {
+  try {
+    await putCachedPdf(normalizedPath, content, hash, pinned);
+  } catch (error) {
+    console.warn(`Impossible de mettre le PDF en cache: ${normalizedPath}`, error);
+  }
 };
 
 /**
@@ -80,14 +94,18 @@ export const getPdf = async (filename: string): Promise<string | null> => {
   
   console.log(`Tentative de récupération du PDF: ${normalizedPath}`);
   
-  // D'abord, essayer de récupérer depuis le localStorage
-  const localPdf = localStorage.getItem(`${PDF_STORAGE_PREFIX}${normalizedPath}`);
-  if (localPdf) {
-    console.log(`PDF récupéré depuis le localStorage: ${normalizedPath}`);
-    return localPdf;
+  // D'abord, essayer de récupérer depuis le cache local
+  try {
+    const localPdf = await getCachedPdf(normalizedPath);
+    if (localPdf) {
+      console.log(`PDF récupéré depuis le cache local: ${normalizedPath}`);
+      return localPdf;
+    }
+  } catch (error) {
+    console.warn('Erreur lors de la lecture du cache PDF:', error);
   }
   
-  // Si pas dans le localStorage, essayer de récupérer depuis Supabase
+  // Si pas dans le cache, essayer de récupérer depuis Supabase
   try {
     console.log(`Tentative de récupération du fichier depuis Supabase: ${normalizedPath}`);
     
@@ -121,7 +139,7 @@ export const getPdf = async (filename: string): Promise<string | null> => {
     // If the PDF isn't found in any bucket, generate a base64 placeholder PDF
     console.log(`PDF non trouvé dans Supabase, génération d'un PDF vide`);
     const emptyPdf = await generateEmptyPdf();
-    localStorage.setItem(`${PDF_STORAGE_PREFIX}${normalizedPath}`, emptyPdf);
+    await cachePdf(normalizedPath, emptyPdf);
     return emptyPdf;
   } catch (error) {
     console.error('Erreur lors de la récupération du PDF:', error);
@@ -129,7 +147,7 @@ export const getPdf = async (filename: string): Promise<string | null> => {
     // Return an empty PDF in case of error
     try {
       const emptyPdf = await generateEmptyPdf();
-      localStorage.setItem(`${PDF_STORAGE_PREFIX}${normalizedPath}`, emptyPdf);
+      await cachePdf(normalizedPath, emptyPdf);
       return emptyPdf;
     } catch (pdfError) {
       console.error('Impossible de générer un PDF vide:', pdfError);
@@ -142,7 +160,7 @@ export const getPdf = async (filename: string): Promise<string | null> => {
  * Tries to find a PDF in a specific bucket with multiple possible paths
  * @param bucketName The bucket to search in
  * @param paths Array of possible paths to try
- * @param normalizedPath The normalized path for localStorage caching
+ * @param normalizedPath The normalized path for local caching
  * @returns The PDF content as base64 if found, null otherwise
  */
 const tryFindPdfInBucket = async (
@@ -166,16 +184,14 @@ const tryFindPdfInBucket = async (
       if (data) {
         // Convertir le blob en base64
         const reader = new FileReader();
-        return new Promise((resolve) => {
-          reader.onloadend = () => {
-            const base64data = reader.result as string;
-            // Stocker dans le localStorage pour un accès plus rapide
-            localStorage.setItem(`${PDF_STORAGE_PREFIX}${normalizedPath}`, base64data);
-            console.log(`PDF récupéré depuis Supabase (${bucketName}/${path}) et stocké dans localStorage`);
-            resolve(base64data);
-          };
+        const base64data = await new Promise<string>((resolve) => {
+          reader.onloadend = () => resolve(reader.result as string);
           reader.readAsDataURL(data);
         });
+        // Stocker dans le cache local pour un accès plus rapide
+        await cachePdf(normalizedPath, base64data, undefined, false);
+        console.log(`PDF récupéré depuis Supabase (${bucketName}/${path}) et stocké dans le cache local`);
+        return base64data;
       }
     } catch (innerError) {
       console.warn(`Chemin ${bucketName}/${path} non trouvé:`, innerError);
@@ -220,10 +236,11 @@ export const storePdf = async (filename: string, content: string, isGenerated =
   const fileHash = await calculatePdfHash(content);
   const fileSize = Math.ceil((content.length * 3) / 4); // Estimation de la taille en bytes
   
-  // Stocker dans le localStorage
-  localStorage.setItem(`${PDF_STORAGE_PREFIX}${normalizedPath}`, content);
+  // Stocker dans le cache local, sous le hash du contenu ; la copie reste épinglée
+  // (jamais supprimée du cache) tant que l'envoi sur Supabase n'est pas confirmé
+  await cachePdf(normalizedPath, content, fileHash, true);
   fileHashCache.set(normalizedPath, fileHash);
-  console.log(`PDF stocké dans le localStorage: ${normalizedPath}`);
+  console.log(`PDF stocké dans le cache local: ${normalizedPath}`);
   
   // Déterminer le bucket approprié
   const bucketName = isGenerated || filename.startsWith('feuille_match_') ? GENERATED_BUCKET : TEMPLATES_BUCKET;
@@ -280,6 +297,9 @@ export const storePdf = async (filename: string, content: string, isGenerated =
     }
     
     console.log(`PDF stocké avec succès dans Supabase (${bucketName}/${normalizedPath})`);
+    await unpinCachedPdf(normalizedPath).catch(unpinError =>
+      console.warn(`Impossible de désépingler le PDF du cache: ${normalizedPath}`, unpinError)
+    );
     return true;
   } catch (error) {
     console.warn('Erreur lors du stockage du PDF:', error);
@@ -294,9 +314,13 @@ export const storePdf = async (filename: string, content: string, isGenerated =
 export const removePdf = async (filename: string): Promise<boolean> => {
   const normalizedPath = normalizeFilePath(filename);
   
-  // Supprimer du localStorage
-  localStorage.removeItem(`${PDF_STORAGE_PREFIX}${normalizedPath}`);
-  console.log(`PDF supprimé du localStorage: ${normalizedPath}`);
+  // Supprimer du cache local
+  try {
+    await removeCachedPdf(normalizedPath);
+    console.log(`PDF supprimé du cache local: ${normalizedPath}`);
+  } catch (error) {
+    console.warn(`Erreur lors de la suppression du PDF du cache local: ${normalizedPath}`, error);
+  }
   
   // Vérifier la session Supabase
   const { data: session } = await supabase.auth.getSession();
@@ -334,13 +358,11 @@ export const removePdf = async (filename: string): Promise<boolean> => {
  * @returns Un tableau de noms de fichiers
  */
 export const listPdfs = async (): Promise<string[]> => {
-  // Try to find PDFs in localStorage first
-  const localPdfs = Object.keys(localStorage)
-    .filter(key => key.startsWith(PDF_STORAGE_PREFIX))
-    .map(key => key.replace(PDF_STORAGE_PREFIX, ''));
+  // Try to find PDFs in the local cache first
+  const localPdfs = (await listCachedPdfs().catch(() => [])).map(entry => entry.path);
   
   if (localPdfs.length > 0) {
-    console.log(`${localPdfs.length} PDFs trouvés dans le localStorage`);
+    console.log(`${localPdfs.length} PDFs trouvés dans le cache local`);
     return localPdfs;
   }
   
@@ -0,0 +1,159 @@
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { loadPdfDocument } from './PdfPageRenderer';
+
+/**
+ * Extraction du texte positionné d'un PDF
+ * Le contenu de chaque page est lu par pdf.js ; les coordonnées sont en points PDF,
+ * depuis le coin inférieur gauche de la page, comme les zones de texte des modèles
+ */
+
+// Fragment de texte tel qu'écrit dans le contenu de la page
+export interface PdfTextItem {
+  text: string;
+  x: number;
+  y: number; // Ligne de base
+  width: number;
+  height: number;
+}
+
+// Emplacement d'un champ de formulaire
+export interface PdfWidgetPosition {
+  fieldName: string;
+  x: number;
+  y: number; // Bord inférieur
+  width: number;
+  height: number;
+}
+
+export interface PdfTextPage {
+  pageNumber: number; // À partir de 1
+  width: number;
+  height: number;
+  items: PdfTextItem[];
+  widgets: PdfWidgetPosition[];
+}
+
+export interface PdfTextLayout {
+  pages: PdfTextPage[];
+}
+
+/**
+ * Lit le texte et l'emplacement des champs de chaque page d'un PDF
+ * @param content Contenu du PDF en base64 (avec ou sans préfixe data:)
+ * @returns Le texte positionné, page par page
+ */
+export const extractPdfLayout = async (content: string): Promise<PdfTextLayout> => {
+  const document = await loadPdfDocument(content);
+  const pages: PdfTextPage[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const [, , width, height] = page.view;
+      const textContent = await page.getTextContent();
+      const annotations = await page.getAnnotations();
+
+      const items = textContent.items
+        .filter((item): item is TextItem => 'str' in item && item.str.trim() !== '')
+        .map(item => ({
+          text: item.str,
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width,
+          height: item.height,
+        }));
+
+      const widgets = annotations
+        .filter(annotation => annotation.subtype === 'Widget' && annotation.fieldName)
+        .map(annotation => {
+          const [x1, y1, x2, y2] = annotation.rect as number[];
+          return {
+            fieldName: annotation.fieldName as string,
+            x: Math.min(x1, x2),
+            y: Math.min(y1, y2),
+            width: Math.abs(x2 - x1),
+            height: Math.abs(y2 - y1),
+          };
+        });
+
+      pages.push({ pageNumber, width, height, items, widgets });
+    }
+  } finally {
+    await document.destroy();
+  }
+
+  return { pages };
+};
+
+// Écart vertical maximal entre deux fragments d'une même ligne
+const LINE_TOLERANCE = 2;
+// Écart horizontal maximal entre deux fragments d'un même libellé
+const WORD_GAP = 20;
+
+/**
+ * Reconstitue le texte d'une page, ligne par ligne de haut en bas
+ */
+export const getPageText = (page: PdfTextPage): string => {
+  const sorted = [...page.items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: PdfTextItem[][] = [];
+
+  sorted.forEach(item => {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line[0].y - item.y) <= LINE_TOLERANCE) {
+      line.push(item);
+    } else {
+      lines.push([item]);
+    }
+  });
+
+  return lines
+    .map(line => line.sort((a, b) => a.x - b.x).map(item => item.text.trim()).join(' '))
+    .join('\n');
+};
+
+/**
+ * Texte complet d'un PDF, les pages étant séparées par un titre
+ */
+export const getLayoutText = (layout: PdfTextLayout): string =>
+  layout.pages
+    .map(page => (layout.pages.length > 1 ? `--- Page ${page.pageNumber} ---\n${getPageText(page)}` : getPageText(page)))
+    .join('\n\n');
+
+/**
+ * Libellé écrit à gauche d'un champ, sur la même ligne
+ * @param page Page du champ
+ * @param widget Emplacement du champ
+ * @param maxDistance Distance maximale entre le libellé et le champ, en points
+ */
+export const findLabelLeftOf = (page: PdfTextPage, widget: PdfWidgetPosition, maxDistance = 150): string | undefined => {
+  const candidates = page.items.filter(item => {
+    const middle = item.y + item.height / 2;
+    return middle >= widget.y - LINE_TOLERANCE
+      && middle <= widget.y + widget.height + LINE_TOLERANCE
+      && item.x + item.width <= widget.x + LINE_TOLERANCE
+      && widget.x - (item.x + item.width) <= maxDistance;
+  });
+  if (candidates.length === 0) return undefined;
+
+  // Le fragment le plus proche, complété des fragments qui le précèdent sans interruption
+  const sorted = candidates.sort((a, b) => b.x + b.width - (a.x + a.width));
+  const label = [sorted[0]];
+  sorted.slice(1).forEach(item => {
+    if (label[0].x - (item.x + item.width) <= WORD_GAP) label.unshift(item);
+  });
+  return label.map(item => item.text.trim()).join(' ');
+};
+
+/**
+ * Textes situés au-dessus d'un champ, du plus proche au plus éloigné
+ * @param page Page du champ
+ * @param widget Emplacement du champ
+ * @param sameColumn true pour ne garder que les textes qui chevauchent horizontalement le champ (en-têtes de colonne)
+ */
+export const findTextsAbove = (page: PdfTextPage, widget: PdfWidgetPosition, sameColumn: boolean): PdfTextItem[] =>
+  page.items
+    .filter(item =>
+      item.y > widget.y + widget.height - LINE_TOLERANCE
+      && (!sameColumn || (item.x < widget.x + widget.width && item.x + item.width > widget.x))
+    )
+    .sort((a, b) => a.y - b.y);
@@ -0,0 +1,301 @@
+import * as XLSX from 'xlsx';
+import { AgeCategory, Player, PlayerImportField, PlayerImportMapping, PlayerImportRow } from '../types';
+import { getCategoryForBirthDate, loadCurrentSeason } from './SeasonService';
+import { ROSTER_BACKUP_FORMAT, RosterBackup, toPlayerRows } from './RosterExportService';
+
+/**
+ * Service d'import de joueurs depuis un export CSV/XLSX du portail de licences FFR
+ */
+
+export interface ParsedRosterFile {
+  headers: string[];
+  rows: Record<string, unknown>[];
+  rowNumbers: number[]; // Numéro de ligne de chaque entrée dans le fichier, pour les messages d'erreur
+}
+
+// Libellés des champs joueur proposés dans l'étape de correspondance des colonnes
+export const PLAYER_IMPORT_FIELDS: { field: PlayerImportField; label: string; required: boolean }[] = [
+  { field: 'lastName', label: 'Nom', required: true },
+  { field: 'firstName', label: 'Prénom', required: true },
+  { field: 'dateOfBirth', label: 'Date de naissance', required: true },
+  { field: 'licenseNumber', label: 'Numéro de licence', required: true },
+  { field: 'category', label: 'Catégorie', required: false },
+  { field: 'canPlayForward', label: 'Avant', required: false },
+  { field: 'canReferee', label: 'Arbitre', required: false },
+];
+
+/**
+ * Normalise un texte pour les comparaisons (minuscules, sans accents ni ponctuation)
+ */
+export const normalizeText = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/**
+ * Normalise un numéro de licence (les exports insèrent parfois des espaces)
+ */
+export const normalizeLicenseNumber = (value: string): string =>
+  value.replace(/\s+/g, '').toUpperCase();
+
+/**
+ * Décode le contenu texte d'un CSV, en UTF-8 ou à défaut en Windows-1252 (exports Excel)
+ */
+const decodeCsv = (buffer: ArrayBuffer): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+};
+
+/**
+ * Lit une sauvegarde JSON produite par l'export des joueurs
+ */
+const parseRosterBackup = (content: string): ParsedRosterFile => {
+  let backup: RosterBackup;
+  try {
+    backup = JSON.parse(content);
+  } catch {
+    throw new Error('Le fichier JSON est invalide');
+  }
+
+  if (backup?.format !== ROSTER_BACKUP_FORMAT || !Array.isArray(backup.players)) {
+    throw new Error('Ce fichier JSON n\'est pas un export de joueurs');
+  }
+
+  const rows = toPlayerRows(backup.players);
+  return { headers: rows.length > 0 ? Object.keys(rows[0]) : [], rows, rowNumbers: rows.map((_, index) => index + 1) };
+};
+
+/**
+ * Lit un fichier CSV, XLSX ou JSON (export des joueurs) et retourne ses lignes indexées par en-tête de colonne
+ * @param file Fichier sélectionné par l'utilisateur
+ * @returns En-têtes et lignes du premier onglet
+ */
+export const parseRosterFile = async (file: File): Promise<ParsedRosterFile> => {
+  if (/\.json$/i.test(file.name)) {
+    return parseRosterBackup(await file.text());
+  }
+
+  const buffer = await file.arrayBuffer();
+  const isCsv = /\.(csv|txt)$/i.test(file.name);
+
+  // En CSV, les valeurs restent brutes pour éviter l'interprétation des dates au format américain
+  const workbook = isCsv
+    ? XLSX.read(decodeCsv(buffer), { type: 'string', raw: true })
+    : XLSX.read(buffer, { type: 'array', cellDates: true });
+
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) {
+    throw new Error('Le fichier ne contient aucune feuille de données');
+  }
+
+  // Lignes vides conservées : l'indice dans le tableau donne le numéro de ligne à partir du début de la plage
+  const table = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '', blankrows: true });
+  const firstRowNumber = sheet['!ref'] ? XLSX.utils.decode_range(sheet['!ref']).s.r + 1 : 1;
+  const isBlank = (row: unknown[]) => !row.some(cell => String(cell).trim() !== '');
+
+  // La première ligne non vide contient les en-têtes
+  const headerIndex = table.findIndex(row => !isBlank(row));
+  if (headerIndex === -1) {
+    throw new Error('Le fichier est vide');
+  }
+
+  const headers = table[headerIndex].map(cell => String(cell).trim());
+  const rows: Record<string, unknown>[] = [];
+  const rowNumbers: number[] = [];
+  table.slice(headerIndex + 1).forEach((row, offset) => {
+    if (isBlank(row)) return;
+    const record: Record<string, unknown> = {};
+    headers.forEach((header, index) => {
+      if (header) {
+        record[header] = row[index] ?? '';
+      }
+    });
+    rows.push(record);
+    rowNumbers.push(firstRowNumber + headerIndex + 1 + offset);
+  });
+
+  console.log(`Fichier ${file.name} lu: ${rows.length} lignes, colonnes:`, headers);
+
+  return { headers: headers.filter(Boolean), rows, rowNumbers };
+};
+
+/**
+ * Propose une correspondance entre les colonnes du fichier et les champs joueur
+ * @param headers En-têtes du fichier
+ * @returns Correspondance devinée à partir des libellés usuels
+ */
+export const guessImportMapping = (headers: string[]): PlayerImportMapping => {
+  const mapping: PlayerImportMapping = {};
+
+  const rules: { field: PlayerImportField; matches: (header: string) => boolean }[] = [
+    { field: 'lastName', matches: h => ['nom', 'nom de famille', 'nom d usage', 'last name', 'lastname'].includes(h) },
+    { field: 'firstName', matches: h => ['prenom', 'first name', 'firstname'].includes(h) },
+    { field: 'dateOfBirth', matches: h => h.includes('naissance') || h.includes('birth') || h === 'ne le' || h === 'nee le' },
+    {
+      field: 'licenseNumber',
+      matches: h => (h.includes('licence') || h.includes('license')) &&
+        !['type', 'date', 'statut', 'saison', 'categorie'].some(word => h.includes(word)),
+    },
+    { field: 'category', matches: h => h.includes('categorie') || h.includes('category') },
+    { field: 'canPlayForward', matches: h => h.includes('avant') || h.includes('forward') },
+    { field: 'canReferee', matches: h => h.includes('arbitr') || h.includes('referee') },
+  ];
+
+  headers.forEach(header => {
+    const normalized = normalizeText(header);
+    const rule = rules.find(r => !mapping[r.field] && r.matches(normalized));
+    if (rule) {
+      mapping[rule.field] = header;
+    }
+  });
+
+  return mapping;
+};
+
+/**
+ * Convertit une date du fichier (JJ/MM/AAAA, AAAA-MM-JJ ou date Excel) au format YYYY-MM-DD
+ * @returns La date normalisée, ou une chaîne vide si elle n'est pas reconnue
+ */
+const normalizeDate = (value: unknown): string => {
+  if (value instanceof Date && !isNaN(value.getTime())) {
+    const month = String(value.getMonth() + 1).padStart(2, '0');
+    const day = String(value.getDate()).padStart(2, '0');
+    return `${value.getFullYear()}-${month}-${day}`;
+  }
+
+  const text = String(value ?? '').trim();
+
+  const frenchDate = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (frenchDate) {
+    return `${frenchDate[3]}-${frenchDate[2].padStart(2, '0')}-${frenchDate[1].padStart(2, '0')}`;
+  }
+
+  const isoDate = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (isoDate) {
+    return `${isoDate[1]}-${isoDate[2]}-${isoDate[3]}`;
+  }
+
+  return '';
+};
+
+/**
+ * Interprète une valeur booléenne du fichier (Oui, X, 1, true...)
+ */
+const normalizeBoolean = (value: unknown): boolean => {
+  if (typeof value === 'boolean') return value;
+  const text = String(value ?? '').trim();
+  return text === '✓' || ['oui', 'o', 'x', '1', 'true', 'vrai', 'yes', 'y'].includes(normalizeText(text));
+};
+
+/**
+ * Retrouve une catégorie d'âge à partir d'un libellé (M14, U14, Moins de 14 ans...)
+ */
+const findCategoryByLabel = (label: string, ageCategories: AgeCategory[]): AgeCategory | undefined => {
+  const exact = ageCategories.find(category => normalizeText(category.name) === normalizeText(label));
+  if (exact) return exact;
+
+  const ageMatch = label.match(/(\d+)/);
+  return ageMatch ? ageCategories.find(category => category.name === `M${parseInt(ageMatch[1], 10)}`) : undefined;
+};
+
+/**
+ * Construit l'aperçu de l'import : créations, mises à jour et lignes en erreur
+ * @param rows Lignes du fichier
+ * @param mapping Correspondance colonnes / champs
+ * @param players Joueurs existants
+ * @param ageCategories Catégories d'âge existantes
+ * @param rowNumbers Numéros de ligne des entrées dans le fichier (voir parseRosterFile)
+ * @returns Une entrée par ligne du fichier
+ */
+export const buildImportPreview = (
+  rows: Record<string, unknown>[],
+  mapping: PlayerImportMapping,
+  players: Player[],
+  ageCategories: AgeCategory[],
+  rowNumbers: number[] = []
+): PlayerImportRow[] => {
+  const season = loadCurrentSeason();
+  const playersByLicense = new Map(players.map(player => [normalizeLicenseNumber(player.licenseNumber), player]));
+  const seenLicenses = new Set<string>();
+
+  const getValue = (row: Record<string, unknown>, field: PlayerImportField): unknown =>
+    mapping[field] ? row[mapping[field] as string] : undefined;
+  const getText = (row: Record<string, unknown>, field: PlayerImportField): string =>
+    String(getValue(row, field) ?? '').trim();
+
+  return rows.map((row, index) => {
+    const errors: string[] = [];
+    const licenseNumber = normalizeLicenseNumber(getText(row, 'licenseNumber'));
+    const existingPlayer = licenseNumber ? playersByLicense.get(licenseNumber) : undefined;
+
+    const lastName = getText(row, 'lastName');
+    const firstName = getText(row, 'firstName');
+    const dateOfBirth = normalizeDate(getValue(row, 'dateOfBirth'));
+
+    if (!lastName) errors.push('Nom manquant');
+    if (!firstName) errors.push('Prénom manquant');
+    if (!dateOfBirth) errors.push('Date de naissance invalide');
+    if (!licenseNumber) {
+      errors.push('Numéro de licence manquant');
+    } else if (seenLicenses.has(licenseNumber)) {
+      errors.push('Licence en double dans le fichier');
+    }
+    seenLicenses.add(licenseNumber);
+
+    // Catégorie du fichier si elle est reconnue, sinon déduite de l'année de naissance
+    const categoryLabel = getText(row, 'category');
+    const category = (categoryLabel && findCategoryByLabel(categoryLabel, ageCategories)) ||
+      (dateOfBirth ? getCategoryForBirthDate(dateOfBirth, season, ageCategories) : undefined);
+    const ageCategoryId = category?.id || existingPlayer?.ageCategoryId || '';
+    if (!ageCategoryId) {
+      errors.push('Catégorie introuvable');
+    }
+
+    const player: Player = {
+      id: existingPlayer?.id || '',
+      firstName,
+      lastName,
+      dateOfBirth,
+      licenseNumber,
+      canPlayForward: mapping.canPlayForward
+        ? normalizeBoolean(getValue(row, 'canPlayForward'))
+        : existingPlayer?.canPlayForward || false,
+      canReferee: mapping.canReferee
+        ? normalizeBoolean(getValue(row, 'canReferee'))
+        : existingPlayer?.canReferee || false,
+      ageCategoryId,
+    };
+
+    const changedFields: string[] = [];
+    if (existingPlayer) {
+      if (existingPlayer.lastName !== player.lastName) changedFields.push('Nom');
+      if (existingPlayer.firstName !== player.firstName) changedFields.push('Prénom');
+      if (existingPlayer.dateOfBirth !== player.dateOfBirth) changedFields.push('Date de naissance');
+      if (existingPlayer.ageCategoryId !== player.ageCategoryId) changedFields.push('Catégorie');
+      if (existingPlayer.canPlayForward !== player.canPlayForward) changedFields.push('Avant');
+      if (existingPlayer.canReferee !== player.canReferee) changedFields.push('Arbitre');
+    }
+
+    let action: PlayerImportRow['action'] = 'create';
+    if (errors.length > 0) {
+      action = 'error';
+    } else if (existingPlayer) {
+      action = changedFields.length > 0 ? 'update' : 'unchanged';
+    }
+
+    return {
+      rowNumber: rowNumbers[index] ?? index + 2,
+      action,
+      player,
+      existingPlayer,
+      changedFields,
+      errors,
+    };
+  });
+};
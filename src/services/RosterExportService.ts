@@ -0,0 +1,191 @@
+import * as XLSX from 'xlsx';
+import { AgeCategory, Coach, Player } from '../types';
+
+/**
+ * Service d'export des effectifs du club (joueurs et entraîneurs)
+ * Formats : CSV (séparateur ;), XLSX et JSON de sauvegarde réimportable
+ */
+
+export type RosterExportFormat = 'csv' | 'xlsx' | 'json';
+
+// Identifiant du format JSON, vérifié lors de l'import
+export const ROSTER_BACKUP_FORMAT = 'rugby-nantua-roster';
+export const ROSTER_BACKUP_VERSION = 1;
+
+export interface RosterBackupPlayer {
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string;
+  licenseNumber: string;
+  category: string; // Nom de la catégorie (ex: M12) plutôt que son identifiant
+  canPlayForward: boolean;
+  canReferee: boolean;
+}
+
+export interface RosterBackupCoach {
+  firstName: string;
+  lastName: string;
+  licenseNumber: string;
+  diploma: string;
+  categories: string[]; // Noms des catégories (ex: M12) plutôt que leurs identifiants
+}
+
+export interface RosterBackup {
+  format: typeof ROSTER_BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  players?: RosterBackupPlayer[];
+  coaches?: RosterBackupCoach[];
+}
+
+const getCategoryName = (categoryId: string, ageCategories: AgeCategory[]): string =>
+  ageCategories.find(category => category.id === categoryId)?.name || '';
+
+const formatDate = (date: string): string => {
+  const [year, month, day] = date.substring(0, 10).split('-');
+  return year && month && day ? `${day}/${month}/${year}` : date;
+};
+
+/**
+ * Convertit les joueurs au format de sauvegarde JSON
+ */
+export const toBackupPlayers = (players: Player[], ageCategories: AgeCategory[]): RosterBackupPlayer[] =>
+  players.map(player => ({
+    firstName: player.firstName,
+    lastName: player.lastName,
+    dateOfBirth: player.dateOfBirth,
+    licenseNumber: player.licenseNumber,
+    category: getCategoryName(player.ageCategoryId, ageCategories),
+    canPlayForward: player.canPlayForward,
+    canReferee: player.canReferee,
+  }));
+
+/**
+ * Convertit les entraîneurs au format de sauvegarde JSON
+ */
+export const toBackupCoaches = (coaches: Coach[], ageCategories: AgeCategory[]): RosterBackupCoach[] =>
+  coaches.map(coach => ({
+    firstName: coach.firstName,
+    lastName: coach.lastName,
+    licenseNumber: coach.licenseNumber,
+    diploma: coach.diploma,
+    categories: coach.ageCategoryIds.map(id => getCategoryName(id, ageCategories)).filter(Boolean),
+  }));
+
+/**
+ * Lignes tabulaires des joueurs, avec des en-têtes reconnus par l'import
+ */
+export const toPlayerRows = (players: RosterBackupPlayer[]): Record<string, string>[] =>
+  players.map(player => ({
+    'Nom': player.lastName,
+    'Prénom': player.firstName,
+    'Date de naissance': formatDate(player.dateOfBirth),
+    'Numéro de licence': player.licenseNumber,
+    'Catégorie': player.category,
+    'Avant': player.canPlayForward ? 'Oui' : 'Non',
+    'Arbitre': player.canReferee ? 'Oui' : 'Non',
+  }));
+
+const toCoachRows = (coaches: RosterBackupCoach[]): Record<string, string>[] =>
+  coaches.map(coach => ({
+    'Nom': coach.lastName,
+    'Prénom': coach.firstName,
+    'Numéro de licence': coach.licenseNumber,
+    'Diplôme': coach.diploma,
+    'Catégories': coach.categories.join(', '),
+  }));
+
+/**
+ * Déclenche le téléchargement d'un fichier dans le navigateur
+ * @param blob Contenu du fichier
+ * @param filename Nom du fichier téléchargé
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const blobUrl = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = blobUrl;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+
+  // Nettoyage
+  document.body.removeChild(a);
+  URL.revokeObjectURL(blobUrl);
+};
+
+// Une cellule CSV commençant par = + - @, une tabulation ou un retour chariot serait interprétée comme une formule par le tableur
+const escapeCsvFormula = (value: string): string => /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+const downloadRows = (rows: Record<string, string>[], sheetName: string, filename: string, format: 'csv' | 'xlsx') => {
+  if (format === 'csv') {
+    const escapedRows = rows.map(row =>
+      Object.fromEntries(Object.entries(row).map(([header, value]) => [header, escapeCsvFormula(value)]))
+    );
+    // BOM UTF-8 pour qu'Excel affiche correctement les accents
+    const csv = XLSX.utils.sheet_to_csv(XLSX.utils.json_to_sheet(escapedRows), { FS: ';' });
+    downloadBlob(new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' }), `${filename}.csv`);
+    return;
+  }
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), sheetName);
+  const content = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+  downloadBlob(
+    new Blob([content], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+    `${filename}.xlsx`
+  );
+};
+
+const downloadBackup = (backup: RosterBackup, filename: string) => {
+  downloadBlob(new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }), `${filename}.json`);
+};
+
+const getExportFilename = (prefix: string) => `${prefix}_${new Date().toISOString().substring(0, 10)}`;
+
+/**
+ * Exporte une liste de joueurs
+ * @param players Joueurs à exporter (déjà filtrés)
+ * @param ageCategories Catégories d'âge, pour exporter les noms de catégories
+ * @param format Format du fichier
+ */
+export const exportPlayers = (players: Player[], ageCategories: AgeCategory[], format: RosterExportFormat): void => {
+  const backupPlayers = toBackupPlayers(players, ageCategories);
+  const filename = getExportFilename('joueurs');
+
+  if (format === 'json') {
+    downloadBackup({
+      format: ROSTER_BACKUP_FORMAT,
+      version: ROSTER_BACKUP_VERSION,
+      exportedAt: new Date().toISOString(),
+      players: backupPlayers,
+    }, filename);
+  } else {
+    downloadRows(toPlayerRows(backupPlayers), 'Joueurs', filename, format);
+  }
+
+  console.log(`${players.length} joueurs exportés au format ${format}`);
+};
+
+/**
+ * Exporte une liste d'entraîneurs
+ * @param coaches Entraîneurs à exporter (déjà filtrés)
+ * @param ageCategories Catégories d'âge, pour exporter les noms de catégories
+ * @param format Format du fichier
+ */
+export const exportCoaches = (coaches: Coach[], ageCategories: AgeCategory[], format: RosterExportFormat): void => {
+  const backupCoaches = toBackupCoaches(coaches, ageCategories);
+  const filename = getExportFilename('entraineurs');
+
+  if (format === 'json') {
+    downloadBackup({
+      format: ROSTER_BACKUP_FORMAT,
+      version: ROSTER_BACKUP_VERSION,
+      exportedAt: new Date().toISOString(),
+      coaches: backupCoaches,
+    }, filename);
+  } else {
+    downloadRows(toCoachRows(backupCoaches), 'Entraîneurs', filename, format);
+  }
+
+  console.log(`${coaches.length} entraîneurs exportés au format ${format}`);
+};
@@ -0,0 +1,146 @@
+import { AgeCategory, CategoryRosterRules, Coach, Player, RosterRuleKey, RosterRuleSeverity, RosterRuleViolation, Season } from '../types';
+
+/**
+ * Service des règles d'effectif par catégorie d'âge
+ * (nombre de joueurs, avants, jeunes arbitres, diplômes des entraîneurs, années de naissance)
+ */
+
+export const ROSTER_RULE_LABELS: Record<RosterRuleKey, string> = {
+  minPlayers: 'Nombre minimum de joueurs',
+  maxPlayers: 'Nombre maximum de joueurs',
+  minForwards: 'Nombre minimum d\'avants',
+  minReferees: 'Nombre minimum de jeunes arbitres',
+  coachDiplomas: 'Diplôme d\'entraîneur requis',
+  birthDates: 'Années de naissance de la catégorie',
+};
+
+const DEFAULT_SEVERITIES: Record<RosterRuleKey, RosterRuleSeverity> = {
+  minPlayers: 'error',
+  maxPlayers: 'error',
+  minForwards: 'error',
+  minReferees: 'warning',
+  coachDiplomas: 'warning',
+  birthDates: 'warning',
+};
+
+// Effectifs par défaut de l'école de rugby et des catégories jeunes
+const DEFAULT_LIMITS: Record<string, { minPlayers: number; maxPlayers: number; minForwards: number; minReferees: number }> = {
+  M6: { minPlayers: 4, maxPlayers: 10, minForwards: 0, minReferees: 0 },
+  M8: { minPlayers: 5, maxPlayers: 12, minForwards: 0, minReferees: 0 },
+  M10: { minPlayers: 7, maxPlayers: 14, minForwards: 2, minReferees: 0 },
+  M12: { minPlayers: 10, maxPlayers: 16, minForwards: 3, minReferees: 1 },
+  M14: { minPlayers: 12, maxPlayers: 22, minForwards: 6, minReferees: 1 },
+  M16: { minPlayers: 15, maxPlayers: 23, minForwards: 6, minReferees: 1 },
+  M19: { minPlayers: 15, maxPlayers: 23, minForwards: 6, minReferees: 1 },
+};
+
+/**
+ * Règles par défaut d'une catégorie
+ * @param categoryName Nom de la catégorie (ex: M12)
+ * @returns Les règles par défaut, toutes désactivées pour une catégorie inconnue
+ */
+export const getDefaultRosterRules = (categoryName: string): CategoryRosterRules => {
+  const limits = DEFAULT_LIMITS[categoryName];
+  return {
+    categoryName,
+    minPlayers: limits ? limits.minPlayers : null,
+    maxPlayers: limits ? limits.maxPlayers : null,
+    minForwards: limits && limits.minForwards > 0 ? limits.minForwards : null,
+    minReferees: limits && limits.minReferees > 0 ? limits.minReferees : null,
+    requiredDiplomas: [],
+    checkBirthDates: true,
+    severities: { ...DEFAULT_SEVERITIES },
+  };
+};
+
+/**
+ * Règles d'une catégorie : celles enregistrées avec la catégorie, complétées par les valeurs par défaut
+ * @param category Catégorie d'âge
+ * @returns Les règles de la catégorie
+ */
+export const loadRosterRules = (category: AgeCategory): CategoryRosterRules => {
+  const defaults = getDefaultRosterRules(category.name);
+  const stored = category.rosterRules;
+  if (!stored) {
+    return defaults;
+  }
+  return {
+    ...defaults,
+    ...stored,
+    categoryName: category.name,
+    severities: { ...defaults.severities, ...stored.severities },
+  };
+};
+
+// Comparaison des diplômes sans tenir compte de la casse ni des accents
+const normalizeDiploma = (value: string): string =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+/**
+ * Vérifie la composition d'une feuille de match par rapport aux règles de sa catégorie
+ * @param rules Règles de la catégorie
+ * @param players Joueurs sélectionnés
+ * @param coaches Entraîneurs sélectionnés
+ * @param season Saison courante, pour les tranches d'années de naissance
+ * @returns Liste des règles non respectées
+ */
+export const checkRosterRules = (
+  rules: CategoryRosterRules,
+  players: Player[],
+  coaches: Coach[],
+  season: Season
+): RosterRuleViolation[] => {
+  const violations: RosterRuleViolation[] = [];
+  const addViolation = (rule: RosterRuleKey, message: string) => {
+    violations.push({ rule, severity: rules.severities[rule], message });
+  };
+
+  if (rules.minPlayers !== null && players.length < rules.minPlayers) {
+    addViolation('minPlayers', `${players.length} joueur(s) sélectionné(s), minimum ${rules.minPlayers} en ${rules.categoryName}`);
+  }
+
+  if (rules.maxPlayers !== null && players.length > rules.maxPlayers) {
+    addViolation('maxPlayers', `${players.length} joueurs sélectionnés, maximum ${rules.maxPlayers} en ${rules.categoryName}`);
+  }
+
+  const forwards = players.filter(player => player.canPlayForward).length;
+  if (rules.minForwards !== null && forwards < rules.minForwards) {
+    addViolation('minForwards', `${forwards} avant(s) sélectionné(s), minimum ${rules.minForwards} pour jouer en sécurité en première ligne`);
+  }
+
+  const referees = players.filter(player => player.canReferee).length;
+  if (rules.minReferees !== null && referees < rules.minReferees) {
+    addViolation('minReferees', `${referees} jeune(s) arbitre(s) sélectionné(s), ${rules.minReferees} requis`);
+  }
+
+  const requiredDiplomas = rules.requiredDiplomas.map(normalizeDiploma).filter(Boolean);
+  if (requiredDiplomas.length > 0) {
+    const hasQualifiedCoach = coaches.some(coach => {
+      const diploma = normalizeDiploma(coach.diploma || '');
+      return diploma !== '' && requiredDiplomas.some(required => diploma.includes(required));
+    });
+    if (!hasQualifiedCoach) {
+      addViolation('coachDiplomas', `Aucun entraîneur titulaire d'un des diplômes requis : ${rules.requiredDiplomas.join(', ')}`);
+    }
+  }
+
+  if (rules.checkBirthDates) {
+    const range = season.categoryRanges.find(r => r.categoryName === rules.categoryName);
+    if (range) {
+      const outOfRange = players.filter(player => {
+        const birthYear = parseInt(player.dateOfBirth.substring(0, 4), 10);
+        return isNaN(birthYear) || birthYear < range.minBirthYear || birthYear > range.maxBirthYear;
+      });
+      if (outOfRange.length > 0) {
+        addViolation(
+          'birthDates',
+          `Né(s) hors de la tranche ${range.minBirthYear}-${range.maxBirthYear} : ${outOfRange
+            .map(player => `${player.lastName} ${player.firstName}`)
+            .join(', ')}`
+        );
+      }
+    }
+  }
+
+  return violations;
+};
@@ -0,0 +1,156 @@
+import { AgeCategory, Player, Season, SeasonCategoryRange, SeasonCategoryChange } from '../types';
+
+/**
+ * Service de gestion des saisons sportives
+ * Calcule la catégorie d'âge d'un joueur à partir de son année de naissance
+ */
+
+// Clé utilisée pour stocker la saison courante dans le localStorage
+export const SEASON_STORAGE_KEY = 'season_config';
+
+// Nombre d'années de naissance couvertes par chaque catégorie FFR, de la plus jeune à la plus âgée
+const CATEGORY_SPANS: { categoryName: string; span: number }[] = [
+  { categoryName: 'M6', span: 2 },
+  { categoryName: 'M8', span: 2 },
+  { categoryName: 'M10', span: 2 },
+  { categoryName: 'M12', span: 2 },
+  { categoryName: 'M14', span: 2 },
+  { categoryName: 'M16', span: 2 },
+  { categoryName: 'M19', span: 3 },
+];
+
+/**
+ * Retourne la date de début (1er septembre) de la saison en cours à une date donnée
+ * @param date Date de référence
+ * @returns Date de début au format YYYY-MM-DD
+ */
+export const getSeasonStartDate = (date: Date = new Date()): string => {
+  // La saison commence en septembre (mois 8 en JavaScript)
+  const startYear = date.getMonth() >= 8 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${startYear}-09-01`;
+};
+
+/**
+ * Crée une saison avec les tranches d'années de naissance par défaut
+ * Pour la saison 2024-2025 : M6 = 2019-2020, M8 = 2017-2018, ..., M19 = 2006-2008
+ * @param startDate Date de début de la saison (YYYY-MM-DD)
+ * @returns La saison correspondante
+ */
+export const createSeason = (startDate: string): Season => {
+  const startYear = parseInt(startDate.substring(0, 4), 10);
+  const endYear = startYear + 1;
+
+  // Les tranches sont contiguës : chaque catégorie commence juste avant la précédente
+  let maxBirthYear = endYear - 5;
+  const categoryRanges: SeasonCategoryRange[] = CATEGORY_SPANS.map(({ categoryName, span }) => {
+    const range = {
+      categoryName,
+      minBirthYear: maxBirthYear - span + 1,
+      maxBirthYear,
+    };
+    maxBirthYear = range.minBirthYear - 1;
+    return range;
+  });
+
+  return {
+    label: `${startYear}-${endYear}`,
+    startDate,
+    categoryRanges,
+  };
+};
+
+/**
+ * Indique si une saison a déjà été enregistrée (premier changement de saison sinon)
+ */
+export const hasSavedSeason = (): boolean => {
+  try {
+    return localStorage.getItem(SEASON_STORAGE_KEY) !== null;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Charge la saison courante enregistrée, ou la saison par défaut à la date du jour
+ * @returns La saison courante
+ */
+export const loadCurrentSeason = (): Season => {
+  try {
+    const stored = localStorage.getItem(SEASON_STORAGE_KEY);
+    if (stored) {
+      return JSON.parse(stored) as Season;
+    }
+  } catch (error) {
+    console.error('Erreur lors du chargement de la saison:', error);
+  }
+  return createSeason(getSeasonStartDate());
+};
+
+/**
+ * Enregistre la saison courante
+ * @param season Saison à enregistrer
+ */
+export const saveCurrentSeason = (season: Season): void => {
+  try {
+    localStorage.setItem(SEASON_STORAGE_KEY, JSON.stringify(season));
+  } catch (error) {
+    console.error('Erreur lors de l\'enregistrement de la saison:', error);
+  }
+};
+
+/**
+ * Détermine la catégorie d'âge correspondant à une date de naissance
+ * @param dateOfBirth Date de naissance (YYYY-MM-DD)
+ * @param season Saison de référence
+ * @param ageCategories Catégories d'âge existantes
+ * @returns La catégorie correspondante, ou undefined si aucune tranche ne correspond
+ */
+export const getCategoryForBirthDate = (
+  dateOfBirth: string,
+  season: Season,
+  ageCategories: AgeCategory[]
+): AgeCategory | undefined => {
+  const birthYear = parseInt(dateOfBirth.substring(0, 4), 10);
+  if (isNaN(birthYear)) {
+    return undefined;
+  }
+
+  const range = season.categoryRanges.find(r =>
+    birthYear >= r.minBirthYear && birthYear <= r.maxBirthYear
+  );
+  if (!range) {
+    return undefined;
+  }
+
+  return ageCategories.find(category => category.name === range.categoryName);
+};
+
+/**
+ * Calcule les changements de catégorie induits par une nouvelle saison
+ * @param players Joueurs du club
+ * @param season Nouvelle saison
+ * @param ageCategories Catégories d'âge existantes
+ * @returns Liste des joueurs dont la catégorie change
+ */
+export const computeSeasonChanges = (
+  players: Player[],
+  season: Season,
+  ageCategories: AgeCategory[]
+): SeasonCategoryChange[] => {
+  const changes: SeasonCategoryChange[] = [];
+
+  players.forEach(player => {
+    const category = getCategoryForBirthDate(player.dateOfBirth, season, ageCategories);
+    const toCategoryId = category ? category.id : null;
+
+    if (toCategoryId !== player.ageCategoryId) {
+      changes.push({
+        player,
+        fromCategoryId: player.ageCategoryId,
+        toCategoryId,
+      });
+    }
+  });
+
+  return changes;
+};
@@ -0,0 +1,206 @@
+import { QueuedMutation, SyncTable } from '../types';
+import * as supabaseService from './supabase';
+import {
+  enqueueMutation,
+  getQueuedMutations,
+  getVersion,
+  removeQueuedMutation,
+  saveVersions,
+  updateQueuedMutation,
+} from './OfflineStore';
+
+/**
+ * Service de synchronisation hors ligne
+ * Les modifications faites sans réseau sont mises en file d'attente puis rejouées
+ * contre Supabase à la reconnexion. Un enregistrement modifié sur le serveur entre-temps
+ * est signalé en conflit au lieu d'être écrasé.
+ */
+
+// Fonctions du service supabase pouvant être rejouées
+export const SYNC_METHODS = {
+  addPlayer: supabaseService.addPlayer,
+  updatePlayer: supabaseService.updatePlayer,
+  deletePlayer: supabaseService.deletePlayer,
+  addCoach: supabaseService.addCoach,
+  updateCoach: supabaseService.updateCoach,
+  deleteCoach: supabaseService.deleteCoach,
+  addTournament: supabaseService.addTournament,
+  updateTournament: supabaseService.updateTournament,
+  deleteTournament: supabaseService.deleteTournament,
+  addTemplate: supabaseService.addTemplate,
+  updateTemplate: supabaseService.updateTemplate,
+  deleteTemplate: supabaseService.deleteTemplate,
+  addMatchSheet: supabaseService.addMatchSheet,
+  updateMatchSheet: supabaseService.updateMatchSheet,
+  updateMatchSheetStatus: supabaseService.updateMatchSheetStatus,
+  deleteMatchSheet: supabaseService.deleteMatchSheet,
+  addMatchSheetRevision: supabaseService.addMatchSheetRevision,
+  addTemplateVersion: supabaseService.addTemplateVersion,
+};
+
+export type SyncMethod = keyof typeof SYNC_METHODS;
+
+export interface SyncResult {
+  applied: number;
+  conflicts: number;
+  failed: boolean;
+}
+
+export const isOnline = (): boolean => navigator.onLine;
+
+/**
+ * Indique si une erreur vient du réseau (requête jamais arrivée au serveur)
+ * navigator.onLine reste à true sur un réseau sans accès à Internet ou quand Supabase est injoignable :
+ * supabase-js renvoie alors une erreur dont le message reprend celui de fetch
+ * @param error Erreur levée par le service supabase
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  if (!isOnline() || error instanceof TypeError) return true;
+  const message = (error as { message?: unknown } | null)?.message;
+  return typeof message === 'string' && /failed to fetch|fetch failed|networkerror|load failed|network request failed/i.test(message);
+};
+
+// Les créations ne peuvent pas entrer en conflit : l'enregistrement n'existe pas encore sur le serveur
+const isCreation = (method: string) => method.startsWith('add');
+const isDeletion = (method: string) => method.startsWith('delete');
+// Historiques en ajout seul (révisions de feuilles, versions de modèles) : ils ont leur propre table,
+// la version de l'enregistrement concerné ne change pas
+const isHistoryEntry = (method: string) => method === 'addMatchSheetRevision' || method === 'addTemplateVersion';
+
+/**
+ * Exécute une modification contre Supabase et mémorise la nouvelle version de l'enregistrement
+ * @param table Table concernée
+ * @param method Fonction du service supabase
+ * @param args Arguments de la fonction
+ * @returns Le résultat renvoyé par Supabase
+ */
+export const executeMutation = async <M extends SyncMethod>(
+  table: SyncTable,
+  method: M,
+  args: Parameters<typeof SYNC_METHODS[M]>
+): Promise<Awaited<ReturnType<typeof SYNC_METHODS[M]>>> => {
+  const run = SYNC_METHODS[method] as (...params: unknown[]) => Promise<Awaited<ReturnType<typeof SYNC_METHODS[M]>>>;
+  const result = await run(...args);
+
+  const row = result as { id?: string; updated_at?: string | null } | undefined;
+  if (!isHistoryEntry(method) && row?.id && row.updated_at !== undefined) {
+    await saveVersions(table, [{ id: row.id, updated_at: row.updated_at }]).catch(err =>
+      console.error('Erreur lors de l\'enregistrement de la version locale:', err)
+    );
+  }
+
+  return result;
+};
+
+/**
+ * Met une modification en file d'attente pour la rejouer à la reconnexion
+ * @param table Table concernée
+ * @param recordId ID de l'enregistrement modifié
+ * @param method Fonction du service supabase
+ * @param args Arguments de la fonction
+ * @param label Description affichée en cas de conflit
+ */
+export const queueMutation = async <M extends SyncMethod>(
+  table: SyncTable,
+  recordId: string,
+  method: M,
+  args: Parameters<typeof SYNC_METHODS[M]>,
+  label: string
+): Promise<void> => {
+  // Version serveur connue au moment de la modification, comparée lors du rejeu
+  const baseVersion = isCreation(method) ? undefined : await getVersion(table, recordId);
+
+  await enqueueMutation({
+    table,
+    recordId,
+    method,
+    args,
+    label,
+    baseVersion,
+    createdAt: new Date(),
+  });
+  console.log(`Modification hors ligne mise en file d'attente : ${label}`);
+};
+
+/**
+ * Rejoue la file d'attente dans l'ordre
+ * Le rejeu s'arrête à la première erreur réseau pour conserver l'ordre des modifications
+ * @returns Le nombre de modifications appliquées et de conflits détectés
+ */
+export const replayQueue = async (): Promise<SyncResult> => {
+  const result: SyncResult = { applied: 0, conflicts: 0, failed: false };
+  const mutations = await getQueuedMutations();
+  // Versions produites par le rejeu lui-même, pour ne pas signaler nos propres modifications en conflit
+  const replayedVersions = new Map<string, string | null | undefined>();
+  const conflictedRecords = new Set<string>();
+
+  for (const mutation of mutations) {
+    const recordKey = `${mutation.table}:${mutation.recordId}`;
+    if (mutation.conflict || mutation.id === undefined) {
+      conflictedRecords.add(recordKey);
+      continue;
+    }
+
+    try {
+      const expectedVersion = replayedVersions.has(recordKey)
+        ? replayedVersions.get(recordKey)
+        : mutation.baseVersion;
+
+      // Les modifications suivantes d'un enregistrement en conflit restent en attente avec lui
+      let hasConflict = conflictedRecords.has(recordKey);
+      if (!hasConflict && !isCreation(mutation.method) && expectedVersion !== undefined) {
+        const serverVersion = await supabaseService.getRecordVersion(mutation.table, mutation.recordId);
+        if (serverVersion === undefined && isDeletion(mutation.method)) {
+          // Déjà supprimé sur le serveur : rien à rejouer
+          await removeQueuedMutation(mutation.id);
+          continue;
+        }
+        hasConflict = serverVersion !== expectedVersion;
+      }
+
+      if (hasConflict) {
+        await updateQueuedMutation({ ...mutation, conflict: true });
+        conflictedRecords.add(recordKey);
+        result.conflicts++;
+        continue;
+      }
+
+      const response = await executeMutation(
+        mutation.table,
+        mutation.method as SyncMethod,
+        mutation.args as Parameters<typeof SYNC_METHODS[SyncMethod]>
+      );
+      if (!isHistoryEntry(mutation.method)) {
+        const row = response as { updated_at?: string | null } | undefined;
+        replayedVersions.set(recordKey, row?.updated_at);
+      }
+      await removeQueuedMutation(mutation.id);
+      result.applied++;
+    } catch (err) {
+      console.error(`Erreur lors du rejeu de la modification « ${mutation.label} »:`, err);
+      result.failed = true;
+      break;
+    }
+  }
+
+  console.log(`Synchronisation terminée : ${result.applied} modification(s) appliquée(s), ${result.conflicts} conflit(s)`);
+  return result;
+};
+
+/**
+ * Résout un conflit détecté lors du rejeu
+ * @param mutation Modification en conflit
+ * @param keepLocal true pour appliquer la modification locale malgré tout, false pour garder la version du serveur
+ */
+export const resolveConflict = async (mutation: QueuedMutation, keepLocal: boolean): Promise<void> => {
+  if (mutation.id === undefined) return;
+
+  if (keepLocal) {
+    await executeMutation(
+      mutation.table,
+      mutation.method as SyncMethod,
+      mutation.args as Parameters<typeof SYNC_METHODS[SyncMethod]>
+    );
+  }
+  await removeQueuedMutation(mutation.id);
+};
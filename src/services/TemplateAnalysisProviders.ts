@@ -0,0 +1,290 @@
+import { FormFieldInfo, suggestFieldMappings } from './FieldMappingSuggester';
+import { PdfTextLayout } from './PdfTextExtractor';
+
+/**
+ * Fournisseurs d'analyse des modèles PDF
+ *
+ * Le fournisseur est choisi par la variable VITE_AI_PROVIDER (voir le README) :
+ * - 'mistral' (par défaut) : API Mistral, clé dans VITE_MISTRAL_API_KEY
+ * - 'openai' : serveur compatible OpenAI (Ollama, llama.cpp...), adresse dans VITE_OPENAI_BASE_URL
+ *   et modèle dans VITE_OPENAI_MODEL, clé facultative dans VITE_OPENAI_API_KEY
+ * - 'local' : propositions hors ligne et déterministes à partir des champs du formulaire et des libellés
+ *   qui les entourent (voir FieldMappingSuggester), sans réseau
+ */
+
+export type AnalysisProviderId = 'mistral' | 'openai' | 'local';
+
+// Éléments du modèle transmis au fournisseur
+export interface TemplateAnalysisInput {
+  text: string; // Texte extrait du PDF
+  fields: FormFieldInfo[]; // Champs du formulaire, vide pour un PDF sans formulaire
+  layout?: PdfTextLayout; // Texte positionné et emplacement des champs
+}
+
+export interface TemplateAnalysisProvider {
+  id: AnalysisProviderId;
+  label: string;
+  /**
+   * Vérifie la configuration du fournisseur
+   * @returns Le message à afficher si le fournisseur n'est pas utilisable, null sinon
+   */
+  getConfigurationError: () => string | null;
+  /**
+   * Propose les correspondances des champs du modèle
+   * @returns Les mappings proposés, à valider par l'appelant
+   */
+  analyzeFields: (input: TemplateAnalysisInput) => Promise<unknown[]>;
+}
+
+const SYSTEM_PROMPT = 'Vous êtes un assistant spécialisé dans l\'analyse de documents PDF et la détection de champs de formulaire.';
+
+/**
+ * Prompt d'analyse commun aux fournisseurs utilisant un modèle de langage
+ */
+const buildAnalysisPrompt = ({ text, fields }: TemplateAnalysisInput): string => `
+    Tu es un expert en analyse de formulaires et de documents PDF pour le rugby.
+
+    Voici le texte extrait d'un PDF qui est un modèle de feuille de match de rugby:
+
+    ${text}
+    ${fields.length > 0 ? `
+    Le formulaire contient les champs suivants (utilise exactement ces noms dans "champ_pdf"):
+    ${fields.map(field => field.name).join(', ')}
+    ` : ''}
+    Je veux que tu identifies tous les champs de formulaire et zones où des informations doivent être remplies.
+    Pour chaque champ identifié, détermine:
+
+    1. Le nom du champ (tel qu'il apparaît dans le PDF)
+    2. Le type de données qu'il contient (joueur, educateur, global, autre)
+    3. La correspondance (mapping) avec notre structure de données
+
+    Types de données possibles:
+    - "joueur": informations sur un joueur (nom, prénom, licence, etc.)
+    - "educateur": informations sur un entraîneur/éducateur
+    - "global": informations générales sur le tournoi, la date, etc.
+    - "autre": autres types d'informations
+
+    Structure de nos données:
+    - Joueurs: nom, prénom, licence, peut_jouer_avant, peut_arbitrer
+    - Éducateurs: nom, prénom, licence, diplôme, est_referent
+    - Tournoi: nom, date, lieu, catégorie
+
+    Les champs répétés pour chaque joueur ou éducateur (ex: Nom_1, Nom_2, ...) ne doivent apparaître qu'une fois:
+    remplace le numéro de ligne par {i} dans "champ_pdf" (ex: "Nom_{i}") et indique dans "ligne"
+    le numéro de la première ligne et le nombre de lignes présentes dans le PDF.
+
+    Réponds avec une liste JSON au format suivant:
+    [
+      {
+        "champ_pdf": "Nom du champ dans le PDF",
+        "type": "joueur|educateur|global|autre",
+        "mapping": "correspondance.avec.notre.structure",
+        "valeur_possible": ["valeur1", "valeur2"], // Optionnel: exemples de valeurs trouvées
+        "ligne": { "index_depart": 1, "nombre_lignes": 12 } // Uniquement pour les champs joueur et educateur
+      },
+      ...
+    ]
+
+    Ne fournis que le JSON, sans autre texte autour.
+    `;
+
+/**
+ * Extrait la liste JSON d'une réponse de modèle, avec ou sans texte autour
+ */
+const parseJsonList = (response: string): unknown[] => {
+  let jsonResponse: unknown;
+
+  try {
+    // Tenter de parser directement la réponse
+    jsonResponse = JSON.parse(response);
+  } catch (parseError) {
+    // Si le JSON n'est pas directement parsable, essayer d'extraire le bloc JSON
+    const jsonMatch = response.match(/\[\s*{[\s\S]*}\s*\]/);
+    if (!jsonMatch) {
+      console.error('Pas de JSON trouvé dans la réponse de l\'API:', response);
+      throw new Error('Pas de JSON trouvé dans la réponse de l\'API');
+    }
+    try {
+      jsonResponse = JSON.parse(jsonMatch[0]);
+    } catch (innerError) {
+      console.error('Erreur lors du parsing du JSON extrait:', innerError);
+      throw new Error('Format de réponse de l\'API non valide');
+    }
+  }
+
+  // Vérifier que nous avons un tableau
+  if (!Array.isArray(jsonResponse)) {
+    throw new Error('La réponse de l\'API n\'est pas un tableau');
+  }
+
+  return jsonResponse;
+};
+
+interface ChatCompletionConfig {
+  url: string;
+  model: string;
+  apiKey?: string;
+  name: string; // Nom du service dans les messages d'erreur
+}
+
+/**
+ * Appel d'une API de type chat/completions (format commun à Mistral et OpenAI)
+ */
+const callChatCompletion = async (config: ChatCompletionConfig, prompt: string): Promise<string> => {
+  try {
+    console.log(`Appel à l'API ${config.name} en cours...`);
+
+    const response = await fetch(config.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: config.model,
+        messages: [
+          {
+            role: 'system',
+            content: SYSTEM_PROMPT
+          },
+          {
+            role: 'user',
+            content: prompt
+          }
+        ],
+        temperature: 0.2,
+        max_tokens: 4000
+      })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(`Erreur API ${config.name}: ${errorData.error?.message || response.statusText || 'Erreur inconnue'}`);
+    }
+
+    const data = await response.json();
+
+    if (!data.choices || data.choices.length === 0 || !data.choices[0].message || !data.choices[0].message.content) {
+      throw new Error(`Format de réponse ${config.name} inattendu`);
+    }
+
+    return data.choices[0].message.content;
+  } catch (error) {
+    console.error(`Erreur lors de l'appel à l'API ${config.name}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Fournisseur reposant sur un modèle de langage accessible par une API chat/completions
+ */
+const createChatProvider = (
+  id: AnalysisProviderId,
+  label: string,
+  getConfig: () => ChatCompletionConfig,
+  getConfigurationError: () => string | null
+): TemplateAnalysisProvider => {
+  const complete = (prompt: string) => {
+    const configurationError = getConfigurationError();
+    if (configurationError) {
+      throw new Error(configurationError);
+    }
+    return callChatCompletion(getConfig(), prompt);
+  };
+
+  return {
+    id,
+    label,
+    getConfigurationError,
+    analyzeFields: async input => parseJsonList(await complete(buildAnalysisPrompt(input))),
+  };
+};
+
+const mistralProvider = createChatProvider(
+  'mistral',
+  'l\'API Mistral',
+  () => ({
+    url: 'https://api.mistral.ai/v1/chat/completions',
+    model: import.meta.env.VITE_MISTRAL_MODEL || 'mistral-large-latest',
+    apiKey: import.meta.env.VITE_MISTRAL_API_KEY,
+    name: 'Mistral',
+  }),
+  () => import.meta.env.VITE_MISTRAL_API_KEY
+    ? null
+    : 'Clé API Mistral non définie. Veuillez définir VITE_MISTRAL_API_KEY dans votre fichier .env'
+);
+
+const openAiProvider = createChatProvider(
+  'openai',
+  'le serveur d\'IA configuré',
+  () => ({
+    url: `${(import.meta.env.VITE_OPENAI_BASE_URL || '').replace(/\/+$/, '')}/chat/completions`,
+    model: import.meta.env.VITE_OPENAI_MODEL || '',
+    apiKey: import.meta.env.VITE_OPENAI_API_KEY,
+    name: 'OpenAI',
+  }),
+  () => {
+    if (!import.meta.env.VITE_OPENAI_BASE_URL) {
+      return 'Adresse du serveur non définie. Veuillez définir VITE_OPENAI_BASE_URL dans votre fichier .env (ex: http://localhost:11434/v1)';
+    }
+    if (!import.meta.env.VITE_OPENAI_MODEL) {
+      return 'Modèle non défini. Veuillez définir VITE_OPENAI_MODEL dans votre fichier .env (ex: llama3.1)';
+    }
+    return null;
+  }
+);
+
+const localProvider: TemplateAnalysisProvider = {
+  id: 'local',
+  label: 'l\'analyse hors ligne des champs et libellés',
+  getConfigurationError: () => null,
+  analyzeFields: async ({ fields, layout }) => {
+    if (fields.length === 0) {
+      throw new Error('Le modèle ne contient aucun champ de formulaire : l\'analyse hors ligne ne peut rien proposer');
+    }
+    return suggestFieldMappings(fields, layout);
+  },
+};
+
+const PROVIDERS: Record<AnalysisProviderId, TemplateAnalysisProvider> = {
+  mistral: mistralProvider,
+  openai: openAiProvider,
+  local: localProvider,
+};
+
+const CONFIGURED_PROVIDER_ID = (import.meta.env.VITE_AI_PROVIDER || '').trim().toLowerCase();
+
+const isAnalysisProviderId = (id: string): id is AnalysisProviderId =>
+  Object.prototype.hasOwnProperty.call(PROVIDERS, id);
+
+// Une valeur inconnue bloque l'analyse au lieu d'envoyer le modèle à Mistral sans que ce soit voulu
+const UNKNOWN_PROVIDER_ERROR = CONFIGURED_PROVIDER_ID && !isAnalysisProviderId(CONFIGURED_PROVIDER_ID)
+  ? `Fournisseur d'analyse inconnu : VITE_AI_PROVIDER vaut « ${CONFIGURED_PROVIDER_ID} ». `
+    + `Valeurs possibles : ${Object.keys(PROVIDERS).join(', ')}`
+  : null;
+
+if (UNKNOWN_PROVIDER_ERROR) {
+  console.warn(UNKNOWN_PROVIDER_ERROR);
+}
+
+export const ANALYSIS_PROVIDER_ID: AnalysisProviderId =
+  CONFIGURED_PROVIDER_ID && isAnalysisProviderId(CONFIGURED_PROVIDER_ID) ? CONFIGURED_PROVIDER_ID : 'mistral';
+
+/**
+ * Fournisseur d'analyse choisi pour cet environnement
+ * Si VITE_AI_PROVIDER ne désigne aucun fournisseur, sa configuration est signalée en erreur
+ */
+export const getAnalysisProvider = (): TemplateAnalysisProvider => {
+  const provider = PROVIDERS[ANALYSIS_PROVIDER_ID];
+  if (!UNKNOWN_PROVIDER_ERROR) {
+    return provider;
+  }
+  return {
+    ...provider,
+    label: 'un fournisseur d\'IA inconnu',
+    getConfigurationError: () => UNKNOWN_PROVIDER_ERROR,
+    analyzeFields: async () => {
+      throw new Error(UNKNOWN_PROVIDER_ERROR);
+    },
+  };
+};
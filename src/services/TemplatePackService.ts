@@ -0,0 +1,297 @@
+import JSZip from 'jszip';
+import { AgeCategory, PdfFieldMapping, PdfOverlayLayout, Template } from '../types';
+import { getPdf } from './PdfStorage';
+import { hashPdfContent } from './PdfCache';
+import { validateFormat } from './ValueFormatter';
+
+/**
+ * Service d'échange de modèles entre clubs
+ *
+ * Contenu d'un pack (archive ZIP) :
+ * - manifest.json : format, version, date et hash SHA-256 du PDF (file_hash)
+ * - template.json : nom, description, correspondances, zones de texte et noms des catégories
+ * - template.pdf : fichier du modèle
+ */
+
+const PACK_FORMAT = 'rugby-nantua-template-pack';
+const PACK_VERSION = 1;
+
+const MAPPING_TYPES: PdfFieldMapping['type'][] = ['joueur', 'educateur', 'global', 'autre'];
+
+interface TemplatePackManifest {
+  format: typeof PACK_FORMAT;
+  version: number;
+  createdAt: string;
+  file_hash: string;
+}
+
+interface TemplatePackData {
+  name: string;
+  description?: string;
+  fieldMappings: PdfFieldMapping[];
+  overlayLayout?: PdfOverlayLayout;
+  categories: string[]; // Noms des catégories : les identifiants diffèrent d'un projet à l'autre
+}
+
+export interface ImportedTemplatePack {
+  template: Omit<Template, 'id' | 'fileUrl'>;
+  pdfContent: string; // Contenu du PDF en data URL
+  fileName: string;
+  warnings: string[];
+}
+
+// Nom de fichier sans accents ni espaces (ex: Feuille U10 → Feuille_U10)
+const toFileSlug = (name: string): string =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'modele';
+
+/**
+ * Nom du fichier d'un pack à partir du nom du modèle
+ */
+export const getTemplatePackFileName = (template: Template): string => `modele_${toFileSlug(template.name)}.zip`;
+
+/**
+ * Crée le pack d'un modèle : PDF, correspondances et catégories
+ * @param template Modèle à exporter
+ * @param ageCategories Catégories d'âge du projet, pour en exporter les noms
+ * @returns Le contenu de l'archive
+ */
+export const createTemplatePack = async (template: Template, ageCategories: AgeCategory[]): Promise<Blob> => {
+  const content = await getPdf(template.fileUrl);
+  if (!content) {
+    throw new Error(`Fichier PDF du modèle ${template.name} introuvable`);
+  }
+
+  const zip = new JSZip();
+  const data: TemplatePackData = {
+    name: template.name,
+    description: template.description || undefined,
+    fieldMappings: template.fieldMappings || [],
+    overlayLayout: template.overlayLayout,
+    categories: template.ageCategoryIds
+      .map(id => ageCategories.find(category => category.id === id)?.name)
+      .filter((name): name is string => !!name),
+  };
+  const manifest: TemplatePackManifest = {
+    format: PACK_FORMAT,
+    version: PACK_VERSION,
+    createdAt: new Date().toISOString(),
+    file_hash: hashPdfContent(content),
+  };
+
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+  zip.file('template.json', JSON.stringify(data, null, 2));
+  zip.file('template.pdf', content.includes('base64,') ? content.split('base64,')[1] : content, { base64: true });
+
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringList = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isPositiveNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const isFiniteNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+
+// Propriétés d'un objet qui ne passent pas leur contrôle
+const getInvalidProperties = (value: Record<string, unknown>, checks: Record<string, (property: unknown) => boolean>) =>
+  Object.entries(checks).filter(([key, check]) => !check(value[key])).map(([key]) => key);
+
+const isOptionalFormat = (value: unknown) =>
+  value === undefined || (typeof value === 'string' && validateFormat(value).length === 0);
+
+/**
+ * Vérifie les correspondances d'un pack
+ * @returns Les erreurs trouvées, vide si les correspondances sont valides
+ */
+const validateFieldMappings = (mappings: unknown): string[] => {
+  if (!Array.isArray(mappings)) {
+    return ['Les correspondances doivent être une liste'];
+  }
+
+  const errors: string[] = [];
+  mappings.forEach((mapping, index) => {
+    const label = `Correspondance ${index + 1}`;
+    if (!isObject(mapping)) {
+      errors.push(`${label} : format invalide`);
+      return;
+    }
+    if (typeof mapping.champ_pdf !== 'string' || !mapping.champ_pdf.trim()) {
+      errors.push(`${label} : champ_pdf manquant`);
+    }
+    if (!MAPPING_TYPES.includes(mapping.type as PdfFieldMapping['type'])) {
+      errors.push(`${label} : type inconnu (${String(mapping.type)})`);
+    }
+    if (typeof mapping.mapping !== 'string') {
+      errors.push(`${label} : mapping manquant`);
+    }
+    if (mapping.valeur_possible !== undefined && !isStringList(mapping.valeur_possible)) {
+      errors.push(`${label} : valeur_possible doit être une liste de textes`);
+    }
+    if (mapping.obligatoire !== undefined && typeof mapping.obligatoire !== 'boolean') {
+      errors.push(`${label} : obligatoire doit être vrai ou faux`);
+    }
+    if (mapping.format !== undefined) {
+      if (typeof mapping.format !== 'string') {
+        errors.push(`${label} : format invalide`);
+      } else {
+        validateFormat(mapping.format).forEach(error => errors.push(`${label} : ${error}`));
+      }
+    }
+    if (mapping.ligne !== undefined) {
+      const ligne = mapping.ligne;
+      if (!isObject(ligne) || typeof ligne.index_depart !== 'number'
+        || (ligne.nombre_lignes !== undefined && !isPositiveNumber(ligne.nombre_lignes))
+        || (ligne.champs_par_ligne !== undefined && !isStringList(ligne.champs_par_ligne))) {
+        errors.push(`${label} : modèle de ligne invalide`);
+      }
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Vérifie les zones de texte d'un pack
+ * Toutes les propriétés lues pour écrire sur le PDF sont contrôlées (position, largeur, police, donnée, format)
+ */
+const validateOverlayLayout = (layout: unknown): string[] => {
+  if (layout === undefined || layout === null) return [];
+  if (!isObject(layout) || !Array.isArray(layout.zones) || !Array.isArray(layout.tableaux)) {
+    return ['Les zones de texte sont invalides'];
+  }
+
+  const errors: string[] = [];
+  const pushInvalid = (label: string, invalid: string[]) => {
+    if (invalid.length > 0) {
+      errors.push(`${label} : ${invalid.join(', ')} invalide(s)`);
+    }
+  };
+
+  layout.zones.forEach((zone, index) => {
+    if (!isObject(zone)) {
+      errors.push(`Zone de texte ${index + 1} invalide`);
+      return;
+    }
+    pushInvalid(`Zone de texte ${index + 1}`, getInvalidProperties(zone, {
+      page: isPositiveNumber,
+      x: isFiniteNumber,
+      y: isFiniteNumber,
+      largeur: isPositiveNumber,
+      taille_police: isPositiveNumber,
+      mapping: value => typeof value === 'string',
+      format: isOptionalFormat,
+    }));
+  });
+
+  layout.tableaux.forEach((table, index) => {
+    if (!isObject(table)) {
+      errors.push(`Tableau ${index + 1} invalide`);
+      return;
+    }
+    pushInvalid(`Tableau ${index + 1}`, getInvalidProperties(table, {
+      type: value => value === 'joueur' || value === 'educateur',
+      page: isPositiveNumber,
+      y: isFiniteNumber,
+      hauteur_ligne: isPositiveNumber,
+      nombre_lignes: isPositiveNumber,
+      taille_police: isPositiveNumber,
+      colonnes: Array.isArray,
+    }));
+
+    if (!Array.isArray(table.colonnes)) return;
+    table.colonnes.forEach((column, columnIndex) => {
+      const label = `Tableau ${index + 1}, colonne ${columnIndex + 1}`;
+      if (!isObject(column)) {
+        errors.push(`${label} invalide`);
+        return;
+      }
+      pushInvalid(label, getInvalidProperties(column, {
+        x: isFiniteNumber,
+        largeur: isPositiveNumber,
+        mapping: value => typeof value === 'string',
+        format: isOptionalFormat,
+      }));
+    });
+  });
+  return errors;
+};
+
+const readJson = async (zip: JSZip, path: string): Promise<unknown> => {
+  const file = zip.file(path);
+  if (!file) return null;
+  try {
+    return JSON.parse(await file.async('string'));
+  } catch (error) {
+    throw new Error(`Le fichier ${path} du pack est illisible`);
+  }
+};
+
+/**
+ * Lit et vérifie un pack de modèle
+ * Le PDF doit correspondre au hash du manifeste et les correspondances au format attendu
+ * @param file Archive du pack
+ * @param ageCategories Catégories d'âge du projet (rapprochées par nom)
+ * @returns Le modèle à créer, son PDF et les avertissements
+ */
+export const readTemplatePack = async (file: Blob, ageCategories: AgeCategory[]): Promise<ImportedTemplatePack> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch (error) {
+    throw new Error('Ce fichier n\'est pas un pack de modèle');
+  }
+
+  const manifest = await readJson(zip, 'manifest.json') as TemplatePackManifest | null;
+  if (!isObject(manifest) || manifest.format !== PACK_FORMAT) {
+    throw new Error('Ce fichier n\'est pas un pack de modèle');
+  }
+  if (manifest.version > PACK_VERSION) {
+    throw new Error('Ce pack a été créé par une version plus récente de l\'application');
+  }
+
+  const pdfFile = zip.file('template.pdf');
+  if (!pdfFile) {
+    throw new Error('Le pack ne contient pas de fichier PDF');
+  }
+  const pdfContent = `data:application/pdf;base64,${await pdfFile.async('base64')}`;
+  if (!manifest.file_hash || hashPdfContent(pdfContent) !== manifest.file_hash) {
+    throw new Error('Le PDF du pack ne correspond pas à son empreinte (file_hash) : le fichier est altéré ou incomplet');
+  }
+
+  const data = await readJson(zip, 'template.json');
+  if (!isObject(data) || typeof data.name !== 'string' || !data.name.trim()) {
+    throw new Error('Le pack ne contient pas de modèle valide');
+  }
+  const errors = [...validateFieldMappings(data.fieldMappings), ...validateOverlayLayout(data.overlayLayout)];
+  if (errors.length > 0) {
+    throw new Error(`Correspondances du pack invalides :\n- ${errors.join('\n- ')}`);
+  }
+
+  const packData = data as unknown as TemplatePackData;
+  const warnings: string[] = [];
+  const ageCategoryIds: string[] = [];
+  (isStringList(packData.categories) ? packData.categories : []).forEach(name => {
+    const category = ageCategories.find(c => c.name === name);
+    if (category) {
+      ageCategoryIds.push(category.id);
+    } else {
+      warnings.push(`Catégorie ${name} absente du projet`);
+    }
+  });
+
+  return {
+    template: {
+      name: packData.name.trim(),
+      description: typeof packData.description === 'string' ? packData.description : '',
+      ageCategoryIds,
+      fieldMappings: packData.fieldMappings,
+      overlayLayout: packData.overlayLayout || undefined,
+      fileHash: manifest.file_hash,
+    },
+    pdfContent,
+    fileName: `${Date.now()}_${toFileSlug(packData.name)}.pdf`,
+    warnings,
+  };
+};
@@ -0,0 +1,212 @@
+import { PDFDocument, rgb } from 'pdf-lib';
+import { Coach, Player, Template, Tournament } from '../types';
+import { getPdf } from './PdfStorage';
+import {
+  FilledField,
+  findRowPageIndexes,
+  generatePdf,
+  getDeclaredRowCapacity,
+  getRowFieldNames,
+  PdfGenerationReport,
+  ReportedField,
+} from './PdfGenerator';
+
+/**
+ * Test de remplissage d'un modèle avec un effectif fictif
+ * L'effectif peut être poussé aux limites du modèle (nombre de lignes, noms longs, accents, cases cochées)
+ * pour repérer avant le jour du tournoi les champs trop étroits ou restés vides
+ */
+
+export interface SyntheticRosterOptions {
+  playerCount: number;
+  coachCount: number;
+  longNames: boolean; // Prénoms composés et noms à rallonge
+  accents: boolean; // Accents, cédilles, apostrophes
+  allFlags: boolean; // Avant, arbitre : toutes les cases cochées
+}
+
+export interface TemplateTestResult {
+  pdfBytes: Uint8Array;
+  report: PdfGenerationReport;
+  emptyFields: ReportedField[]; // Champs mappés restés vides
+}
+
+// Nombre de lignes utilisé quand le modèle ne le précise pas
+const DEFAULT_PLAYER_COUNT = 12;
+const DEFAULT_COACH_COUNT = 3;
+
+const FIRST_NAMES = ['Lucas', 'Emma', 'Hugo', 'Louise', 'Jules', 'Alice', 'Tom', 'Lina', 'Nathan', 'Rose'];
+const ACCENTED_FIRST_NAMES = ['Éloïse', 'Jérôme', 'Anaïs', 'Noël', 'Maëlys', 'François', 'Zoé', 'Gaël', 'Chloé', 'Loïc'];
+const LAST_NAMES = ['Martin', 'Bernard', 'Dubois', 'Thomas', 'Robert', 'Richard', 'Petit', 'Durand', 'Leroy', 'Moreau'];
+const ACCENTED_LAST_NAMES = ['Lefèvre', 'D\'Aubigné', 'Garçon', 'Bélanger', 'Pâris', 'Hervé', 'Leçon', 'Müller', 'Génot', 'Éluard'];
+const DIPLOMAS = ['Brevet Fédéral Entraîneur', 'Brevet Fédéral Éducateur Rugby à l\'École', 'Animateur'];
+
+/**
+ * Effectif proposé par défaut : autant de joueurs et d'éducateurs que de lignes dans le modèle
+ */
+export const getDefaultSyntheticRosterOptions = (template: Template): SyntheticRosterOptions => ({
+  playerCount: getDeclaredRowCapacity(template, 'joueur') ?? DEFAULT_PLAYER_COUNT,
+  coachCount: getDeclaredRowCapacity(template, 'educateur') ?? DEFAULT_COACH_COUNT,
+  longNames: true,
+  accents: true,
+  allFlags: true,
+});
+
+const pickName = (names: string[], accentedNames: string[], index: number, accents: boolean) =>
+  (accents && index % 2 === 0 ? accentedNames : names)[index % names.length];
+
+const buildFirstName = (index: number, options: SyntheticRosterOptions) => {
+  const firstName = pickName(FIRST_NAMES, ACCENTED_FIRST_NAMES, index, options.accents);
+  return options.longNames ? `${firstName}-${pickName(FIRST_NAMES, ACCENTED_FIRST_NAMES, index + 3, options.accents)}` : firstName;
+};
+
+const buildLastName = (index: number, options: SyntheticRosterOptions) => {
+  const lastName = pickName(LAST_NAMES, ACCENTED_LAST_NAMES, index, options.accents);
+  return options.longNames
+    ? `${lastName}-${pickName(LAST_NAMES, ACCENTED_LAST_NAMES, index + 1, options.accents)} de la ${pickName(LAST_NAMES, ACCENTED_LAST_NAMES, index + 5, options.accents)}`
+    : lastName;
+};
+
+// Numéro de licence fictif à 13 chiffres, différent pour chaque ligne
+const buildLicenseNumber = (prefix: number, index: number) => `${prefix}${String(index + 1).padStart(9, '0')}`;
+
+/**
+ * Crée l'effectif fictif et le tournoi utilisés pour le test
+ */
+export const buildSyntheticRoster = (
+  options: SyntheticRosterOptions
+): { players: Player[]; coaches: Coach[]; referentCoachId: string; tournament: Tournament } => {
+  const players: Player[] = Array.from({ length: options.playerCount }, (_, index) => ({
+    id: `test-player-${index + 1}`,
+    firstName: buildFirstName(index, options),
+    lastName: buildLastName(index, options),
+    dateOfBirth: '2015-06-15',
+    licenseNumber: buildLicenseNumber(2015, index),
+    canPlayForward: options.allFlags || index % 2 === 0,
+    canReferee: options.allFlags || index % 3 === 0,
+    ageCategoryId: 'test',
+  }));
+
+  const coaches: Coach[] = Array.from({ length: options.coachCount }, (_, index) => ({
+    id: `test-coach-${index + 1}`,
+    firstName: buildFirstName(index + 7, options),
+    lastName: buildLastName(index + 7, options),
+    licenseNumber: buildLicenseNumber(1980, index),
+    diploma: DIPLOMAS[index % DIPLOMAS.length],
+    ageCategoryIds: ['test'],
+  }));
+
+  const tournament: Tournament = {
+    id: 'test',
+    date: new Date().toISOString().substring(0, 10),
+    location: options.longNames
+      ? `Saint-${options.accents ? 'Étienne' : 'Etienne'}-de-Saint-Geoirs, stade municipal des Écureuils`
+      : 'Nantua',
+    ageCategoryIds: ['test'],
+  };
+
+  return { players, coaches, referentCoachId: coaches[0]?.id || '', tournament };
+};
+
+/**
+ * Champs de formulaire mappés qui n'ont reçu aucune valeur sur la première page
+ */
+const findEmptyFields = (template: Template, report: PdfGenerationReport, options: SyntheticRosterOptions): ReportedField[] => {
+  const filledNames = new Set(report.filled.map(field => field.champ_pdf));
+  const missingNames = new Set(report.missingFields.map(field => field.champ_pdf));
+  const playerRows = Math.min(options.playerCount, getDeclaredRowCapacity(template, 'joueur') ?? options.playerCount);
+
+  return (template.fieldMappings || []).flatMap(mapping => {
+    if (mapping.type === 'autre') return [];
+    const fieldNames = mapping.type === 'global'
+      ? [mapping.champ_pdf]
+      : getRowFieldNames(mapping, mapping.type === 'joueur' ? playerRows : options.coachCount);
+    return fieldNames
+      .filter(fieldName => !filledNames.has(fieldName) && !missingNames.has(fieldName))
+      .map(fieldName => ({ champ_pdf: fieldName, mapping: mapping.mapping }));
+  });
+};
+
+const TRUNCATED_COLOR = rgb(0.96, 0.45, 0.05);
+const EMPTY_COLOR = rgb(0.86, 0.15, 0.15);
+
+/**
+ * Encadre dans le PDF généré les champs tronqués (orange) et vides (rouge) de la première page
+ * Les positions sont lues dans le modèle, dont le formulaire n'a pas encore été aplati
+ */
+const highlightFields = async (
+  pdfBytes: Uint8Array,
+  templateBytes: Uint8Array,
+  template: Template,
+  result: Pick<TemplateTestResult, 'report' | 'emptyFields'>
+): Promise<Uint8Array> => {
+  const templateDoc = await PDFDocument.load(templateBytes);
+  const form = templateDoc.getForm();
+  if (form.getFields().length === 0) return pdfBytes;
+
+  const pdfDoc = await PDFDocument.load(pdfBytes);
+  const templatePages = templateDoc.getPages();
+  const pages = pdfDoc.getPages();
+
+  // Les pages de suite sont insérées après les pages des joueurs : les pages suivantes sont décalées
+  const playerPageIndexes = findRowPageIndexes(templateDoc, template, 'joueur');
+  const insertedPages = result.report.continuationPages * playerPageIndexes.length;
+  const toGeneratedPage = (index: number) => (index > Math.max(...playerPageIndexes) ? index + insertedPages : index);
+
+  const highlight = (fields: (FilledField | ReportedField)[], color: ReturnType<typeof rgb>) => {
+    fields.forEach(field => {
+      form.getFieldMaybe(field.champ_pdf)?.acroField.getWidgets().forEach(widget => {
+        const widgetRef = templateDoc.context.getObjectRef(widget.dict);
+        const pageIndex = templatePages.findIndex(page =>
+          page.ref === widget.P() || (!!widgetRef && !!page.node.Annots()?.asArray().includes(widgetRef))
+        );
+        const page = pages[toGeneratedPage(pageIndex)];
+        if (pageIndex === -1 || !page) return;
+
+        const { x, y, width, height } = widget.getRectangle();
+        page.drawRectangle({ x, y, width, height, borderColor: color, borderWidth: 1.5, color, opacity: 0.15 });
+      });
+    });
+  };
+
+  highlight(result.report.truncated, TRUNCATED_COLOR);
+  highlight(result.emptyFields, EMPTY_COLOR);
+
+  return pdfDoc.save();
+};
+
+/**
+ * Remplit un modèle avec un effectif fictif
+ * @param template Modèle à tester
+ * @param options Composition de l'effectif fictif
+ * @returns Le PDF, dont les champs à revoir sont encadrés, le rapport de génération et les champs restés vides
+ */
+export const runTemplateTestFill = async (template: Template, options: SyntheticRosterOptions): Promise<TemplateTestResult> => {
+  const { players, coaches, referentCoachId, tournament } = buildSyntheticRoster(options);
+  const { pdfBytes, report } = await generatePdf({
+    templateId: template.id,
+    tournamentId: tournament.id,
+    players,
+    coaches,
+    referentCoachId,
+    template,
+    tournament,
+  });
+
+  const emptyFields = findEmptyFields(template, report, options);
+
+  const templateContent = await getPdf(template.fileUrl.split('/').pop() || '');
+  if (!templateContent) {
+    return { pdfBytes, report, emptyFields };
+  }
+  const base64Data = templateContent.includes('base64,') ? templateContent.split(',')[1] : templateContent;
+  const templateBytes = Uint8Array.from(atob(base64Data), c => c.charCodeAt(0));
+
+  try {
+    const highlighted = await highlightFields(pdfBytes, templateBytes, template, { report, emptyFields });
+    return { pdfBytes: highlighted, report, emptyFields };
+  } catch (error) {
+    console.warn('Impossible d\'encadrer les champs à revoir dans le PDF de test:', error);
+    return { pdfBytes, report, emptyFields };
+  }
+};
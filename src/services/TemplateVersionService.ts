@@ -0,0 +1,80 @@
+import { PdfFieldMapping } from '../types';
+import { getRowFieldNames } from './PdfGenerator';
+
+/**
+ * Comparaison de deux versions d'un modèle PDF
+ * Quand la fédération republie une feuille, les correspondances dont les champs existent toujours
+ * sont reprises telles quelles ; les autres sont signalées pour être revues
+ */
+
+export interface TemplateFieldComparison {
+  keptMappings: PdfFieldMapping[]; // Tous les champs existent dans la nouvelle version
+  partialMappings: PdfFieldMapping[]; // Lignes joueur/éducateur dont une partie des champs a disparu (reprises)
+  droppedMappings: PdfFieldMapping[]; // Plus aucun champ dans la nouvelle version (non reprises)
+  addedFields: string[]; // Champs apparus dans la nouvelle version
+  removedFields: string[]; // Champs de l'ancienne version absents de la nouvelle
+  unmappedFields: string[]; // Champs de la nouvelle version qu'aucune correspondance reprise ne remplit
+}
+
+const isRowMapping = (mapping: PdfFieldMapping) => mapping.type === 'joueur' || mapping.type === 'educateur';
+
+/**
+ * Champs remplis par une correspondance, limités à ceux présents dans l'un des deux fichiers
+ * (le nombre de lignes n'est pas toujours renseigné)
+ */
+const getMappedFieldNames = (mapping: PdfFieldMapping, knownFields: Set<string>): string[] => {
+  if (!isRowMapping(mapping)) return [mapping.champ_pdf];
+
+  const rowCount = mapping.ligne?.nombre_lignes ?? knownFields.size;
+  return getRowFieldNames(mapping, rowCount).filter(fieldName => knownFields.has(fieldName));
+};
+
+/**
+ * Compare les champs de formulaire de deux versions d'un modèle et trie ses correspondances
+ * @param mappings Correspondances de la version courante
+ * @param previousFieldNames Champs du fichier courant
+ * @param nextFieldNames Champs du nouveau fichier
+ * @returns Les correspondances reprises ou abandonnées et les champs ajoutés ou supprimés
+ */
+export const compareTemplateFields = (
+  mappings: PdfFieldMapping[],
+  previousFieldNames: string[],
+  nextFieldNames: string[]
+): TemplateFieldComparison => {
+  const previous = new Set(previousFieldNames);
+  const next = new Set(nextFieldNames);
+  const known = new Set([...previousFieldNames, ...nextFieldNames]);
+
+  const comparison: TemplateFieldComparison = {
+    keptMappings: [],
+    partialMappings: [],
+    droppedMappings: [],
+    addedFields: nextFieldNames.filter(fieldName => !previous.has(fieldName)),
+    removedFields: previousFieldNames.filter(fieldName => !next.has(fieldName)),
+    unmappedFields: [],
+  };
+  const mappedFields = new Set<string>();
+
+  mappings.forEach(mapping => {
+    const fieldNames = getMappedFieldNames(mapping, known);
+    const presentNames = fieldNames.filter(fieldName => next.has(fieldName));
+    presentNames.forEach(fieldName => mappedFields.add(fieldName));
+
+    if (presentNames.length === 0) {
+      comparison.droppedMappings.push(mapping);
+    } else if (presentNames.length < fieldNames.length) {
+      comparison.partialMappings.push(mapping);
+    } else {
+      comparison.keptMappings.push(mapping);
+    }
+  });
+
+  comparison.unmappedFields = nextFieldNames.filter(fieldName => !mappedFields.has(fieldName));
+  return comparison;
+};
+
+/**
+ * Correspondances reprises dans la nouvelle version, dans leur ordre d'origine
+ */
+export const getCarriedOverMappings = (mappings: PdfFieldMapping[], comparison: TemplateFieldComparison): PdfFieldMapping[] =>
+  mappings.filter(mapping => !comparison.droppedMappings.includes(mapping));
@@ -0,0 +1,180 @@
+/**
+ * Mise en forme des valeurs insérées dans les PDF
+ * Le format d'un mapping est une suite d'opérations séparées par « | », appliquées dans l'ordre :
+ *   {prenom} {nom}|majuscules|tronquer:20
+ * Un premier élément contenant des accolades assemble plusieurs données ; sinon la valeur de la
+ * correspondance est utilisée telle quelle
+ */
+
+// Lecture d'une donnée désignée dans un format (ex: {nom}, {referent.prenom})
+export type FormatResolver = (path: string) => unknown;
+
+// Opérations proposées dans l'aide des éditeurs de modèles
+export const FORMAT_OPERATIONS: { syntax: string; description: string }[] = [
+  { syntax: '{prenom} {nom}', description: 'Assemble plusieurs données' },
+  { syntax: 'date:JJ/MM/AAAA', description: 'Date (JJ, MM, MMMM, AA, AAAA)' },
+  { syntax: 'majuscules', description: 'Tout en majuscules' },
+  { syntax: 'minuscules', description: 'Tout en minuscules' },
+  { syntax: 'titre', description: 'Initiales en majuscule' },
+  { syntax: 'booleen:X', description: 'X si vrai, vide sinon (booleen:✓, booleen:Oui/Non)' },
+  { syntax: 'groupes:4', description: 'Caractères groupés par 4 (numéro de licence)' },
+  { syntax: 'tronquer:20', description: '20 caractères au plus' },
+];
+
+const MONTHS = [
+  'janvier', 'février', 'mars', 'avril', 'mai', 'juin',
+  'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre',
+];
+
+const TRUTHY_TEXTS = ['true', 'oui', 'vrai', 'x', '✓', '1'];
+
+/**
+ * Texte affiché par défaut pour une valeur : Oui/Non pour les booléens
+ */
+export const valueToText = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'boolean') return value ? 'Oui' : 'Non';
+  return String(value);
+};
+
+/**
+ * Indique si une valeur correspond à une case cochée
+ */
+export const isTruthyValue = (value: unknown): boolean => {
+  if (typeof value === 'boolean') return value;
+  return TRUTHY_TEXTS.includes(valueToText(value).trim().toLowerCase());
+};
+
+/**
+ * Lit une date au format JJ/MM/AAAA ou AAAA-MM-JJ
+ */
+const parseDate = (value: unknown): Date | null => {
+  if (value instanceof Date) return value;
+
+  const text = valueToText(value).trim();
+  const french = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (french) return new Date(Number(french[3]), Number(french[2]) - 1, Number(french[1]));
+
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+
+  return null;
+};
+
+const formatDate = (value: unknown, pattern = 'JJ/MM/AAAA'): string => {
+  const date = parseDate(value);
+  if (!date) return valueToText(value);
+
+  const pad = (number: number) => String(number).padStart(2, '0');
+  return pattern.replace(/AAAA|MMMM|AA|MM|JJ/g, token => {
+    switch (token) {
+      case 'AAAA': return String(date.getFullYear());
+      case 'AA': return String(date.getFullYear()).slice(-2);
+      case 'MMMM': return MONTHS[date.getMonth()];
+      case 'MM': return pad(date.getMonth() + 1);
+      default: return pad(date.getDate());
+    }
+  });
+};
+
+const parsePositiveInteger = (argument: string | undefined): number | null => {
+  const number = Number(argument);
+  return Number.isInteger(number) && number > 0 ? number : null;
+};
+
+// Opérations disponibles : chacune reçoit la valeur courante et l'argument placé après « : »
+const OPERATIONS: Record<string, (value: unknown, argument?: string) => string> = {
+  date: (value, argument) => formatDate(value, argument || undefined),
+  majuscules: value => valueToText(value).toUpperCase(),
+  minuscules: value => valueToText(value).toLowerCase(),
+  titre: value =>
+    valueToText(value)
+      .toLowerCase()
+      .replace(/(^|[\s\-'’])(\p{L})/gu, (_, separator: string, letter: string) => separator + letter.toUpperCase()),
+  booleen: (value, argument = 'X') => {
+    const [whenTrue, whenFalse = ''] = argument.split('/');
+    return isTruthyValue(value) ? whenTrue : whenFalse;
+  },
+  groupes: (value, argument) => {
+    const [size, separator = ' '] = (argument || '').split(':');
+    const groupSize = parsePositiveInteger(size) ?? 4;
+    const compact = valueToText(value).replace(/\s+/g, '');
+    return (compact.match(new RegExp(`.{1,${groupSize}}`, 'g')) || []).join(separator);
+  },
+  tronquer: (value, argument) => Array.from(valueToText(value)).slice(0, parsePositiveInteger(argument) ?? undefined).join(''),
+};
+
+interface ParsedFormat {
+  template?: string;
+  steps: { name: string; argument?: string }[];
+  errors: string[];
+}
+
+const normalizeOperationName = (name: string) =>
+  name.trim().normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+/**
+ * Découpe un format en modèle d'assemblage et opérations
+ */
+const parseFormat = (format: string): ParsedFormat => {
+  const [first, ...rest] = format.split('|');
+  const hasTemplate = /\{[^{}]+\}/.test(first);
+  const segments = hasTemplate ? rest : [first, ...rest];
+  const errors: string[] = [];
+
+  const steps = segments
+    .filter(segment => segment.trim() !== '')
+    .map(segment => {
+      const separatorIndex = segment.indexOf(':');
+      const name = normalizeOperationName(separatorIndex === -1 ? segment : segment.slice(0, separatorIndex));
+      const argument = separatorIndex === -1 ? undefined : segment.slice(separatorIndex + 1);
+
+      if (!OPERATIONS[name]) {
+        errors.push(`Opération inconnue : ${segment.trim()}`);
+      } else if ((name === 'tronquer' || name === 'groupes') && parsePositiveInteger(argument?.split(':')[0]) === null) {
+        errors.push(`${name} attend un nombre positif (ex: ${name}:4)`);
+      }
+
+      return { name, argument };
+    });
+
+  return { template: hasTemplate ? first : undefined, steps, errors };
+};
+
+/**
+ * Vérifie la syntaxe d'un format
+ * @returns Les erreurs trouvées, vide si le format est valide
+ */
+export const validateFormat = (format: string | undefined): string[] => (format?.trim() ? parseFormat(format).errors : []);
+
+/**
+ * Applique le format d'un mapping à une valeur
+ * Sans format, la valeur est renvoyée inchangée (les booléens restent utilisables pour les cases à cocher)
+ * @param value Valeur de la correspondance
+ * @param format Format du mapping
+ * @param resolve Lecture des données utilisées dans un assemblage {nom} {prenom}
+ * @returns Le texte mis en forme
+ */
+export const applyFormat = (value: unknown, format: string | undefined, resolve: FormatResolver): unknown => {
+  if (!format?.trim()) return value;
+
+  const { template, steps, errors } = parseFormat(format);
+  if (errors.length > 0) {
+    console.warn(`Format "${format}" partiellement appliqué :`, errors);
+  }
+
+  let current: unknown = value;
+  if (template) {
+    current = template
+      .replace(/\{([^{}]+)\}/g, (_, path: string) => valueToText(resolve(path.trim())))
+      .replace(/\s{2,}/g, ' ')
+      .trim();
+  }
+
+  steps.forEach(step => {
+    const operation = OPERATIONS[step.name];
+    if (operation) current = operation(current, step.argument);
+  });
+
+  return typeof current === 'string' ? current : valueToText(current);
+};
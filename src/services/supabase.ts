@@ -24,6 +24,56 @@ export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey);
 
 // Helper functions for data access
 
+// User profiles
+export const getUserProfile = async (id: string) => {
+  console.log(`Fetching user profile ${id}`);
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching user profile:', error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const getUserProfiles = async () => {
+  console.log('Fetching user profiles from Supabase');
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('*')
+    .order('email', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching user profiles:', error);
+    throw error;
+  }
+
+  console.log(`Successfully fetched ${data?.length || 0} user profiles`);
+  return data || [];
+};
+
+export const updateUserProfile = async (id: string, profile: { role?: string; coach_id?: string | null }) => {
+  console.log(`Updating user profile ${id}:`, profile);
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .update(profile)
+    .eq('id', id)
+    .select();
+
+  if (error) {
+    console.error('Error updating user profile:', error);
+    throw error;
+  }
+
+  console.log(`User profile ${id} updated successfully`);
+  return data?.[0];
+};
+
 // Age Categories
 export const getAgeCategories = async () => {
   console.log('Fetching age categories from Supabase');
@@ -43,6 +93,27 @@ export const getAgeCategories = async () => {
   return data || [];
 };
 
+export const updateAgeCategoryRosterRules = async (id: string, rosterRules: any) => {
+  console.log(`Updating roster rules of age category ${id}:`, rosterRules);
+  const { data, error } = await supabase
+    .from('age_categories')
+    .update({ roster_rules: rosterRules })
+    .eq('id', id)
+    .select();
+
+  if (error) {
+    console.error('Error updating age category roster rules:', error);
+    throw error;
+  }
+
+  if (!data || data.length === 0) {
+    throw new Error('Age category not found or not allowed to update it');
+  }
+
+  console.log('Age category roster rules updated successfully');
+  return data[0];
+};
+
 // Players
 export const getPlayers = async () => {
   console.log('Fetching players from Supabase');
@@ -85,14 +156,56 @@ export const getPlayersByCategory = async (categoryId: string) => {
   return data || [];
 };
 
+// Player availability per tournament
+export const getTournamentAvailabilities = async (tournamentId: string) => {
+  console.log(`Fetching player availabilities for tournament ${tournamentId}`);
+  const { data, error } = await supabase
+    .from('tournament_availabilities')
+    .select('*')
+    .eq('tournament_id', tournamentId);
+
+  if (error) {
+    console.error('Error fetching tournament availabilities:', error);
+    throw error;
+  }
+
+  console.log(`Successfully fetched ${data?.length || 0} availabilities for tournament ${tournamentId}`);
+  return data || [];
+};
+
+export const setPlayerAvailability = async (availability: {
+  tournament_id: string;
+  player_id: string;
+  status: string;
+  comment?: string | null;
+}) => {
+  console.log('Setting player availability:', availability);
+  const { data, error } = await supabase
+    .from('tournament_availabilities')
+    .upsert(
+      [{ ...availability, updated_at: new Date().toISOString() }],
+      { onConflict: 'tournament_id,player_id' }
+    )
+    .select();
+
+  if (error) {
+    console.error('Error setting player availability:', error);
+    throw error;
+  }
+
+  console.log('Player availability saved successfully:', data?.[0]);
+  return data?.[0];
+};
+
 export const addPlayer = async (player: {
+  id?: string;
   first_name: string;
   last_name: string;
   date_of_birth: string;
   license_number: string;
   can_play_forward: boolean;
   can_referee: boolean;
-  age_category_id: string;
+  age_category_id: string | null;
 }) => {
   console.log('Adding new player:', player);
   const { data, error } = await supabase
@@ -183,8 +296,19 @@ export const getCoaches = async () => {
     }
     
     console.log(`Fetched ${coachCategories?.length || 0} coach-category relationships`);
+
+    // Phone numbers are only readable by signed-in users (empty for anonymous requests)
+    const { data: coachContacts, error: contactsError } = await supabase
+      .from('coach_contacts')
+      .select('coach_id, phone')
+      .in('coach_id', coachIds);
+
+    if (contactsError) {
+      console.error('Error fetching coach contacts:', contactsError);
+      throw contactsError;
+    }
     
-    // Map categories to coaches
+    // Map categories and phone numbers to coaches
     const coachesWithCategories = coaches.map(coach => {
       const categories = coachCategories
         ?.filter(cc => cc.coach_id === coach.id)
@@ -192,6 +316,7 @@ export const getCoaches = async () => {
         
       return {
         ...coach,
+        phone: coachContacts?.find(contact => contact.coach_id === coach.id)?.phone ?? null,
         coach_categories: categories.map(cat_id => ({ age_category_id: cat_id }))
       };
     });
@@ -226,18 +351,33 @@ export const getCoachesByCategory = async (categoryId: string) => {
   return data || [];
 };
 
+// The phone number is kept apart from the coach, in coach_contacts (not readable anonymously)
+const saveCoachContact = async (coachId: string, phone: string | null) => {
+  const { error } = await supabase
+    .from('coach_contacts')
+    .upsert([{ coach_id: coachId, phone }], { onConflict: 'coach_id' });
+
+  if (error) {
+    console.error('Error saving coach contact:', error);
+    throw error;
+  }
+};
+
 export const addCoach = async (coach: {
+  id?: string;
   first_name: string;
   last_name: string;
   license_number?: string;
   diploma?: string;
+  phone?: string;
 }, categoryIds: string[]) => {
   console.log('Adding new coach:', coach, 'with categories:', categoryIds);
+  const { phone, ...coachRow } = coach;
   
   // Start a transaction
   const { data: coachData, error: coachError } = await supabase
     .from('coaches')
-    .insert([coach])
+    .insert([coachRow])
     .select();
   
   if (coachError) {
@@ -265,10 +405,15 @@ export const addCoach = async (coach: {
     }
     
     console.log('Coach categories added successfully');
+
+    if (phone) {
+      await saveCoachContact(coachId, phone);
+    }
     
     // Return coach with categories
     return {
       ...coachData[0],
+      phone: phone || null,
       coach_categories: categoryIds.map(id => ({ age_category_id: id }))
     };
   }
@@ -283,15 +428,17 @@ export const updateCoach = async (
     last_name?: string;
     license_number?: string;
     diploma?: string;
+    phone?: string;
   }, 
   categoryIds: string[]
 ) => {
   console.log(`Updating coach ${id}:`, coach, 'with categories:', categoryIds);
+  const { phone, ...coachRow } = coach;
   
   // Start by updating the coach
   const { data: coachData, error: coachError } = await supabase
     .from('coaches')
-    .update(coach)
+    .update(coachRow)
     .eq('id', id)
     .select();
   
@@ -331,10 +478,15 @@ export const updateCoach = async (
   }
   
   console.log('Coach categories updated successfully');
+
+  if (phone !== undefined) {
+    await saveCoachContact(id, phone || null);
+  }
   
   // Return coach with updated categories
   return {
     ...(coachData?.[0] || {}),
+    phone: phone || null,
     coach_categories: categoryIds.map(id => ({ age_category_id: id }))
   };
 };
@@ -433,6 +585,7 @@ export const getTournamentsByCategory = async (categoryId: string) => {
 };
 
 export const addTournament = async (tournament: {
+  id?: string;
   date: string;
   location: string;
 }, categoryIds: string[]) => {
@@ -635,10 +788,14 @@ export const getTemplatesByCategory = async (categoryId: string) => {
 };
 
 export const addTemplate = async (template: {
+  id?: string;
   name: string;
   description?: string;
   file_url: string;
   field_mappings?: any;
+  overlay_layout?: any;
+  version?: number;
+  file_hash?: string;
 }, categoryIds: string[]) => {
   console.log('Adding new template:', template, 'with categories:', categoryIds);
   
@@ -691,6 +848,8 @@ export const updateTemplate = async (
     description?: string;
     file_url?: string;
     field_mappings?: any;
+    overlay_layout?: any;
+    version?: number;
   }, 
   categoryIds: string[]
 ) => {
@@ -747,6 +906,64 @@ export const updateTemplate = async (
   };
 };
 
+export const getTemplateVersions = async (templateId: string) => {
+  console.log(`Fetching versions for template ${templateId}`);
+  const { data, error } = await supabase
+    .from('template_versions')
+    .select('*')
+    .eq('template_id', templateId)
+    .order('version', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching template versions:', error);
+    throw error;
+  }
+
+  console.log(`Successfully fetched ${data?.length || 0} versions for template ${templateId}`);
+  return data || [];
+};
+
+export const getTemplateVersion = async (templateId: string, version: number) => {
+  console.log(`Fetching version ${version} of template ${templateId}`);
+  const { data, error } = await supabase
+    .from('template_versions')
+    .select('*')
+    .eq('template_id', templateId)
+    .eq('version', version)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching template version:', error);
+    throw error;
+  }
+
+  return data;
+};
+
+// Versions are append-only: there is no update or delete counterpart
+export const addTemplateVersion = async (templateVersion: {
+  template_id: string;
+  version: number;
+  file_url: string;
+  field_mappings?: any;
+  overlay_layout?: any;
+  field_names: string[];
+}) => {
+  console.log(`Archiving version ${templateVersion.version} of template ${templateVersion.template_id}`);
+  // Archives are never modified: retrying a publication keeps the version archived by the first attempt
+  const { data, error } = await supabase
+    .from('template_versions')
+    .upsert([templateVersion], { onConflict: 'template_id,version', ignoreDuplicates: true })
+    .select();
+
+  if (error) {
+    console.error('Error adding template version:', error);
+    throw error;
+  }
+
+  return data?.[0];
+};
+
 export const deleteTemplate = async (id: string) => {
   console.log(`Deleting template ${id}`);
   // The template_categories will be deleted automatically because of ON DELETE CASCADE
@@ -889,11 +1106,15 @@ export const getMatchSheet = async (id: string) => {
 
 export const addMatchSheet = async (
   matchSheet: {
+    id?: string;
     tournament_id: string;
-    template_id: string;
-    age_category_id: string;
-    referent_coach_id: string;
+    template_id: string | null;
+    age_category_id: string | null;
+    referent_coach_id: string | null;
     pdf_url?: string; // Ajout du champ pdf_url
+    status?: string;
+    team_name?: string | null;
+    template_version?: number | null;
   },
   playerIds: string[],
   coachIds: string[]
@@ -974,6 +1195,8 @@ export const updateMatchSheet = async (
     age_category_id?: string;
     referent_coach_id?: string;
     pdf_url?: string; // Ajout du champ pdf_url
+    team_name?: string | null;
+    template_version?: number | null;
   },
   playerIds: string[],
   coachIds: string[]
@@ -1068,6 +1291,69 @@ export const updateMatchSheet = async (
   };
 };
 
+export const updateMatchSheetStatus = async (id: string, status: string, pdfUrl?: string) => {
+  console.log(`Updating status of match sheet ${id} to ${status}`);
+  const { data, error } = await supabase
+    .from('match_sheets')
+    .update({
+      status,
+      status_updated_at: new Date().toISOString(),
+      ...(pdfUrl ? { pdf_url: pdfUrl } : {})
+    })
+    .eq('id', id)
+    .select();
+
+  if (error) {
+    console.error('Error updating match sheet status:', error);
+    throw error;
+  }
+
+  console.log(`Match sheet ${id} status updated successfully`);
+  return data?.[0];
+};
+
+export const getMatchSheetRevisions = async (matchSheetId: string) => {
+  console.log(`Fetching revisions for match sheet ${matchSheetId}`);
+  const { data, error } = await supabase
+    .from('match_sheet_revisions')
+    .select('*')
+    .eq('match_sheet_id', matchSheetId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching match sheet revisions:', error);
+    throw error;
+  }
+
+  console.log(`Successfully fetched ${data?.length || 0} revisions for match sheet ${matchSheetId}`);
+  return data || [];
+};
+
+// Revisions are append-only: there is no update or delete counterpart
+export const addMatchSheetRevision = async (revision: {
+  match_sheet_id: string;
+  change_type: string;
+  template_id: string | null;
+  referent_coach_id: string | null;
+  player_ids: string[];
+  coach_ids: string[];
+  pdf_url?: string | null;
+  created_at?: string; // Only set when restoring a backup, to keep the original history dates
+}) => {
+  console.log(`Adding ${revision.change_type} revision for match sheet ${revision.match_sheet_id}`);
+  const { data, error } = await supabase
+    .from('match_sheet_revisions')
+    .insert([revision])
+    .select();
+
+  if (error) {
+    console.error('Error adding match sheet revision:', error);
+    throw error;
+  }
+
+  return data?.[0];
+};
+
 export const deleteMatchSheet = async (id: string) => {
   console.log(`Deleting match sheet ${id}`);
   // The match_sheet_players and match_sheet_coaches will be deleted automatically because of ON DELETE CASCADE
@@ -1082,4 +1368,24 @@ export const deleteMatchSheet = async (id: string) => {
   }
   
   console.log(`Match sheet ${id} deleted successfully`);
+};
+
+// Offline synchronisation: the updated_at column is compared to detect conflicting changes
+export type VersionedTable = 'players' | 'coaches' | 'tournaments' | 'templates' | 'match_sheets';
+
+export const getRecordVersion = async (table: VersionedTable, id: string) => {
+  console.log(`Fetching version of ${table} record ${id}`);
+  const { data, error } = await supabase
+    .from(table)
+    .select('updated_at')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error fetching version of ${table} record:`, error);
+    throw error;
+  }
+
+  // undefined: the record no longer exists on the server
+  return data ? (data.updated_at as string | null) : undefined;
 };
\ No newline at end of file
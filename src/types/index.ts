@@ -15,6 +15,7 @@ export interface Coach {
   lastName: string;
   licenseNumber: string;
   diploma: string;
+  phone?: string; // Téléphone, imprimé sur la page de garde du dossier tournoi
   ageCategoryIds: string[]; // Array of age categories the coach is responsible for
 }
 
@@ -29,6 +30,14 @@ export interface AgeCategory {
   id: string;
   name: string;
   description?: string;
+  rosterRules?: CategoryRosterRules; // Règles d'effectif enregistrées, règles par défaut si absentes
+}
+
+// Lignes répétées d'un mapping joueur ou éducateur : champ_pdf contient {i}, remplacé par le numéro de ligne
+export interface PdfRowTemplate {
+  index_depart: number; // Numéro de la première ligne (ex: 1 pour Nom_1)
+  nombre_lignes?: number; // Nombre de lignes disponibles dans le PDF, illimité si absent
+  champs_par_ligne?: string[]; // Noms explicites par ligne, prioritaires sur le modèle
 }
 
 export interface PdfFieldMapping {
@@ -37,9 +46,47 @@ export interface PdfFieldMapping {
   mapping: string;
   valeur_possible?: string[];
   obligatoire?: boolean;
+  format?: string; // Mise en forme de la valeur (ex: {prenom} {nom}|majuscules), voir ValueFormatter
+  ligne?: PdfRowTemplate;
+  confiance?: number; // Indice de 0 à 1 d'une correspondance proposée par l'analyse, retiré une fois confirmée
+}
+
+// Zone de texte dessinée sur un modèle sans formulaire
+// Coordonnées en points PDF, depuis le coin inférieur gauche de la page
+export interface PdfOverlayBox {
+  page: number; // Numéro de page, à partir de 1
+  x: number;
+  y: number; // Ligne de base du texte
+  largeur: number;
+  taille_police: number;
+  mapping: string; // Donnée globale (ex: date_manifestation)
   format?: string;
 }
 
+// Colonne d'un tableau de lignes joueurs ou éducateurs
+export interface PdfOverlayColumn {
+  mapping: string; // ex: joueur.nom
+  x: number;
+  largeur: number;
+  format?: string;
+}
+
+// Tableau de lignes : une ligne par joueur ou éducateur, de haut en bas à partir de y
+export interface PdfOverlayTable {
+  type: 'joueur' | 'educateur';
+  page: number;
+  y: number; // Ligne de base de la première ligne
+  hauteur_ligne: number;
+  nombre_lignes: number;
+  taille_police: number;
+  colonnes: PdfOverlayColumn[];
+}
+
+export interface PdfOverlayLayout {
+  zones: PdfOverlayBox[];
+  tableaux: PdfOverlayTable[];
+}
+
 export interface Template {
   id: string;
   name: string;
@@ -47,8 +94,25 @@ export interface Template {
   fileUrl: string;
   ageCategoryIds: string[]; // Changé de ageCategoryId à ageCategoryIds (array)
   fieldMappings?: PdfFieldMapping[]; // Mappings des champs du PDF
+  overlayLayout?: PdfOverlayLayout; // Zones de texte pour les PDF sans formulaire
+  version?: number; // Version courante, incrémentée à chaque remplacement du fichier
+  fileHash?: string; // Hash SHA-256 du PDF (file_hash)
+}
+
+// Version d'un modèle remplacée par un nouveau fichier (jamais modifiée ensuite)
+export interface TemplateVersion {
+  id: string;
+  templateId: string;
+  version: number;
+  fileUrl: string;
+  fieldMappings?: PdfFieldMapping[];
+  overlayLayout?: PdfOverlayLayout;
+  fieldNames: string[]; // Champs du formulaire de cette version
+  createdAt: Date;
 }
 
+export type MatchSheetStatus = 'draft' | 'validated' | 'sent' | 'archived';
+
 export interface MatchSheet {
   id: string;
   tournamentId: string;
@@ -58,5 +122,140 @@ export interface MatchSheet {
   playerIds: string[];
   coachIds: string[]; // Array of coach IDs assigned to this match sheet
   pdfUrl?: string; // URL du PDF généré
+  status: MatchSheetStatus; // Seules les feuilles en brouillon sont modifiables
+  teamName?: string; // Nom de l'équipe quand le club engage plusieurs équipes (Nantua 1, Nantua 2)
+  templateVersion?: number; // Version du modèle utilisée, pour régénérer la feuille à l'identique
   createdAt: Date;
-}
\ No newline at end of file
+}
+
+export type MatchSheetRevisionChange = 'created' | 'updated' | 'validated' | 'restored';
+
+// Instantané d'une feuille de match, enregistré à chaque modification (jamais modifié ensuite)
+export interface MatchSheetRevision {
+  id: string;
+  matchSheetId: string;
+  changeType: MatchSheetRevisionChange;
+  templateId: string;
+  referentCoachId: string;
+  playerIds: string[];
+  coachIds: string[];
+  pdfUrl?: string;
+  createdAt: Date;
+}
+
+export type AvailabilityStatus = 'available' | 'unavailable' | 'unknown';
+
+export interface PlayerAvailability {
+  id: string;
+  tournamentId: string;
+  playerId: string;
+  status: AvailabilityStatus;
+  comment?: string;
+}
+
+export interface SeasonCategoryRange {
+  categoryName: string; // Nom de la catégorie d'âge (ex: M10)
+  minBirthYear: number;
+  maxBirthYear: number;
+}
+
+export interface Season {
+  label: string; // Ex: 2026-2027
+  startDate: string;
+  categoryRanges: SeasonCategoryRange[];
+}
+
+export interface SeasonCategoryChange {
+  player: Player;
+  fromCategoryId: string;
+  toCategoryId: string | null; // null si aucune catégorie ne correspond à l'année de naissance
+}
+
+export type PlayerImportField =
+  | 'lastName'
+  | 'firstName'
+  | 'dateOfBirth'
+  | 'licenseNumber'
+  | 'category'
+  | 'canPlayForward'
+  | 'canReferee';
+
+// Colonne du fichier importé associée à chaque champ joueur
+export type PlayerImportMapping = Partial<Record<PlayerImportField, string>>;
+
+export interface PlayerImportRow {
+  rowNumber: number; // Numéro de ligne dans le fichier (1 = en-tête)
+  action: 'create' | 'update' | 'unchanged' | 'error';
+  player: Player;
+  existingPlayer?: Player;
+  changedFields: string[];
+  errors: string[];
+}
+
+export interface CoachImportRow {
+  rowNumber: number; // Position de l'entraîneur dans la sauvegarde (à partir de 1)
+  action: 'create' | 'update' | 'unchanged' | 'error';
+  coach: Coach;
+  existingCoach?: Coach;
+  changedFields: string[];
+  errors: string[];
+}
+export type RosterRuleKey =
+  | 'minPlayers'
+  | 'maxPlayers'
+  | 'minForwards'
+  | 'minReferees'
+  | 'coachDiplomas'
+  | 'birthDates';
+
+export type RosterRuleSeverity = 'error' | 'warning';
+
+// Règles d'effectif d'une catégorie ; une limite à null désactive la règle
+export interface CategoryRosterRules {
+  categoryName: string;
+  minPlayers: number | null;
+  maxPlayers: number | null;
+  minForwards: number | null; // Joueurs pouvant jouer avant (sécurité en première ligne)
+  minReferees: number | null; // Jeunes arbitres
+  requiredDiplomas: string[]; // Au moins un entraîneur titulaire de l'un de ces diplômes
+  checkBirthDates: boolean; // Années de naissance comprises dans la tranche de la saison
+  severities: Record<RosterRuleKey, RosterRuleSeverity>;
+}
+
+export interface RosterRuleViolation {
+  rule: RosterRuleKey;
+  severity: RosterRuleSeverity;
+  message: string;
+}
+
+export type UserRole = 'admin' | 'coach' | 'viewer';
+
+export interface AppUser {
+  id: string;
+  email: string;
+  role: UserRole;
+  coachId?: string; // Entraîneur associé au compte (rôle coach)
+}
+
+export type SyncTable = 'players' | 'coaches' | 'tournaments' | 'templates' | 'match_sheets';
+
+export interface QueuedMutation {
+  id?: number; // Clé auto-incrémentée de la file d'attente
+  table: SyncTable;
+  recordId: string;
+  method: string; // Fonction du service supabase rejouée à la reconnexion
+  args: unknown[];
+  label: string; // Description affichée en cas de conflit
+  baseVersion?: string | null; // updated_at connu lors de la modification hors ligne
+  conflict?: boolean;
+  createdAt: Date;
+}
+
+export type SyncStatus = 'online' | 'offline' | 'syncing' | 'error';
+
+export interface SyncState {
+  status: SyncStatus;
+  pendingCount: number;
+  conflicts: QueuedMutation[];
+  lastSyncAt?: Date;
+}
@@ -14,18 +14,21 @@ export interface Database {
           id: string
           name: string
           description: string | null
+          roster_rules: Json | null
           created_at: string
         }
         Insert: {
           id?: string
           name: string
           description?: string | null
+          roster_rules?: Json | null
           created_at?: string
         }
         Update: {
           id?: string
           name?: string
           description?: string | null
+          roster_rules?: Json | null
           created_at?: string
         }
         Relationships: []
@@ -106,6 +109,31 @@ export interface Database {
         }
         Relationships: []
       }
+      coach_contacts: {
+        Row: {
+          coach_id: string
+          phone: string | null
+          created_at: string
+        }
+        Insert: {
+          coach_id: string
+          phone?: string | null
+          created_at?: string
+        }
+        Update: {
+          coach_id?: string
+          phone?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coach_contacts_coach_id_fkey"
+            columns: ["coach_id"]
+            referencedRelation: "coaches"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       coach_categories: {
         Row: {
           id: string
@@ -205,6 +233,11 @@ export interface Database {
           description: string | null
           file_url: string
           field_mappings: Json | null
+          overlay_layout: Json | null
+          version: number
+          file_hash: string | null
+          file_size: number | null
+          mime_type: string | null
           created_at: string
           updated_at: string
         }
@@ -214,6 +247,11 @@ export interface Database {
           description?: string | null
           file_url: string
           field_mappings?: Json | null
+          overlay_layout?: Json | null
+          version?: number
+          file_hash?: string | null
+          file_size?: number | null
+          mime_type?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -223,6 +261,11 @@ export interface Database {
           description?: string | null
           file_url?: string
           field_mappings?: Json | null
+          overlay_layout?: Json | null
+          version?: number
+          file_hash?: string | null
+          file_size?: number | null
+          mime_type?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -270,7 +313,12 @@ export interface Database {
           age_category_id: string | null
           referent_coach_id: string | null
           pdf_url: string | null
+          status: string
+          status_updated_at: string | null
+          team_name: string | null
+          template_version: number | null
           created_at: string
+          updated_at: string | null
         }
         Insert: {
           id?: string
@@ -279,7 +327,12 @@ export interface Database {
           age_category_id?: string | null
           referent_coach_id?: string | null
           pdf_url?: string | null
+          status?: string
+          status_updated_at?: string | null
+          team_name?: string | null
+          template_version?: number | null
           created_at?: string
+          updated_at?: string | null
         }
         Update: {
           id?: string
@@ -288,7 +341,12 @@ export interface Database {
           age_category_id?: string | null
           referent_coach_id?: string | null
           pdf_url?: string | null
+          status?: string
+          status_updated_at?: string | null
+          team_name?: string | null
+          template_version?: number | null
           created_at?: string
+          updated_at?: string | null
         }
         Relationships: [
           {
@@ -385,6 +443,163 @@ export interface Database {
           }
         ]
       }
+      user_profiles: {
+        Row: {
+          id: string
+          email: string
+          role: string
+          coach_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id: string
+          email: string
+          role?: string
+          coach_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          email?: string
+          role?: string
+          coach_id?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_profiles_coach_id_fkey"
+            columns: ["coach_id"]
+            referencedRelation: "coaches"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      match_sheet_revisions: {
+        Row: {
+          id: string
+          match_sheet_id: string
+          change_type: string
+          template_id: string | null
+          referent_coach_id: string | null
+          player_ids: string[]
+          coach_ids: string[]
+          pdf_url: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          match_sheet_id: string
+          change_type?: string
+          template_id?: string | null
+          referent_coach_id?: string | null
+          player_ids?: string[]
+          coach_ids?: string[]
+          pdf_url?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          match_sheet_id?: string
+          change_type?: string
+          template_id?: string | null
+          referent_coach_id?: string | null
+          player_ids?: string[]
+          coach_ids?: string[]
+          pdf_url?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "match_sheet_revisions_match_sheet_id_fkey"
+            columns: ["match_sheet_id"]
+            referencedRelation: "match_sheets"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      template_versions: {
+        Row: {
+          id: string
+          template_id: string
+          version: number
+          file_url: string
+          field_mappings: Json | null
+          overlay_layout: Json | null
+          field_names: string[]
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          template_id: string
+          version: number
+          file_url: string
+          field_mappings?: Json | null
+          overlay_layout?: Json | null
+          field_names?: string[]
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          template_id?: string
+          version?: number
+          file_url?: string
+          field_mappings?: Json | null
+          overlay_layout?: Json | null
+          field_names?: string[]
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "template_versions_template_id_fkey"
+            columns: ["template_id"]
+            referencedRelation: "templates"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      tournament_availabilities: {
+        Row: {
+          id: string
+          tournament_id: string
+          player_id: string
+          status: string
+          comment: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          tournament_id: string
+          player_id: string
+          status?: string
+          comment?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          tournament_id?: string
+          player_id?: string
+          status?: string
+          comment?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tournament_availabilities_tournament_id_fkey"
+            columns: ["tournament_id"]
+            referencedRelation: "tournaments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tournament_availabilities_player_id_fkey"
+            columns: ["player_id"]
+            referencedRelation: "players"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
     }
     Views: {}
     Functions: {}
@@ -0,0 +1,90 @@
+/*
+  # Add player availability per tournament
+
+  1. New Tables
+    - `tournament_availabilities`: Stores whether each player is coming to a tournament
+      - `status`: one of 'available', 'unavailable', 'unknown'
+      - `comment`: free text (injury, family event, late arrival...)
+      - One row per (tournament, player)
+
+  2. Security
+    - Row Level Security enabled
+    - Same access rules as `match_sheet_players` (public select, anonymous insert/update)
+*/
+
+CREATE TABLE IF NOT EXISTS tournament_availabilities (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  tournament_id uuid REFERENCES tournaments(id) ON DELETE CASCADE,
+  player_id uuid REFERENCES players(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'unknown',
+  comment TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(tournament_id, player_id),
+  CONSTRAINT tournament_availabilities_status_check CHECK (status IN ('available', 'unavailable', 'unknown'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_tournament_availabilities_tournament ON tournament_availabilities(tournament_id);
+CREATE INDEX IF NOT EXISTS idx_tournament_availabilities_player ON tournament_availabilities(player_id);
+
+ALTER TABLE tournament_availabilities ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'tournament_availabilities'
+    AND policyname = 'Allow anon and authenticated select for tournament_availabilities'
+  ) THEN
+    CREATE POLICY "Allow anon and authenticated select for tournament_availabilities"
+      ON public.tournament_availabilities
+      FOR SELECT
+      USING (true);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'tournament_availabilities'
+    AND policyname = 'Allow authenticated insert update delete for tournament_availabilities'
+  ) THEN
+    CREATE POLICY "Allow authenticated insert update delete for tournament_availabilities"
+      ON public.tournament_availabilities
+      FOR ALL
+      TO authenticated
+      USING (true)
+      WITH CHECK (true);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'tournament_availabilities'
+    AND policyname = 'Allow anonymous insert for tournament_availabilities'
+  ) THEN
+    CREATE POLICY "Allow anonymous insert for tournament_availabilities"
+      ON public.tournament_availabilities
+      FOR INSERT
+      TO anon
+      WITH CHECK (true);
+  END IF;
+
+  -- Upserts from the availability panel also need UPDATE
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'tournament_availabilities'
+    AND policyname = 'Allow anonymous update for tournament_availabilities'
+  ) THEN
+    CREATE POLICY "Allow anonymous update for tournament_availabilities"
+      ON public.tournament_availabilities
+      FOR UPDATE
+      TO anon
+      USING (true)
+      WITH CHECK (true);
+  END IF;
+END $$;
+
+COMMENT ON COLUMN tournament_availabilities.status IS 'Player availability for the tournament: available, unavailable or unknown';
+COMMENT ON COLUMN tournament_availabilities.comment IS 'Optional note about the availability (injury, late arrival...)';
@@ -0,0 +1,30 @@
+/*
+  # Add lifecycle status to match sheets
+
+  1. Changes
+    - `match_sheets.status`: one of 'draft', 'validated', 'sent', 'archived' (default 'draft')
+    - `match_sheets.status_updated_at`: date of the last status change
+    - Existing match sheets are kept as drafts
+
+  2. Security
+    - No policy change, existing match_sheets policies apply
+*/
+
+ALTER TABLE match_sheets ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'draft';
+ALTER TABLE match_sheets ADD COLUMN IF NOT EXISTS status_updated_at TIMESTAMPTZ DEFAULT NOW();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'match_sheets_status_check'
+  ) THEN
+    ALTER TABLE match_sheets
+      ADD CONSTRAINT match_sheets_status_check CHECK (status IN ('draft', 'validated', 'sent', 'archived'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_match_sheets_status ON match_sheets(status);
+
+COMMENT ON COLUMN match_sheets.status IS 'Lifecycle status: draft, validated, sent (to the organiser) or archived';
+COMMENT ON COLUMN match_sheets.status_updated_at IS 'Date of the last status change';
@@ -0,0 +1,63 @@
+/*
+  # Add match sheet revision history
+
+  1. New Tables
+    - `match_sheet_revisions`: Append-only snapshot of a match sheet after each change
+      - `change_type`: one of 'created', 'updated', 'validated', 'restored'
+      - `player_ids`, `coach_ids`: roster at the time of the revision (the junction
+        tables only keep the current roster)
+      - `referent_coach_id`, `template_id`, `pdf_url`: other fields of the sheet
+    - Revisions are removed with their match sheet (ON DELETE CASCADE)
+
+  2. Security
+    - Row Level Security enabled
+    - Public select, anonymous and authenticated insert
+    - No update or delete policy: revisions are never modified
+*/
+
+CREATE TABLE IF NOT EXISTS match_sheet_revisions (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  match_sheet_id uuid NOT NULL REFERENCES match_sheets(id) ON DELETE CASCADE,
+  change_type TEXT NOT NULL DEFAULT 'updated',
+  template_id uuid,
+  referent_coach_id uuid,
+  player_ids uuid[] NOT NULL DEFAULT '{}',
+  coach_ids uuid[] NOT NULL DEFAULT '{}',
+  pdf_url TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT match_sheet_revisions_change_type_check CHECK (change_type IN ('created', 'updated', 'validated', 'restored'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_match_sheet_revisions_match_sheet ON match_sheet_revisions(match_sheet_id, created_at);
+
+ALTER TABLE match_sheet_revisions ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'match_sheet_revisions'
+    AND policyname = 'Allow anon and authenticated select for match_sheet_revisions'
+  ) THEN
+    CREATE POLICY "Allow anon and authenticated select for match_sheet_revisions"
+      ON public.match_sheet_revisions
+      FOR SELECT
+      USING (true);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'match_sheet_revisions'
+    AND policyname = 'Allow anon and authenticated insert for match_sheet_revisions'
+  ) THEN
+    CREATE POLICY "Allow anon and authenticated insert for match_sheet_revisions"
+      ON public.match_sheet_revisions
+      FOR INSERT
+      WITH CHECK (true);
+  END IF;
+END $$;
+
+COMMENT ON TABLE match_sheet_revisions IS 'Append-only history of match sheet rosters, one row per save';
+COMMENT ON COLUMN match_sheet_revisions.change_type IS 'What produced the revision: created, updated, validated or restored';
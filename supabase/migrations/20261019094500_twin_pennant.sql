@@ -0,0 +1,41 @@
+/*
+  # Allow several teams per category on the same tournament
+
+  1. Changes
+    - `match_sheets.team_name`: name of the team on the sheet (e.g. 'Nantua 1', 'Nantua 2'),
+      NULL when the club fields a single team in the category
+    - Trigger on `match_sheet_players`: a player cannot be on two match sheets of the same tournament
+
+  2. Security
+    - No policy change, existing match_sheets and match_sheet_players policies apply
+*/
+
+ALTER TABLE match_sheets ADD COLUMN IF NOT EXISTS team_name TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_match_sheets_tournament_category ON match_sheets(tournament_id, age_category_id);
+
+CREATE OR REPLACE FUNCTION check_match_sheet_player_unique_per_tournament()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM match_sheet_players msp
+    JOIN match_sheets other ON other.id = msp.match_sheet_id
+    JOIN match_sheets current_sheet ON current_sheet.id = NEW.match_sheet_id
+    WHERE msp.player_id = NEW.player_id
+    AND msp.match_sheet_id <> NEW.match_sheet_id
+    AND other.tournament_id = current_sheet.tournament_id
+  ) THEN
+    RAISE EXCEPTION 'Player % is already on another match sheet of this tournament', NEW.player_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS match_sheet_players_unique_per_tournament ON match_sheet_players;
+CREATE TRIGGER match_sheet_players_unique_per_tournament
+  BEFORE INSERT OR UPDATE ON match_sheet_players
+  FOR EACH ROW
+  EXECUTE FUNCTION check_match_sheet_player_unique_per_tournament();
+
+COMMENT ON COLUMN match_sheets.team_name IS 'Team name when several teams of the same category play the tournament';
@@ -0,0 +1,209 @@
+/*
+  # Add user profiles and roles
+
+  1. New Tables
+    - `user_profiles`: One row per Supabase auth user
+      - `role`: one of 'admin' (club admin), 'coach' (category coach), 'viewer' (read-only)
+      - `coach_id`: coach linked to the account; a coach account can only edit players
+        and match sheets of the categories of this coach
+    - A profile is created automatically when a user signs in for the first time.
+      The first user of the project becomes admin, the next ones are read-only
+      until an admin changes their role.
+
+  2. Security
+    - Row Level Security enabled
+    - Users can read their own profile, admins can read and update every profile
+    - `is_club_admin()` and `can_edit_category()` helpers, SECURITY DEFINER (with a fixed
+      search_path) to avoid recursive policy checks
+    - Roles are enforced by the database, not only by the application:
+      - every write policy open to anon or to any authenticated user (`USING (true)`)
+        is dropped; anonymous users can no longer write anything
+      - coaches, tournaments, templates, age categories and their links: club admins only
+      - players, tournament availabilities, match sheets (with their players, coaches and
+        revisions): club admins, or coaches of the category of the row
+      - read policies are unchanged
+*/
+
+CREATE TABLE IF NOT EXISTS user_profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'viewer',
+  coach_id uuid REFERENCES coaches(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT user_profiles_role_check CHECK (role IN ('admin', 'coach', 'viewer'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_coach ON user_profiles(coach_id);
+
+ALTER TABLE user_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION is_club_admin()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_profiles
+    WHERE id = auth.uid()
+    AND role = 'admin'
+  );
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+-- True for club admins and for coach accounts linked to a coach of the category
+CREATE OR REPLACE FUNCTION can_edit_category(category_id uuid)
+RETURNS BOOLEAN AS $$
+  SELECT is_club_admin() OR EXISTS (
+    SELECT 1 FROM public.user_profiles p
+    JOIN public.coach_categories cc ON cc.coach_id = p.coach_id
+    WHERE p.id = auth.uid()
+    AND p.role = 'coach'
+    AND cc.age_category_id = category_id
+  );
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_edit_match_sheet(sheet_id uuid)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(
+    (SELECT can_edit_category(age_category_id) FROM public.match_sheets WHERE id = sheet_id),
+    false
+  );
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_edit_player(target_player_id uuid)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(
+    (SELECT can_edit_category(age_category_id) FROM public.players WHERE id = target_player_id),
+    false
+  );
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+-- Creates the profile of a new auth user; the very first user is the club admin
+CREATE OR REPLACE FUNCTION handle_new_user_profile()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.user_profiles (id, email, role)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.email, ''),
+    CASE WHEN EXISTS (SELECT 1 FROM public.user_profiles) THEN 'viewer' ELSE 'admin' END
+  )
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_auth_user_created_profile ON auth.users;
+CREATE TRIGGER on_auth_user_created_profile
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_new_user_profile();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'user_profiles'
+    AND policyname = 'Users can read their own profile'
+  ) THEN
+    CREATE POLICY "Users can read their own profile"
+      ON public.user_profiles
+      FOR SELECT
+      TO authenticated
+      USING (id = auth.uid() OR is_club_admin());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'user_profiles'
+    AND policyname = 'Admins can update profiles'
+  ) THEN
+    CREATE POLICY "Admins can update profiles"
+      ON public.user_profiles
+      FOR UPDATE
+      TO authenticated
+      USING (is_club_admin())
+      WITH CHECK (is_club_admin());
+  END IF;
+END $$;
+
+-- Drop the permissive write policies (anon inserts, authenticated USING (true)); read policies are kept
+DO $$
+DECLARE
+  policy record;
+BEGIN
+  FOR policy IN
+    SELECT tablename, policyname FROM pg_policies
+    WHERE schemaname = 'public'
+    AND cmd <> 'SELECT'
+    AND tablename IN (
+      'age_categories', 'players', 'coaches', 'coach_categories', 'tournaments',
+      'tournament_categories', 'templates', 'template_categories', 'match_sheets',
+      'match_sheet_players', 'match_sheet_coaches', 'tournament_availabilities',
+      'match_sheet_revisions'
+    )
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.%I', policy.policyname, policy.tablename);
+  END LOOP;
+END $$;
+
+-- Club data: club admins only
+DO $$
+DECLARE
+  table_name text;
+BEGIN
+  FOREACH table_name IN ARRAY ARRAY[
+    'age_categories', 'coaches', 'coach_categories', 'tournaments',
+    'tournament_categories', 'templates', 'template_categories'
+  ]
+  LOOP
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I FOR ALL TO authenticated USING (is_club_admin()) WITH CHECK (is_club_admin())',
+      'Admins can manage ' || replace(table_name, '_', ' '),
+      table_name
+    );
+  END LOOP;
+END $$;
+
+-- Players and match sheets: club admins and coaches of the category
+CREATE POLICY "Category coaches can manage players"
+  ON public.players
+  FOR ALL
+  TO authenticated
+  USING (can_edit_category(age_category_id))
+  WITH CHECK (can_edit_category(age_category_id));
+
+CREATE POLICY "Category coaches can manage tournament availabilities"
+  ON public.tournament_availabilities
+  FOR ALL
+  TO authenticated
+  USING (can_edit_player(player_id))
+  WITH CHECK (can_edit_player(player_id));
+
+CREATE POLICY "Category coaches can manage match sheets"
+  ON public.match_sheets
+  FOR ALL
+  TO authenticated
+  USING (can_edit_category(age_category_id))
+  WITH CHECK (can_edit_category(age_category_id));
+
+CREATE POLICY "Category coaches can manage match sheet players"
+  ON public.match_sheet_players
+  FOR ALL
+  TO authenticated
+  USING (can_edit_match_sheet(match_sheet_id))
+  WITH CHECK (can_edit_match_sheet(match_sheet_id));
+
+CREATE POLICY "Category coaches can manage match sheet coaches"
+  ON public.match_sheet_coaches
+  FOR ALL
+  TO authenticated
+  USING (can_edit_match_sheet(match_sheet_id))
+  WITH CHECK (can_edit_match_sheet(match_sheet_id));
+
+CREATE POLICY "Category coaches can add match sheet revisions"
+  ON public.match_sheet_revisions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (can_edit_match_sheet(match_sheet_id));
+
+COMMENT ON COLUMN user_profiles.role IS 'admin (club admin), coach (category coach) or viewer (read-only)';
+COMMENT ON COLUMN user_profiles.coach_id IS 'Coach linked to the account, restricts edits to the coach categories';
@@ -0,0 +1,51 @@
+/*
+  # Track row versions for offline synchronisation
+
+  1. Changes
+    - `match_sheets.updated_at`: date of the last modification
+    - `touch_updated_at()` trigger function: sets `updated_at` on every update
+    - Triggers on players, coaches, tournaments, templates and match_sheets, so that
+      `updated_at` can be compared when replaying changes made offline
+
+  2. Security
+    - No policy change, existing table policies apply
+*/
+
+ALTER TABLE match_sheets ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+CREATE OR REPLACE FUNCTION touch_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS players_touch_updated_at ON players;
+CREATE TRIGGER players_touch_updated_at
+  BEFORE UPDATE ON players
+  FOR EACH ROW EXECUTE FUNCTION touch_updated_at();
+
+DROP TRIGGER IF EXISTS coaches_touch_updated_at ON coaches;
+CREATE TRIGGER coaches_touch_updated_at
+  BEFORE UPDATE ON coaches
+  FOR EACH ROW EXECUTE FUNCTION touch_updated_at();
+
+DROP TRIGGER IF EXISTS tournaments_touch_updated_at ON tournaments;
+CREATE TRIGGER tournaments_touch_updated_at
+  BEFORE UPDATE ON tournaments
+  FOR EACH ROW EXECUTE FUNCTION touch_updated_at();
+
+DROP TRIGGER IF EXISTS templates_touch_updated_at ON templates;
+CREATE TRIGGER templates_touch_updated_at
+  BEFORE UPDATE ON templates
+  FOR EACH ROW EXECUTE FUNCTION touch_updated_at();
+
+DROP TRIGGER IF EXISTS match_sheets_touch_updated_at ON match_sheets;
+CREATE TRIGGER match_sheets_touch_updated_at
+  BEFORE UPDATE ON match_sheets
+  FOR EACH ROW EXECUTE FUNCTION touch_updated_at();
+
+COMMENT ON COLUMN match_sheets.updated_at IS 'Date of the last modification, compared when replaying offline changes';
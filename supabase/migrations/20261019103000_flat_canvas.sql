@@ -0,0 +1,16 @@
+/*
+  # Text overlay layout for flat PDF templates
+
+  1. Changes
+    - `templates.overlay_layout`: text boxes and player/coach row tables drawn at fixed
+      coordinates, for scanned or flat PDFs that have no form fields
+      - `zones`: page, x, y, width, font size and data path of each text box
+      - `tableaux`: page, first row baseline, row height, row count, font size and columns
+
+  2. Security
+    - No policy change, existing template policies apply
+*/
+
+ALTER TABLE templates ADD COLUMN IF NOT EXISTS overlay_layout JSONB;
+
+COMMENT ON COLUMN templates.overlay_layout IS 'Text boxes drawn at fixed coordinates on templates without form fields';
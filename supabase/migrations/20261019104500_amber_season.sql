@@ -0,0 +1,76 @@
+/*
+  # Add template versions
+
+  1. Changes
+    - `templates.version`: number of the current version of the template (starts at 1)
+    - `match_sheets.template_version`: version of the template used when the sheet was
+      created, so that it can be regenerated with the same file and mappings.
+      Existing sheets with a template are set to version 1, the version of every
+      template when this migration runs; otherwise they would follow the newest version
+
+  2. New Tables
+    - `template_versions`: Append-only archive of the versions replaced by a newer file
+      - `file_url`, `field_mappings`, `overlay_layout`: the template as it was for this version
+      - `field_names`: AcroForm field names of the file, used to compare versions
+    - Versions are removed with their template (ON DELETE CASCADE)
+
+  3. Security
+    - Row Level Security enabled
+    - Public select, insert limited to club admins (who publish new versions)
+    - No update or delete policy: archived versions are never modified
+*/
+
+ALTER TABLE templates ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE match_sheets ADD COLUMN IF NOT EXISTS template_version INTEGER;
+
+UPDATE match_sheets
+SET template_version = 1
+WHERE template_version IS NULL
+AND template_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS template_versions (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  template_id uuid NOT NULL REFERENCES templates(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  file_url TEXT NOT NULL,
+  field_mappings JSONB,
+  overlay_layout JSONB,
+  field_names TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT template_versions_template_version_key UNIQUE (template_id, version)
+);
+
+ALTER TABLE template_versions ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'template_versions'
+    AND policyname = 'Allow anon and authenticated select for template_versions'
+  ) THEN
+    CREATE POLICY "Allow anon and authenticated select for template_versions"
+      ON public.template_versions
+      FOR SELECT
+      USING (true);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'template_versions'
+    AND policyname = 'Admins can archive template versions'
+  ) THEN
+    CREATE POLICY "Admins can archive template versions"
+      ON public.template_versions
+      FOR INSERT
+      TO authenticated
+      WITH CHECK (is_club_admin());
+  END IF;
+END $$;
+
+COMMENT ON TABLE template_versions IS 'Append-only archive of template files and mappings replaced by a newer version';
+COMMENT ON COLUMN templates.version IS 'Number of the current version, incremented when the file is replaced';
+COMMENT ON COLUMN match_sheets.template_version IS 'Template version used by the sheet; older versions are read from template_versions';
@@ -0,0 +1,54 @@
+/*
+  # Add a phone number to coaches
+
+  1. New Tables
+    - `coach_contacts`: optional phone number of a coach, printed on the cover page of
+      the tournament pack so that organisers can reach each category's referent coach
+      - One row per coach, removed with the coach (ON DELETE CASCADE)
+      - Kept out of `coaches`, whose rows are readable anonymously
+
+  2. Security
+    - Row Level Security enabled
+    - Select limited to signed-in users (no anon policy)
+    - Insert, update and delete limited to club admins, like coaches
+*/
+
+CREATE TABLE IF NOT EXISTS coach_contacts (
+  coach_id uuid PRIMARY KEY REFERENCES coaches(id) ON DELETE CASCADE,
+  phone TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE coach_contacts ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'coach_contacts'
+    AND policyname = 'Authenticated users can read coach contacts'
+  ) THEN
+    CREATE POLICY "Authenticated users can read coach contacts"
+      ON public.coach_contacts
+      FOR SELECT
+      TO authenticated
+      USING (true);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'coach_contacts'
+    AND policyname = 'Admins can manage coach contacts'
+  ) THEN
+    CREATE POLICY "Admins can manage coach contacts"
+      ON public.coach_contacts
+      FOR ALL
+      TO authenticated
+      USING (is_club_admin())
+      WITH CHECK (is_club_admin());
+  END IF;
+END $$;
+
+COMMENT ON TABLE coach_contacts IS 'Phone numbers of coaches, shown on tournament pack cover pages; not readable anonymously';
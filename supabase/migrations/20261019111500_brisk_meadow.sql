@@ -0,0 +1,17 @@
+/*
+  # Store roster rules with the age categories
+
+  1. Changes
+    - `age_categories.roster_rules`: roster rules of the category (number of players,
+      forwards, young referees, coach diplomas, birth years) as JSON; NULL uses the
+      default rules of the category. Stored in the database so that every coach of
+      the club checks match sheets against the same rules.
+
+  2. Security
+    - No policy change: age categories can only be updated by club admins
+      (see 20261019100000_gentle_keeper.sql)
+*/
+
+ALTER TABLE age_categories ADD COLUMN IF NOT EXISTS roster_rules jsonb;
+
+COMMENT ON COLUMN age_categories.roster_rules IS 'Roster rules of the category (JSON), NULL for the default rules';